@@ -0,0 +1,41 @@
+export type AccountType = 'debit' | 'credit' | 'cash' | 'savings';
+
+export const ACCOUNT_TYPE_LABELS: Record<AccountType, string> = {
+  debit: 'Debit Card',
+  credit: 'Credit Card',
+  cash: 'Cash',
+  savings: 'Savings'
+};
+
+// A card or account transactions belong to; Transaction.card mirrors its name for display
+export interface Account {
+  id: string; // Stored as accountId on its transactions
+  name: string;
+  type: AccountType;
+  currency: string; // ISO 4217 code
+  institution?: string;
+  aliases: string[]; // Masked numbers and other names statements use, e.g. "*1234" or "Card **** 1234"
+  openingBalance: number; // Balance before the earliest transaction, in the units of Transaction.amount
+  isArchived: boolean; // Hidden from pickers and filters, transactions are kept
+  createdAt: string;
+  updatedAt: string;
+}
+
+export interface CreateAccountRequest {
+  name: string;
+  type?: AccountType;
+  currency: string;
+  institution?: string;
+  aliases?: string[];
+  openingBalance?: number;
+}
+
+export interface UpdateAccountRequest {
+  name?: string;
+  type?: AccountType;
+  currency?: string;
+  institution?: string;
+  aliases?: string[];
+  openingBalance?: number;
+  isArchived?: boolean;
+}
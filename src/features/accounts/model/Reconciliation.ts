@@ -0,0 +1,17 @@
+import { Transaction } from '@/features/transactions/model/Transaction';
+
+// A bank statement the account was checked against; its transactions are locked
+export interface Reconciliation {
+  id: string; // Stored as reconciliationId on the reconciled transactions
+  accountId: string;
+  statementDate: string; // YYYY-MM-DD of the statement's closing balance
+  statementBalance: number; // Closing balance on the statement, in the units of Transaction.amount
+  transactionIds: string[]; // Cleared transactions this reconciliation locked
+  createdAt: string;
+}
+
+// Date, amount, currency and account of a reconciled transaction can't change, and it can't be removed
+export const isReconciled = (transaction: Transaction): boolean => !!transaction.reconciliationId;
+
+// Ticked off against a statement, whether or not that statement has been reconciled yet
+export const isCleared = (transaction: Transaction): boolean => !!transaction.isCleared || isReconciled(transaction);
@@ -0,0 +1,83 @@
+import { v4 as uuidv4 } from 'uuid';
+import { Transaction } from '@/features/transactions/model/Transaction';
+import { Account, AccountType } from '../model/Account';
+
+// Masked card numbers ("*1234", "**** 1234", "XXXX1234") or bare digits, ending in the last four
+const MASKED_NUMBER = /(?:^|\*|•|[xX]{2})[\s*•xX]*\d*(\d{4})$/;
+
+const TYPE_PATTERNS: [AccountType, RegExp][] = [
+  ['credit', /credit|кредит/i],
+  ['cash', /cash|готівк|налич/i],
+  ['savings', /saving|deposit|депозит|накопич/i]
+];
+
+// "Card *1234" and "1234" share a key; other names compare case- and whitespace-insensitively
+export const cardKey = (card: string): string => {
+  const trimmed = card.trim();
+  const masked = trimmed.match(MASKED_NUMBER);
+  return masked ? `*${masked[1]}` : trimmed.toLowerCase().replace(/\s+/g, ' ');
+};
+
+// Ties go to the value seen first
+const mostCommon = (values: string[]): string => {
+  const counts = new Map<string, number>();
+  values.forEach(value => counts.set(value, (counts.get(value) || 0) + 1));
+  return Array.from(counts.entries()).sort((a, b) => b[1] - a[1])[0][0];
+};
+
+/**
+ * Ties the free-text card names found in statements to accounts: an account
+ * answers to its name and every alias, compared by cardKey.
+ */
+export class AccountMatcher {
+  static matches(account: Account, card: string): boolean {
+    const key = cardKey(card);
+    return [account.name, ...account.aliases].some(name => cardKey(name) === key);
+  }
+
+  // Active accounts win over archived ones with the same alias
+  static findForCard(accounts: Account[], card: string): Account | undefined {
+    const matching = accounts.filter(account => this.matches(account, card));
+    return matching.find(account => !account.isArchived) || matching[0];
+  }
+
+  static guessType(name: string): AccountType {
+    return TYPE_PATTERNS.find(([, pattern]) => pattern.test(name))?.[0] || 'debit';
+  }
+
+  // One account per group of card names sharing a key, named after the most used spelling
+  static buildAccounts(transactions: Transaction[], now = new Date().toISOString()): {
+    accounts: Account[];
+    accountByCard: Map<string, Account>;
+  } {
+    const groups = new Map<string, Transaction[]>();
+    transactions.forEach(transaction => {
+      const key = cardKey(transaction.card || '');
+      groups.set(key, [...(groups.get(key) || []), transaction]);
+    });
+
+    const accounts: Account[] = [];
+    const accountByCard = new Map<string, Account>();
+
+    groups.forEach(group => {
+      const cards = group.map(transaction => transaction.card || '');
+      const name = mostCommon(cards).trim() || 'Imported Card';
+      const account: Account = {
+        id: uuidv4(),
+        name,
+        type: this.guessType(name),
+        currency: mostCommon(group.map(transaction => transaction.currency)),
+        aliases: Array.from(new Set(cards.map(card => card.trim()))).filter(card => card && card !== name),
+        openingBalance: 0,
+        isArchived: false,
+        createdAt: now,
+        updatedAt: now
+      };
+
+      accounts.push(account);
+      cards.forEach(card => accountByCard.set(card, account));
+    });
+
+    return { accounts, accountByCard };
+  }
+}
@@ -0,0 +1,37 @@
+import { transactionRepository } from '@/features/transactions/storage/TransactionRepository';
+import { Account } from '../model/Account';
+import { Reconciliation } from '../model/Reconciliation';
+import { accountRepository } from '../storage/AccountRepository';
+import { reconciliationRepository } from '../storage/ReconciliationRepository';
+import { BalanceCalculator } from './BalanceCalculator';
+
+export interface AccountBalance {
+  balance: number;
+  clearedBalance: number;
+  lastReconciliation?: Reconciliation;
+}
+
+export class AccountService {
+
+  // Running balances need every transaction of the account, not only the ones the filters show
+  async getRunningBalances(): Promise<Record<string, number>> {
+    const [transactions, accounts] = await Promise.all([
+      transactionRepository.findAll(),
+      accountRepository.findAll()
+    ]);
+    return BalanceCalculator.runningBalances(transactions, accounts);
+  }
+
+  async getBalances(accounts: Account[]): Promise<Record<string, AccountBalance>> {
+    const transactions = await transactionRepository.findAll();
+    const reconciliations = await Promise.all(accounts.map(account => reconciliationRepository.findByAccount(account.id)));
+
+    return Object.fromEntries(accounts.map((account, index) => [account.id, {
+      balance: BalanceCalculator.balance(account, transactions),
+      clearedBalance: BalanceCalculator.clearedBalance(account, transactions),
+      lastReconciliation: reconciliations[index][0]
+    }]));
+  }
+}
+
+export const accountService = new AccountService();
@@ -0,0 +1,47 @@
+import { Transaction } from '@/features/transactions/model/Transaction';
+import { Account } from '../model/Account';
+import { isCleared } from '../model/Reconciliation';
+
+// Sums are rounded to cents so a balanced statement shows a difference of exactly zero
+const roundCents = (value: number) => Math.round(value * 100) / 100;
+
+const chronological = (a: Transaction, b: Transaction) =>
+  a.date.localeCompare(b.date) || a.createdAt.localeCompare(b.createdAt) || a.id.localeCompare(b.id);
+
+const inAccount = (transactions: Transaction[], accountId: string) =>
+  transactions.filter(transaction => transaction.accountId === accountId && transaction.isArchived !== true);
+
+/**
+ * Account balances from the opening balance plus signed transaction amounts.
+ * Transfers count here: they leave one account and arrive in another.
+ */
+export class BalanceCalculator {
+  // Balance of the transaction's account right after it, keyed by transaction ID
+  static runningBalances(transactions: Transaction[], accounts: Account[]): Record<string, number> {
+    const balances = new Map(accounts.map(account => [account.id, account.openingBalance]));
+    const result: Record<string, number> = {};
+
+    transactions
+      .filter(transaction => transaction.accountId && balances.has(transaction.accountId) && transaction.isArchived !== true)
+      .sort(chronological)
+      .forEach(transaction => {
+        const balance = roundCents(balances.get(transaction.accountId!)! + transaction.amount);
+        balances.set(transaction.accountId!, balance);
+        result[transaction.id] = balance;
+      });
+
+    return result;
+  }
+
+  static balance(account: Account, transactions: Transaction[]): number {
+    return roundCents(inAccount(transactions, account.id)
+      .reduce((sum, transaction) => sum + transaction.amount, account.openingBalance));
+  }
+
+  // What the bank should show once every cleared transaction has gone through
+  static clearedBalance(account: Account, transactions: Transaction[]): number {
+    return roundCents(inAccount(transactions, account.id)
+      .filter(isCleared)
+      .reduce((sum, transaction) => sum + transaction.amount, account.openingBalance));
+  }
+}
@@ -0,0 +1,170 @@
+import { v4 as uuidv4 } from 'uuid';
+import { db } from '@/features/transactions/storage/TransactionDatabase';
+import { Account, CreateAccountRequest, UpdateAccountRequest } from '../model/Account';
+import { AccountMatcher } from '../service/AccountMatcher';
+
+const cleanAliases = (aliases: string[], name: string) =>
+  Array.from(new Set(aliases.map(alias => alias.trim()))).filter(alias => alias && alias !== name);
+
+export class AccountRepository {
+
+  async create(request: CreateAccountRequest): Promise<Account> {
+    const account = this.build(request, new Date().toISOString());
+    await db.accounts.add(account);
+
+    console.log('✅ Account created:', account.name);
+    return account;
+  }
+
+  async findAll(includeArchived = true): Promise<Account[]> {
+    const accounts = await db.accounts.orderBy('name').toArray();
+    return includeArchived ? accounts : accounts.filter(account => !account.isArchived);
+  }
+
+  async findById(id: string): Promise<Account | null> {
+    const account = await db.accounts.get(id);
+    return account || null;
+  }
+
+  async findByCard(card: string): Promise<Account | null> {
+    return AccountMatcher.findForCard(await this.findAll(), card) || null;
+  }
+
+  // Finds the account behind each card name, creating accounts for names seen for the first time.
+  // Run inside a transaction that includes db.accounts when called while saving transactions.
+  async resolveCards(cards: { card: string; currency: string }[]): Promise<Map<string, Account>> {
+    const accounts = await this.findAll();
+    const created: Account[] = [];
+    const byCard = new Map<string, Account>();
+    const now = new Date().toISOString();
+
+    cards.forEach(({ card, currency }) => {
+      if (byCard.has(card)) return;
+
+      let account = AccountMatcher.findForCard([...accounts, ...created], card);
+      if (!account) {
+        account = this.build({ name: card.trim() || 'Imported Card', currency }, now);
+        created.push(account);
+      }
+      byCard.set(card, account);
+    });
+
+    if (created.length > 0) {
+      await db.accounts.bulkAdd(created);
+      console.log(`✅ ${created.length} accounts created:`, created.map(account => account.name).join(', '));
+    }
+    return byCard;
+  }
+
+  // A new name is written to the account's transactions as well, so Transaction.card stays in sync
+  async update(id: string, updates: UpdateAccountRequest): Promise<Account> {
+    return await db.transaction('rw', db.accounts, db.transactions, db.rules, async () => {
+      const existing = await this.findById(id);
+      if (!existing) {
+        throw new Error(`Account with id ${id} not found`);
+      }
+
+      const name = updates.name !== undefined ? updates.name.trim() : existing.name;
+      const updated: Account = {
+        ...existing,
+        ...updates,
+        name,
+        institution: updates.institution !== undefined ? updates.institution.trim() || undefined : existing.institution,
+        // The old name keeps matching statements that still use it
+        aliases: cleanAliases([...(updates.aliases ?? existing.aliases), ...(name !== existing.name ? [existing.name] : [])], name),
+        updatedAt: new Date().toISOString()
+      };
+
+      await db.accounts.put(updated);
+      if (name !== existing.name) {
+        await db.transactions.where('accountId').equals(id).modify({ card: name });
+      }
+      await this.pointRules([], updated);
+
+      console.log('✅ Account updated:', updated.name);
+      return updated;
+    });
+  }
+
+  // Moves every transaction of the source account to the target, which takes over its names
+  async merge(sourceId: string, targetId: string): Promise<Account> {
+    if (sourceId === targetId) {
+      throw new Error('Cannot merge an account into itself');
+    }
+
+    return await db.transaction('rw', [db.accounts, db.transactions, db.reconciliations, db.rules], async () => {
+      const [source, target] = await Promise.all([this.findById(sourceId), this.findById(targetId)]);
+      if (!source || !target) {
+        throw new Error(`Account with id ${source ? targetId : sourceId} not found`);
+      }
+
+      const merged: Account = {
+        ...target,
+        aliases: cleanAliases([...target.aliases, source.name, ...source.aliases], target.name),
+        openingBalance: target.openingBalance + source.openingBalance,
+        updatedAt: new Date().toISOString()
+      };
+
+      await db.transactions.where('accountId').equals(sourceId).modify({ accountId: targetId, card: target.name });
+      await db.reconciliations.where('accountId').equals(sourceId).modify({ accountId: targetId });
+      await this.pointRules([sourceId], merged);
+      await db.accounts.put(merged);
+      await db.accounts.delete(sourceId);
+
+      console.log(`✅ Account ${source.name} merged into ${target.name}`);
+      return merged;
+    });
+  }
+
+  // Only accounts without transactions can be deleted; others are archived or merged
+  async delete(id: string): Promise<void> {
+    await db.transaction('rw', db.accounts, db.transactions, async () => {
+      const count = await db.transactions.where('accountId').equals(id).count();
+      if (count > 0) {
+        throw new Error(`Account has ${count} transactions; archive it or merge it into another account`);
+      }
+      await db.accounts.delete(id);
+    });
+
+    console.log('✅ Account deleted:', id);
+  }
+
+  async countTransactions(): Promise<Record<string, number>> {
+    const counts: Record<string, number> = {};
+    await db.transactions.each(transaction => {
+      if (transaction.accountId) {
+        counts[transaction.accountId] = (counts[transaction.accountId] || 0) + 1;
+      }
+    });
+    return counts;
+  }
+
+  // Rules scoped to one of the given accounts, or still naming the account by a card it answers to, are moved to it
+  private async pointRules(fromIds: string[], account: Account): Promise<void> {
+    await db.rules
+      .filter(rule => fromIds.includes(rule.conditions.accountId || '')
+        || (!!rule.conditions.card && AccountMatcher.matches(account, rule.conditions.card)))
+      .modify(rule => {
+        const { card, ...conditions } = rule.conditions;
+        rule.conditions = { ...conditions, accountId: account.id };
+      });
+  }
+
+  private build(request: CreateAccountRequest, now: string): Account {
+    const name = request.name.trim();
+    return {
+      id: uuidv4(),
+      name,
+      type: request.type || AccountMatcher.guessType(name),
+      currency: request.currency,
+      institution: request.institution?.trim() || undefined,
+      aliases: cleanAliases(request.aliases || [], name),
+      openingBalance: request.openingBalance || 0,
+      isArchived: false,
+      createdAt: now,
+      updatedAt: now
+    };
+  }
+}
+
+export const accountRepository = new AccountRepository();
@@ -0,0 +1,87 @@
+import { v4 as uuidv4 } from 'uuid';
+import { db } from '@/features/transactions/storage/TransactionDatabase';
+import { toISODate } from '@/shared/utils/dateUtils';
+import { Reconciliation, isReconciled } from '../model/Reconciliation';
+import { BalanceCalculator } from '../service/BalanceCalculator';
+
+export class ReconciliationRepository {
+
+  // Newest statement first
+  async findByAccount(accountId: string): Promise<Reconciliation[]> {
+    const reconciliations = await db.reconciliations.where('accountId').equals(accountId).toArray();
+    return reconciliations.sort((a, b) => b.statementDate.localeCompare(a.statementDate) || b.createdAt.localeCompare(a.createdAt));
+  }
+
+  // Ticks are saved right away, so a reconciliation can be finished later
+  async setCleared(transactionIds: string[], isCleared: boolean): Promise<void> {
+    await db.transaction('rw', db.transactions, async () => {
+      const transactions = await db.transactions.bulkGet(transactionIds);
+      const changes = transactions
+        .filter(transaction => transaction && !isReconciled(transaction))
+        .map(transaction => ({ key: transaction!.id, changes: { isCleared } }));
+      await db.transactions.bulkUpdate(changes);
+    });
+  }
+
+  // Locks the cleared transactions up to the statement date once their balance matches the statement
+  async finish(accountId: string, statementDate: string, statementBalance: number): Promise<Reconciliation> {
+    return await db.transaction('rw', db.accounts, db.transactions, db.reconciliations, async () => {
+      const account = await db.accounts.get(accountId);
+      if (!account) {
+        throw new Error(`Account with id ${accountId} not found`);
+      }
+
+      const transactions = await db.transactions.where('accountId').equals(accountId).toArray();
+      // Dates are stored in UTC; the statement date is a local day
+      const onStatement = transactions.filter(transaction => toISODate(new Date(transaction.date)) <= statementDate);
+      const difference = Math.round((statementBalance - BalanceCalculator.clearedBalance(account, onStatement)) * 100) / 100;
+      if (difference !== 0) {
+        throw new Error(`Cleared transactions differ from the statement by ${difference}`);
+      }
+
+      const toLock = onStatement.filter(transaction => transaction.isCleared && !isReconciled(transaction) && transaction.isArchived !== true);
+      const reconciliation: Reconciliation = {
+        id: uuidv4(),
+        accountId,
+        statementDate,
+        statementBalance,
+        transactionIds: toLock.map(transaction => transaction.id),
+        createdAt: new Date().toISOString()
+      };
+
+      await db.reconciliations.add(reconciliation);
+      await db.transactions.bulkUpdate(toLock.map(transaction => ({
+        key: transaction.id,
+        changes: { reconciliationId: reconciliation.id }
+      })));
+
+      console.log(`✅ Reconciled ${account.name} to ${statementDate} (${toLock.length} transactions)`);
+      return reconciliation;
+    });
+  }
+
+  // Only the account's latest reconciliation can be undone; its transactions stay ticked but unlocked
+  async undo(id: string): Promise<void> {
+    await db.transaction('rw', db.transactions, db.reconciliations, async () => {
+      const reconciliation = await db.reconciliations.get(id);
+      if (!reconciliation) {
+        throw new Error(`Reconciliation with id ${id} not found`);
+      }
+
+      const [latest] = await this.findByAccount(reconciliation.accountId);
+      if (latest.id !== id) {
+        throw new Error('Undo the later reconciliations of this account first');
+      }
+
+      await db.transactions.bulkUpdate(reconciliation.transactionIds.map(transactionId => ({
+        key: transactionId,
+        changes: { reconciliationId: undefined }
+      })));
+      await db.reconciliations.delete(id);
+    });
+
+    console.log('✅ Reconciliation undone:', id);
+  }
+}
+
+export const reconciliationRepository = new ReconciliationRepository();
@@ -0,0 +1,226 @@
+import React, { useState, useEffect } from 'react';
+import { View, ScrollView, StyleSheet } from 'react-native';
+import {
+  Modal,
+  Portal,
+  Surface,
+  Text,
+  Button,
+  TextInput,
+  Chip,
+  HelperText
+} from 'react-native-paper';
+import { Account, AccountType, ACCOUNT_TYPE_LABELS, CreateAccountRequest } from '../../model/Account';
+import { AccountMatcher } from '../../service/AccountMatcher';
+import { parseLocaleAmount } from '@/shared/utils/currencyUtils';
+import { theme } from '@/shared/ui/theme/theme';
+
+interface AccountEditorModalProps {
+  visible: boolean;
+  account: Account | null; // Null creates a new account
+  onSave: (request: CreateAccountRequest) => Promise<void>;
+  onDismiss: () => void;
+}
+
+const TYPE_OPTIONS = Object.entries(ACCOUNT_TYPE_LABELS) as [AccountType, string][];
+
+const parseAliases = (text: string): string[] =>
+  text.split(',').map(alias => alias.trim()).filter(Boolean);
+
+export const AccountEditorModal: React.FC<AccountEditorModalProps> = ({
+  visible,
+  account,
+  onSave,
+  onDismiss
+}) => {
+  const [name, setName] = useState('');
+  const [type, setType] = useState<AccountType | undefined>(undefined);
+  const [currency, setCurrency] = useState('UAH');
+  const [institution, setInstitution] = useState('');
+  const [aliasesText, setAliasesText] = useState('');
+  const [openingBalanceText, setOpeningBalanceText] = useState('');
+  const [saveError, setSaveError] = useState<string | null>(null);
+
+  useEffect(() => {
+    if (!visible) return;
+
+    setName(account?.name || '');
+    setType(account?.type);
+    setCurrency(account?.currency || 'UAH');
+    setInstitution(account?.institution || '');
+    setAliasesText(account?.aliases.join(', ') || '');
+    setOpeningBalanceText(account?.openingBalance ? String(account.openingBalance) : '');
+    setSaveError(null);
+  }, [visible, account]);
+
+  const openingBalance = openingBalanceText.trim() ? parseLocaleAmount(openingBalanceText).value : 0;
+  const isCurrencyValid = /^[A-Z]{3}$/.test(currency);
+  const isValid = !!name.trim() && isCurrencyValid && openingBalance !== null;
+  // Until picked, the type follows the name the way imported accounts are typed
+  const effectiveType = type || AccountMatcher.guessType(name);
+
+  const handleSave = async () => {
+    setSaveError(null);
+    try {
+      await onSave({
+        name,
+        type: effectiveType,
+        currency,
+        institution,
+        aliases: parseAliases(aliasesText),
+        openingBalance: openingBalance || 0
+      });
+      onDismiss();
+    } catch (error) {
+      console.error('Failed to save account:', error);
+      setSaveError(error instanceof Error ? error.message : 'Failed to save account');
+    }
+  };
+
+  return (
+    <Portal>
+      <Modal
+        visible={visible}
+        onDismiss={onDismiss}
+        contentContainerStyle={styles.modalContainer}
+      >
+        <Surface style={styles.modalSurface}>
+          <Text variant="titleMedium" style={styles.modalTitle}>
+            {account ? 'Edit Account' : 'New Account'}
+          </Text>
+
+          <ScrollView style={styles.content}>
+            <TextInput
+              mode="outlined"
+              dense
+              label="Name"
+              value={name}
+              onChangeText={setName}
+              style={styles.input}
+            />
+
+            <Text variant="titleSmall" style={styles.groupTitle}>Type</Text>
+            <View style={styles.chips}>
+              {TYPE_OPTIONS.map(([value, label]) => (
+                <Chip
+                  key={value}
+                  compact
+                  selected={effectiveType === value}
+                  onPress={() => setType(value)}
+                >
+                  {label}
+                </Chip>
+              ))}
+            </View>
+
+            <View style={styles.row}>
+              <TextInput
+                mode="outlined"
+                dense
+                label="Currency"
+                autoCapitalize="characters"
+                maxLength={3}
+                value={currency}
+                error={!isCurrencyValid}
+                onChangeText={(text) => setCurrency(text.toUpperCase())}
+                style={styles.rowInput}
+              />
+              <TextInput
+                mode="outlined"
+                dense
+                label="Opening balance"
+                keyboardType="decimal-pad"
+                value={openingBalanceText}
+                error={openingBalance === null}
+                onChangeText={setOpeningBalanceText}
+                style={styles.rowInput}
+              />
+            </View>
+
+            <TextInput
+              mode="outlined"
+              dense
+              label="Bank or institution"
+              value={institution}
+              onChangeText={setInstitution}
+              style={styles.input}
+            />
+            <TextInput
+              mode="outlined"
+              dense
+              label="Other names (comma-separated)"
+              placeholder="*1234, Card **** 1234"
+              value={aliasesText}
+              onChangeText={setAliasesText}
+              style={styles.input}
+            />
+            <HelperText type="info" padding="none">
+              Statements using any of these names, or the same last four digits, are imported into this account.
+            </HelperText>
+
+            {saveError && (
+              <HelperText type="error" padding="none">{saveError}</HelperText>
+            )}
+          </ScrollView>
+
+          <View style={styles.actions}>
+            <Button mode="outlined" onPress={onDismiss}>
+              Cancel
+            </Button>
+            <Button mode="contained" onPress={handleSave} disabled={!isValid}>
+              Save
+            </Button>
+          </View>
+        </Surface>
+      </Modal>
+    </Portal>
+  );
+};
+
+const styles = StyleSheet.create({
+  modalContainer: {
+    margin: theme.spacing.lg,
+    maxHeight: '85%',
+  },
+  modalSurface: {
+    backgroundColor: theme.colors.surface,
+    borderRadius: theme.borderRadius.lg,
+    padding: theme.spacing.md,
+  },
+  modalTitle: {
+    marginBottom: theme.spacing.md,
+    textAlign: 'center',
+    fontWeight: '600',
+  },
+  content: {
+    maxHeight: 480,
+  },
+  groupTitle: {
+    marginTop: theme.spacing.md,
+    marginBottom: theme.spacing.sm,
+    fontWeight: '600',
+  },
+  chips: {
+    flexDirection: 'row',
+    flexWrap: 'wrap',
+    gap: theme.spacing.sm,
+    marginBottom: theme.spacing.sm,
+  },
+  row: {
+    flexDirection: 'row',
+    gap: theme.spacing.sm,
+  },
+  rowInput: {
+    flex: 1,
+    marginTop: theme.spacing.sm,
+  },
+  input: {
+    marginTop: theme.spacing.sm,
+  },
+  actions: {
+    flexDirection: 'row',
+    justifyContent: 'flex-end',
+    gap: theme.spacing.sm,
+    marginTop: theme.spacing.md,
+  },
+});
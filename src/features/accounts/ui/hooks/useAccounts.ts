@@ -0,0 +1,62 @@
+import { useState, useEffect, useCallback } from 'react';
+import { Account, CreateAccountRequest, UpdateAccountRequest } from '../../model/Account';
+import { accountRepository } from '../../storage/AccountRepository';
+
+export const useAccounts = (enabled = true) => {
+  const [accounts, setAccounts] = useState<Account[]>([]);
+  const [transactionCounts, setTransactionCounts] = useState<Record<string, number>>({});
+  const [isLoading, setIsLoading] = useState(false);
+
+  const loadAccounts = useCallback(async () => {
+    setIsLoading(true);
+    try {
+      const [loaded, counts] = await Promise.all([
+        accountRepository.findAll(),
+        accountRepository.countTransactions()
+      ]);
+      setAccounts(loaded);
+      setTransactionCounts(counts);
+    } catch (error) {
+      console.error('Failed to load accounts:', error);
+    } finally {
+      setIsLoading(false);
+    }
+  }, []);
+
+  useEffect(() => {
+    if (enabled) {
+      loadAccounts();
+    }
+  }, [enabled, loadAccounts]);
+
+  const createAccount = useCallback(async (request: CreateAccountRequest) => {
+    await accountRepository.create(request);
+    await loadAccounts();
+  }, [loadAccounts]);
+
+  const updateAccount = useCallback(async (id: string, updates: UpdateAccountRequest) => {
+    await accountRepository.update(id, updates);
+    await loadAccounts();
+  }, [loadAccounts]);
+
+  const mergeAccount = useCallback(async (sourceId: string, targetId: string) => {
+    await accountRepository.merge(sourceId, targetId);
+    await loadAccounts();
+  }, [loadAccounts]);
+
+  const deleteAccount = useCallback(async (id: string) => {
+    await accountRepository.delete(id);
+    await loadAccounts();
+  }, [loadAccounts]);
+
+  return {
+    accounts,
+    transactionCounts,
+    isLoading,
+    loadAccounts,
+    createAccount,
+    updateAccount,
+    mergeAccount,
+    deleteAccount
+  };
+};
@@ -0,0 +1,342 @@
+import React, { useState, useEffect, useCallback } from 'react';
+import { View, ScrollView, StyleSheet } from 'react-native';
+import { Card, Text, Button, Chip, Menu, ActivityIndicator, Portal, Modal } from 'react-native-paper';
+import { SafeAreaView } from 'react-native-safe-area-context';
+import { Account, ACCOUNT_TYPE_LABELS, CreateAccountRequest } from '../../model/Account';
+import { useAccounts } from '../hooks/useAccounts';
+import { AccountEditorModal } from '../components/AccountEditorModal';
+import { ReconcileScreen } from './ReconcileScreen';
+import { accountService, AccountBalance } from '../../service/AccountService';
+import { useTransactionStore } from '@/features/transactions/store/transactionStore';
+import { ModalHeader } from '@/shared/ui/components/ModalHeader';
+import { ConfirmationDialog } from '@/shared/ui/components/ConfirmationDialog';
+import { formatCurrency } from '@/shared/utils/currencyUtils';
+import { formatDate } from '@/shared/utils/dateUtils';
+import { theme } from '@/shared/ui/theme/theme';
+
+interface AccountsScreenProps {
+  onClose: () => void;
+}
+
+interface PendingMerge {
+  source: Account;
+  target: Account;
+}
+
+const describeAccount = (account: Account) =>
+  [ACCOUNT_TYPE_LABELS[account.type], account.currency, account.institution].filter(Boolean).join(' · ');
+
+export const AccountsScreen: React.FC<AccountsScreenProps> = ({ onClose }) => {
+  const loadTransactions = useTransactionStore(state => state.loadTransactions);
+  const {
+    accounts,
+    transactionCounts,
+    isLoading,
+    createAccount,
+    updateAccount,
+    mergeAccount,
+    deleteAccount
+  } = useAccounts();
+
+  const [editingAccount, setEditingAccount] = useState<Account | null>(null);
+  const [showEditor, setShowEditor] = useState(false);
+  const [mergeMenuId, setMergeMenuId] = useState<string | null>(null);
+  const [pendingMerge, setPendingMerge] = useState<PendingMerge | null>(null);
+  const [message, setMessage] = useState<string | null>(null);
+  const [balances, setBalances] = useState<Record<string, AccountBalance>>({});
+  const [reconcilingAccount, setReconcilingAccount] = useState<Account | null>(null);
+
+  const loadBalances = useCallback(async () => {
+    try {
+      setBalances(await accountService.getBalances(accounts));
+    } catch (balanceError) {
+      console.error('Failed to load account balances:', balanceError);
+    }
+  }, [accounts]);
+
+  // Balances are recomputed whenever the account list reloads after a change
+  useEffect(() => {
+    loadBalances();
+  }, [loadBalances]);
+
+  const closeReconcile = () => {
+    setReconcilingAccount(null);
+    loadBalances();
+  };
+
+  const activeAccounts = accounts.filter(account => !account.isArchived);
+  const archivedAccounts = accounts.filter(account => account.isArchived);
+
+  const openEditor = (account: Account | null) => {
+    setEditingAccount(account);
+    setShowEditor(true);
+  };
+
+  // Renames and merges rewrite transaction card names, so the list is reloaded after each change
+  const runAction = async (action: () => Promise<void>, successMessage?: string) => {
+    setMessage(null);
+    try {
+      await action();
+      await loadTransactions();
+      if (successMessage) setMessage(successMessage);
+    } catch (actionError) {
+      console.error('❌ Account update failed:', actionError);
+      setMessage(`Account update failed: ${actionError instanceof Error ? actionError.message : 'Unknown error'}`);
+    }
+  };
+
+  const handleSave = async (request: CreateAccountRequest) => {
+    if (editingAccount) {
+      await updateAccount(editingAccount.id, request);
+    } else {
+      await createAccount(request);
+    }
+    await loadTransactions();
+  };
+
+  const handleMerge = async () => {
+    if (!pendingMerge) return;
+    const { source, target } = pendingMerge;
+    setPendingMerge(null);
+    await runAction(() => mergeAccount(source.id, target.id), `${source.name} merged into ${target.name}`);
+  };
+
+  const renderAccount = (account: Account) => {
+    const count = transactionCounts[account.id] || 0;
+    const mergeTargets = accounts.filter(other => other.id !== account.id);
+    const balance = balances[account.id];
+
+    return (
+      <Card key={account.id} style={[styles.accountCard, account.isArchived && styles.archivedCard]} onPress={() => openEditor(account)}>
+        <Card.Content>
+          <View style={styles.accountHeader}>
+            <View style={styles.accountTitle}>
+              <Text variant="titleSmall" numberOfLines={1}>{account.name}</Text>
+              <Text variant="bodySmall" style={styles.accountMeta}>{describeAccount(account)}</Text>
+              {account.aliases.length > 0 && (
+                <Text variant="bodySmall" style={styles.accountMeta} numberOfLines={2}>
+                  Also: {account.aliases.join(', ')}
+                </Text>
+              )}
+            </View>
+            <Chip compact style={styles.countChip}>
+              {count} {count === 1 ? 'transaction' : 'transactions'}
+            </Chip>
+          </View>
+
+          {balance && (
+            <Text variant="bodyMedium" style={styles.balanceText}>
+              Balance {formatCurrency(balance.balance, account.currency)}
+            </Text>
+          )}
+          {balance?.lastReconciliation && (
+            <Text variant="bodySmall" style={styles.accountMeta}>
+              🔒 Reconciled to {formatDate(balance.lastReconciliation.statementDate)}
+            </Text>
+          )}
+          {account.openingBalance !== 0 && (
+            <Text variant="bodySmall" style={styles.accountMeta}>
+              Opening balance {formatCurrency(account.openingBalance, account.currency)}
+            </Text>
+          )}
+
+          <View style={styles.actions}>
+            {!account.isArchived && count > 0 && (
+              <Button mode="text" compact onPress={() => setReconcilingAccount(account)}>
+                Reconcile
+              </Button>
+            )}
+            {mergeTargets.length > 0 && (
+              <Menu
+                visible={mergeMenuId === account.id}
+                onDismiss={() => setMergeMenuId(null)}
+                anchor={
+                  <Button mode="text" compact onPress={() => setMergeMenuId(account.id)}>
+                    Merge Into…
+                  </Button>
+                }
+              >
+                {mergeTargets.map(target => (
+                  <Menu.Item
+                    key={target.id}
+                    title={target.name}
+                    onPress={() => {
+                      setMergeMenuId(null);
+                      setPendingMerge({ source: account, target });
+                    }}
+                  />
+                ))}
+              </Menu>
+            )}
+            <Button
+              mode="text"
+              compact
+              onPress={() => runAction(() => updateAccount(account.id, { isArchived: !account.isArchived }))}
+            >
+              {account.isArchived ? 'Restore' : 'Archive'}
+            </Button>
+            {count === 0 && (
+              <Button
+                mode="text"
+                compact
+                textColor={theme.colors.error}
+                onPress={() => runAction(() => deleteAccount(account.id))}
+              >
+                Delete
+              </Button>
+            )}
+          </View>
+        </Card.Content>
+      </Card>
+    );
+  };
+
+  return (
+    <SafeAreaView style={styles.container}>
+      <ModalHeader
+        title="Accounts"
+        variant="screen"
+        leftAction={{
+          label: "Back",
+          onPress: onClose
+        }}
+        rightAction={{
+          label: "Add",
+          onPress: () => openEditor(null)
+        }}
+      />
+
+      <ScrollView style={styles.content}>
+        <Text variant="bodySmall" style={styles.hintText}>
+          Imported card names are matched to accounts by name, other names and the last four digits of the card number. Merge accounts that are the same card under different names.
+        </Text>
+
+        {message && (
+          <Text variant="bodyMedium" style={styles.messageText}>{message}</Text>
+        )}
+
+        {isLoading && accounts.length === 0 ? (
+          <ActivityIndicator style={styles.loader} />
+        ) : accounts.length === 0 ? (
+          <Text variant="bodyMedium" style={styles.emptyText}>
+            No accounts yet. They are created from card names when you import or add transactions.
+          </Text>
+        ) : (
+          <>
+            {activeAccounts.map(renderAccount)}
+            {archivedAccounts.length > 0 && (
+              <>
+                <Text variant="titleMedium" style={styles.sectionTitle}>
+                  Archived ({archivedAccounts.length})
+                </Text>
+                {archivedAccounts.map(renderAccount)}
+              </>
+            )}
+          </>
+        )}
+      </ScrollView>
+
+      <AccountEditorModal
+        visible={showEditor}
+        account={editingAccount}
+        onSave={handleSave}
+        onDismiss={() => setShowEditor(false)}
+      />
+
+      <Portal>
+        <Modal
+          visible={!!reconcilingAccount}
+          onDismiss={closeReconcile}
+          contentContainerStyle={styles.fullScreenModal}
+        >
+          {reconcilingAccount && (
+            <ReconcileScreen
+              account={reconcilingAccount}
+              onClose={closeReconcile}
+            />
+          )}
+        </Modal>
+      </Portal>
+
+      <ConfirmationDialog
+        visible={!!pendingMerge}
+        title="Merge Accounts"
+        message={pendingMerge
+          ? `Move ${transactionCounts[pendingMerge.source.id] || 0} transactions from ${pendingMerge.source.name} to ${pendingMerge.target.name}? ${pendingMerge.source.name} will be removed and kept as another name of ${pendingMerge.target.name}.`
+          : ''}
+        confirmText="Merge"
+        cancelText="Cancel"
+        confirmButtonColor={theme.colors.primary}
+        onConfirm={handleMerge}
+        onCancel={() => setPendingMerge(null)}
+      />
+    </SafeAreaView>
+  );
+};
+
+const styles = StyleSheet.create({
+  container: {
+    flex: 1,
+    backgroundColor: theme.colors.backgroundSecondary,
+  },
+  content: {
+    flex: 1,
+    padding: theme.spacing.md,
+  },
+  loader: {
+    marginTop: theme.spacing.xl,
+  },
+  hintText: {
+    color: theme.colors.text.secondary,
+    marginBottom: theme.spacing.md,
+  },
+  emptyText: {
+    textAlign: 'center',
+    color: theme.colors.text.secondary,
+    marginTop: theme.spacing.xl,
+  },
+  messageText: {
+    color: theme.colors.text.primary,
+    marginBottom: theme.spacing.md,
+  },
+  sectionTitle: {
+    marginTop: theme.spacing.md,
+    marginBottom: theme.spacing.sm,
+    fontWeight: '600',
+  },
+  accountCard: {
+    marginBottom: theme.spacing.md,
+  },
+  archivedCard: {
+    opacity: 0.6,
+  },
+  accountHeader: {
+    flexDirection: 'row',
+    alignItems: 'flex-start',
+    gap: theme.spacing.sm,
+  },
+  accountTitle: {
+    flex: 1,
+  },
+  accountMeta: {
+    color: theme.colors.text.secondary,
+    marginTop: theme.spacing.xs,
+  },
+  balanceText: {
+    marginTop: theme.spacing.sm,
+    fontWeight: '600',
+  },
+  countChip: {
+    backgroundColor: theme.colors.backgroundSecondary,
+  },
+  actions: {
+    flexDirection: 'row',
+    justifyContent: 'flex-end',
+    gap: theme.spacing.sm,
+    marginTop: theme.spacing.sm,
+  },
+  fullScreenModal: {
+    flex: 1,
+    backgroundColor: theme.colors.backgroundSecondary,
+  },
+});
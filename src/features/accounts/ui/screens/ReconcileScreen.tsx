@@ -0,0 +1,339 @@
+import React, { useState, useEffect, useCallback } from 'react';
+import { View, ScrollView, StyleSheet } from 'react-native';
+import { Card, Text, Button, TextInput, IconButton, Divider, HelperText, ActivityIndicator } from 'react-native-paper';
+import { SafeAreaView } from 'react-native-safe-area-context';
+import { Transaction } from '@/features/transactions/model/Transaction';
+import { transactionRepository } from '@/features/transactions/storage/TransactionRepository';
+import { useTransactionStore } from '@/features/transactions/store/transactionStore';
+import { Account } from '../../model/Account';
+import { Reconciliation, isCleared, isReconciled } from '../../model/Reconciliation';
+import { reconciliationRepository } from '../../storage/ReconciliationRepository';
+import { BalanceCalculator } from '../../service/BalanceCalculator';
+import { ModalHeader } from '@/shared/ui/components/ModalHeader';
+import { formatCurrency, parseLocaleAmount } from '@/shared/utils/currencyUtils';
+import { formatDate, getCurrentDateISO, toISODate } from '@/shared/utils/dateUtils';
+import { theme } from '@/shared/ui/theme/theme';
+
+interface ReconcileScreenProps {
+  account: Account;
+  onClose: () => void;
+}
+
+const chronological = (a: Transaction, b: Transaction) => a.date.localeCompare(b.date);
+
+/**
+ * Checks an account against a bank statement: the user enters the closing
+ * balance and date, ticks off the transactions the statement lists, and can
+ * finish once the cleared balance equals the statement.
+ */
+export const ReconcileScreen: React.FC<ReconcileScreenProps> = ({ account, onClose }) => {
+  const loadTransactions = useTransactionStore(state => state.loadTransactions);
+
+  const [transactions, setTransactions] = useState<Transaction[]>([]);
+  const [reconciliations, setReconciliations] = useState<Reconciliation[]>([]);
+  const [statementDate, setStatementDate] = useState(getCurrentDateISO());
+  const [statementBalanceText, setStatementBalanceText] = useState('');
+  const [isLoading, setIsLoading] = useState(true);
+  const [isSaving, setIsSaving] = useState(false);
+  const [message, setMessage] = useState<string | null>(null);
+
+  const loadAccount = useCallback(async () => {
+    setIsLoading(true);
+    try {
+      const [all, history] = await Promise.all([
+        transactionRepository.findAll(),
+        reconciliationRepository.findByAccount(account.id)
+      ]);
+      setTransactions(all.filter(transaction => transaction.accountId === account.id).sort(chronological));
+      setReconciliations(history);
+    } catch (loadError) {
+      console.error('Failed to load reconciliation:', loadError);
+      setMessage('Failed to load transactions');
+    } finally {
+      setIsLoading(false);
+    }
+  }, [account.id]);
+
+  useEffect(() => {
+    loadAccount();
+  }, [loadAccount]);
+
+  const isDateValid = /^\d{4}-\d{2}-\d{2}$/.test(statementDate);
+  const statementBalance = statementBalanceText.trim() ? parseLocaleAmount(statementBalanceText).value : null;
+
+  const onStatement = isDateValid
+    ? transactions.filter(transaction => toISODate(new Date(transaction.date)) <= statementDate)
+    : [];
+  const open = onStatement.filter(transaction => !isReconciled(transaction));
+  const clearedBalance = BalanceCalculator.clearedBalance(account, onStatement);
+  const difference = statementBalance !== null
+    ? Math.round((statementBalance - clearedBalance) * 100) / 100
+    : null;
+  const canFinish = difference === 0 && open.some(transaction => transaction.isCleared) && !isSaving;
+
+  const setCleared = async (ids: string[], cleared: boolean) => {
+    setMessage(null);
+    try {
+      await reconciliationRepository.setCleared(ids, cleared);
+      setTransactions(prev => prev.map(transaction =>
+        ids.includes(transaction.id) ? { ...transaction, isCleared: cleared } : transaction
+      ));
+    } catch (clearError) {
+      console.error('❌ Failed to update cleared state:', clearError);
+      setMessage('Failed to update cleared state');
+    }
+  };
+
+  const allTicked = open.length > 0 && open.every(transaction => transaction.isCleared);
+
+  const runAction = async (action: () => Promise<unknown>, successMessage: string) => {
+    setIsSaving(true);
+    setMessage(null);
+    try {
+      await action();
+      await Promise.all([loadAccount(), loadTransactions()]);
+      setMessage(successMessage);
+    } catch (actionError) {
+      console.error('❌ Reconciliation failed:', actionError);
+      setMessage(`Reconciliation failed: ${actionError instanceof Error ? actionError.message : 'Unknown error'}`);
+    } finally {
+      setIsSaving(false);
+    }
+  };
+
+  const handleFinish = () => runAction(
+    () => reconciliationRepository.finish(account.id, statementDate, statementBalance!),
+    `Reconciled to ${formatDate(statementDate)}; cleared transactions are now locked`
+  );
+
+  return (
+    <SafeAreaView style={styles.container}>
+      <ModalHeader
+        title={`Reconcile ${account.name}`}
+        variant="screen"
+        leftAction={{
+          label: "Back",
+          onPress: onClose
+        }}
+      />
+
+      <ScrollView style={styles.content}>
+        <Text variant="bodySmall" style={styles.hintText}>
+          Enter the closing balance from your statement and tick every transaction it lists. Once the difference is zero, finishing locks the ticked transactions.
+        </Text>
+
+        <View style={styles.row}>
+          <TextInput
+            mode="outlined"
+            dense
+            label="Statement date"
+            placeholder="YYYY-MM-DD"
+            value={statementDate}
+            error={!isDateValid}
+            onChangeText={setStatementDate}
+            style={styles.rowInput}
+          />
+          <TextInput
+            mode="outlined"
+            dense
+            label={`Closing balance (${account.currency})`}
+            keyboardType="decimal-pad"
+            value={statementBalanceText}
+            error={!!statementBalanceText.trim() && statementBalance === null}
+            onChangeText={setStatementBalanceText}
+            style={styles.rowInput}
+          />
+        </View>
+
+        <Card style={styles.summaryCard}>
+          <Card.Content>
+            <View style={styles.summaryRow}>
+              <Text>Cleared balance</Text>
+              <Text>{formatCurrency(clearedBalance, account.currency)}</Text>
+            </View>
+            <View style={styles.summaryRow}>
+              <Text>Statement balance</Text>
+              <Text>{statementBalance !== null ? formatCurrency(statementBalance, account.currency) : '—'}</Text>
+            </View>
+            <View style={styles.summaryRow}>
+              <Text variant="titleSmall">Difference</Text>
+              <Text variant="titleSmall" style={difference === 0 ? styles.balancedText : styles.differenceText}>
+                {difference !== null ? formatCurrency(difference, account.currency) : '—'}
+              </Text>
+            </View>
+          </Card.Content>
+        </Card>
+
+        <Button
+          mode="contained"
+          icon="lock-check"
+          style={styles.finishButton}
+          disabled={!canFinish}
+          loading={isSaving}
+          onPress={handleFinish}
+        >
+          Finish Reconciliation
+        </Button>
+
+        {message && (
+          <Text variant="bodyMedium" style={styles.messageText}>{message}</Text>
+        )}
+
+        <View style={styles.sectionHeader}>
+          <Text variant="titleMedium" style={styles.sectionTitle}>
+            Unreconciled ({open.length})
+          </Text>
+          {open.length > 0 && (
+            <Button compact onPress={() => setCleared(open.map(transaction => transaction.id), !allTicked)}>
+              {allTicked ? 'Untick All' : 'Tick All'}
+            </Button>
+          )}
+        </View>
+
+        {isLoading ? (
+          <ActivityIndicator style={styles.loader} />
+        ) : open.length === 0 ? (
+          <Text variant="bodyMedium" style={styles.emptyText}>
+            No unreconciled transactions up to the statement date.
+          </Text>
+        ) : (
+          open.map(transaction => (
+            <View key={transaction.id} style={styles.transactionRow}>
+              <IconButton
+                icon={isCleared(transaction) ? 'checkbox-marked' : 'checkbox-blank-outline'}
+                onPress={() => setCleared([transaction.id], !transaction.isCleared)}
+              />
+              <View style={styles.transactionText}>
+                <Text variant="bodyMedium" numberOfLines={1}>
+                  {transaction.payee || transaction.description}
+                </Text>
+                <Text variant="bodySmall" style={styles.metaText}>{formatDate(transaction.date)}</Text>
+              </View>
+              <Text variant="bodyMedium">{formatCurrency(transaction.amount, transaction.currency)}</Text>
+            </View>
+          ))
+        )}
+
+        <Divider style={styles.divider} />
+
+        <Text variant="titleMedium" style={styles.sectionTitle}>
+          Past Statements ({reconciliations.length})
+        </Text>
+        {reconciliations.length === 0 ? (
+          <Text variant="bodyMedium" style={styles.emptyText}>
+            This account has not been reconciled yet.
+          </Text>
+        ) : (
+          reconciliations.map((reconciliation, index) => (
+            <View key={reconciliation.id} style={styles.historyRow}>
+              <View style={styles.transactionText}>
+                <Text variant="bodyMedium">
+                  {formatDate(reconciliation.statementDate)} · {formatCurrency(reconciliation.statementBalance, account.currency)}
+                </Text>
+                <Text variant="bodySmall" style={styles.metaText}>
+                  {reconciliation.transactionIds.length} transactions locked
+                </Text>
+              </View>
+              {index === 0 && (
+                <Button
+                  compact
+                  textColor={theme.colors.error}
+                  disabled={isSaving}
+                  onPress={() => runAction(() => reconciliationRepository.undo(reconciliation.id), 'Reconciliation undone; its transactions are unlocked')}
+                >
+                  Undo
+                </Button>
+              )}
+            </View>
+          ))
+        )}
+        <HelperText type="info" padding="none">
+          Only the latest statement can be undone.
+        </HelperText>
+      </ScrollView>
+    </SafeAreaView>
+  );
+};
+
+const styles = StyleSheet.create({
+  container: {
+    flex: 1,
+    backgroundColor: theme.colors.backgroundSecondary,
+  },
+  content: {
+    flex: 1,
+    padding: theme.spacing.md,
+  },
+  hintText: {
+    color: theme.colors.text.secondary,
+    marginBottom: theme.spacing.md,
+  },
+  row: {
+    flexDirection: 'row',
+    gap: theme.spacing.sm,
+  },
+  rowInput: {
+    flex: 1,
+  },
+  summaryCard: {
+    marginTop: theme.spacing.md,
+  },
+  summaryRow: {
+    flexDirection: 'row',
+    justifyContent: 'space-between',
+    alignItems: 'center',
+    marginBottom: theme.spacing.xs,
+  },
+  balancedText: {
+    color: theme.colors.income,
+  },
+  differenceText: {
+    color: theme.colors.error,
+  },
+  finishButton: {
+    marginVertical: theme.spacing.md,
+  },
+  messageText: {
+    color: theme.colors.text.primary,
+    marginBottom: theme.spacing.md,
+  },
+  sectionHeader: {
+    flexDirection: 'row',
+    justifyContent: 'space-between',
+    alignItems: 'center',
+  },
+  sectionTitle: {
+    marginTop: theme.spacing.md,
+    marginBottom: theme.spacing.sm,
+    fontWeight: '600',
+  },
+  loader: {
+    marginTop: theme.spacing.lg,
+  },
+  emptyText: {
+    color: theme.colors.text.secondary,
+    marginBottom: theme.spacing.md,
+  },
+  transactionRow: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    paddingRight: theme.spacing.sm,
+    marginBottom: theme.spacing.xs,
+    backgroundColor: theme.colors.surface,
+    borderRadius: theme.borderRadius.md,
+  },
+  transactionText: {
+    flex: 1,
+  },
+  metaText: {
+    color: theme.colors.text.secondary,
+  },
+  historyRow: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    marginBottom: theme.spacing.sm,
+  },
+  divider: {
+    marginVertical: theme.spacing.md,
+  },
+});
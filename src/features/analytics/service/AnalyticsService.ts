@@ -1,6 +1,10 @@
 import { Transaction } from '../../transactions/model/Transaction';
 import { format, startOfMonth, endOfMonth, startOfYear, endOfYear } from 'date-fns';
 import { formatCurrency } from '../../../shared/utils/currencyUtils';
+import { countedLines } from '../../transfers/model/Transfer';
+import { addTags } from '../../transactions/model/Tag';
+import { Category, CATEGORY_PALETTE } from '../../categories/model/Category';
+import { CategoryTree, categoryKey } from '../../categories/service/CategoryTree';
 
 export interface AnalyticsData {
   totalIncome: number;
@@ -13,6 +17,7 @@ export interface AnalyticsData {
   monthlyTrends: MonthlyTrendData[];
   topCategories: CategoryData[];
   topExpenseCategories: CategoryData[];
+  tagBreakdown: TagData[];
 }
 
 export interface CategoryData {
@@ -23,6 +28,14 @@ export interface CategoryData {
   color: string;
 }
 
+// Spending per tag; a transaction counts towards each of its tags, so shares can add up to more than 100%
+export interface TagData {
+  tag: string;
+  amount: number;
+  percentage: number; // Share of all expenses
+  count: number;
+}
+
 export interface MonthlyTrendData {
   month: string;
   income: number;
@@ -30,35 +43,20 @@ export interface MonthlyTrendData {
   net: number;
 }
 
-const CATEGORY_COLORS = [
-  '#2e7d32', // Income Green
-  '#64748b', // Expense Slate
-  '#1565c0', // Muted Blue
-  '#00838f', // Muted Teal
-  '#388e3c', // Muted Green
-  '#bdbdbd', // Muted Gray
-  '#ff9800', // Muted Orange
-  '#6d4c41', // Muted Brown
-  '#1976d2', // Muted Blue 2
-  '#0097a7', // Muted Teal 2
-  '#455a64', // Muted Blue Gray
-  '#afb42b', // Muted Olive
-  '#ffa726', // Muted Orange 2
-  '#8d6e63', // Muted Brown 2
-  '#90a4ae', // Muted Blue Gray 2
-  '#cfd8dc', // Light Blue Gray
-  '#5d4037', // Dark Brown
-  '#789262', // Muted Olive Green
-  '#607d8b', // Muted Slate Blue
-  '#bcaaa4', // Light Brown
-  '#c0ca33', // Muted Yellow Green
-  '#a1887f', // Muted Taupe
-  '#ffb300', // Muted Amber
-  '#8bc34a', // Muted Light Green
-];
-
 export class AnalyticsService {
-  static calculateAnalytics(transactions: Transaction[]): AnalyticsData {
+  // Subcategories are reported under their top-level category and take its color
+  static calculateAnalytics(allTransactions: Transaction[], categories: Category[] = []): AnalyticsData {
+    const transferCategories = CategoryTree.transferKeys(categories);
+    const rootByKey = new Map(categories.map(category => [
+      categoryKey(category.name),
+      CategoryTree.root(categories, category.name) || category
+    ]));
+    const colorOf = (name: string, index: number) =>
+      rootByKey.get(categoryKey(name))?.color || CATEGORY_PALETTE[index % CATEGORY_PALETTE.length];
+
+    // Confirmed transfers would count once as income and once as expense; so would transfer categories
+    const transactions = allTransactions.filter(t => countedLines(t, transferCategories).length > 0);
+
     if (!transactions.length) {
       return {
         totalIncome: 0,
@@ -70,51 +68,57 @@ export class AnalyticsService {
         incomeCategories: [],
         monthlyTrends: [],
         topCategories: [],
-        topExpenseCategories: []
+        topExpenseCategories: [],
+        tagBreakdown: []
       };
     }
 
-    const income = transactions
-      .filter(t => t.amount > 0)
-      .reduce((sum, t) => sum + t.amount, 0);
+    // Split transactions contribute each of their lines to its own category
+    const lines = transactions
+      .flatMap(t => countedLines(t, transferCategories))
+      .map(line => ({ ...line, category: rootByKey.get(categoryKey(line.category || ''))?.name || line.category }));
 
-    const expenses = Math.abs(transactions
-      .filter(t => t.amount < 0)
-      .reduce((sum, t) => sum + t.amount, 0));
+    const income = lines
+      .filter(line => line.amount > 0)
+      .reduce((sum, line) => sum + line.amount, 0);
 
-    // Separate expense and income transactions
-    const expenseTransactions = transactions.filter(t => t.amount < 0);
-    const incomeTransactions = transactions.filter(t => t.amount > 0);
+    const expenses = Math.abs(lines
+      .filter(line => line.amount < 0)
+      .reduce((sum, line) => sum + line.amount, 0));
+
+    // Separate expense and income lines
+    const expenseLines = lines.filter(line => line.amount < 0);
+    const incomeLines = lines.filter(line => line.amount > 0);
 
     // Calculate expense categories
     const expenseCategoryMap = new Map<string, { amount: number; count: number }>();
-    expenseTransactions.forEach(transaction => {
-      const category = transaction.category || 'Other';
+    expenseLines.forEach(line => {
+      const category = line.category || 'Other';
       const existing = expenseCategoryMap.get(category) || { amount: 0, count: 0 };
       expenseCategoryMap.set(category, {
-        amount: existing.amount + Math.abs(transaction.amount),
+        amount: existing.amount + Math.abs(line.amount),
         count: existing.count + 1
       });
     });
 
     // Calculate income categories
     const incomeCategoryMap = new Map<string, { amount: number; count: number }>();
-    incomeTransactions.forEach(transaction => {
-      const category = transaction.category || 'Other';
+    incomeLines.forEach(line => {
+      const category = line.category || 'Other';
       const existing = incomeCategoryMap.get(category) || { amount: 0, count: 0 };
       incomeCategoryMap.set(category, {
-        amount: existing.amount + transaction.amount,
+        amount: existing.amount + line.amount,
         count: existing.count + 1
       });
     });
 
     // Calculate overall categories (for backward compatibility)
     const categoryMap = new Map<string, { amount: number; count: number }>();
-    transactions.forEach(transaction => {
-      const category = transaction.category || 'Other';
+    lines.forEach(line => {
+      const category = line.category || 'Other';
       const existing = categoryMap.get(category) || { amount: 0, count: 0 };
       categoryMap.set(category, {
-        amount: existing.amount + Math.abs(transaction.amount),
+        amount: existing.amount + Math.abs(line.amount),
         count: existing.count + 1
       });
     });
@@ -132,7 +136,7 @@ export class AnalyticsService {
         amount: data.amount,
         percentage: totalAmount > 0 ? (data.amount / totalAmount) * 100 : 0,
         count: data.count,
-        color: CATEGORY_COLORS[index % CATEGORY_COLORS.length]
+        color: colorOf(category, index)
       }))
       .sort((a, b) => b.amount - a.amount);
 
@@ -142,7 +146,7 @@ export class AnalyticsService {
         amount: data.amount,
         percentage: totalExpenseAmount > 0 ? (data.amount / totalExpenseAmount) * 100 : 0,
         count: data.count,
-        color: CATEGORY_COLORS[index % CATEGORY_COLORS.length]
+        color: colorOf(category, index)
       }))
       .sort((a, b) => b.amount - a.amount);
 
@@ -152,11 +156,12 @@ export class AnalyticsService {
         amount: data.amount,
         percentage: totalIncomeAmount > 0 ? (data.amount / totalIncomeAmount) * 100 : 0,
         count: data.count,
-        color: CATEGORY_COLORS[index % CATEGORY_COLORS.length]
+        color: colorOf(category, index)
       }))
       .sort((a, b) => b.amount - a.amount);
 
-    const monthlyTrends = this.calculateMonthlyTrends(transactions);
+    const tagBreakdown = this.calculateTagBreakdown(transactions, transferCategories, expenses);
+    const monthlyTrends = this.calculateMonthlyTrends(transactions, transferCategories);
     const topCategories = categoryBreakdown.slice(0, 5);
     const topExpenseCategories = expenseCategories.slice(0, 5);
 
@@ -170,23 +175,56 @@ export class AnalyticsService {
       incomeCategories,
       monthlyTrends,
       topCategories,
-      topExpenseCategories
+      topExpenseCategories,
+      tagBreakdown
     };
   }
 
-  private static calculateMonthlyTrends(transactions: Transaction[]): MonthlyTrendData[] {
+  // Only the expense lines that count towards the totals add to a tag, so shares stay within the expense total
+  private static calculateTagBreakdown(transactions: Transaction[], transferCategories: Set<string>, totalExpenses: number): TagData[] {
+    const tagMap = new Map<string, { tag: string; amount: number; count: number }>();
+
+    transactions.forEach(transaction => {
+      const spent = Math.abs(countedLines(transaction, transferCategories)
+        .filter(line => line.amount < 0)
+        .reduce((sum, line) => sum + line.amount, 0));
+      if (spent === 0) return;
+
+      // addTags drops repeated spellings so a transaction counts once per tag
+      addTags([], transaction.tags || []).forEach(tag => {
+        const key = tag.toLowerCase();
+        const existing = tagMap.get(key) || { tag, amount: 0, count: 0 };
+        tagMap.set(key, {
+          tag: existing.tag,
+          amount: existing.amount + spent,
+          count: existing.count + 1
+        });
+      });
+    });
+
+    return Array.from(tagMap.values())
+      .map(data => ({
+        ...data,
+        percentage: totalExpenses > 0 ? (data.amount / totalExpenses) * 100 : 0
+      }))
+      .sort((a, b) => b.amount - a.amount);
+  }
+
+  private static calculateMonthlyTrends(transactions: Transaction[], transferCategories: Set<string>): MonthlyTrendData[] {
     const monthMap = new Map<string, { income: number; expenses: number }>();
 
     transactions.forEach(transaction => {
       const monthKey = format(new Date(transaction.date), 'yyyy-MM');
       const existing = monthMap.get(monthKey) || { income: 0, expenses: 0 };
-      
-      if (transaction.amount > 0) {
-        existing.income += transaction.amount;
-      } else {
-        existing.expenses += Math.abs(transaction.amount);
-      }
-      
+
+      countedLines(transaction, transferCategories).forEach(line => {
+        if (line.amount > 0) {
+          existing.income += line.amount;
+        } else {
+          existing.expenses += Math.abs(line.amount);
+        }
+      });
+
       monthMap.set(monthKey, existing);
     });
 
@@ -0,0 +1,80 @@
+import React from 'react';
+import { View, StyleSheet, TouchableOpacity } from 'react-native';
+import { Text } from 'react-native-paper';
+import { TagData } from '../../service/AnalyticsService';
+import { formatCurrency } from '../../../../shared/utils/currencyUtils';
+import { theme } from '../../../../shared/ui/theme/theme';
+import { UI_CONSTANTS } from '../../../../shared/constants/ui';
+
+interface TagBreakdownProps {
+  data: TagData[];
+  currency?: string;
+  onTagPress?: (tag: string) => void;
+}
+
+// Tags overlap, so each row gets a bar against all expenses instead of a slice of a pie
+export const TagBreakdown: React.FC<TagBreakdownProps> = ({ data, currency = 'UAH', onTagPress }) => (
+  <View style={styles.container}>
+    {data.map(item => (
+      <TouchableOpacity key={item.tag} onPress={() => onTagPress?.(item.tag)} disabled={!onTagPress}>
+        <View style={styles.row}>
+          <View style={styles.rowHeader}>
+            <Text style={styles.tag} numberOfLines={1}>#{item.tag}</Text>
+            <Text style={styles.amount}>{formatCurrency(item.amount, currency)}</Text>
+          </View>
+          <View style={styles.barTrack}>
+            <View style={[styles.barFill, { width: `${Math.min(item.percentage, 100)}%` }]} />
+          </View>
+          <Text style={styles.meta}>
+            {item.percentage.toFixed(1)}% of expenses · {item.count} {item.count === 1 ? 'transaction' : 'transactions'}
+          </Text>
+        </View>
+      </TouchableOpacity>
+    ))}
+  </View>
+);
+
+const styles = StyleSheet.create({
+  container: {
+    gap: theme.spacing.sm,
+  },
+  row: {
+    paddingVertical: theme.spacing.sm,
+    paddingHorizontal: theme.spacing.sm,
+    backgroundColor: '#FAFBFC',
+    borderRadius: theme.borderRadius.md,
+  },
+  rowHeader: {
+    flexDirection: 'row',
+    justifyContent: 'space-between',
+    alignItems: 'center',
+    gap: theme.spacing.md,
+  },
+  tag: {
+    ...theme.typography.body,
+    color: theme.colors.text.primary,
+    fontWeight: UI_CONSTANTS.FONT_WEIGHTS.MEDIUM,
+    flex: 1,
+  },
+  amount: {
+    ...theme.typography.body,
+    color: theme.colors.text.primary,
+    fontWeight: UI_CONSTANTS.FONT_WEIGHTS.SEMIBOLD,
+  },
+  barTrack: {
+    height: 6,
+    marginVertical: theme.spacing.xs,
+    borderRadius: 3,
+    backgroundColor: theme.colors.backgroundSecondary,
+    overflow: 'hidden',
+  },
+  barFill: {
+    height: '100%',
+    borderRadius: 3,
+    backgroundColor: theme.colors.primary,
+  },
+  meta: {
+    ...theme.typography.caption,
+    color: theme.colors.text.secondary,
+  },
+});
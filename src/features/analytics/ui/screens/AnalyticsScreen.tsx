@@ -3,8 +3,10 @@ import { View, StyleSheet } from 'react-native';
 import { CategoryPieChart } from '../components/CategoryPieChart';
 import { MonthlyTrendsChart } from '../components/MonthlyTrendsChart';
 import { KeyInsights } from '../components/KeyInsights';
+import { TagBreakdown } from '../components/TagBreakdown';
 import { AnalyticsGridHeader } from '../components/AnalyticsGridHeader';
 import { AnalyticsService } from '../../service/AnalyticsService';
+import { useTransactionStore } from '@/features/transactions/store/transactionStore';
 import { useBaseScreen } from '@/shared/hooks';
 import { BaseScreenLayout, CollapsibleSection } from '@/shared/ui/components';
 import { EmptyState } from '@/shared/ui/components/EmptyState';
@@ -13,7 +15,7 @@ import { theme } from '@/shared/ui/theme/theme';
 export const AnalyticsScreen: React.FC = () => {
   const baseScreen = useBaseScreen({
     screenName: 'Analytics',
-    loadAvailableCards: false,
+    loadAvailableAccounts: false,
     enableScrollToTop: true,
     enableSwipeHandling: false
   });
@@ -23,14 +25,22 @@ export const AnalyticsScreen: React.FC = () => {
     return firstTransaction?.currency || 'UAH';
   }, [baseScreen.filteredTransactions]);
 
+  // Loaded with the transactions, so the balance card and analytics leave out the same transfers
+  const categories = useTransactionStore(state => state.categories);
+
   const analyticsData = useMemo(() => {
-    return AnalyticsService.calculateAnalytics(baseScreen.filteredTransactions);
-  }, [baseScreen.filteredTransactions]);
+    return AnalyticsService.calculateAnalytics(baseScreen.filteredTransactions, categories);
+  }, [baseScreen.filteredTransactions, categories]);
 
   const insights = useMemo(() => {
     return AnalyticsService.getInsights(analyticsData, currency);
   }, [analyticsData, currency]);
 
+  // Narrows the screen to one tag through the regular tag filter
+  const handleTagPress = useCallback((tag: string) => {
+    baseScreen.setFilters({ tags: [tag], tagsMode: 'include' });
+  }, [baseScreen.setFilters]);
+
   // Create header component with grid layout
   const headerComponent = useMemo(() => {
     const headerProps = baseScreen.renderListHeader();
@@ -73,6 +83,15 @@ export const AnalyticsScreen: React.FC = () => {
         </CollapsibleSection>
       )}
       
+      {analyticsData.tagBreakdown.length > 0 && (
+        <CollapsibleSection 
+          title="Spending by Tag"
+          subtitle={`${analyticsData.tagBreakdown.length} tags`}
+        >
+          <TagBreakdown data={analyticsData.tagBreakdown} currency={currency} onTagPress={handleTagPress} />
+        </CollapsibleSection>
+      )}
+      
       <KeyInsights insights={insights} />
 
       {analyticsData.transactionCount === 0 && (
@@ -82,7 +101,7 @@ export const AnalyticsScreen: React.FC = () => {
         />
       )}
     </View>
-  ), [analyticsData, insights, currency]);
+  ), [analyticsData, insights, currency, handleTagPress]);
 
   // Sticky header props for BaseScreenLayout
   const stickyHeaderProps = useMemo(() => ({
@@ -91,7 +110,7 @@ export const AnalyticsScreen: React.FC = () => {
     filters: baseScreen.filters,
     setFilters: baseScreen.setFilters,
     clearFilters: baseScreen.clearFilters,
-    availableCards: baseScreen.availableCards,
+    availableAccounts: baseScreen.availableAccounts,
     transactions: baseScreen.transactions,
     screenTitle: 'Analytics'
   }), [
@@ -100,7 +119,7 @@ export const AnalyticsScreen: React.FC = () => {
     baseScreen.filters,
     baseScreen.setFilters,
     baseScreen.clearFilters,
-    baseScreen.availableCards,
+    baseScreen.availableAccounts,
     baseScreen.transactions
   ]);
 
@@ -0,0 +1,65 @@
+export type CategoryType = 'expense' | 'income' | 'transfer';
+
+export const CATEGORY_TYPE_LABELS: Record<CategoryType, string> = {
+  expense: 'Expense',
+  income: 'Income',
+  transfer: 'Transfer'
+};
+
+// Colors handed out to new categories in turn
+export const CATEGORY_PALETTE = [
+  '#2e7d32', // Income Green
+  '#64748b', // Expense Slate
+  '#1565c0', // Muted Blue
+  '#00838f', // Muted Teal
+  '#388e3c', // Muted Green
+  '#bdbdbd', // Muted Gray
+  '#ff9800', // Muted Orange
+  '#6d4c41', // Muted Brown
+  '#1976d2', // Muted Blue 2
+  '#0097a7', // Muted Teal 2
+  '#455a64', // Muted Blue Gray
+  '#afb42b', // Muted Olive
+  '#ffa726', // Muted Orange 2
+  '#8d6e63', // Muted Brown 2
+  '#90a4ae', // Muted Blue Gray 2
+  '#cfd8dc', // Light Blue Gray
+  '#5d4037', // Dark Brown
+  '#789262', // Muted Olive Green
+  '#607d8b', // Muted Slate Blue
+  '#bcaaa4', // Light Brown
+  '#c0ca33', // Muted Yellow Green
+  '#a1887f', // Muted Taupe
+  '#ffb300', // Muted Amber
+  '#8bc34a', // Muted Light Green
+];
+
+export const DEFAULT_CATEGORY_ICON = 'shape-outline';
+
+// Transactions refer to a category by name (Transaction.category and split lines), kept in sync on rename
+export interface Category {
+  id: string;
+  name: string; // Unique, compared case-insensitively
+  parentId?: string; // Subcategories roll up into their parent in analytics
+  icon: string; // Material Community Icons name
+  color: string;
+  type: CategoryType; // Transfer categories are left out of income and expense totals (see countedLines)
+  createdAt: string;
+  updatedAt: string;
+}
+
+export interface CreateCategoryRequest {
+  name: string;
+  parentId?: string;
+  icon?: string;
+  color?: string;
+  type?: CategoryType;
+}
+
+export interface UpdateCategoryRequest {
+  name?: string;
+  parentId?: string | null; // Null moves the category to the top level
+  icon?: string;
+  color?: string;
+  type?: CategoryType;
+}
@@ -0,0 +1,140 @@
+import { v4 as uuidv4 } from 'uuid';
+import { Transaction } from '@/features/transactions/model/Transaction';
+import { categoryLines } from '@/features/transactions/model/Split';
+import { Category, CategoryType, CATEGORY_PALETTE, DEFAULT_CATEGORY_ICON } from '../model/Category';
+
+export const categoryKey = (name: string): string => name.trim().toLowerCase();
+
+// First match wins, so transfers come before "card"-like words
+const ICON_PATTERNS: [string, RegExp][] = [
+  ['bank-transfer', /transfer|переказ/i],
+  ['cart-outline', /grocer|supermarket|продукт/i],
+  ['food-fork-drink', /food|restaurant|cafe|coffee|їж|ресторан|кафе/i],
+  ['car-outline', /transport|\bcar\b|taxi|fuel|gas|авто|таксі|паливо/i],
+  ['home-outline', /home|rent|utilit|house|комунал|оренд/i],
+  ['pill', /health|pharmacy|medic|doctor|аптек|лік/i],
+  ['shopping-outline', /shop|cloth|покуп|одяг/i],
+  ['movie-open-outline', /entertain|movie|cinema|fun|розваг/i],
+  ['airplane', /travel|vacation|flight|hotel|подорож/i],
+  ['cash-plus', /salary|income|wage|зарплат|дохід/i]
+];
+
+/**
+ * Pure helpers over the category list: parent links, roll-up for analytics and
+ * seeding categories from the names transactions already use.
+ */
+export class CategoryTree {
+  static findByName(categories: Category[], name: string): Category | undefined {
+    const key = categoryKey(name);
+    return categories.find(category => categoryKey(category.name) === key);
+  }
+
+  // Parent first, up to the top level; stops on a broken or cyclic link
+  static ancestors(categories: Category[], category: Category): Category[] {
+    const byId = new Map(categories.map(entry => [entry.id, entry]));
+    const result: Category[] = [];
+    let parent = category.parentId ? byId.get(category.parentId) : undefined;
+
+    while (parent && parent.id !== category.id && !result.includes(parent)) {
+      result.push(parent);
+      parent = parent.parentId ? byId.get(parent.parentId) : undefined;
+    }
+    return result;
+  }
+
+  static root(categories: Category[], name: string): Category | undefined {
+    const category = this.findByName(categories, name);
+    if (!category) return undefined;
+
+    const ancestors = this.ancestors(categories, category);
+    return ancestors[ancestors.length - 1] || category;
+  }
+
+  // The top-level category a transaction's category counts towards; unknown names stand for themselves
+  static rollUpName(categories: Category[], name: string): string {
+    return this.root(categories, name)?.name || name;
+  }
+
+  // Children first, then theirs; stops on a cyclic link
+  static descendants(categories: Category[], id: string, visited: Set<string> = new Set([id])): Category[] {
+    const children = categories.filter(category => category.parentId === id && !visited.has(category.id));
+    children.forEach(child => visited.add(child.id));
+    return children.flatMap(child => [child, ...this.descendants(categories, child.id, visited)]);
+  }
+
+  static wouldCreateCycle(categories: Category[], id: string, parentId: string): boolean {
+    return parentId === id || this.descendants(categories, id).some(category => category.id === parentId);
+  }
+
+  // "Food › Groceries"
+  static path(categories: Category[], category: Category): string {
+    return [...this.ancestors(categories, category).reverse(), category].map(entry => entry.name).join(' › ');
+  }
+
+  // Depth-first display order: each parent followed by its children, siblings by name
+  static ordered(categories: Category[]): { category: Category; depth: number }[] {
+    const ids = new Set(categories.map(category => category.id));
+    const byName = (a: Category, b: Category) => a.name.localeCompare(b.name);
+
+    const visit = (category: Category, depth: number): { category: Category; depth: number }[] => [
+      { category, depth },
+      ...categories
+        .filter(child => child.parentId === category.id)
+        .sort(byName)
+        .flatMap(child => visit(child, depth + 1))
+    ];
+
+    return categories
+      .filter(category => !category.parentId || !ids.has(category.parentId))
+      .sort(byName)
+      .flatMap(category => visit(category, 0));
+  }
+
+  // Keys (see categoryKey) of the categories typed 'transfer'
+  static transferKeys(categories: Category[]): Set<string> {
+    return new Set(categories.filter(category => category.type === 'transfer').map(category => categoryKey(category.name)));
+  }
+
+  static guessIcon(name: string): string {
+    return ICON_PATTERNS.find(([, pattern]) => pattern.test(name))?.[0] || DEFAULT_CATEGORY_ICON;
+  }
+
+  // Income when most of the category's money came in. Never 'transfer': that leaves the category out of
+  // income and expense totals, so only the user picks it
+  static guessType(amounts: number[] = []): CategoryType {
+    const incoming = amounts.filter(amount => amount > 0).length;
+    return incoming > amounts.length / 2 ? 'income' : 'expense';
+  }
+
+  static build(name: string, index: number, now: string, amounts: number[] = []): Category {
+    const trimmed = name.trim();
+    return {
+      id: uuidv4(),
+      name: trimmed,
+      icon: this.guessIcon(trimmed),
+      color: CATEGORY_PALETTE[index % CATEGORY_PALETTE.length],
+      type: this.guessType(amounts),
+      createdAt: now,
+      updatedAt: now
+    };
+  }
+
+  // One top-level category per distinct name found on transactions, split lines and in extra names
+  static buildCategories(transactions: Transaction[], extraNames: string[] = [], now = new Date().toISOString()): Category[] {
+    const amountsByKey = new Map<string, { name: string; amounts: number[] }>();
+    const add = (name: string, amount?: number) => {
+      if (!name || !name.trim()) return;
+      const key = categoryKey(name);
+      const entry = amountsByKey.get(key) || { name: name.trim(), amounts: [] };
+      if (amount !== undefined) entry.amounts.push(amount);
+      amountsByKey.set(key, entry);
+    };
+
+    transactions.flatMap(categoryLines).forEach(line => add(line.category, line.amount));
+    extraNames.forEach(name => add(name));
+
+    return Array.from(amountsByKey.values())
+      .sort((a, b) => a.name.localeCompare(b.name))
+      .map((entry, index) => this.build(entry.name, index, now, entry.amounts));
+  }
+}
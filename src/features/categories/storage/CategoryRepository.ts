@@ -0,0 +1,209 @@
+import { db } from '@/features/transactions/storage/TransactionDatabase';
+import { categoryLines, primaryCategory } from '@/features/transactions/model/Split';
+import { categoryLearningRepository } from '@/features/learning/storage/CategoryLearningRepository';
+import { Category, CreateCategoryRequest, UpdateCategoryRequest } from '../model/Category';
+import { CategoryTree, categoryKey } from '../service/CategoryTree';
+
+export class CategoryRepository {
+
+  async create(request: CreateCategoryRequest): Promise<Category> {
+    const category = await db.transaction('rw', db.categories, async () => {
+      const categories = await this.findAll();
+      const name = request.name.trim();
+      this.assertNameFree(categories, name);
+      if (request.parentId && !categories.some(entry => entry.id === request.parentId)) {
+        throw new Error(`Category with id ${request.parentId} not found`);
+      }
+
+      const built = CategoryTree.build(name, categories.length, new Date().toISOString());
+      const created: Category = {
+        ...built,
+        parentId: request.parentId,
+        icon: request.icon?.trim() || built.icon,
+        color: request.color || built.color,
+        type: request.type || built.type
+      };
+      await db.categories.add(created);
+      return created;
+    });
+
+    console.log('✅ Category created:', category.name);
+    return category;
+  }
+
+  async findAll(): Promise<Category[]> {
+    return await db.categories.orderBy('name').toArray();
+  }
+
+  async findById(id: string): Promise<Category | null> {
+    const category = await db.categories.get(id);
+    return category || null;
+  }
+
+  // Creates categories for names saved for the first time.
+  // Run inside a transaction that includes db.categories when called while saving transactions.
+  async ensureNames(names: string[]): Promise<void> {
+    const categories = await this.findAll();
+    const now = new Date().toISOString();
+    const created: Category[] = [];
+
+    names.forEach(name => {
+      if (!name.trim() || CategoryTree.findByName([...categories, ...created], name)) return;
+      created.push(CategoryTree.build(name, categories.length + created.length, now));
+    });
+
+    if (created.length > 0) {
+      await db.categories.bulkAdd(created);
+      console.log(`✅ ${created.length} categories created:`, created.map(category => category.name).join(', '));
+    }
+  }
+
+  // A new name is written to transactions, split lines, rules and learned suggestions as well
+  async update(id: string, updates: UpdateCategoryRequest): Promise<Category> {
+    return await db.transaction('rw', [db.categories, db.transactions, db.rules, db.categoryTokens, db.categoryStats], async () => {
+      const categories = await this.findAll();
+      const existing = categories.find(category => category.id === id);
+      if (!existing) {
+        throw new Error(`Category with id ${id} not found`);
+      }
+
+      const name = updates.name !== undefined ? updates.name.trim() : existing.name;
+      if (categoryKey(name) !== categoryKey(existing.name)) {
+        this.assertNameFree(categories, name);
+      }
+
+      const parentId = updates.parentId === null ? undefined : updates.parentId ?? existing.parentId;
+      if (parentId && CategoryTree.wouldCreateCycle(categories, id, parentId)) {
+        throw new Error('A category cannot be placed under itself or one of its subcategories');
+      }
+
+      const updated: Category = {
+        ...existing,
+        ...updates,
+        name,
+        parentId,
+        updatedAt: new Date().toISOString()
+      };
+
+      await db.categories.put(updated);
+      if (name !== existing.name) {
+        await this.reassign(existing.name, name);
+      }
+
+      console.log('✅ Category updated:', updated.name);
+      return updated;
+    });
+  }
+
+  // Moves every transaction of the source category to the target; subcategories move along
+  async merge(sourceId: string, targetId: string): Promise<Category> {
+    if (sourceId === targetId) {
+      throw new Error('Cannot merge a category into itself');
+    }
+
+    return await db.transaction('rw', [db.categories, db.transactions, db.rules, db.categoryTokens, db.categoryStats], async () => {
+      const [source, target] = await Promise.all([this.findById(sourceId), this.findById(targetId)]);
+      if (!source || !target) {
+        throw new Error(`Category with id ${source ? targetId : sourceId} not found`);
+      }
+
+      // A target inside the source's subtree moves up first, or re-parenting would close a loop
+      const categories = await this.findAll();
+      if (CategoryTree.descendants(categories, sourceId).some(category => category.id === targetId)) {
+        await db.categories.update(targetId, { parentId: source.parentId });
+      }
+
+      await this.reassign(source.name, target.name);
+      await this.detachChildren(source.id, target.id);
+      await db.categories.delete(sourceId);
+
+      console.log(`✅ Category ${source.name} merged into ${target.name}`);
+      return (await this.findById(targetId))!;
+    });
+  }
+
+  // Categories still in use need another category to take over their transactions;
+  // subcategories move up to the deleted category's parent
+  async delete(id: string, reassignToId?: string): Promise<void> {
+    await db.transaction('rw', [db.categories, db.transactions, db.rules, db.categoryTokens, db.categoryStats], async () => {
+      const category = await this.findById(id);
+      if (!category) {
+        throw new Error(`Category with id ${id} not found`);
+      }
+
+      const count = (await this.countTransactions())[id] || 0;
+      if (reassignToId) {
+        const target = await this.findById(reassignToId);
+        if (!target || target.id === id) {
+          throw new Error(`Category with id ${reassignToId} not found`);
+        }
+        await this.reassign(category.name, target.name);
+      } else if (count > 0) {
+        throw new Error(`Category has ${count} transactions; pick a category to move them to`);
+      }
+
+      await this.detachChildren(category.id, category.parentId);
+      await db.categories.delete(id);
+    });
+
+    console.log('✅ Category deleted:', id);
+  }
+
+  // Keyed by category ID; a split transaction counts once for each category among its lines
+  async countTransactions(): Promise<Record<string, number>> {
+    const categories = await this.findAll();
+    const idByKey = new Map(categories.map(category => [categoryKey(category.name), category.id]));
+    const counts: Record<string, number> = {};
+
+    await db.transactions.each(transaction => {
+      const ids = new Set(categoryLines(transaction).map(line => idByKey.get(categoryKey(line.category || ''))));
+      ids.forEach(id => {
+        if (id) counts[id] = (counts[id] || 0) + 1;
+      });
+    });
+    return counts;
+  }
+
+  private assertNameFree(categories: Category[], name: string): void {
+    if (!name) {
+      throw new Error('Category name is required');
+    }
+    if (CategoryTree.findByName(categories, name)) {
+      throw new Error(`A category named ${name} already exists; merge into it instead`);
+    }
+  }
+
+  // Children of a removed category are re-parented
+  private async detachChildren(id: string, newParentId?: string): Promise<void> {
+    await db.categories.where('parentId').equals(id).modify(child => {
+      child.parentId = newParentId;
+    });
+  }
+
+  // Rewrites a category name everywhere it is stored; spellings differing in case are included
+  private async reassign(from: string, to: string): Promise<void> {
+    const key = categoryKey(from);
+    const matches = (name?: string) => !!name && categoryKey(name) === key;
+
+    await db.transactions
+      .filter(transaction => matches(transaction.category) || !!transaction.splits?.some(line => matches(line.category)))
+      .modify(transaction => {
+        if (transaction.splits && transaction.splits.length > 0) {
+          transaction.splits = transaction.splits.map(line => matches(line.category) ? { ...line, category: to } : line);
+          transaction.category = primaryCategory(transaction.splits);
+        } else {
+          transaction.category = to;
+        }
+      });
+
+    await db.rules
+      .filter(rule => matches(rule.actions.category))
+      .modify(rule => {
+        rule.actions = { ...rule.actions, category: to };
+      });
+
+    await categoryLearningRepository.moveCategory(from, to);
+  }
+}
+
+export const categoryRepository = new CategoryRepository();
@@ -0,0 +1,279 @@
+import React, { useState, useEffect, useMemo } from 'react';
+import { View, ScrollView, StyleSheet, TouchableOpacity } from 'react-native';
+import {
+  Modal,
+  Portal,
+  Surface,
+  Text,
+  Button,
+  TextInput,
+  Chip,
+  HelperText,
+  Icon
+} from 'react-native-paper';
+import {
+  Category,
+  CategoryType,
+  CATEGORY_PALETTE,
+  CATEGORY_TYPE_LABELS,
+  CreateCategoryRequest
+} from '../../model/Category';
+import { CategoryTree } from '../../service/CategoryTree';
+import { theme } from '@/shared/ui/theme/theme';
+
+interface CategoryEditorModalProps {
+  visible: boolean;
+  category: Category | null; // Null creates a new category
+  categories: Category[];
+  onSave: (request: CreateCategoryRequest) => Promise<void>;
+  onDismiss: () => void;
+}
+
+const TYPE_OPTIONS = Object.entries(CATEGORY_TYPE_LABELS) as [CategoryType, string][];
+
+export const CategoryEditorModal: React.FC<CategoryEditorModalProps> = ({
+  visible,
+  category,
+  categories,
+  onSave,
+  onDismiss
+}) => {
+  const [name, setName] = useState('');
+  const [type, setType] = useState<CategoryType | undefined>(undefined);
+  const [parentId, setParentId] = useState<string | undefined>(undefined);
+  const [color, setColor] = useState<string | undefined>(undefined);
+  const [icon, setIcon] = useState('');
+  const [saveError, setSaveError] = useState<string | null>(null);
+
+  useEffect(() => {
+    if (!visible) return;
+
+    setName(category?.name || '');
+    setType(category?.type);
+    setParentId(category?.parentId);
+    setColor(category?.color);
+    setIcon(category?.icon || '');
+    setSaveError(null);
+  }, [visible, category]);
+
+  // A category can't be moved under itself or one of its own subcategories
+  const parentOptions = useMemo(() => {
+    const ordered = CategoryTree.ordered(categories).map(entry => entry.category);
+    return category
+      ? ordered.filter(option => !CategoryTree.wouldCreateCycle(categories, category.id, option.id))
+      : ordered;
+  }, [categories, category]);
+
+  // Until picked, the icon follows the name the way migrated categories were set up
+  const effectiveType = type || CategoryTree.guessType();
+  const effectiveIcon = icon.trim() || CategoryTree.guessIcon(name);
+  const effectiveColor = color || CATEGORY_PALETTE[categories.length % CATEGORY_PALETTE.length];
+  const isValid = !!name.trim();
+
+  const handleSave = async () => {
+    setSaveError(null);
+    try {
+      await onSave({
+        name,
+        parentId,
+        type: effectiveType,
+        icon: effectiveIcon,
+        color: effectiveColor
+      });
+      onDismiss();
+    } catch (error) {
+      console.error('Failed to save category:', error);
+      setSaveError(error instanceof Error ? error.message : 'Failed to save category');
+    }
+  };
+
+  return (
+    <Portal>
+      <Modal
+        visible={visible}
+        onDismiss={onDismiss}
+        contentContainerStyle={styles.modalContainer}
+      >
+        <Surface style={styles.modalSurface}>
+          <Text variant="titleMedium" style={styles.modalTitle}>
+            {category ? 'Edit Category' : 'New Category'}
+          </Text>
+
+          <ScrollView style={styles.content}>
+            <View style={styles.row}>
+              <View style={[styles.iconPreview, { backgroundColor: effectiveColor }]}>
+                <Icon source={effectiveIcon} size={22} color="#FFFFFF" />
+              </View>
+              <TextInput
+                mode="outlined"
+                dense
+                label="Name"
+                value={name}
+                onChangeText={setName}
+                style={styles.rowInput}
+              />
+            </View>
+            {category && name.trim() && name.trim() !== category.name && (
+              <HelperText type="info" padding="none">
+                Transactions, rules and suggestions using {category.name} are renamed too.
+              </HelperText>
+            )}
+
+            <Text variant="titleSmall" style={styles.groupTitle}>Type</Text>
+            <View style={styles.chips}>
+              {TYPE_OPTIONS.map(([value, label]) => (
+                <Chip
+                  key={value}
+                  compact
+                  selected={effectiveType === value}
+                  onPress={() => setType(value)}
+                >
+                  {label}
+                </Chip>
+              ))}
+            </View>
+            {effectiveType === 'transfer' && (
+              <HelperText type="info" padding="none">
+                Transfer categories are left out of income and expense totals, like confirmed transfers.
+              </HelperText>
+            )}
+
+            <Text variant="titleSmall" style={styles.groupTitle}>Parent</Text>
+            <View style={styles.chips}>
+              <Chip compact selected={!parentId} onPress={() => setParentId(undefined)}>
+                Top level
+              </Chip>
+              {parentOptions.map(option => (
+                <Chip
+                  key={option.id}
+                  compact
+                  selected={parentId === option.id}
+                  onPress={() => setParentId(option.id)}
+                >
+                  {CategoryTree.path(categories, option)}
+                </Chip>
+              ))}
+            </View>
+            {parentId && (
+              <HelperText type="info" padding="none">
+                Analytics count this category towards its top-level category.
+              </HelperText>
+            )}
+
+            <Text variant="titleSmall" style={styles.groupTitle}>Color</Text>
+            <View style={styles.swatches}>
+              {CATEGORY_PALETTE.map(swatch => (
+                <TouchableOpacity
+                  key={swatch}
+                  onPress={() => setColor(swatch)}
+                  style={[
+                    styles.swatch,
+                    { backgroundColor: swatch },
+                    effectiveColor === swatch && styles.swatchSelected
+                  ]}
+                />
+              ))}
+            </View>
+
+            <TextInput
+              mode="outlined"
+              dense
+              label="Icon"
+              placeholder={CategoryTree.guessIcon(name)}
+              autoCapitalize="none"
+              value={icon}
+              onChangeText={setIcon}
+              style={styles.input}
+            />
+            <HelperText type="info" padding="none">
+              Any Material Community Icons name, e.g. cart-outline or food-fork-drink.
+            </HelperText>
+
+            {saveError && (
+              <HelperText type="error" padding="none">{saveError}</HelperText>
+            )}
+          </ScrollView>
+
+          <View style={styles.actions}>
+            <Button mode="outlined" onPress={onDismiss}>
+              Cancel
+            </Button>
+            <Button mode="contained" onPress={handleSave} disabled={!isValid}>
+              Save
+            </Button>
+          </View>
+        </Surface>
+      </Modal>
+    </Portal>
+  );
+};
+
+const styles = StyleSheet.create({
+  modalContainer: {
+    margin: theme.spacing.lg,
+    maxHeight: '85%',
+  },
+  modalSurface: {
+    backgroundColor: theme.colors.surface,
+    borderRadius: theme.borderRadius.lg,
+    padding: theme.spacing.md,
+  },
+  modalTitle: {
+    marginBottom: theme.spacing.md,
+    textAlign: 'center',
+    fontWeight: '600',
+  },
+  content: {
+    maxHeight: 480,
+  },
+  groupTitle: {
+    marginTop: theme.spacing.md,
+    marginBottom: theme.spacing.sm,
+    fontWeight: '600',
+  },
+  chips: {
+    flexDirection: 'row',
+    flexWrap: 'wrap',
+    gap: theme.spacing.sm,
+    marginBottom: theme.spacing.sm,
+  },
+  row: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    gap: theme.spacing.sm,
+  },
+  rowInput: {
+    flex: 1,
+  },
+  iconPreview: {
+    width: 40,
+    height: 40,
+    borderRadius: 20,
+    alignItems: 'center',
+    justifyContent: 'center',
+  },
+  swatches: {
+    flexDirection: 'row',
+    flexWrap: 'wrap',
+    gap: theme.spacing.sm,
+  },
+  swatch: {
+    width: 28,
+    height: 28,
+    borderRadius: 14,
+    borderWidth: 2,
+    borderColor: 'transparent',
+  },
+  swatchSelected: {
+    borderColor: theme.colors.text.primary,
+  },
+  input: {
+    marginTop: theme.spacing.sm,
+  },
+  actions: {
+    flexDirection: 'row',
+    justifyContent: 'flex-end',
+    gap: theme.spacing.sm,
+    marginTop: theme.spacing.md,
+  },
+});
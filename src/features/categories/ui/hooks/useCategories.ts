@@ -0,0 +1,62 @@
+import { useState, useEffect, useCallback } from 'react';
+import { Category, CreateCategoryRequest, UpdateCategoryRequest } from '../../model/Category';
+import { categoryRepository } from '../../storage/CategoryRepository';
+
+export const useCategories = (enabled = true) => {
+  const [categories, setCategories] = useState<Category[]>([]);
+  const [transactionCounts, setTransactionCounts] = useState<Record<string, number>>({});
+  const [isLoading, setIsLoading] = useState(false);
+
+  const loadCategories = useCallback(async () => {
+    setIsLoading(true);
+    try {
+      const [loaded, counts] = await Promise.all([
+        categoryRepository.findAll(),
+        categoryRepository.countTransactions()
+      ]);
+      setCategories(loaded);
+      setTransactionCounts(counts);
+    } catch (error) {
+      console.error('Failed to load categories:', error);
+    } finally {
+      setIsLoading(false);
+    }
+  }, []);
+
+  useEffect(() => {
+    if (enabled) {
+      loadCategories();
+    }
+  }, [enabled, loadCategories]);
+
+  const createCategory = useCallback(async (request: CreateCategoryRequest) => {
+    await categoryRepository.create(request);
+    await loadCategories();
+  }, [loadCategories]);
+
+  const updateCategory = useCallback(async (id: string, updates: UpdateCategoryRequest) => {
+    await categoryRepository.update(id, updates);
+    await loadCategories();
+  }, [loadCategories]);
+
+  const mergeCategory = useCallback(async (sourceId: string, targetId: string) => {
+    await categoryRepository.merge(sourceId, targetId);
+    await loadCategories();
+  }, [loadCategories]);
+
+  const deleteCategory = useCallback(async (id: string, reassignToId?: string) => {
+    await categoryRepository.delete(id, reassignToId);
+    await loadCategories();
+  }, [loadCategories]);
+
+  return {
+    categories,
+    transactionCounts,
+    isLoading,
+    loadCategories,
+    createCategory,
+    updateCategory,
+    mergeCategory,
+    deleteCategory
+  };
+};
@@ -0,0 +1,290 @@
+import React, { useState } from 'react';
+import { View, ScrollView, StyleSheet } from 'react-native';
+import { Card, Text, Button, Chip, Menu, ActivityIndicator, Icon } from 'react-native-paper';
+import { SafeAreaView } from 'react-native-safe-area-context';
+import { Category, CATEGORY_TYPE_LABELS, CreateCategoryRequest } from '../../model/Category';
+import { CategoryTree } from '../../service/CategoryTree';
+import { useCategories } from '../hooks/useCategories';
+import { CategoryEditorModal } from '../components/CategoryEditorModal';
+import { useTransactionStore } from '@/features/transactions/store/transactionStore';
+import { ModalHeader } from '@/shared/ui/components/ModalHeader';
+import { ConfirmationDialog } from '@/shared/ui/components/ConfirmationDialog';
+import { theme } from '@/shared/ui/theme/theme';
+
+interface CategoriesScreenProps {
+  onClose: () => void;
+}
+
+// Merging removes the source; deleting with a target does the same without keeping the subcategories under it
+interface PendingMove {
+  kind: 'merge' | 'delete';
+  source: Category;
+  target: Category;
+}
+
+type MenuState = { kind: PendingMove['kind']; id: string } | null;
+
+const INDENT_PER_LEVEL = 20;
+
+export const CategoriesScreen: React.FC<CategoriesScreenProps> = ({ onClose }) => {
+  const loadTransactions = useTransactionStore(state => state.loadTransactions);
+  const {
+    categories,
+    transactionCounts,
+    isLoading,
+    createCategory,
+    updateCategory,
+    mergeCategory,
+    deleteCategory
+  } = useCategories();
+
+  const [editingCategory, setEditingCategory] = useState<Category | null>(null);
+  const [showEditor, setShowEditor] = useState(false);
+  const [openMenu, setOpenMenu] = useState<MenuState>(null);
+  const [pendingMove, setPendingMove] = useState<PendingMove | null>(null);
+  const [message, setMessage] = useState<string | null>(null);
+
+  const openEditor = (category: Category | null) => {
+    setEditingCategory(category);
+    setShowEditor(true);
+  };
+
+  // Renames, merges and deletes rewrite transaction categories, so the list is reloaded after each change
+  const runAction = async (action: () => Promise<void>, successMessage?: string) => {
+    setMessage(null);
+    try {
+      await action();
+      await loadTransactions();
+      if (successMessage) setMessage(successMessage);
+    } catch (actionError) {
+      console.error('❌ Category update failed:', actionError);
+      setMessage(`Category update failed: ${actionError instanceof Error ? actionError.message : 'Unknown error'}`);
+    }
+  };
+
+  const handleSave = async (request: CreateCategoryRequest) => {
+    if (editingCategory) {
+      await updateCategory(editingCategory.id, { ...request, parentId: request.parentId || null });
+    } else {
+      await createCategory(request);
+    }
+    await loadTransactions();
+  };
+
+  const handleMove = async () => {
+    if (!pendingMove) return;
+    const { kind, source, target } = pendingMove;
+    setPendingMove(null);
+
+    if (kind === 'merge') {
+      await runAction(() => mergeCategory(source.id, target.id), `${source.name} merged into ${target.name}`);
+    } else {
+      await runAction(() => deleteCategory(source.id, target.id), `${source.name} deleted; its transactions moved to ${target.name}`);
+    }
+  };
+
+  const renderTargetMenu = (category: Category, kind: PendingMove['kind'], label: string, targets: Category[]) => (
+    <Menu
+      visible={openMenu?.kind === kind && openMenu.id === category.id}
+      onDismiss={() => setOpenMenu(null)}
+      anchor={
+        <Button
+          mode="text"
+          compact
+          textColor={kind === 'delete' ? theme.colors.error : undefined}
+          onPress={() => setOpenMenu({ kind, id: category.id })}
+        >
+          {label}
+        </Button>
+      }
+    >
+      {targets.map(target => (
+        <Menu.Item
+          key={target.id}
+          title={CategoryTree.path(categories, target)}
+          onPress={() => {
+            setOpenMenu(null);
+            setPendingMove({ kind, source: category, target });
+          }}
+        />
+      ))}
+    </Menu>
+  );
+
+  const renderCategory = ({ category, depth }: { category: Category; depth: number }) => {
+    const count = transactionCounts[category.id] || 0;
+    const targets = CategoryTree.ordered(categories)
+      .map(entry => entry.category)
+      .filter(other => other.id !== category.id);
+    const childCount = categories.filter(other => other.parentId === category.id).length;
+    // A category's own subcategories would end up under themselves
+    const descendantIds = new Set(CategoryTree.descendants(categories, category.id).map(other => other.id));
+    const mergeTargets = targets.filter(other => !descendantIds.has(other.id));
+
+    return (
+      <Card
+        key={category.id}
+        style={[styles.categoryCard, { marginLeft: depth * INDENT_PER_LEVEL }]}
+        onPress={() => openEditor(category)}
+      >
+        <Card.Content>
+          <View style={styles.categoryHeader}>
+            <View style={[styles.iconBadge, { backgroundColor: category.color }]}>
+              <Icon source={category.icon} size={18} color="#FFFFFF" />
+            </View>
+            <View style={styles.categoryTitle}>
+              <Text variant="titleSmall" numberOfLines={1}>{category.name}</Text>
+              <Text variant="bodySmall" style={styles.categoryMeta}>
+                {[
+                  CATEGORY_TYPE_LABELS[category.type],
+                  childCount > 0 && `${childCount} ${childCount === 1 ? 'subcategory' : 'subcategories'}`
+                ].filter(Boolean).join(' · ')}
+              </Text>
+            </View>
+            <Chip compact style={styles.countChip}>
+              {count} {count === 1 ? 'transaction' : 'transactions'}
+            </Chip>
+          </View>
+
+          <View style={styles.actions}>
+            {mergeTargets.length > 0 && renderTargetMenu(category, 'merge', 'Merge Into…', mergeTargets)}
+            {count === 0 ? (
+              <Button
+                mode="text"
+                compact
+                textColor={theme.colors.error}
+                onPress={() => runAction(() => deleteCategory(category.id), `${category.name} deleted`)}
+              >
+                Delete
+              </Button>
+            ) : targets.length > 0 && renderTargetMenu(category, 'delete', 'Delete & Move To…', targets)}
+          </View>
+        </Card.Content>
+      </Card>
+    );
+  };
+
+  const confirmMessage = () => {
+    if (!pendingMove) return '';
+    const { kind, source, target } = pendingMove;
+    const count = transactionCounts[source.id] || 0;
+
+    return kind === 'merge'
+      ? `Move ${count} transactions, rules and subcategories from ${source.name} to ${target.name}? ${source.name} will be removed.`
+      : `Delete ${source.name} and move its ${count} transactions and rules to ${target.name}? Its subcategories move up a level.`;
+  };
+
+  return (
+    <SafeAreaView style={styles.container}>
+      <ModalHeader
+        title="Categories"
+        variant="screen"
+        leftAction={{
+          label: "Back",
+          onPress: onClose
+        }}
+        rightAction={{
+          label: "Add",
+          onPress: () => openEditor(null)
+        }}
+      />
+
+      <ScrollView style={styles.content}>
+        <Text variant="bodySmall" style={styles.hintText}>
+          Subcategories are counted towards their top-level category in analytics. Renaming, merging or deleting a category updates every transaction and rule that uses it.
+        </Text>
+
+        {message && (
+          <Text variant="bodyMedium" style={styles.messageText}>{message}</Text>
+        )}
+
+        {isLoading && categories.length === 0 ? (
+          <ActivityIndicator style={styles.loader} />
+        ) : categories.length === 0 ? (
+          <Text variant="bodyMedium" style={styles.emptyText}>
+            No categories yet. They are created when you categorize, import or add transactions.
+          </Text>
+        ) : (
+          CategoryTree.ordered(categories).map(renderCategory)
+        )}
+      </ScrollView>
+
+      <CategoryEditorModal
+        visible={showEditor}
+        category={editingCategory}
+        categories={categories}
+        onSave={handleSave}
+        onDismiss={() => setShowEditor(false)}
+      />
+
+      <ConfirmationDialog
+        visible={!!pendingMove}
+        title={pendingMove?.kind === 'delete' ? 'Delete Category' : 'Merge Categories'}
+        message={confirmMessage()}
+        confirmText={pendingMove?.kind === 'delete' ? 'Delete' : 'Merge'}
+        cancelText="Cancel"
+        confirmButtonColor={pendingMove?.kind === 'delete' ? theme.colors.error : theme.colors.primary}
+        onConfirm={handleMove}
+        onCancel={() => setPendingMove(null)}
+      />
+    </SafeAreaView>
+  );
+};
+
+const styles = StyleSheet.create({
+  container: {
+    flex: 1,
+    backgroundColor: theme.colors.backgroundSecondary,
+  },
+  content: {
+    flex: 1,
+    padding: theme.spacing.md,
+  },
+  loader: {
+    marginTop: theme.spacing.xl,
+  },
+  hintText: {
+    color: theme.colors.text.secondary,
+    marginBottom: theme.spacing.md,
+  },
+  emptyText: {
+    textAlign: 'center',
+    color: theme.colors.text.secondary,
+    marginTop: theme.spacing.xl,
+  },
+  messageText: {
+    color: theme.colors.text.primary,
+    marginBottom: theme.spacing.md,
+  },
+  categoryCard: {
+    marginBottom: theme.spacing.md,
+  },
+  categoryHeader: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    gap: theme.spacing.sm,
+  },
+  iconBadge: {
+    width: 32,
+    height: 32,
+    borderRadius: 16,
+    alignItems: 'center',
+    justifyContent: 'center',
+  },
+  categoryTitle: {
+    flex: 1,
+  },
+  categoryMeta: {
+    color: theme.colors.text.secondary,
+    marginTop: theme.spacing.xs,
+  },
+  countChip: {
+    backgroundColor: theme.colors.backgroundSecondary,
+  },
+  actions: {
+    flexDirection: 'row',
+    justifyContent: 'flex-end',
+    gap: theme.spacing.sm,
+    marginTop: theme.spacing.sm,
+  },
+});
@@ -0,0 +1,84 @@
+import { format, parseISO } from 'date-fns';
+import { Transaction } from '../../transactions/model/Transaction';
+import { isSplit } from '../../transactions/model/Split';
+
+export type QifAccountType = 'Bank' | 'CCard' | 'Cash';
+
+export interface QifExportOptions {
+  dateFormat?: string;
+  accountType?: QifAccountType;
+}
+
+const DEFAULT_DATE_FORMAT = 'MM/DD/YYYY';
+
+export class QifExportService {
+  /**
+   * Serialize transactions into a multi-account QIF document: one `!Account`
+   * header per card followed by its `!Type` section, oldest transaction first.
+   */
+  static export(transactions: Transaction[], options: QifExportOptions = {}): string {
+    const dateFormat = options.dateFormat || DEFAULT_DATE_FORMAT;
+    const accountType = options.accountType || 'Bank';
+
+    const transactionsByCard = new Map<string, Transaction[]>();
+    transactions.forEach(transaction => {
+      const cardTransactions = transactionsByCard.get(transaction.card) || [];
+      cardTransactions.push(transaction);
+      transactionsByCard.set(transaction.card, cardTransactions);
+    });
+
+    const lines: string[] = [];
+
+    transactionsByCard.forEach((cardTransactions, card) => {
+      lines.push('!Account', `N${this.sanitize(card)}`, `T${accountType}`, '^');
+      lines.push(`!Type:${accountType}`);
+
+      [...cardTransactions]
+        .sort((a, b) => a.date.localeCompare(b.date))
+        .forEach(transaction => lines.push(...this.formatRecord(transaction, dateFormat)));
+    });
+
+    return lines.join('\n') + '\n';
+  }
+
+  static getFileName(date: Date = new Date()): string {
+    return `ledgervault-${format(date, 'yyyy-MM-dd')}.qif`;
+  }
+
+  private static formatRecord(transaction: Transaction, dateFormat: string): string[] {
+    const record = [
+      `D${this.formatDate(transaction.date, dateFormat)}`,
+      `T${transaction.amount.toFixed(2)}`,
+      `P${this.sanitize(transaction.payee || transaction.description)}`
+    ];
+
+    if (transaction.comment) {
+      record.push(`M${this.sanitize(transaction.comment)}`);
+    }
+    if (isSplit(transaction)) {
+      // QIF split: S category, E memo and $ amount per line
+      transaction.splits!.forEach(line => {
+        record.push(`S${this.sanitize(line.category)}`);
+        if (line.comment) {
+          record.push(`E${this.sanitize(line.comment)}`);
+        }
+        record.push(`$${line.amount.toFixed(2)}`);
+      });
+    } else if (transaction.category) {
+      record.push(`L${this.sanitize(transaction.category)}`);
+    }
+
+    record.push('^');
+    return record;
+  }
+
+  private static formatDate(date: string, dateFormat: string): string {
+    const dateFnsPattern = dateFormat.replace(/DD/g, 'dd').replace(/YYYY/g, 'yyyy').replace(/YY/g, 'yy');
+    return format(parseISO(date), dateFnsPattern);
+  }
+
+  // QIF is line-based: embedded newlines would start a new field
+  private static sanitize(value: string): string {
+    return value.replace(/[\r\n]+/g, ' ').trim();
+  }
+}
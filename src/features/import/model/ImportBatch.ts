@@ -0,0 +1,30 @@
+import { ImportFileType, ImportSummary } from '../strategies/ImportStrategy';
+
+export interface ImportBatch {
+  id: string; // Same value as importBatchId on every transaction created by this import
+  fileName: string;
+  fileSize: number;
+  fileType: ImportFileType;
+  fileHash: string;
+  profileId?: string;
+  profileName?: string;
+  importedCount: number;
+  duplicatesSkipped: number;
+  summary: ImportSummary;
+  transactionIds: string[];
+  importedAt: string;
+  rolledBackAt?: string; // Set once the batch's transactions have been removed
+}
+
+export interface CreateImportBatchRequest {
+  id: string;
+  fileName: string;
+  fileSize: number;
+  fileType: ImportFileType;
+  fileHash: string;
+  profileId?: string;
+  profileName?: string;
+  duplicatesSkipped: number;
+  summary: ImportSummary;
+  transactionIds: string[];
+}
@@ -0,0 +1,26 @@
+import { ImportMapping } from '../strategies/ImportStrategy';
+
+export interface ImportProfile {
+  id: string;
+  name: string;
+  headerFingerprint: string; // Hash of the normalized header row the profile was saved from
+  columns: string[];
+  mapping: ImportMapping;
+  createdAt: string;
+  updatedAt: string;
+  lastUsedAt?: string;
+}
+
+export interface CreateImportProfileRequest {
+  name: string;
+  headerFingerprint: string;
+  columns: string[];
+  mapping: ImportMapping;
+}
+
+export interface UpdateImportProfileRequest {
+  name?: string;
+  headerFingerprint?: string;
+  columns?: string[];
+  mapping?: ImportMapping;
+}
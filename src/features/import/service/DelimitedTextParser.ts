@@ -0,0 +1,183 @@
+export type TextEncodingName = 'utf-8' | 'utf-16le' | 'utf-16be' | 'windows-1251';
+
+export type Delimiter = ',' | ';' | '\t';
+
+export interface DecodedText {
+  text: string;
+  encoding: TextEncodingName;
+}
+
+const DELIMITER_CANDIDATES: Delimiter[] = [',', ';', '\t'];
+const DELIMITER_SAMPLE_LINES = 20;
+
+// Windows-1251 code points for bytes 0x80-0xBF; 0xC0-0xFF map linearly onto А-я
+const WINDOWS_1251_HIGH = [
+  0x0402, 0x0403, 0x201a, 0x0453, 0x201e, 0x2026, 0x2020, 0x2021, 0x20ac, 0x2030, 0x0409, 0x2039, 0x040a, 0x040c, 0x040b, 0x040f,
+  0x0452, 0x2018, 0x2019, 0x201c, 0x201d, 0x2022, 0x2013, 0x2014, 0xfffd, 0x2122, 0x0459, 0x203a, 0x045a, 0x045c, 0x045b, 0x045f,
+  0x00a0, 0x040e, 0x045e, 0x0408, 0x00a4, 0x0490, 0x00a6, 0x00a7, 0x0401, 0x00a9, 0x0404, 0x00ab, 0x00ac, 0x00ad, 0x00ae, 0x0407,
+  0x00b0, 0x00b1, 0x0406, 0x0456, 0x0491, 0x00b5, 0x00b6, 0x00b7, 0x0451, 0x2116, 0x0454, 0x00bb, 0x0458, 0x0405, 0x0455, 0x0457
+];
+
+export class DelimitedTextParser {
+  static decode(content: ArrayBuffer): DecodedText {
+    const bytes = new Uint8Array(content);
+
+    if (bytes[0] === 0xef && bytes[1] === 0xbb && bytes[2] === 0xbf) {
+      return { text: new TextDecoder('utf-8').decode(bytes.subarray(3)), encoding: 'utf-8' };
+    }
+    if (bytes[0] === 0xff && bytes[1] === 0xfe) {
+      return { text: this.decodeUtf16(bytes.subarray(2), true), encoding: 'utf-16le' };
+    }
+    if (bytes[0] === 0xfe && bytes[1] === 0xff) {
+      return { text: this.decodeUtf16(bytes.subarray(2), false), encoding: 'utf-16be' };
+    }
+
+    try {
+      return { text: new TextDecoder('utf-8', { fatal: true }).decode(bytes), encoding: 'utf-8' };
+    } catch {
+      return { text: this.decodeWindows1251(bytes), encoding: 'windows-1251' };
+    }
+  }
+
+  static detectDelimiter(text: string): Delimiter {
+    const sampleLines = this.splitRecords(text)
+      .filter(line => line.trim())
+      .slice(0, DELIMITER_SAMPLE_LINES);
+
+    let bestDelimiter: Delimiter = ',';
+    let bestScore = -1;
+    let bestWidth = 0;
+
+    for (const delimiter of DELIMITER_CANDIDATES) {
+      const counts = sampleLines.map(line => this.countOutsideQuotes(line, delimiter));
+      const frequency = new Map<number, number>();
+      counts.filter(count => count > 0).forEach(count => {
+        frequency.set(count, (frequency.get(count) || 0) + 1);
+      });
+
+      // The delimiter that splits most lines into the same number of fields wins
+      for (const [width, lines] of frequency) {
+        if (lines > bestScore || (lines === bestScore && width > bestWidth)) {
+          bestDelimiter = delimiter;
+          bestScore = lines;
+          bestWidth = width;
+        }
+      }
+    }
+
+    return bestDelimiter;
+  }
+
+  static parse(text: string, delimiter: Delimiter = this.detectDelimiter(text)): string[][] {
+    const rows: string[][] = [];
+    let row: string[] = [];
+    let field = '';
+    let inQuotes = false;
+
+    for (let i = 0; i < text.length; i++) {
+      const char = text[i];
+
+      if (inQuotes) {
+        if (char === '"' && text[i + 1] === '"') {
+          field += '"';
+          i++;
+        } else if (char === '"') {
+          inQuotes = false;
+        } else {
+          field += char;
+        }
+        continue;
+      }
+
+      if (char === '"' && field.trim() === '') {
+        field = '';
+        inQuotes = true;
+      } else if (char === delimiter) {
+        row.push(field);
+        field = '';
+      } else if (char === '\r' || char === '\n') {
+        if (char === '\r' && text[i + 1] === '\n') i++;
+        row.push(field);
+        rows.push(row);
+        row = [];
+        field = '';
+      } else {
+        field += char;
+      }
+    }
+
+    if (field || row.length > 0) {
+      row.push(field);
+      rows.push(row);
+    }
+
+    while (rows.length > 0 && rows[rows.length - 1].every(cell => !cell.trim())) {
+      rows.pop();
+    }
+
+    return rows;
+  }
+
+  static parseBuffer(content: ArrayBuffer): { rows: string[][]; delimiter: Delimiter; encoding: TextEncodingName } {
+    const { text, encoding } = this.decode(content);
+    const delimiter = this.detectDelimiter(text);
+    return { rows: this.parse(text, delimiter), delimiter, encoding };
+  }
+
+  private static splitRecords(text: string): string[] {
+    const records: string[] = [];
+    let current = '';
+    let inQuotes = false;
+
+    for (let i = 0; i < text.length; i++) {
+      const char = text[i];
+      if (char === '"') inQuotes = !inQuotes;
+
+      if (!inQuotes && (char === '\n' || char === '\r')) {
+        if (char === '\r' && text[i + 1] === '\n') i++;
+        records.push(current);
+        current = '';
+      } else {
+        current += char;
+      }
+    }
+
+    if (current) records.push(current);
+    return records;
+  }
+
+  private static countOutsideQuotes(line: string, delimiter: Delimiter): number {
+    let count = 0;
+    let inQuotes = false;
+
+    for (const char of line) {
+      if (char === '"') inQuotes = !inQuotes;
+      else if (char === delimiter && !inQuotes) count++;
+    }
+
+    return count;
+  }
+
+  private static decodeUtf16(bytes: Uint8Array, littleEndian: boolean): string {
+    const codeUnits: number[] = [];
+    for (let i = 0; i + 1 < bytes.length; i += 2) {
+      codeUnits.push(littleEndian ? bytes[i] | (bytes[i + 1] << 8) : (bytes[i] << 8) | bytes[i + 1]);
+    }
+
+    let text = '';
+    for (let i = 0; i < codeUnits.length; i += 8192) {
+      text += String.fromCharCode(...codeUnits.slice(i, i + 8192));
+    }
+    return text;
+  }
+
+  private static decodeWindows1251(bytes: Uint8Array): string {
+    let text = '';
+    for (const byte of bytes) {
+      if (byte < 0x80) text += String.fromCharCode(byte);
+      else if (byte < 0xc0) text += String.fromCharCode(WINDOWS_1251_HIGH[byte - 0x80]);
+      else text += String.fromCharCode(0x0410 + byte - 0xc0);
+    }
+    return text;
+  }
+}
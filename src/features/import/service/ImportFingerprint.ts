@@ -0,0 +1,48 @@
+import { hashString } from '@/shared/utils/hashUtils';
+
+const SEPARATOR = '␟';
+
+/**
+ * Deterministic per-row fingerprints for imported transactions.
+ *
+ * A fingerprint combines the source (file profile), the normalized raw row
+ * and the ordinal of that exact row content within the file. Re-importing the
+ * same or an overlapping statement reproduces the same fingerprints, while two
+ * identical same-day purchases on separate rows get ordinals 1 and 2 and stay
+ * distinct.
+ */
+export class ImportFingerprint {
+  private readonly occurrences = new Map<string, number>();
+
+  constructor(private readonly source: string) {}
+
+  // Case, whitespace and column order independent so re-exported statements still match
+  static forHeader(columns: string[]): string {
+    const normalized = columns
+      .map(column => String(column ?? '').trim().toLowerCase().replace(/\s+/g, ' '))
+      .filter(Boolean)
+      .sort();
+
+    return hashString(normalized.join('|'));
+  }
+
+  next(rawRow: unknown): string {
+    const content = ImportFingerprint.normalizeRow(rawRow);
+    const ordinal = (this.occurrences.get(content) || 0) + 1;
+    this.occurrences.set(content, ordinal);
+
+    return hashString([this.source, content, ordinal].join(SEPARATOR));
+  }
+
+  private static normalizeRow(rawRow: unknown): string {
+    const cells = Array.isArray(rawRow) ? rawRow : [rawRow];
+
+    // Trailing empty cells vary between exports of the same statement
+    const values = cells.map(cell => String(cell ?? '').trim().replace(/\s+/g, ' '));
+    while (values.length > 0 && values[values.length - 1] === '') {
+      values.pop();
+    }
+
+    return values.join(SEPARATOR);
+  }
+}
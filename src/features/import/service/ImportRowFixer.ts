@@ -0,0 +1,72 @@
+import { v4 as uuidv4 } from 'uuid';
+import { format } from 'date-fns';
+import { Transaction } from '@/features/transactions/model/Transaction';
+import { ValidationService, ValidationError } from '@/shared/services/ValidationService';
+import { parseLocaleAmount } from '@/shared/utils/currencyUtils';
+import { parseDateWithPatterns, SUPPORTED_DATE_FORMATS } from '@/shared/utils/dateUtils';
+import { ImportRowDraft } from '../strategies/ImportStrategy';
+
+export interface FixedRow {
+  transaction: Transaction | null; // Null while the draft still has errors
+  errors: ValidationError[];
+}
+
+/**
+ * Turns a hand-corrected failed import row back into a transaction.
+ * Corrected dates may use any supported pattern, including YYYY-MM-DD.
+ */
+export class ImportRowFixer {
+  static draftFromTransaction(transaction: Partial<Transaction>): ImportRowDraft {
+    const date = transaction.date ? new Date(transaction.date) : null;
+
+    return {
+      date: date && !isNaN(date.getTime()) ? format(date, 'yyyy-MM-dd') : String(transaction.date ?? ''),
+      amount: transaction.amount !== undefined && !isNaN(transaction.amount) ? String(transaction.amount) : '',
+      description: transaction.description || '',
+      card: transaction.card || 'Imported',
+      category: transaction.category || 'Other',
+      currency: transaction.currency || 'USD',
+      comment: transaction.comment,
+      importFingerprint: transaction.importFingerprint
+    };
+  }
+
+  static apply(draft: ImportRowDraft): FixedRow {
+    const errors: ValidationError[] = [];
+
+    const date = parseDateWithPatterns(draft.date, SUPPORTED_DATE_FORMATS).date;
+    if (!date) {
+      errors.push({ field: 'date', message: 'Enter a date like 2024-12-31 or 31.12.2024' });
+    }
+
+    const amount = parseLocaleAmount(draft.amount).value;
+    if (amount === null) {
+      errors.push({ field: 'amount', message: 'Enter a number like -12.50' });
+    }
+
+    const transaction: Transaction = {
+      id: uuidv4(),
+      date: date ? date.toISOString() : '',
+      card: draft.card.trim() || 'Imported',
+      amount: amount ?? NaN,
+      currency: draft.currency,
+      description: draft.description.trim(),
+      category: draft.category.trim() || 'Other',
+      comment: draft.comment?.trim() || undefined,
+      isDuplicate: false,
+      isIncome: (amount ?? 0) > 0,
+      importFingerprint: draft.importFingerprint,
+      createdAt: new Date().toISOString()
+    };
+
+    // Field checks above already cover what the shared validation would repeat
+    ValidationService.validateTransaction(transaction).errors
+      .filter(error => !errors.some(existing => existing.field === error.field))
+      .forEach(error => errors.push(error));
+
+    return {
+      transaction: errors.length === 0 ? transaction : null,
+      errors
+    };
+  }
+}
@@ -1,18 +1,64 @@
-import { ImportStrategy, ImportFile, ImportResult, ImportMapping } from '../strategies/ImportStrategy';
-import { XlsImportStrategy, FilePreview } from '../strategies/XlsImportStrategy';
-import { transactionRepository } from '@/features/transactions/storage/TransactionRepository';
+import { v4 as uuidv4 } from 'uuid';
+import {
+  ImportStrategy,
+  ImportFile,
+  ImportResult,
+  ImportMapping,
+  ImportFileType,
+  ImportSource,
+  FilePreview,
+  ParseOptions,
+  PreviewOptions,
+  SkippedImportFile,
+  hasAmountMapping
+} from '../strategies/ImportStrategy';
+import { XlsImportStrategy } from '../strategies/XlsImportStrategy';
+import { CsvImportStrategy } from '../strategies/CsvImportStrategy';
+import { OfxImportStrategy } from '../strategies/OfxImportStrategy';
+import { QifImportStrategy } from '../strategies/QifImportStrategy';
+import { CamtImportStrategy } from '../strategies/CamtImportStrategy';
+import { Mt940ImportStrategy } from '../strategies/Mt940ImportStrategy';
+import { PdfImportStrategy } from '../strategies/PdfImportStrategy';
+import { PastedTextImportStrategy, PASTED_TEXT_FILE_NAME } from '../strategies/PastedTextImportStrategy';
+import { importProfileRepository } from '../storage/ImportProfileRepository';
+import { importBatchRepository } from '../storage/ImportBatchRepository';
+import { ImportBatch } from '../model/ImportBatch';
+import { db } from '@/features/transactions/storage/TransactionDatabase';
+import { transactionRepository, BulkProgressCallback } from '@/features/transactions/storage/TransactionRepository';
+import { hashBytes } from '@/shared/utils/hashUtils';
+import { ImportFingerprint } from './ImportFingerprint';
 import { Transaction } from '@/features/transactions/model/Transaction';
+import { ruleService } from '@/features/rules/service/RuleService';
+import { categoryLearningService } from '@/features/learning/service/CategoryLearningService';
+import { accountRepository } from '@/features/accounts/storage/AccountRepository';
+import { AccountMatcher } from '@/features/accounts/service/AccountMatcher';
 
 export { FilePreview };
 
+export type AutoMappingSource = 'profile' | 'queue' | 'detected';
+
+// Same date, card and amount as a row of an earlier file, like findPotentialDuplicates
+const crossFileKey = (transaction: Transaction) =>
+  `${transaction.date}|${transaction.card}|${transaction.currency}|${Math.round(transaction.amount * 100)}`;
+
 export class ImportService {
   private strategies: Map<string, ImportStrategy> = new Map();
 
   constructor() {
     // Register available import strategies
-    const xlsStrategy = new XlsImportStrategy();
-    xlsStrategy.getSupportedFormats().forEach(format => {
-      this.strategies.set(format, xlsStrategy);
+    this.registerStrategy(new XlsImportStrategy());
+    this.registerStrategy(new CsvImportStrategy());
+    this.registerStrategy(new OfxImportStrategy());
+    this.registerStrategy(new QifImportStrategy());
+    this.registerStrategy(new CamtImportStrategy());
+    this.registerStrategy(new Mt940ImportStrategy());
+    this.registerStrategy(new PdfImportStrategy());
+    this.registerStrategy(new PastedTextImportStrategy());
+  }
+
+  private registerStrategy(strategy: ImportStrategy): void {
+    strategy.getSupportedFormats().forEach(format => {
+      this.strategies.set(format, strategy);
     });
   }
 
@@ -25,60 +71,367 @@ export class ImportService {
     return strategy ? strategy.validateFile(file) : false;
   }
 
-  async extractFilePreview(file: ImportFile): Promise<FilePreview> {
+  // Self-describing formats (OFX, CAMT.053, MT940) have no columns to map
+  requiresColumnMapping(file: ImportFile): boolean {
+    const strategy = this.strategies.get(file.type);
+    return !!strategy?.extractPreview;
+  }
+
+  async extractFilePreview(file: ImportFile, options?: PreviewOptions): Promise<FilePreview> {
     const strategy = this.strategies.get(file.type);
     if (!strategy) {
       throw new Error(`Unsupported file format: ${file.type}`);
     }
 
-    // Get the XLS strategy to access its parsing methods
-    if (strategy instanceof XlsImportStrategy) {
-      return await strategy.extractPreview(file);
+    if (!strategy.extractPreview) {
+      throw new Error('Preview extraction not supported for this file type');
+    }
+
+    const preview = await strategy.extractPreview(file, options);
+    const headerFingerprint = ImportFingerprint.forHeader(preview.columns);
+    const matchedProfile = await importProfileRepository.findByFingerprint(headerFingerprint);
+
+    if (matchedProfile) {
+      console.log('🎯 Matched import profile:', matchedProfile.name);
+    }
+
+    // Each sheet of a workbook is matched against saved profiles on its own
+    const sheets = preview.sheets && await Promise.all(preview.sheets.map(async sheet => {
+      if (sheet.columns.length === 0) {
+        return sheet;
+      }
+
+      const sheetFingerprint = ImportFingerprint.forHeader(sheet.columns);
+      const sheetProfile = await importProfileRepository.findByFingerprint(sheetFingerprint);
+
+      return {
+        ...sheet,
+        headerFingerprint: sheetFingerprint,
+        matchedProfile: sheetProfile || undefined
+      };
+    }));
+
+    return {
+      ...preview,
+      headerFingerprint,
+      matchedProfile: matchedProfile || undefined,
+      sheets
+    };
+  }
+
+  /**
+   * Picks a mapping for a queued file without asking: a matched profile first,
+   * then a mapping already chosen for the same header earlier in the queue, then
+   * a complete detected mapping. Workbooks with several sheets always ask.
+   */
+  findAutoMapping(
+    preview: FilePreview,
+    queueMappings: Record<string, ImportMapping> = {}
+  ): { mapping: ImportMapping; source: AutoMappingSource } | null {
+    if (preview.sheets) {
+      return null;
     }
 
-    throw new Error('Preview extraction not supported for this file type');
+    const base = { dateFormat: 'DD.MM.YYYY', hasHeader: true, headerRowIndex: 0, ...preview.suggestedMapping };
+
+    if (preview.matchedProfile) {
+      return {
+        mapping: { ...base, ...preview.matchedProfile.mapping, profileId: preview.matchedProfile.id } as ImportMapping,
+        source: 'profile'
+      };
+    }
+
+    const previous = preview.headerFingerprint ? queueMappings[preview.headerFingerprint] : undefined;
+    if (previous) {
+      return { mapping: previous, source: 'queue' };
+    }
+
+    if (base.dateColumn && hasAmountMapping(base)) {
+      return { mapping: base as ImportMapping, source: 'detected' };
+    }
+
+    return null;
+  }
+
+  /**
+   * Merges the results of several files into one preview. Rows with the same
+   * date, card and amount as a row of an earlier file (overlapping statement
+   * periods) are marked as duplicates; each part keeps its own batch.
+   */
+  combineResults(results: ImportResult[], skippedFiles: SkippedImportFile[] = []): ImportResult {
+    const earlier = new Map<string, number>();
+
+    const parts = results.map(result => {
+      const seenInFile = new Map<string, number>();
+      let crossFileDuplicates = 0;
+
+      const transactions = result.transactions.map(transaction => {
+        const key = crossFileKey(transaction);
+        seenInFile.set(key, (seenInFile.get(key) || 0) + 1);
+
+        const remaining = earlier.get(key) || 0;
+        if (remaining === 0) {
+          return transaction;
+        }
+
+        earlier.set(key, remaining - 1);
+        if (transaction.isDuplicate) {
+          return transaction;
+        }
+        crossFileDuplicates++;
+        return { ...transaction, isDuplicate: true };
+      });
+
+      seenInFile.forEach((count, key) => earlier.set(key, (earlier.get(key) || 0) + count));
+
+      const tag = { fileName: result.source?.fileName, batchId: result.batchId };
+      return {
+        ...result,
+        transactions,
+        duplicates: transactions.filter(transaction => transaction.isDuplicate),
+        errors: result.errors.map(error => ({ ...error, ...tag })),
+        warnings: result.warnings?.map(warning => ({ ...warning, ...tag })),
+        summary: {
+          ...result.summary,
+          duplicatesFound: result.summary.duplicatesFound + crossFileDuplicates,
+          crossFileDuplicates
+        }
+      };
+    });
+
+    const merged = this.mergeResults(parts);
+    return {
+      ...merged,
+      categorySuggestions: Object.assign({}, ...parts.map(part => part.categorySuggestions || {})),
+      summary: {
+        ...merged.summary,
+        categorizedByRules: parts.reduce((sum, part) => sum + (part.summary.categorizedByRules || 0), 0),
+        crossFileDuplicates: parts.reduce((sum, part) => sum + (part.summary.crossFileDuplicates || 0), 0)
+      },
+      parts,
+      skippedFiles
+    };
   }
 
-  async importFile(file: ImportFile, mapping?: ImportMapping): Promise<ImportResult> {
+  // Several mappings import several sheets of one workbook into a single result
+  async importFile(
+    file: ImportFile,
+    mapping?: ImportMapping | ImportMapping[],
+    options?: ParseOptions
+  ): Promise<ImportResult> {
     const strategy = this.strategies.get(file.type);
     if (!strategy) {
       throw new Error(`Unsupported file format: ${file.type}`);
     }
 
-    return await strategy.parse(file, mapping);
+    const mappings = Array.isArray(mapping) ? mapping : [mapping];
+    const result = mappings.length === 1
+      ? await strategy.parse(file, mappings[0], options)
+      : await this.parseSheets(strategy, file, mappings as ImportMapping[], options);
+
+    result.transactions = await this.linkAccounts(result.transactions);
+    const categorized = await ruleService.applyToImported(result.transactions);
+    result.transactions = categorized.transactions;
+    result.summary.categorizedByRules = categorized.changedCount;
+    result.categorySuggestions = await categoryLearningService.suggestForImport(result.transactions);
+
+    // Every row of one import shares a batch ID so the import can be traced as a unit
+    const batchId = uuidv4();
+    result.transactions.forEach(transaction => {
+      transaction.importBatchId = batchId;
+    });
+
+    const source: ImportSource = {
+      fileName: file.name,
+      fileSize: file.size,
+      fileType: file.type,
+      fileHash: hashBytes(file.content),
+      profileId: mappings.find(sheetMapping => sheetMapping?.profileId)?.profileId
+    };
+
+    return { ...result, batchId, source };
+  }
+
+  // Rows of known accounts get their account before account-scoped rules run; new names get an account on save
+  private async linkAccounts(transactions: Transaction[]): Promise<Transaction[]> {
+    const accounts = await accountRepository.findAll();
+    return transactions.map(transaction => {
+      const account = AccountMatcher.findForCard(accounts, transaction.card);
+      return account ? { ...transaction, accountId: account.id, card: account.name } : transaction;
+    });
   }
 
-  async saveTransactions(transactions: Transaction[], ignoreDuplicates = true): Promise<void> {
+  private async parseSheets(
+    strategy: ImportStrategy,
+    file: ImportFile,
+    mappings: ImportMapping[],
+    options: ParseOptions = {}
+  ): Promise<ImportResult> {
+    if (mappings.length === 0) {
+      throw new Error('No sheets selected for import');
+    }
+
+    const results: ImportResult[] = [];
+    let rowsBefore = 0;
+
+    // Sheets are parsed one after another; progress accumulates across them
+    for (const mapping of mappings) {
+      const result = await strategy.parse(file, mapping, {
+        ...options,
+        onProgress: options.onProgress && ((completed, total) => {
+          options.onProgress?.(rowsBefore + completed, rowsBefore + total);
+        })
+      });
+
+      rowsBefore += result.summary.totalRows;
+      results.push({
+        ...result,
+        errors: result.errors.map(error => ({ ...error, sheetName: mapping.sheetName })),
+        warnings: result.warnings?.map(warning => ({ ...warning, sheetName: mapping.sheetName }))
+      });
+    }
+
+    return this.mergeResults(results);
+  }
+
+  private mergeResults(results: ImportResult[]): ImportResult {
+    const transactions = results.flatMap(result => result.transactions);
+    const dates = results
+      .flatMap(result => [result.summary.timeRange.earliest, result.summary.timeRange.latest])
+      .filter(Boolean)
+      .sort();
+
+    return {
+      transactions,
+      duplicates: results.flatMap(result => result.duplicates),
+      errors: results.flatMap(result => result.errors),
+      warnings: results.flatMap(result => result.warnings || []),
+      summary: {
+        totalRows: results.reduce((sum, result) => sum + result.summary.totalRows, 0),
+        successfulImports: results.reduce((sum, result) => sum + result.summary.successfulImports, 0),
+        duplicatesFound: results.reduce((sum, result) => sum + result.summary.duplicatesFound, 0),
+        errorsCount: results.reduce((sum, result) => sum + result.summary.errorsCount, 0),
+        timeRange: {
+          earliest: dates[0] || '',
+          latest: dates[dates.length - 1] || ''
+        }
+      }
+    };
+  }
+
+  // Saves the rows and their import log entry in one database transaction,
+  // so a batch is either fully recorded or not imported at all
+  async saveTransactions(
+    result: ImportResult,
+    transactions: Transaction[],
+    ignoreDuplicates = true,
+    onProgress?: BulkProgressCallback
+  ): Promise<ImportBatch> {
     const transactionsToSave = ignoreDuplicates 
       ? transactions.filter(t => !t.isDuplicate)
       : transactions;
 
-    // Save transactions
-    for (const transaction of transactionsToSave) {
-      await transactionRepository.create(transaction);
+    const { source } = result;
+    if (!source) {
+      throw new Error('Import result has no source file information');
+    }
+
+    const batchId = result.batchId || uuidv4();
+    const profile = source.profileId ? await importProfileRepository.findById(source.profileId) : null;
+
+    const batch = await db.transaction('rw', db.transactions, db.accounts, db.importBatches, db.categories, async () => {
+      const created = await transactionRepository.bulkCreate(
+        transactionsToSave.map(transaction => ({ ...transaction, importBatchId: batchId })),
+        onProgress
+      );
+
+      return await importBatchRepository.create({
+        id: batchId,
+        fileName: source.fileName,
+        fileSize: source.fileSize,
+        fileType: source.fileType,
+        fileHash: source.fileHash,
+        profileId: profile?.id,
+        profileName: profile?.name,
+        duplicatesSkipped: transactions.length - transactionsToSave.length,
+        summary: result.summary,
+        transactionIds: created.map(transaction => transaction.id)
+      });
+    });
+
+    console.log(`✅ Imported ${batch.importedCount} transactions`);
+    return batch;
+  }
+
+  // A combined preview is saved file by file, so each file stays one batch in the import history
+  async saveFiles(
+    result: ImportResult,
+    transactions: Transaction[],
+    ignoreDuplicates = true,
+    onProgress?: BulkProgressCallback
+  ): Promise<ImportBatch[]> {
+    const parts = result.parts || [];
+    if (parts.length === 0) {
+      return [await this.saveTransactions(result, transactions, ignoreDuplicates, onProgress)];
     }
 
-    console.log(`✅ Imported ${transactionsToSave.length} transactions`);
+    // Rows that lost their batch (none expected) are kept with the first file
+    const batchIds = new Set(parts.map(part => part.batchId));
+    const rowsFor = (part: ImportResult, index: number) => transactions.filter(transaction =>
+      transaction.importBatchId === part.batchId || (index === 0 && !batchIds.has(transaction.importBatchId))
+    );
+
+    const toSave = (rows: Transaction[]) => ignoreDuplicates ? rows.filter(t => !t.isDuplicate).length : rows.length;
+    const total = toSave(transactions);
+    const batches: ImportBatch[] = [];
+    let savedBefore = 0;
+
+    for (let index = 0; index < parts.length; index++) {
+      const rows = rowsFor(parts[index], index);
+      batches.push(await this.saveTransactions(parts[index], rows, ignoreDuplicates, onProgress && ((completed) => {
+        onProgress(savedBefore + completed, total);
+      })));
+      savedBefore += toSave(rows);
+    }
+
+    return batches;
   }
 
-  async previewImport(file: ImportFile, mapping?: ImportMapping): Promise<ImportResult> {
+  async previewImport(
+    file: ImportFile,
+    mapping?: ImportMapping | ImportMapping[],
+    options?: ParseOptions
+  ): Promise<ImportResult> {
     // Same as import but don't save to database
-    return await this.importFile(file, mapping);
+    return await this.importFile(file, mapping, options);
   }
 
-  getFileTypeFromName(fileName: string): 'xls' | 'xlsx' | 'csv' | null {
+  getFileTypeFromName(fileName: string): ImportFileType | null {
     const extension = fileName.split('.').pop()?.toLowerCase();
     
     switch (extension) {
       case 'xls':
       case 'xlsx':
       case 'csv':
+      case 'ofx':
+      case 'qfx':
+      case 'qif':
+      case 'xml':
+      case 'sta':
+      case 'mt940':
+      case 'pdf':
+      case 'txt':
         return extension;
       default:
         return null;
     }
   }
 
+  // Pasted rows take the same path as a selected file, so mapping and preview work unchanged
+  createFileFromPastedText(text: string): File {
+    return new File([text], PASTED_TEXT_FILE_NAME, { type: 'text/plain' });
+  }
+
   async createImportFileFromBrowser(file: File): Promise<ImportFile> {
     const fileType = this.getFileTypeFromName(file.name);
     if (!fileType) {
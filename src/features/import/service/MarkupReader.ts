@@ -0,0 +1,45 @@
+const ENTITIES: Record<string, string> = {
+  '&amp;': '&',
+  '&lt;': '<',
+  '&gt;': '>',
+  '&quot;': '"',
+  '&apos;': "'",
+  '&nbsp;': ' '
+};
+
+/**
+ * Minimal tag reader shared by statement formats that are either XML or
+ * SGML with unclosed leaf elements (OFX 1.x). Aggregates must be closed;
+ * leaf values run until the next tag.
+ */
+export class MarkupReader {
+  static blocks(text: string, tag: string): string[] {
+    const pattern = new RegExp(`<(?:[\\w-]+:)?${tag}(?:\\s[^>]*)?>([\\s\\S]*?)</(?:[\\w-]+:)?${tag}>`, 'gi');
+    return Array.from(text.matchAll(pattern), match => match[1]);
+  }
+
+  static block(text: string, tag: string): string | undefined {
+    return this.blocks(text, tag)[0];
+  }
+
+  static value(text: string, tag: string): string | undefined {
+    const pattern = new RegExp(`<(?:[\\w-]+:)?${tag}(?:\\s[^>]*)?>([^<]*)`, 'i');
+    const match = text.match(pattern);
+    if (!match) return undefined;
+
+    const value = this.decodeEntities(match[1]).trim();
+    return value || undefined;
+  }
+
+  static attribute(text: string, tag: string, attribute: string): string | undefined {
+    const pattern = new RegExp(`<(?:[\\w-]+:)?${tag}\\s[^>]*\\b${attribute}="([^"]*)"`, 'i');
+    return text.match(pattern)?.[1];
+  }
+
+  static decodeEntities(value: string): string {
+    return value
+      .replace(/&#(\d+);/g, (_, code) => String.fromCharCode(parseInt(code, 10)))
+      .replace(/&#x([0-9a-f]+);/gi, (_, code) => String.fromCharCode(parseInt(code, 16)))
+      .replace(/&(amp|lt|gt|quot|apos|nbsp);/g, entity => ENTITIES[entity]);
+  }
+}
@@ -0,0 +1,736 @@
+export interface PdfTextRun {
+  page: number; // 1-based
+  x: number;
+  y: number; // PDF user space, growing upwards
+  width: number;
+  fontSize: number;
+  text: string;
+}
+
+interface PdfName { kind: 'name'; name: string }
+interface PdfRef { kind: 'ref'; num: number }
+interface PdfString { kind: 'string'; bytes: number[] }
+interface PdfDict { kind: 'dict'; entries: Record<string, PdfValue>; stream?: string }
+interface PdfOperator { kind: 'op'; op: string }
+
+type PdfValue = number | boolean | null | PdfName | PdfRef | PdfString | PdfDict | PdfValue[];
+type Matrix = [number, number, number, number, number, number];
+
+interface PdfFont {
+  codeBytes: 1 | 2;
+  toUnicode: Map<number, string>;
+  widthOf: (code: number) => number; // Glyph space, 1/1000 of the font size
+}
+
+interface TextState {
+  ctm: Matrix;
+  font?: PdfFont;
+  fontSize: number;
+  charSpacing: number;
+  wordSpacing: number;
+  horizontalScale: number;
+  leading: number;
+}
+
+const IDENTITY: Matrix = [1, 0, 0, 1, 0, 0];
+const DEFAULT_GLYPH_WIDTH = 500;
+const MAX_FORM_DEPTH = 5;
+
+const WHITESPACE = new Set([0, 9, 10, 12, 13, 32]);
+const DELIMITERS = new Set('()<>[]{}/%'.split('').map(ch => ch.charCodeAt(0)));
+
+const multiply = (m: Matrix, n: Matrix): Matrix => [
+  m[0] * n[0] + m[1] * n[2],
+  m[0] * n[1] + m[1] * n[3],
+  m[2] * n[0] + m[3] * n[2],
+  m[2] * n[1] + m[3] * n[3],
+  m[4] * n[0] + m[5] * n[2] + n[4],
+  m[4] * n[1] + m[5] * n[3] + n[5]
+];
+
+const isDict = (value: PdfValue | undefined): value is PdfDict =>
+  !!value && typeof value === 'object' && !Array.isArray(value) && value.kind === 'dict';
+
+const nameOf = (value: PdfValue | undefined): string | undefined =>
+  value && typeof value === 'object' && !Array.isArray(value) && value.kind === 'name' ? value.name : undefined;
+
+const toLatin1 = (bytes: Uint8Array): string => {
+  let text = '';
+  for (let offset = 0; offset < bytes.length; offset += 8192) {
+    text += String.fromCharCode(...bytes.subarray(offset, offset + 8192));
+  }
+  return text;
+};
+
+const fromLatin1 = (text: string): Uint8Array => {
+  const bytes = new Uint8Array(text.length);
+  for (let i = 0; i < text.length; i++) {
+    bytes[i] = text.charCodeAt(i) & 0xff;
+  }
+  return bytes;
+};
+
+const decodeUtf16 = (hex: string): string => {
+  const units: number[] = [];
+  for (let i = 0; i + 4 <= hex.length; i += 4) {
+    units.push(parseInt(hex.slice(i, i + 4), 16));
+  }
+  return String.fromCharCode(...units);
+};
+
+// Truncated streams are common in the wild, so whatever inflated before an error is kept
+const inflate = async (bytes: Uint8Array): Promise<Uint8Array> => {
+  if (typeof DecompressionStream === 'undefined') {
+    throw new Error('Reading compressed PDF content is not supported on this platform');
+  }
+
+  const reader = new Blob([bytes]).stream().pipeThrough(new DecompressionStream('deflate')).getReader();
+  const chunks: Uint8Array[] = [];
+  try {
+    for (let chunk = await reader.read(); !chunk.done; chunk = await reader.read()) {
+      chunks.push(chunk.value);
+    }
+  } catch (error) {
+    if (chunks.length === 0) throw error;
+  }
+
+  const result = new Uint8Array(chunks.reduce((total, chunk) => total + chunk.length, 0));
+  chunks.reduce((offset, chunk) => {
+    result.set(chunk, offset);
+    return offset + chunk.length;
+  }, 0);
+  return result;
+};
+
+const decodeAsciiHex = (bytes: Uint8Array): Uint8Array => {
+  const hex = toLatin1(bytes).replace(/>.*$/s, '').replace(/[^0-9a-f]/gi, '');
+  const padded = hex.length % 2 ? `${hex}0` : hex;
+  return Uint8Array.from(padded.match(/../g) || [], pair => parseInt(pair, 16));
+};
+
+const decodeAscii85 = (bytes: Uint8Array): Uint8Array => {
+  const text = toLatin1(bytes).replace(/~>.*$/s, '').replace(/\s/g, '').replace(/^<~/, '');
+  const output: number[] = [];
+  let group: number[] = [];
+
+  const flush = (count: number) => {
+    const padded = [...group, ...Array(5 - group.length).fill(84)];
+    const value = padded.reduce((total, digit) => total * 85 + digit, 0);
+    [24, 16, 8, 0].slice(0, count).forEach(shift => output.push(Math.floor(value / 2 ** shift) & 0xff));
+  };
+
+  for (const ch of text) {
+    if (ch === 'z' && group.length === 0) {
+      output.push(0, 0, 0, 0);
+      continue;
+    }
+    group.push(ch.charCodeAt(0) - 33);
+    if (group.length === 5) {
+      flush(4);
+      group = [];
+    }
+  }
+  if (group.length > 1) {
+    flush(group.length - 1);
+  }
+  return Uint8Array.from(output);
+};
+
+/**
+ * Tokenizer for PDF objects and content streams. Works on a latin1 string so
+ * character codes equal the underlying bytes.
+ */
+class PdfParser {
+  pos: number;
+
+  constructor(private readonly source: string, start = 0) {
+    this.pos = start;
+  }
+
+  skipWhitespace(): void {
+    while (this.pos < this.source.length) {
+      const code = this.source.charCodeAt(this.pos);
+      if (WHITESPACE.has(code)) {
+        this.pos++;
+      } else if (code === 37) { // % comment
+        while (this.pos < this.source.length && !'\r\n'.includes(this.source[this.pos])) this.pos++;
+      } else {
+        return;
+      }
+    }
+  }
+
+  // One object or operator; undefined at the end of input
+  read(): PdfValue | PdfOperator | undefined {
+    this.skipWhitespace();
+    if (this.pos >= this.source.length) return undefined;
+
+    const ch = this.source[this.pos];
+    if (ch === '/') return this.readName();
+    if (ch === '(') return this.readLiteralString();
+    if (ch === '<') {
+      return this.source[this.pos + 1] === '<' ? this.readDict() : this.readHexString();
+    }
+    if (ch === '[') return this.readArray();
+    if (/[0-9+\-.]/.test(ch)) return this.readNumberOrRef();
+
+    const word = this.readWord();
+    if (!word) {
+      this.pos++; // Stray delimiter such as ']' or '>'
+      return this.read();
+    }
+    if (word === 'true' || word === 'false') return word === 'true';
+    if (word === 'null') return null;
+    return { kind: 'op', op: word };
+  }
+
+  readValue(): PdfValue {
+    const token = this.read();
+    return token === undefined || this.isOperator(token) ? null : token;
+  }
+
+  // Inline image data is binary; jump past its EI marker
+  skipInlineImage(): void {
+    const end = this.source.slice(this.pos).search(/\sEI(?=\s|$)/);
+    this.pos = end < 0 ? this.source.length : this.pos + end + 3;
+  }
+
+  isOperator(token: PdfValue | PdfOperator): token is PdfOperator {
+    return !!token && typeof token === 'object' && !Array.isArray(token) && token.kind === 'op';
+  }
+
+  private readWord(): string {
+    const start = this.pos;
+    while (this.pos < this.source.length) {
+      const code = this.source.charCodeAt(this.pos);
+      if (WHITESPACE.has(code) || DELIMITERS.has(code)) break;
+      this.pos++;
+    }
+    return this.source.slice(start, this.pos);
+  }
+
+  private readName(): PdfName {
+    this.pos++;
+    const raw = this.readWord();
+    return { kind: 'name', name: raw.replace(/#([0-9a-f]{2})/gi, (_, hex) => String.fromCharCode(parseInt(hex, 16))) };
+  }
+
+  private readNumberOrRef(): PdfValue {
+    const word = this.readWord();
+    const value = parseFloat(word) || 0;
+    if (!/^\d+$/.test(word)) return value;
+
+    // "12 0 R" is an indirect reference
+    const saved = this.pos;
+    const match = /^\s+(\d+)\s+R(?=[\s()<>[\]{}/%]|$)/.exec(this.source.slice(this.pos, this.pos + 32));
+    if (match) {
+      this.pos += match[0].length;
+      return { kind: 'ref', num: value };
+    }
+    this.pos = saved;
+    return value;
+  }
+
+  private readLiteralString(): PdfString {
+    const bytes: number[] = [];
+    let depth = 0;
+    this.pos++;
+
+    while (this.pos < this.source.length) {
+      const ch = this.source[this.pos++];
+      if (ch === '(') {
+        depth++;
+      } else if (ch === ')') {
+        if (depth === 0) break;
+        depth--;
+      } else if (ch === '\\') {
+        const next = this.source[this.pos++];
+        const escapes: Record<string, number> = { n: 10, r: 13, t: 9, b: 8, f: 12 };
+        if (next in escapes) {
+          bytes.push(escapes[next]);
+        } else if (/[0-7]/.test(next)) {
+          let octal = next;
+          while (octal.length < 3 && /[0-7]/.test(this.source[this.pos])) octal += this.source[this.pos++];
+          bytes.push(parseInt(octal, 8) & 0xff);
+        } else if (next === '\r') {
+          if (this.source[this.pos] === '\n') this.pos++;
+        } else if (next !== '\n') {
+          bytes.push(next.charCodeAt(0));
+        }
+        continue;
+      }
+      bytes.push(ch.charCodeAt(0));
+    }
+
+    return { kind: 'string', bytes };
+  }
+
+  private readHexString(): PdfString {
+    const end = this.source.indexOf('>', this.pos);
+    const hex = this.source.slice(this.pos + 1, end < 0 ? undefined : end).replace(/[^0-9a-f]/gi, '');
+    this.pos = end < 0 ? this.source.length : end + 1;
+    const padded = hex.length % 2 ? `${hex}0` : hex;
+    return { kind: 'string', bytes: (padded.match(/../g) || []).map(pair => parseInt(pair, 16)) };
+  }
+
+  private readArray(): PdfValue[] {
+    const items: PdfValue[] = [];
+    this.pos++;
+
+    for (;;) {
+      this.skipWhitespace();
+      if (this.pos >= this.source.length) break;
+      if (this.source[this.pos] === ']') {
+        this.pos++;
+        break;
+      }
+      const token = this.read();
+      if (token !== undefined && !this.isOperator(token)) items.push(token);
+    }
+    return items;
+  }
+
+  private readDict(): PdfDict {
+    const entries: Record<string, PdfValue> = {};
+    this.pos += 2;
+
+    for (;;) {
+      this.skipWhitespace();
+      if (this.pos >= this.source.length) break;
+      if (this.source.startsWith('>>', this.pos)) {
+        this.pos += 2;
+        break;
+      }
+      const key = this.read();
+      const keyName = key !== undefined && !this.isOperator(key) ? nameOf(key) : undefined;
+      if (keyName === undefined) continue;
+      entries[keyName] = this.readValue();
+    }
+    return { kind: 'dict', entries };
+  }
+}
+
+/**
+ * Minimal reader for the text layer of PDF files. Resolves indirect objects
+ * (including compressed object streams), decodes page content and interprets
+ * the text operators, decoding glyphs through each font's ToUnicode map.
+ * Scanned statements without a text layer produce no runs.
+ */
+export class PdfTextExtractor {
+  private readonly objects = new Map<number, PdfValue>();
+  private readonly fonts = new Map<PdfDict, PdfFont>();
+  private readonly runs: PdfTextRun[] = [];
+
+  private constructor(private readonly source: string) {}
+
+  static async extract(content: ArrayBuffer): Promise<PdfTextRun[]> {
+    const source = toLatin1(new Uint8Array(content));
+    if (!source.slice(0, 1024).includes('%PDF-')) {
+      throw new Error('Not a PDF file');
+    }
+    if (/\/Encrypt\s/.test(source)) {
+      throw new Error('Encrypted PDF statements are not supported; save an unprotected copy first');
+    }
+
+    const extractor = new PdfTextExtractor(source);
+    await extractor.readObjects();
+    await extractor.readPages();
+    return extractor.runs;
+  }
+
+  private async readObjects(): Promise<void> {
+    const header = /(\d+)\s+\d+\s+obj\b/g;
+    let match: RegExpExecArray | null;
+
+    while ((match = header.exec(this.source))) {
+      const parser = new PdfParser(this.source, match.index + match[0].length);
+      const value = parser.readValue();
+
+      if (isDict(value)) {
+        parser.skipWhitespace();
+        if (this.source.startsWith('stream', parser.pos)) {
+          value.stream = this.readStreamData(value, parser.pos + 6);
+          // Skip the stream body so binary data is never mistaken for an object header
+          header.lastIndex = Math.max(header.lastIndex, parser.pos + 6 + value.stream.length);
+        }
+      }
+
+      // Later definitions win, as with incremental updates
+      this.objects.set(Number(match[1]), value);
+    }
+
+    for (const value of Array.from(this.objects.values())) {
+      if (isDict(value) && nameOf(value.entries.Type) === 'ObjStm') {
+        await this.readObjectStream(value);
+      }
+    }
+  }
+
+  private readStreamData(dict: PdfDict, start: number): string {
+    let dataStart = start;
+    if (this.source[dataStart] === '\r') dataStart++;
+    if (this.source[dataStart] === '\n') dataStart++;
+
+    const length = dict.entries.Length;
+    if (typeof length === 'number' && /^\s*endstream/.test(this.source.slice(dataStart + length, dataStart + length + 32))) {
+      return this.source.slice(dataStart, dataStart + length);
+    }
+
+    // Length is indirect or wrong: fall back to the endstream marker
+    const end = this.source.indexOf('endstream', dataStart);
+    return this.source.slice(dataStart, end < 0 ? undefined : end).replace(/\r?\n$/, '');
+  }
+
+  private async readObjectStream(dict: PdfDict): Promise<void> {
+    const content = toLatin1(await this.decodeStream(dict));
+    const count = Number(this.resolve(dict.entries.N)) || 0;
+    const first = Number(this.resolve(dict.entries.First)) || 0;
+    const index = new PdfParser(content);
+
+    for (let i = 0; i < count; i++) {
+      const num = index.readValue();
+      const offset = index.readValue();
+      if (typeof num !== 'number' || typeof offset !== 'number') break;
+      if (!this.objects.has(num)) {
+        this.objects.set(num, new PdfParser(content, first + offset).readValue());
+      }
+    }
+  }
+
+  private resolve(value: PdfValue | undefined): PdfValue | undefined {
+    let current = value;
+    for (let depth = 0; depth < 10; depth++) {
+      if (!current || typeof current !== 'object' || Array.isArray(current) || current.kind !== 'ref') {
+        return current;
+      }
+      current = this.objects.get(current.num);
+    }
+    return undefined;
+  }
+
+  private resolveDict(value: PdfValue | undefined): PdfDict | undefined {
+    const resolved = this.resolve(value);
+    return isDict(resolved) ? resolved : undefined;
+  }
+
+  private resolveArray(value: PdfValue | undefined): PdfValue[] {
+    const resolved = this.resolve(value);
+    return Array.isArray(resolved) ? resolved : resolved === undefined || resolved === null ? [] : [resolved];
+  }
+
+  private async decodeStream(dict: PdfDict): Promise<Uint8Array> {
+    let bytes = fromLatin1(dict.stream || '');
+
+    for (const filter of this.resolveArray(dict.entries.Filter).map(entry => nameOf(this.resolve(entry)))) {
+      switch (filter) {
+        case 'FlateDecode':
+        case 'Fl':
+          bytes = await inflate(bytes);
+          break;
+        case 'ASCIIHexDecode':
+        case 'AHx':
+          bytes = decodeAsciiHex(bytes);
+          break;
+        case 'ASCII85Decode':
+        case 'A85':
+          bytes = decodeAscii85(bytes);
+          break;
+        default:
+          throw new Error(`Unsupported PDF stream filter: ${filter}`);
+      }
+    }
+    return bytes;
+  }
+
+  private async readPages(): Promise<void> {
+    const catalog = Array.from(this.objects.values())
+      .filter(isDict)
+      .filter(dict => nameOf(dict.entries.Type) === 'Catalog')
+      .pop();
+    const root = this.resolveDict(catalog?.entries.Pages);
+    if (!root) {
+      throw new Error('PDF has no page tree');
+    }
+
+    const pages: { page: PdfDict; resources?: PdfDict }[] = [];
+    const visit = (node: PdfDict, inherited: PdfDict | undefined, seen: Set<PdfDict>) => {
+      if (seen.has(node)) return;
+      seen.add(node);
+      const resources = this.resolveDict(node.entries.Resources) || inherited;
+
+      if (nameOf(node.entries.Type) === 'Page' || !node.entries.Kids) {
+        pages.push({ page: node, resources });
+        return;
+      }
+      this.resolveArray(node.entries.Kids).forEach(kid => {
+        const child = this.resolveDict(kid);
+        if (child) visit(child, resources, seen);
+      });
+    };
+    visit(root, undefined, new Set());
+
+    for (let index = 0; index < pages.length; index++) {
+      const { page, resources } = pages[index];
+      const contents: string[] = [];
+
+      for (const part of this.resolveArray(page.entries.Contents)) {
+        const stream = this.resolveDict(part);
+        if (!stream) continue;
+        try {
+          contents.push(toLatin1(await this.decodeStream(stream)));
+        } catch (error) {
+          console.warn(`⚠️ Skipped unreadable content on PDF page ${index + 1}:`, error);
+        }
+      }
+
+      await this.interpret(contents.join('\n'), resources, index + 1, this.initialState(IDENTITY), 0);
+    }
+  }
+
+  private initialState(ctm: Matrix): TextState {
+    return { ctm, fontSize: 0, charSpacing: 0, wordSpacing: 0, horizontalScale: 1, leading: 0 };
+  }
+
+  private async interpret(content: string, resources: PdfDict | undefined, page: number, initial: TextState, depth: number): Promise<void> {
+    const parser = new PdfParser(content);
+    const stack: TextState[] = [];
+    let state: TextState = { ...initial };
+    let textMatrix: Matrix = IDENTITY;
+    let lineMatrix: Matrix = IDENTITY;
+    let operands: PdfValue[] = [];
+
+    const moveLine = (tx: number, ty: number) => {
+      lineMatrix = multiply([1, 0, 0, 1, tx, ty], lineMatrix);
+      textMatrix = lineMatrix;
+    };
+
+    const showText = (value: PdfValue | undefined) => {
+      if (!value || typeof value !== 'object' || Array.isArray(value) || value.kind !== 'string' || !state.font) return;
+      const { text, advance } = this.decodeText(value.bytes, state);
+      const rendering = multiply(textMatrix, state.ctm);
+      const scaleX = Math.hypot(rendering[0], rendering[1]);
+      const scaleY = Math.hypot(rendering[2], rendering[3]);
+
+      if (text.trim()) {
+        this.runs.push({
+          page,
+          x: rendering[4],
+          y: rendering[5],
+          width: advance * scaleX,
+          fontSize: state.fontSize * scaleY,
+          text
+        });
+      }
+      textMatrix = multiply([1, 0, 0, 1, advance, 0], textMatrix);
+    };
+
+    for (let token = parser.read(); token !== undefined; token = parser.read()) {
+      if (!parser.isOperator(token)) {
+        operands.push(token);
+        continue;
+      }
+
+      const numbers = operands.map(operand => (typeof operand === 'number' ? operand : 0));
+      switch (token.op) {
+        case 'q':
+          stack.push({ ...state });
+          break;
+        case 'Q':
+          state = stack.pop() || state;
+          break;
+        case 'cm':
+          state.ctm = multiply(numbers.slice(-6) as Matrix, state.ctm);
+          break;
+        case 'BT':
+          textMatrix = IDENTITY;
+          lineMatrix = IDENTITY;
+          break;
+        case 'Tf': {
+          const fontName = nameOf(operands[0]);
+          const fontDict = fontName ? this.resolveDict(this.resolveDict(resources?.entries.Font)?.entries[fontName]) : undefined;
+          state.font = fontDict ? await this.loadFont(fontDict) : undefined;
+          state.fontSize = numbers[1] || 0;
+          break;
+        }
+        case 'Tc':
+          state.charSpacing = numbers[0] || 0;
+          break;
+        case 'Tw':
+          state.wordSpacing = numbers[0] || 0;
+          break;
+        case 'Tz':
+          state.horizontalScale = (numbers[0] ?? 100) / 100;
+          break;
+        case 'TL':
+          state.leading = numbers[0] || 0;
+          break;
+        case 'Td':
+          moveLine(numbers[0] || 0, numbers[1] || 0);
+          break;
+        case 'TD':
+          state.leading = -(numbers[1] || 0);
+          moveLine(numbers[0] || 0, numbers[1] || 0);
+          break;
+        case 'Tm':
+          lineMatrix = numbers.slice(-6) as Matrix;
+          textMatrix = lineMatrix;
+          break;
+        case 'T*':
+          moveLine(0, -state.leading);
+          break;
+        case 'Tj':
+          showText(operands[0]);
+          break;
+        case "'":
+          moveLine(0, -state.leading);
+          showText(operands[0]);
+          break;
+        case '"':
+          state.wordSpacing = numbers[0] || 0;
+          state.charSpacing = numbers[1] || 0;
+          moveLine(0, -state.leading);
+          showText(operands[2]);
+          break;
+        case 'TJ':
+          this.resolveArray(operands[0]).forEach(item => {
+            if (typeof item === 'number') {
+              textMatrix = multiply([1, 0, 0, 1, (-item / 1000) * state.fontSize * state.horizontalScale, 0], textMatrix);
+            } else {
+              showText(item);
+            }
+          });
+          break;
+        case 'Do':
+          await this.interpretForm(nameOf(operands[0]), resources, page, state, depth);
+          break;
+        case 'BI':
+          parser.skipInlineImage();
+          break;
+      }
+      operands = [];
+    }
+  }
+
+  // Some generators draw whole statement tables inside form XObjects
+  private async interpretForm(name: string | undefined, resources: PdfDict | undefined, page: number, state: TextState, depth: number): Promise<void> {
+    const form = name ? this.resolveDict(this.resolveDict(resources?.entries.XObject)?.entries[name]) : undefined;
+    if (!form || nameOf(form.entries.Subtype) !== 'Form' || depth >= MAX_FORM_DEPTH) return;
+
+    const matrix = this.resolveArray(form.entries.Matrix).map(entry => Number(this.resolve(entry)) || 0);
+    const ctm = matrix.length === 6 ? multiply(matrix as Matrix, state.ctm) : state.ctm;
+
+    try {
+      const content = toLatin1(await this.decodeStream(form));
+      await this.interpret(content, this.resolveDict(form.entries.Resources) || resources, page, { ...state, ctm }, depth + 1);
+    } catch (error) {
+      console.warn(`⚠️ Skipped unreadable form on PDF page ${page}:`, error);
+    }
+  }
+
+  private decodeText(bytes: number[], state: TextState): { text: string; advance: number } {
+    const font = state.font as PdfFont;
+    let text = '';
+    let advance = 0;
+
+    for (let i = 0; i + font.codeBytes <= bytes.length; i += font.codeBytes) {
+      const code = font.codeBytes === 2 ? (bytes[i] << 8) | bytes[i + 1] : bytes[i];
+      const unicode = font.toUnicode.get(code) ?? String.fromCharCode(code);
+      text += unicode;
+
+      const spacing = state.charSpacing + (font.codeBytes === 1 && code === 32 ? state.wordSpacing : 0);
+      advance += ((font.widthOf(code) / 1000) * state.fontSize + spacing) * state.horizontalScale;
+    }
+
+    return { text: text.replace(/\u0000/g, ''), advance };
+  }
+
+  private async loadFont(dict: PdfDict): Promise<PdfFont> {
+    const cached = this.fonts.get(dict);
+    if (cached) return cached;
+
+    const composite = nameOf(dict.entries.Subtype) === 'Type0';
+    const font: PdfFont = {
+      codeBytes: composite ? 2 : 1,
+      toUnicode: new Map(),
+      widthOf: composite ? this.compositeWidths(dict) : this.simpleWidths(dict)
+    };
+    this.fonts.set(dict, font);
+
+    // Without a ToUnicode map, codes are taken as Latin-1 (close to WinAnsi for simple fonts)
+    const toUnicode = this.resolveDict(dict.entries.ToUnicode);
+    if (toUnicode) {
+      try {
+        this.readToUnicode(toLatin1(await this.decodeStream(toUnicode)), font);
+      } catch (error) {
+        console.warn('⚠️ Unreadable ToUnicode map:', error);
+      }
+    }
+    return font;
+  }
+
+  private simpleWidths(dict: PdfDict): (code: number) => number {
+    const firstChar = Number(this.resolve(dict.entries.FirstChar)) || 0;
+    const widths = this.resolveArray(dict.entries.Widths).map(entry => Number(this.resolve(entry)) || 0);
+    return code => widths[code - firstChar] || DEFAULT_GLYPH_WIDTH;
+  }
+
+  private compositeWidths(dict: PdfDict): (code: number) => number {
+    const descendant = this.resolveDict(this.resolveArray(dict.entries.DescendantFonts)[0]);
+    const defaultWidth = Number(this.resolve(descendant?.entries.DW)) || 1000;
+    const widths = new Map<number, number>();
+    const entries = this.resolveArray(descendant?.entries.W).map(entry => this.resolve(entry));
+
+    // W holds "first [w1 w2 ...]" and "first last w" groups
+    for (let i = 0; i < entries.length;) {
+      const first = entries[i];
+      const next = entries[i + 1];
+      if (typeof first !== 'number') break;
+      if (Array.isArray(next)) {
+        next.forEach((width, offset) => widths.set(first + offset, Number(this.resolve(width)) || 0));
+        i += 2;
+      } else {
+        const last = Number(next);
+        const width = Number(entries[i + 2]) || 0;
+        for (let code = first; code <= last && code - first < 65536; code++) widths.set(code, width);
+        i += 3;
+      }
+    }
+    return code => widths.get(code) ?? defaultWidth;
+  }
+
+  private readToUnicode(cmap: string, font: PdfFont): void {
+    const codespace = /begincodespacerange\s*<([0-9a-f]+)>/i.exec(cmap);
+    if (codespace) {
+      font.codeBytes = codespace[1].length > 2 ? 2 : 1;
+    }
+
+    for (const [, block] of Array.from(cmap.matchAll(/beginbfchar([\s\S]*?)endbfchar/g))) {
+      for (const [, source, target] of Array.from(block.matchAll(/<([0-9a-f]+)>\s*<([0-9a-f]*)>/gi))) {
+        font.toUnicode.set(parseInt(source, 16), decodeUtf16(target));
+      }
+    }
+
+    for (const [, block] of Array.from(cmap.matchAll(/beginbfrange([\s\S]*?)endbfrange/g))) {
+      const ranges = /<([0-9a-f]+)>\s*<([0-9a-f]+)>\s*(<[0-9a-f]*>|\[[^\]]*\])/gi;
+      for (const [, low, high, target] of Array.from(block.matchAll(ranges))) {
+        const start = parseInt(low, 16);
+        const end = Math.min(parseInt(high, 16), start + 65535);
+
+        if (target.startsWith('[')) {
+          Array.from(target.matchAll(/<([0-9a-f]*)>/gi)).forEach(([, hex], offset) => {
+            font.toUnicode.set(start + offset, decodeUtf16(hex));
+          });
+          continue;
+        }
+
+        // Consecutive codes map to consecutive values of the last UTF-16 unit
+        const hex = target.slice(1, -1);
+        const prefix = decodeUtf16(hex.slice(0, -4));
+        const lastUnit = parseInt(hex.slice(-4), 16);
+        for (let code = start; code <= end; code++) {
+          font.toUnicode.set(code, prefix + String.fromCharCode(lastUnit + code - start));
+        }
+      }
+    }
+  }
+}
@@ -0,0 +1,62 @@
+import { db } from '@/features/transactions/storage/TransactionDatabase';
+import { Transaction } from '@/features/transactions/model/Transaction';
+import { transferRepository } from '@/features/transfers/storage/TransferRepository';
+import { ImportBatch, CreateImportBatchRequest } from '../model/ImportBatch';
+
+export class ImportBatchRepository {
+
+  async create(request: CreateImportBatchRequest): Promise<ImportBatch> {
+    const batch: ImportBatch = {
+      ...request,
+      importedCount: request.transactionIds.length,
+      importedAt: new Date().toISOString()
+    };
+
+    await db.importBatches.add(batch);
+
+    console.log('✅ Import batch recorded:', batch.id);
+    return batch;
+  }
+
+  async findAll(): Promise<ImportBatch[]> {
+    return await db.importBatches.orderBy('importedAt').reverse().toArray();
+  }
+
+  async findById(id: string): Promise<ImportBatch | null> {
+    const batch = await db.importBatches.get(id);
+    return batch || null;
+  }
+
+  // Transactions deleted manually since the import are simply missing from the result
+  async findTransactions(batch: ImportBatch): Promise<Transaction[]> {
+    const transactions = await db.transactions.bulkGet(batch.transactionIds);
+    return transactions.filter((transaction): transaction is Transaction => !!transaction);
+  }
+
+  // Removes every transaction of the batch and marks it rolled back, all or nothing
+  async rollback(id: string): Promise<ImportBatch> {
+    return await db.transaction('rw', db.transactions, db.importBatches, db.transfers, async () => {
+      const batch = await this.findById(id);
+      if (!batch) {
+        throw new Error(`Import batch with id ${id} not found`);
+      }
+      if (batch.rolledBackAt) {
+        throw new Error('Import batch has already been rolled back');
+      }
+      if ((await this.findTransactions(batch)).some(transaction => transaction.reconciliationId)) {
+        throw new Error('Import batch contains reconciled transactions; undo the reconciliation first');
+      }
+
+      await db.transactions.bulkDelete(batch.transactionIds);
+      await transferRepository.removeForTransactions(batch.transactionIds);
+
+      const rolledBack: ImportBatch = { ...batch, rolledBackAt: new Date().toISOString() };
+      await db.importBatches.put(rolledBack);
+
+      console.log(`✅ Rolled back import batch ${id} (${batch.transactionIds.length} transactions)`);
+      return rolledBack;
+    });
+  }
+}
+
+export const importBatchRepository = new ImportBatchRepository();
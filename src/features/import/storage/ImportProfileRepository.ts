@@ -0,0 +1,86 @@
+import { v4 as uuidv4 } from 'uuid';
+import { db } from '@/features/transactions/storage/TransactionDatabase';
+import {
+  ImportProfile,
+  CreateImportProfileRequest,
+  UpdateImportProfileRequest
+} from '../model/ImportProfile';
+
+export class ImportProfileRepository {
+
+  async create(request: CreateImportProfileRequest): Promise<ImportProfile> {
+    const now = new Date().toISOString();
+
+    const profile: ImportProfile = {
+      id: uuidv4(),
+      name: request.name.trim(),
+      headerFingerprint: request.headerFingerprint,
+      columns: request.columns,
+      mapping: request.mapping,
+      createdAt: now,
+      updatedAt: now,
+      lastUsedAt: now
+    };
+
+    await db.importProfiles.add(profile);
+
+    console.log('✅ Import profile created:', profile.name);
+    return profile;
+  }
+
+  async findAll(): Promise<ImportProfile[]> {
+    const profiles = await db.importProfiles.toArray();
+    return profiles.sort((a, b) => a.name.localeCompare(b.name));
+  }
+
+  async findById(id: string): Promise<ImportProfile | null> {
+    const profile = await db.importProfiles.get(id);
+    return profile || null;
+  }
+
+  // Several profiles may share a header layout; prefer the one used most recently
+  async findByFingerprint(headerFingerprint: string): Promise<ImportProfile | null> {
+    const profiles = await db.importProfiles
+      .where('headerFingerprint')
+      .equals(headerFingerprint)
+      .toArray();
+
+    if (profiles.length === 0) {
+      return null;
+    }
+
+    return profiles.sort((a, b) =>
+      (b.lastUsedAt || b.updatedAt).localeCompare(a.lastUsedAt || a.updatedAt)
+    )[0];
+  }
+
+  async update(id: string, updates: UpdateImportProfileRequest): Promise<ImportProfile> {
+    const existing = await this.findById(id);
+    if (!existing) {
+      throw new Error(`Import profile with id ${id} not found`);
+    }
+
+    const updated: ImportProfile = {
+      ...existing,
+      ...updates,
+      name: updates.name !== undefined ? updates.name.trim() : existing.name,
+      updatedAt: new Date().toISOString()
+    };
+
+    await db.importProfiles.put(updated);
+
+    console.log('✅ Import profile updated:', updated.name);
+    return updated;
+  }
+
+  async markUsed(id: string): Promise<void> {
+    await db.importProfiles.update(id, { lastUsedAt: new Date().toISOString() });
+  }
+
+  async delete(id: string): Promise<void> {
+    await db.importProfiles.delete(id);
+    console.log('✅ Import profile deleted:', id);
+  }
+}
+
+export const importProfileRepository = new ImportProfileRepository();
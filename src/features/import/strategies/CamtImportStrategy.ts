@@ -0,0 +1,78 @@
+import { StatementImportStrategy, StatementEntry } from './StatementImportStrategy';
+import { MarkupReader } from '../service/MarkupReader';
+
+const NOT_PROVIDED = 'NOTPROVIDED';
+
+/**
+ * ISO 20022 CAMT.053 (bank to customer statement) XML.
+ */
+export class CamtImportStrategy extends StatementImportStrategy {
+  protected readonly dateField = 'BookgDt';
+  protected readonly amountField = 'Amt';
+
+  getSupportedFormats(): string[] {
+    return ['xml'];
+  }
+
+  protected readEntries(text: string): StatementEntry[] {
+    const statements = MarkupReader.blocks(text, 'Stmt');
+
+    if (statements.length === 0) {
+      throw new Error('No CAMT.053 statement (BkToCstmrStmt/Stmt) found in XML file');
+    }
+
+    return statements.flatMap(statement => {
+      const account = MarkupReader.block(statement, 'Acct') || '';
+      const accountId = MarkupReader.value(account, 'IBAN') || MarkupReader.value(account, 'Id') || 'Imported Card';
+      const accountCurrency = MarkupReader.value(account, 'Ccy');
+
+      return MarkupReader.blocks(statement, 'Ntry').map(entry => this.toEntry(entry, accountId, accountCurrency));
+    });
+  }
+
+  private toEntry(entry: string, accountId: string, accountCurrency?: string): StatementEntry {
+    const rawAmount = MarkupReader.value(entry, 'Amt');
+    const isDebit = MarkupReader.value(entry, 'CdtDbtInd') === 'DBIT';
+    const amount = this.parseDecimal(rawAmount);
+
+    const bookingDate = MarkupReader.block(entry, 'BookgDt') || MarkupReader.block(entry, 'ValDt') || '';
+    const rawDate = MarkupReader.value(bookingDate, 'DtTm') || MarkupReader.value(bookingDate, 'Dt');
+
+    const details = MarkupReader.block(entry, 'TxDtls') || '';
+    const relatedParties = MarkupReader.block(details, 'RltdPties') || '';
+    // The counterparty is the creditor for outgoing payments and the debtor for incoming ones
+    const counterpartyBlock = MarkupReader.block(relatedParties, isDebit ? 'Cdtr' : 'Dbtr') || '';
+    const counterparty = MarkupReader.value(counterpartyBlock, 'Nm');
+
+    const remittance = MarkupReader.blocks(details, 'Ustrd')
+      .map(value => MarkupReader.decodeEntities(value).trim())
+      .filter(Boolean)
+      .join(' ');
+
+    const reference = [
+      MarkupReader.value(entry, 'AcctSvcrRef'),
+      MarkupReader.value(details, 'EndToEndId')
+    ].find(value => value && value !== NOT_PROVIDED);
+
+    return {
+      date: rawDate ? this.parseIsoDate(rawDate) : null,
+      rawDate,
+      amount: isDebit ? -Math.abs(amount) : Math.abs(amount),
+      rawAmount,
+      currency: MarkupReader.attribute(entry, 'Amt', 'Ccy') || accountCurrency || 'EUR',
+      card: accountId,
+      description: counterparty || MarkupReader.value(entry, 'AddtlNtryInf'),
+      comment: remittance || undefined,
+      externalId: reference ? `${accountId}:${reference}` : undefined,
+      rawData: entry
+    };
+  }
+
+  private parseIsoDate(value: string): string | null {
+    const date = /^\d{4}-\d{2}-\d{2}$/.test(value)
+      ? new Date(`${value}T00:00:00`)
+      : new Date(value);
+
+    return isNaN(date.getTime()) ? null : date.toISOString();
+  }
+}
@@ -0,0 +1,23 @@
+import { ImportFile } from './ImportStrategy';
+import { XlsImportStrategy, SheetRows } from './XlsImportStrategy';
+import { DelimitedTextParser } from '../service/DelimitedTextParser';
+
+export class CsvImportStrategy extends XlsImportStrategy {
+  protected readonly formatLabel: string = 'CSV';
+
+  getSupportedFormats(): string[] {
+    return ['csv'];
+  }
+
+  protected async readSheets(file: ImportFile): Promise<SheetRows[]> {
+    return [{ name: this.formatLabel, rows: await this.readRows(file) }];
+  }
+
+  protected async readRows(file: ImportFile): Promise<any[][]> {
+    const { rows, delimiter, encoding } = DelimitedTextParser.parseBuffer(file.content);
+
+    console.log(`📄 CSV decoded as ${encoding}, delimiter ${JSON.stringify(delimiter)}, ${rows.length} rows`);
+
+    return rows;
+  }
+}
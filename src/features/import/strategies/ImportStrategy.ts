@@ -1,8 +1,13 @@
 import { Transaction } from '@/features/transactions/model/Transaction';
+import { ImportProfile } from '../model/ImportProfile';
+import { DecimalSeparator } from '@/shared/utils/currencyUtils';
+import { CategorySuggestion } from '@/features/learning/model/CategoryLearning';
+
+export type ImportFileType = 'xls' | 'xlsx' | 'csv' | 'ofx' | 'qfx' | 'qif' | 'xml' | 'sta' | 'mt940' | 'pdf' | 'txt';
 
 export interface ImportFile {
   name: string;
-  type: 'xls' | 'xlsx' | 'csv';
+  type: ImportFileType;
   size: number;
   content: ArrayBuffer;
 }
@@ -11,7 +16,26 @@ export interface ImportResult {
   transactions: Transaction[];
   duplicates: Transaction[];
   errors: ImportError[];
+  warnings?: ImportError[]; // Rows imported with a guessed value, e.g. a date that fits several patterns
+  categorySuggestions?: Record<string, CategorySuggestion>; // Learned category per uncategorized transaction ID
   summary: ImportSummary;
+  batchId?: string;
+  source?: ImportSource;
+  parts?: ImportResult[]; // Per-file results of a multi-file import; each is saved as its own batch
+  skippedFiles?: SkippedImportFile[]; // Queued files that failed or were skipped before the preview
+}
+
+export interface SkippedImportFile {
+  fileName: string;
+  reason: string;
+}
+
+export interface ImportSource {
+  fileName: string;
+  fileSize: number;
+  fileType: ImportFileType;
+  fileHash: string;
+  profileId?: string;
 }
 
 export interface ImportError {
@@ -19,6 +43,23 @@ export interface ImportError {
   column: string;
   error: string;
   rawData: any;
+  sheetName?: string; // Set when several sheets were imported together
+  fileName?: string; // Set when several files were imported together
+  batchId?: string; // Batch of the file the row belongs to, in multi-file imports
+  field?: keyof ImportRowDraft; // Transaction field the error is about, highlighted when fixing the row
+  draft?: ImportRowDraft; // Present when the row can be fixed by hand in the preview
+}
+
+// The values of a failed row as editable text
+export interface ImportRowDraft {
+  date: string;
+  amount: string;
+  description: string;
+  card: string;
+  category: string;
+  currency: string;
+  comment?: string;
+  importFingerprint?: string;
 }
 
 export interface ImportSummary {
@@ -26,6 +67,8 @@ export interface ImportSummary {
   successfulImports: number;
   duplicatesFound: number;
   errorsCount: number;
+  categorizedByRules?: number; // Rows changed by categorization rules
+  crossFileDuplicates?: number; // Rows already present in an earlier file of the same multi-file import
   timeRange: {
     earliest: string;
     latest: string;
@@ -34,19 +77,95 @@ export interface ImportSummary {
 
 export interface ImportMapping {
   dateColumn: string;
-  amountColumn: string;
+  amountColumn?: string; // Signed amount; left empty when inflowColumn/outflowColumn are used
+  inflowColumn?: string; // Money in, for statements with separate debit and credit columns
+  outflowColumn?: string; // Money out
+  typeColumn?: string; // Debit/credit indicator that decides the sign of amountColumn
+  debitValues?: string[]; // typeColumn values meaning money out; DEFAULT_DEBIT_VALUES when omitted
+  creditValues?: string[]; // typeColumn values meaning money in; DEFAULT_CREDIT_VALUES when omitted
   descriptionColumn: string;
   cardColumn?: string;
   categoryColumn?: string;
   commentColumn?: string;
   dateFormat: string;
+  datePatterns?: string[]; // Further date patterns tried in order when dateFormat doesn't fit
+  decimalSeparator?: DecimalSeparator; // Guessed per value when omitted
+  thousandsSeparator?: string; // '' for none; the other of "." and "," when omitted
   hasHeader: boolean;
   headerRowIndex?: number;
   skippedInfo?: string[];
+  currency?: string; // Overrides currency detection when set
+  currencyColumn?: string; // Per-row settled currency; falls back to currency/detection when a cell is empty
+  originalAmountColumn?: string; // Amount in the purchase currency (foreign card transactions)
+  originalCurrencyColumn?: string; // Currency of originalAmountColumn
+  cardOverride?: string; // Card name used for every row instead of the card column
+  profileId?: string; // Import profile the mapping came from, recorded in import history
+  sheetName?: string; // Workbook sheet to read; the first sheet when omitted
+  pdfLayout?: PdfLayout; // How PDF text lines are split into columns; detected when omitted
+}
+
+// PDF statements have no cells, so text lines are cut into columns by x position or matched by a regex
+export interface PdfLayout {
+  columnBoundaries?: number[]; // x positions (PDF points) where each column after the first starts
+  rowPattern?: string; // Regex with named groups; group names become the columns, other lines are skipped
+}
+
+export const DEFAULT_DEBIT_VALUES = ['DR', 'D', 'DEBIT', 'DBIT', 'Дебет'];
+export const DEFAULT_CREDIT_VALUES = ['CR', 'C', 'CREDIT', 'CRDT', 'Кредит'];
+
+// Amounts come from one signed column or from separate inflow/outflow columns
+export function hasAmountMapping(mapping: Partial<ImportMapping>): boolean {
+  return !!(mapping.amountColumn || mapping.inflowColumn || mapping.outflowColumn);
+}
+
+// dateFormat first, then the fallback patterns; 'auto' leaves dates to the heuristics
+export function getDatePatterns(mapping: Pick<ImportMapping, 'dateFormat' | 'datePatterns'>): string[] {
+  return [mapping.dateFormat, ...(mapping.datePatterns || [])]
+    .filter((pattern, index, patterns) => pattern && pattern !== 'auto' && patterns.indexOf(pattern) === index);
+}
+
+export interface SheetPreview {
+  name: string;
+  rowCount: number;
+  columns: string[]; // Empty when no header could be detected (e.g. a blank sheet)
+  sampleData: string[][];
+  suggestedMapping?: Partial<ImportMapping>;
+  headerFingerprint?: string;
+  matchedProfile?: ImportProfile;
 }
 
+export interface FilePreview {
+  columns: string[];
+  sampleData: string[][];
+  suggestedMapping?: Partial<ImportMapping>;
+  headerFingerprint?: string;
+  matchedProfile?: ImportProfile;
+  sheets?: SheetPreview[]; // Only for workbooks with more than one sheet
+  pdfLayout?: PdfLayout; // Layout a PDF preview was built with, for adjusting in the mapping step
+}
+
+export interface PreviewOptions {
+  pdfLayout?: PdfLayout;
+}
+
+export interface ParseOptions {
+  onProgress?: (completed: number, total: number) => void;
+  signal?: AbortSignal;
+}
+
+export class ImportCancelledError extends Error {
+  constructor() {
+    super('Import was cancelled');
+    this.name = 'ImportCancelledError';
+  }
+}
+
+// How many rows are parsed between progress reports and cancellation checks
+export const PARSE_PROGRESS_INTERVAL = 100;
+
 export interface ImportStrategy {
-  parse(file: ImportFile, mapping?: ImportMapping): Promise<ImportResult>;
+  parse(file: ImportFile, mapping?: ImportMapping, options?: ParseOptions): Promise<ImportResult>;
+  extractPreview?(file: ImportFile, options?: PreviewOptions): Promise<FilePreview>;
   validateFile(file: ImportFile): boolean;
   getSupportedFormats(): string[];
 } 
\ No newline at end of file
@@ -0,0 +1,154 @@
+import { StatementImportStrategy, StatementEntry } from './StatementImportStrategy';
+
+interface Mt940Field {
+  tag: string;
+  value: string;
+}
+
+// :61: value date, optional entry date, (R)C/D mark, optional funds code, amount, type, references
+const STATEMENT_LINE_PATTERN = /^(\d{6})(\d{4})?(R?[CD])([A-Z])?(\d+,\d*)([NFS][A-Z0-9]{3})([^\n/]*)(?:\/\/([^\n]*))?(?:\n([\s\S]*))?$/;
+const BALANCE_PATTERN = /^[CD]\d{6}([A-Z]{3})/;
+const NO_REFERENCE = 'NONREF';
+
+/**
+ * SWIFT MT940 customer statement messages (.sta/.mt940).
+ */
+export class Mt940ImportStrategy extends StatementImportStrategy {
+  protected readonly dateField = ':61: entry date';
+  protected readonly amountField = ':61: amount';
+
+  getSupportedFormats(): string[] {
+    return ['sta', 'mt940'];
+  }
+
+  protected readEntries(text: string): StatementEntry[] {
+    const fields = this.readFields(text);
+
+    if (!fields.some(field => field.tag === '61')) {
+      throw new Error('No :61: statement lines found in MT940 file');
+    }
+
+    const entries: StatementEntry[] = [];
+    let accountId = 'Imported Card';
+    let currency = 'EUR';
+
+    fields.forEach(field => {
+      if (field.tag === '25') {
+        accountId = field.value.trim() || accountId;
+      } else if (field.tag === '60F' || field.tag === '60M') {
+        currency = field.value.match(BALANCE_PATTERN)?.[1] || currency;
+      } else if (field.tag === '61') {
+        entries.push(this.toEntry(field.value, accountId, currency));
+      } else if (field.tag === '86' && entries.length > 0) {
+        this.applyInformation(entries[entries.length - 1], field.value);
+      }
+    });
+
+    return entries;
+  }
+
+  private readFields(text: string): Mt940Field[] {
+    const fields: Mt940Field[] = [];
+
+    text
+      .replace(/\{[1-3]:[^}]*\}/g, '')
+      .replace(/\{4:/g, '')
+      .split(/\r\n|\r|\n/)
+      .forEach(line => {
+        const tagMatch = line.match(/^:(\d{2}[A-Z]?):(.*)$/);
+        if (tagMatch) {
+          fields.push({ tag: tagMatch[1], value: tagMatch[2] });
+        } else if (fields.length > 0 && !/^-\}?$/.test(line.trim())) {
+          fields[fields.length - 1].value += `\n${line}`;
+        }
+      });
+
+    return fields;
+  }
+
+  private toEntry(value: string, accountId: string, currency: string): StatementEntry {
+    const match = value.match(STATEMENT_LINE_PATTERN);
+    if (!match) {
+      return { date: null, rawDate: value, amount: NaN, currency, card: accountId, rawData: value };
+    }
+
+    const [, valueDate, entryDate, mark, , rawAmount, , ownerReference, bankReference, supplementary] = match;
+    const amount = this.parseDecimal(rawAmount);
+    // Reversals flip the sign: RC reverses a credit, RD reverses a debit
+    const isDebit = mark === 'D' || mark === 'RC';
+
+    const reference = [bankReference, ownerReference]
+      .map(ref => ref?.trim())
+      .find(ref => ref && ref !== NO_REFERENCE);
+
+    return {
+      date: this.parseBookingDate(valueDate, entryDate),
+      rawDate: entryDate ? `${valueDate}/${entryDate}` : valueDate,
+      amount: isDebit ? -amount : amount,
+      rawAmount,
+      currency,
+      card: accountId,
+      description: supplementary?.trim() || undefined,
+      externalId: reference ? `${accountId}:${valueDate}:${reference}` : undefined,
+      rawData: value
+    };
+  }
+
+  // :86: is free text or structured with ?NN subfields (?20-?29 remittance, ?32/?33 counterparty)
+  private applyInformation(entry: StatementEntry, value: string): void {
+    const information = value.replace(/\n/g, '');
+
+    if (/\?\d{2}/.test(information)) {
+      const subfields = new Map<string, string>();
+      information.split('?').slice(1).forEach(part => {
+        const code = part.slice(0, 2);
+        subfields.set(code, (subfields.get(code) || '') + part.slice(2));
+      });
+
+      const remittance = Array.from(subfields.entries())
+        .filter(([code]) => code >= '20' && code <= '29')
+        .map(([, text]) => text.trim())
+        .join(' ');
+      const counterparty = [subfields.get('32'), subfields.get('33')].filter(Boolean).join('').trim();
+
+      entry.description = counterparty || entry.description || subfields.get('00')?.trim();
+      entry.comment = remittance || undefined;
+      return;
+    }
+
+    const slashFields = information.match(/\/(NAME|REMI)\/([^/]*)/g);
+    if (slashFields) {
+      slashFields.forEach(field => {
+        const [, code, text] = field.match(/\/(NAME|REMI)\/(.*)/) || [];
+        if (code === 'NAME') entry.description = text.trim();
+        if (code === 'REMI') entry.comment = text.trim();
+      });
+      return;
+    }
+
+    entry.comment = entry.description;
+    entry.description = information.trim();
+  }
+
+  // Booking (entry) date is MMDD in the value date's year, adjusted across the year boundary
+  private parseBookingDate(valueDate: string, entryDate?: string): string | null {
+    const year = 2000 + parseInt(valueDate.slice(0, 2), 10);
+    const valueMonth = parseInt(valueDate.slice(2, 4), 10);
+
+    let month = valueMonth;
+    let day = parseInt(valueDate.slice(4, 6), 10);
+    let bookingYear = year;
+
+    if (entryDate) {
+      month = parseInt(entryDate.slice(0, 2), 10);
+      day = parseInt(entryDate.slice(2, 4), 10);
+      if (valueMonth === 1 && month === 12) bookingYear = year - 1;
+      if (valueMonth === 12 && month === 1) bookingYear = year + 1;
+    }
+
+    const date = new Date(bookingYear, month - 1, day);
+    if (date.getMonth() !== month - 1 || date.getDate() !== day) return null;
+
+    return date.toISOString();
+  }
+}
@@ -0,0 +1,62 @@
+import { StatementImportStrategy, StatementEntry } from './StatementImportStrategy';
+import { MarkupReader } from '../service/MarkupReader';
+
+const STATEMENT_TAGS = ['STMTRS', 'CCSTMTRS'];
+const ACCOUNT_TAGS = ['BANKACCTFROM', 'CCACCTFROM'];
+
+export class OfxImportStrategy extends StatementImportStrategy {
+  protected readonly dateField = 'DTPOSTED';
+  protected readonly amountField = 'TRNAMT';
+
+  getSupportedFormats(): string[] {
+    return ['ofx', 'qfx'];
+  }
+
+  protected readEntries(text: string): StatementEntry[] {
+    const statements = STATEMENT_TAGS.flatMap(tag => MarkupReader.blocks(text, tag));
+
+    if (statements.length === 0) {
+      throw new Error('No bank or credit card statement found in OFX file');
+    }
+
+    return statements.flatMap(statement => {
+      const currency = MarkupReader.value(statement, 'CURDEF') || 'UAH';
+      const accountBlock = ACCOUNT_TAGS.map(tag => MarkupReader.block(statement, tag)).find(Boolean) || '';
+      const accountId = MarkupReader.value(accountBlock, 'ACCTID') || 'Imported Card';
+
+      return MarkupReader.blocks(statement, 'STMTTRN').map(record => {
+        const fitId = MarkupReader.value(record, 'FITID');
+        const rawDate = MarkupReader.value(record, 'DTPOSTED');
+        const rawAmount = MarkupReader.value(record, 'TRNAMT');
+
+        return {
+          date: rawDate ? this.parseOfxDate(rawDate) : null,
+          rawDate,
+          amount: this.parseDecimal(rawAmount),
+          rawAmount,
+          currency,
+          card: accountId,
+          description: MarkupReader.value(record, 'NAME'),
+          comment: MarkupReader.value(record, 'MEMO'),
+          externalId: fitId ? `${accountId}:${fitId}` : undefined,
+          rawData: record
+        };
+      });
+    });
+  }
+
+  // OFX dates look like YYYYMMDD[HHMMSS[.XXX]][[-5:EST]]
+  private parseOfxDate(value: string): string | null {
+    const match = value.match(/^(\d{4})(\d{2})(\d{2})(?:(\d{2})(\d{2})(\d{2})?)?(?:\.\d+)?(?:\[([+-]?\d+(?:\.\d+)?)(?::\w+)?\])?/);
+    if (!match) return null;
+
+    const [, year, month, day, hours = '0', minutes = '0', seconds = '0', offset] = match;
+    const parts = [year, month, day, hours, minutes, seconds].map(part => parseInt(part, 10));
+
+    const date = offset !== undefined
+      ? new Date(Date.UTC(parts[0], parts[1] - 1, parts[2], parts[3], parts[4], parts[5]) - parseFloat(offset) * 3600 * 1000)
+      : new Date(parts[0], parts[1] - 1, parts[2], parts[3], parts[4], parts[5]);
+
+    return isNaN(date.getTime()) ? null : date.toISOString();
+  }
+}
@@ -0,0 +1,65 @@
+import { detectDateFormat } from '@/shared/utils/dateUtils';
+import { ImportFile } from './ImportStrategy';
+import { CsvImportStrategy } from './CsvImportStrategy';
+
+export const PASTED_TEXT_FILE_NAME = 'Pasted transactions.txt';
+
+const SNIFF_ROWS = 20;
+const AMOUNT_PATTERN = /^\(?[-+−]?\s*[^\w\s]?\s*\d[\d\s.,']*\)?\s*(?:[A-Za-z]{3}|[^\w\s])?$/;
+
+type ColumnKind = 'empty' | 'date' | 'amount' | 'currency' | 'text';
+
+const isDate = (value: string) => detectDateFormat([value]) !== null;
+
+/**
+ * Rows pasted from online banking or a spreadsheet, handed over as a .txt file
+ * with tab or comma delimiters. Selections often leave out the header row;
+ * then one is made up from the cell contents (Date, Amount, Currency,
+ * Description), so the usual header scoring can suggest the mapping.
+ */
+export class PastedTextImportStrategy extends CsvImportStrategy {
+  protected readonly formatLabel: string = 'Pasted text';
+
+  getSupportedFormats(): string[] {
+    return ['txt'];
+  }
+
+  protected async readRows(file: ImportFile): Promise<any[][]> {
+    const rows = (await super.readRows(file)).filter(row => row.some(cell => String(cell ?? '').trim()));
+    const first = rows[0] || [];
+
+    return first.some(cell => isDate(String(cell ?? '').trim()))
+      ? [this.inferHeader(rows), ...rows]
+      : rows;
+  }
+
+  private inferHeader(rows: any[][]): string[] {
+    const width = Math.max(...rows.map(row => row.length));
+    const sample = rows.slice(0, SNIFF_ROWS);
+    const columns = Array.from({ length: width }, (_, index) =>
+      sample.map(row => String(row[index] ?? '').trim()).filter(Boolean)
+    );
+
+    const kinds = columns.map((values): ColumnKind => {
+      if (values.length === 0) return 'empty';
+      if (detectDateFormat(values) !== null) return 'date';
+      if (values.every(value => AMOUNT_PATTERN.test(value))) return 'amount';
+      if (values.every(value => /^[A-Z]{3}$/.test(value))) return 'currency';
+      return 'text';
+    });
+
+    // The widest text column reads as the description
+    const averageLength = (values: string[]) => values.reduce((total, value) => total + value.length, 0) / values.length;
+    const descriptionIndex = kinds.reduce((best, kind, index) =>
+      kind === 'text' && (best < 0 || averageLength(columns[index]) > averageLength(columns[best])) ? index : best, -1);
+
+    const firstOf = (kind: ColumnKind) => kinds.indexOf(kind);
+    return kinds.map((kind, index) => {
+      if (kind === 'date' && index === firstOf('date')) return 'Date';
+      if (kind === 'amount' && index === firstOf('amount')) return 'Amount';
+      if (kind === 'currency' && index === firstOf('currency')) return 'Currency';
+      if (index === descriptionIndex) return 'Description';
+      return `Column ${index + 1}`;
+    });
+  }
+}
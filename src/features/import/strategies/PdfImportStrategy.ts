@@ -0,0 +1,215 @@
+import { ImportFile, FilePreview, PdfLayout, PreviewOptions } from './ImportStrategy';
+import { XlsImportStrategy, SheetRows } from './XlsImportStrategy';
+import { PdfTextExtractor, PdfTextRun } from '../service/PdfTextExtractor';
+
+interface PdfTextLine {
+  page: number;
+  y: number;
+  fontSize: number;
+  runs: PdfTextRun[]; // Left to right
+}
+
+interface PdfCell {
+  x: number;
+  endX: number;
+  text: string;
+}
+
+// Gaps are measured in multiples of the font size
+const WORD_GAP = 0.15;
+const CELL_GAP = 0.9;
+const CONTINUATION_GAP = 1.6;
+const HEADER_KEYWORDS = /date|дата|datum|fecha/i;
+
+const byPosition = (a: PdfTextRun, b: PdfTextRun) => a.page - b.page || b.y - a.y || a.x - b.x;
+
+/**
+ * Reads the text layer of PDF statements and rebuilds the transaction table
+ * from text positions, so it goes through the same mapping and validation as
+ * spreadsheets. Columns are cut at x boundaries (detected from the header line
+ * or set by the user), or rows are picked out with a regex row template.
+ */
+export class PdfImportStrategy extends XlsImportStrategy {
+  protected readonly formatLabel: string = 'PDF';
+
+  // Preview and parse both need the lines; extraction is the expensive part
+  private readonly linesByContent = new WeakMap<ArrayBuffer, Promise<PdfTextLine[]>>();
+
+  getSupportedFormats(): string[] {
+    return ['pdf'];
+  }
+
+  async extractPreview(file: ImportFile, options?: PreviewOptions): Promise<FilePreview> {
+    const pdfLayout = options?.pdfLayout || this.detectLayout(await this.readLines(file));
+    const preview = await super.extractPreview(file, { pdfLayout });
+
+    return {
+      ...preview,
+      suggestedMapping: { ...preview.suggestedMapping, pdfLayout },
+      pdfLayout
+    };
+  }
+
+  protected async readSheets(file: ImportFile, options?: PreviewOptions): Promise<SheetRows[]> {
+    return [{ name: this.formatLabel, rows: await this.readRows(file, undefined, options?.pdfLayout) }];
+  }
+
+  protected async readRows(file: ImportFile, _sheetName?: string, layout?: PdfLayout): Promise<any[][]> {
+    const lines = await this.readLines(file);
+    const effective = layout && (layout.rowPattern || layout.columnBoundaries) ? layout : this.detectLayout(lines);
+
+    return effective.rowPattern
+      ? this.matchRows(lines, effective.rowPattern)
+      : this.splitColumns(lines, effective.columnBoundaries || []);
+  }
+
+  private readLines(file: ImportFile): Promise<PdfTextLine[]> {
+    let lines = this.linesByContent.get(file.content);
+    if (!lines) {
+      lines = PdfTextExtractor.extract(file.content).then(runs => {
+        if (runs.length === 0) {
+          throw new Error('No text found in PDF; scanned statements are not supported');
+        }
+        console.log(`📄 PDF text layer: ${runs.length} runs on ${runs[runs.length - 1].page} pages`);
+        return this.groupLines(runs);
+      });
+      this.linesByContent.set(file.content, lines);
+    }
+    return lines;
+  }
+
+  // Runs whose baselines are within a fraction of the font size share a line
+  private groupLines(runs: PdfTextRun[]): PdfTextLine[] {
+    const lines: PdfTextLine[] = [];
+
+    [...runs].sort(byPosition).forEach(run => {
+      const last = lines[lines.length - 1];
+      if (last && last.page === run.page && Math.abs(last.y - run.y) <= Math.max(1, last.fontSize * 0.4)) {
+        last.runs.push(run);
+        last.fontSize = Math.max(last.fontSize, run.fontSize);
+      } else {
+        lines.push({ page: run.page, y: run.y, fontSize: run.fontSize || 10, runs: [run] });
+      }
+    });
+
+    lines.forEach(line => line.runs.sort((a, b) => a.x - b.x));
+    return lines;
+  }
+
+  private joinRuns(runs: PdfTextRun[]): string {
+    return runs.reduce((text, run, index) => {
+      const previous = runs[index - 1];
+      const gap = previous ? run.x - (previous.x + previous.width) : 0;
+      const separator = previous && gap > previous.fontSize * WORD_GAP && !/\s$/.test(text) && !/^\s/.test(run.text) ? ' ' : '';
+      return text + separator + run.text;
+    }, '').replace(/\s+/g, ' ').trim();
+  }
+
+  private toCells(line: PdfTextLine): PdfCell[] {
+    const groups: PdfTextRun[][] = [];
+
+    line.runs.forEach(run => {
+      const group = groups[groups.length - 1];
+      const previous = group?.[group.length - 1];
+      if (previous && run.x - (previous.x + previous.width) < line.fontSize * CELL_GAP) {
+        group.push(run);
+      } else {
+        groups.push([run]);
+      }
+    });
+
+    return groups.map(group => ({
+      x: group[0].x,
+      endX: Math.max(...group.map(run => run.x + run.width)),
+      text: this.joinRuns(group)
+    }));
+  }
+
+  // Boundaries sit midway between header cells, which also fits right-aligned amount columns
+  private detectLayout(lines: PdfTextLine[]): PdfLayout {
+    const cellsByLine = lines.map(line => this.toCells(line));
+    const header = cellsByLine.find(cells => cells.length >= 3 && cells.some(cell => HEADER_KEYWORDS.test(cell.text)))
+      || this.mostCommonShape(cellsByLine);
+
+    if (!header) {
+      return { columnBoundaries: [] };
+    }
+
+    return {
+      columnBoundaries: header.slice(1).map((cell, index) =>
+        Math.round(((header[index].endX + cell.x) / 2) * 10) / 10
+      )
+    };
+  }
+
+  // Without a recognisable header, the first line with the most frequent column count stands in
+  private mostCommonShape(cellsByLine: PdfCell[][]): PdfCell[] | undefined {
+    const counts = new Map<number, number>();
+    cellsByLine
+      .filter(cells => cells.length >= 3)
+      .forEach(cells => counts.set(cells.length, (counts.get(cells.length) || 0) + 1));
+
+    const [bestCount] = Array.from(counts.entries()).sort((a, b) => b[1] - a[1] || b[0] - a[0])[0] || [];
+    return bestCount ? cellsByLine.find(cells => cells.length === bestCount) : undefined;
+  }
+
+  private splitColumns(lines: PdfTextLine[], boundaries: number[]): string[][] {
+    const sorted = [...boundaries].sort((a, b) => a - b);
+    const rows: string[][] = [];
+    let previousLine: PdfTextLine | undefined;
+
+    lines.forEach(line => {
+      const columns: PdfTextRun[][] = sorted.map(() => []).concat([[]]);
+      line.runs.forEach(run => {
+        const center = run.x + run.width / 2;
+        columns[sorted.filter(boundary => boundary <= center).length].push(run);
+      });
+
+      const row = columns.map(runs => this.joinRuns(runs));
+      const filled = row.map((text, index) => (text ? index : -1)).filter(index => index >= 0);
+      const previousRow = rows[rows.length - 1];
+
+      // A lone cell right below a row wraps that row's text, e.g. a long description
+      const isContinuation = previousLine && previousRow && filled.length === 1 && filled[0] > 0 &&
+        previousLine.page === line.page &&
+        previousLine.y - line.y <= line.fontSize * CONTINUATION_GAP &&
+        !!previousRow[filled[0]];
+
+      if (isContinuation) {
+        previousRow[filled[0]] = `${previousRow[filled[0]]} ${row[filled[0]]}`;
+      } else {
+        rows.push(row);
+      }
+      previousLine = line;
+    });
+
+    return rows;
+  }
+
+  private matchRows(lines: PdfTextLine[], rowPattern: string): string[][] {
+    let pattern: RegExp;
+    try {
+      pattern = new RegExp(rowPattern, 'u');
+    } catch (error) {
+      throw new Error(`Invalid row pattern: ${error instanceof Error ? error.message : rowPattern}`);
+    }
+
+    const groupNames = Array.from(rowPattern.matchAll(/\(\?<([a-zA-Z_$][\w$]*)>/g), match => match[1]);
+    const rows: string[][] = [];
+
+    lines.forEach(line => {
+      const match = pattern.exec(this.joinRuns(line.runs));
+      if (!match) return;
+
+      rows.push(groupNames.length > 0
+        ? groupNames.map(name => (match.groups?.[name] || '').trim())
+        : match.slice(1).map(value => (value || '').trim()));
+    });
+
+    const header = groupNames.length > 0
+      ? groupNames
+      : (rows[0] || []).map((_, index) => `Column ${index + 1}`);
+
+    return rows.length > 0 ? [header, ...rows] : [];
+  }
+}
@@ -0,0 +1,126 @@
+import { detectDateFormat } from '@/shared/utils/dateUtils';
+import { ImportFile, FilePreview } from './ImportStrategy';
+import { XlsImportStrategy, SheetRows } from './XlsImportStrategy';
+import { DelimitedTextParser } from '../service/DelimitedTextParser';
+
+export const QIF_COLUMNS = ['Date', 'Amount', 'Payee', 'Memo', 'Category', 'Number', 'Account'];
+
+const TRANSACTION_SECTIONS = ['bank', 'ccard', 'cash'];
+const SPLIT_FIELD_CODES = ['S', 'E', '$', '%'];
+
+type QifRecord = Partial<Record<string, string>>;
+
+/**
+ * Reads Quicken/GnuCash QIF files as a virtual table with fixed columns, so
+ * records go through the same mapping and date format handling as spreadsheets.
+ */
+export class QifImportStrategy extends XlsImportStrategy {
+  protected readonly formatLabel: string = 'QIF';
+
+  getSupportedFormats(): string[] {
+    return ['qif'];
+  }
+
+  async extractPreview(file: ImportFile): Promise<FilePreview> {
+    const preview = await super.extractPreview(file);
+    const rows = await this.readRows(file);
+    const dateFormat = detectDateFormat(rows.slice(1).map(row => row[0]));
+
+    return {
+      ...preview,
+      suggestedMapping: {
+        ...preview.suggestedMapping,
+        dateColumn: 'Date',
+        amountColumn: 'Amount',
+        descriptionColumn: 'Payee',
+        commentColumn: 'Memo',
+        categoryColumn: 'Category',
+        cardColumn: 'Account',
+        dateFormat: dateFormat || 'MM/DD/YYYY',
+        hasHeader: true,
+        headerRowIndex: 0
+      }
+    };
+  }
+
+  protected async readSheets(file: ImportFile): Promise<SheetRows[]> {
+    return [{ name: this.formatLabel, rows: await this.readRows(file) }];
+  }
+
+  protected async readRows(file: ImportFile): Promise<any[][]> {
+    const { text } = DelimitedTextParser.decode(file.content);
+    const rows: string[][] = [[...QIF_COLUMNS]];
+
+    let section = '';
+    let accountName = '';
+    let inAccountBlock = false;
+    let record: QifRecord = {};
+
+    for (const rawLine of text.split(/\r\n|\r|\n/)) {
+      const line = rawLine.trimEnd();
+      if (!line.trim()) continue;
+
+      if (line.startsWith('!')) {
+        const header = line.toLowerCase();
+        if (header.startsWith('!account')) {
+          inAccountBlock = true;
+        } else if (header.startsWith('!type:')) {
+          section = header.slice('!type:'.length).trim();
+          inAccountBlock = false;
+        }
+        record = {};
+        continue;
+      }
+
+      const code = line[0];
+      const value = line.slice(1).trim();
+
+      if (code === '^') {
+        if (inAccountBlock) {
+          accountName = record.N || accountName;
+        } else if (TRANSACTION_SECTIONS.includes(section) && (record.D || record.T || record.U)) {
+          rows.push(this.toRow(record, accountName));
+        }
+        record = {};
+        continue;
+      }
+
+      if (SPLIT_FIELD_CODES.includes(code) || record[code] !== undefined) continue;
+      record[code] = value;
+    }
+
+    return rows;
+  }
+
+  private toRow(record: QifRecord, accountName: string): string[] {
+    return [
+      this.normalizeQifDate(record.D || ''),
+      (record.T || record.U || '').replace(/,/g, ''),
+      record.P || '',
+      record.M || '',
+      this.normalizeCategory(record.L || ''),
+      record.N || '',
+      accountName
+    ];
+  }
+
+  // Quicken writes 2000+ years as 1/25'24 and may pad with spaces: " 1/ 5/24"
+  private normalizeQifDate(value: string): string {
+    const compact = value.replace(/\s+/g, '');
+    const match = compact.match(/^(\d{1,2})([\/.-])(\d{1,2})(['\/.-])(\d{2}|\d{4})$/);
+    if (!match) return compact;
+
+    const [, first, separator, second, yearSeparator, year] = match;
+    const fullYear = year.length === 4
+      ? year
+      : yearSeparator === "'" || parseInt(year, 10) < 50 ? `20${year}` : `19${year}`;
+
+    return `${first}${separator}${second}${separator}${fullYear}`;
+  }
+
+  // "[Savings]" marks a transfer to another account; "Food:Groceries/Class" drops the class
+  private normalizeCategory(value: string): string {
+    if (/^\[.*\]$/.test(value)) return 'Transfer';
+    return value.split('/')[0].trim();
+  }
+}
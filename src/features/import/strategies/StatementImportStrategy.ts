@@ -0,0 +1,150 @@
+import { v4 as uuidv4 } from 'uuid';
+import { Transaction } from '@/features/transactions/model/Transaction';
+import { transactionRepository } from '@/features/transactions/storage/TransactionRepository';
+import { parseCurrency } from '@/shared/utils/currencyUtils';
+import {
+  ImportStrategy,
+  ImportFile,
+  ImportResult,
+  ImportMapping,
+  ImportError,
+  ParseOptions,
+  ImportCancelledError,
+  PARSE_PROGRESS_INTERVAL
+} from './ImportStrategy';
+import { DelimitedTextParser } from '../service/DelimitedTextParser';
+import { ImportFingerprint } from '../service/ImportFingerprint';
+
+export interface StatementEntry {
+  date: string | null;
+  rawDate?: string;
+  amount: number;
+  rawAmount?: string;
+  currency: string;
+  card: string;
+  description?: string;
+  comment?: string;
+  category?: string;
+  externalId?: string;
+  rawData: any;
+}
+
+/**
+ * Base for self-describing statement formats (OFX, CAMT.053, MT940).
+ * Subclasses only extract entries; conversion to transactions, duplicate
+ * detection and the import summary are shared.
+ */
+export abstract class StatementImportStrategy implements ImportStrategy {
+  protected abstract readonly dateField: string;
+  protected abstract readonly amountField: string;
+
+  abstract getSupportedFormats(): string[];
+
+  protected abstract readEntries(text: string): StatementEntry[];
+
+  validateFile(file: ImportFile): boolean {
+    return this.getSupportedFormats().includes(file.type);
+  }
+
+  async parse(file: ImportFile, _mapping?: ImportMapping, options?: ParseOptions): Promise<ImportResult> {
+    if (!this.validateFile(file)) {
+      throw new Error(`Unsupported file format: ${file.type}`);
+    }
+
+    const { text } = DelimitedTextParser.decode(file.content);
+    const entries = this.readEntries(text);
+
+    const transactions: Transaction[] = [];
+    const duplicates: Transaction[] = [];
+    const errors: ImportError[] = [];
+    const seenExternalIds = new Set<string>();
+    const fingerprint = new ImportFingerprint(this.getSupportedFormats().join('|'));
+    let earliestDate = '';
+    let latestDate = '';
+
+    for (let i = 0; i < entries.length; i++) {
+      const entry = entries[i];
+      const rowNumber = i + 1;
+
+      if (i % PARSE_PROGRESS_INTERVAL === 0) {
+        if (options?.signal?.aborted) {
+          throw new ImportCancelledError();
+        }
+        options?.onProgress?.(i, entries.length);
+      }
+
+      if (!entry.date) {
+        errors.push({ row: rowNumber, column: this.dateField, error: `Invalid date format: ${entry.rawDate}`, rawData: entry.rawData });
+        continue;
+      }
+
+      if (isNaN(entry.amount)) {
+        errors.push({ row: rowNumber, column: this.amountField, error: `Invalid amount format: ${entry.rawAmount}`, rawData: entry.rawData });
+        continue;
+      }
+
+      const transaction: Transaction = {
+        id: uuidv4(),
+        date: entry.date,
+        card: entry.card,
+        amount: parseCurrency(entry.amount, entry.currency),
+        currency: entry.currency,
+        description: entry.description || entry.comment || 'Imported transaction',
+        category: entry.category || 'Other',
+        comment: entry.description && entry.comment && entry.comment !== entry.description ? entry.comment : undefined,
+        isDuplicate: false,
+        isIncome: entry.amount > 0,
+        externalId: entry.externalId,
+        importFingerprint: fingerprint.next(entry.externalId || entry.rawData),
+        createdAt: new Date().toISOString()
+      };
+
+      if (await this.isDuplicate(transaction, seenExternalIds)) {
+        transaction.isDuplicate = true;
+        duplicates.push(transaction);
+      }
+      if (transaction.externalId) {
+        seenExternalIds.add(transaction.externalId);
+      }
+
+      transactions.push(transaction);
+
+      if (!earliestDate || entry.date < earliestDate) earliestDate = entry.date;
+      if (!latestDate || entry.date > latestDate) latestDate = entry.date;
+    }
+
+    options?.onProgress?.(entries.length, entries.length);
+
+    return {
+      transactions,
+      duplicates,
+      errors,
+      summary: {
+        totalRows: entries.length,
+        successfulImports: transactions.length,
+        duplicatesFound: duplicates.length,
+        errorsCount: errors.length,
+        timeRange: {
+          earliest: earliestDate,
+          latest: latestDate
+        }
+      }
+    };
+  }
+
+  protected parseDecimal(value: string | undefined): number {
+    return value ? parseFloat(value.replace(/\s/g, '').replace(',', '.')) : NaN;
+  }
+
+  private async isDuplicate(transaction: Transaction, seenExternalIds: Set<string>): Promise<boolean> {
+    if (!transaction.externalId) {
+      return await transactionRepository.isAlreadyImported(transaction);
+    }
+
+    if (seenExternalIds.has(transaction.externalId)) {
+      return true;
+    }
+
+    return (await transactionRepository.findByExternalId(transaction.externalId)) !== null;
+  }
+}
@@ -7,19 +7,43 @@ import {
   detectCurrencyFromText, 
   addCurrencySupport,
   isSupportedCurrency,
+  parseLocaleAmount,
+  ParsedAmount,
   SUPPORTED_CURRENCIES 
 } from '@/shared/utils/currencyUtils';
 import { format } from 'date-fns';
-import { ImportStrategy, ImportFile, ImportResult, ImportMapping, ImportError } from './ImportStrategy';
+import { parseDateWithPatterns, detectDateFormat } from '@/shared/utils/dateUtils';
+import {
+  ImportStrategy,
+  ImportFile,
+  ImportResult,
+  ImportMapping,
+  ImportError,
+  ImportRowDraft,
+  FilePreview,
+  SheetPreview,
+  ParseOptions,
+  PreviewOptions,
+  PdfLayout,
+  ImportCancelledError,
+  PARSE_PROGRESS_INTERVAL,
+  DEFAULT_DEBIT_VALUES,
+  DEFAULT_CREDIT_VALUES,
+  hasAmountMapping,
+  getDatePatterns
+} from './ImportStrategy';
+import { ImportFingerprint } from '../service/ImportFingerprint';
 import * as XLSX from 'xlsx';
 
-export interface FilePreview {
-  columns: string[];
-  sampleData: string[][];
-  suggestedMapping?: Partial<ImportMapping>;
+export type { FilePreview };
+
+export interface SheetRows {
+  name: string;
+  rows: any[][];
 }
 
 export class XlsImportStrategy implements ImportStrategy {
+  protected readonly formatLabel: string = 'Excel';
   
   getSupportedFormats(): string[] {
     return ['xls', 'xlsx'];
@@ -29,7 +53,7 @@ export class XlsImportStrategy implements ImportStrategy {
     return this.getSupportedFormats().includes(file.type);
   }
 
-  async parse(file: ImportFile, mapping?: ImportMapping): Promise<ImportResult> {
+  async parse(file: ImportFile, mapping?: ImportMapping, options?: ParseOptions): Promise<ImportResult> {
     if (!this.validateFile(file)) {
       throw new Error(`Unsupported file format: ${file.type}`);
     }
@@ -39,117 +63,182 @@ export class XlsImportStrategy implements ImportStrategy {
     }
 
     try {
-      const workbook: WorkBook = read(file.content, { type: 'array' });
-      const sheetName = workbook.SheetNames[0];
-      const worksheet = workbook.Sheets[sheetName];
-      
-      const rawData = utils.sheet_to_json(worksheet, { header: 1 }) as any[][];
+      const rawData = await this.readRows(file, mapping.sheetName, mapping.pdfLayout);
       
       // Always use the user-provided mapping
-      const result = await this.parseTransactions(rawData, mapping, file.name);
+      const result = await this.parseTransactions(rawData, mapping, file.name, options);
       
       return result;
     } catch (error) {
-      console.error('Failed to parse Excel file:', error);
-      throw new Error(`Failed to parse Excel file: ${error instanceof Error ? error.message : 'Unknown error'}`);
+      if (error instanceof ImportCancelledError) {
+        throw error;
+      }
+
+      console.error(`Failed to parse ${this.formatLabel} file:`, error);
+      throw new Error(`Failed to parse ${this.formatLabel} file: ${error instanceof Error ? error.message : 'Unknown error'}`);
     }
   }
 
-  async extractPreview(file: ImportFile): Promise<FilePreview> {
+  // layout only matters to formats that rebuild tables from positioned text (PDF)
+  protected async readRows(file: ImportFile, sheetName?: string, _layout?: PdfLayout): Promise<any[][]> {
+    const workbook: WorkBook = read(file.content, { type: 'array' });
+    const name = sheetName ?? workbook.SheetNames[0];
+    const worksheet = workbook.Sheets[name];
+    
+    if (!worksheet) {
+      throw new Error(`Sheet "${name}" not found in workbook`);
+    }
+    
+    return utils.sheet_to_json(worksheet, { header: 1 }) as any[][];
+  }
+
+  // Single-table formats override this to return one sheet built from readRows
+  protected async readSheets(file: ImportFile, _options?: PreviewOptions): Promise<SheetRows[]> {
+    const workbook: WorkBook = read(file.content, { type: 'array' });
+    
+    return workbook.SheetNames.map(name => ({
+      name,
+      rows: utils.sheet_to_json(workbook.Sheets[name], { header: 1 }) as any[][]
+    }));
+  }
+
+  async extractPreview(file: ImportFile, options?: PreviewOptions): Promise<FilePreview> {
     if (!this.validateFile(file)) {
       throw new Error(`Unsupported file format: ${file.type}`);
     }
 
     try {
-      const workbook: WorkBook = read(file.content, { type: 'array' });
-      const sheetName = workbook.SheetNames[0];
-      const worksheet = workbook.Sheets[sheetName];
-      
-      const rawData = utils.sheet_to_json(worksheet, { header: 1 }) as any[][];
+      const sheets = (await this.readSheets(file, options)).map(sheet => this.buildSheetPreview(sheet.name, sheet.rows));
       
-      console.log('🔍 Raw Excel data (first 10 rows):', rawData.slice(0, 10));
+      // Prefer the first sheet that looks like a transaction table over e.g. a leading summary sheet
+      const primary = sheets.find(sheet => sheet.suggestedMapping?.dateColumn && hasAmountMapping(sheet.suggestedMapping))
+        || sheets.find(sheet => sheet.columns.length > 0);
       
-      if (rawData.length === 0) {
-        throw new Error('Empty file');
+      if (!primary) {
+        throw new Error(sheets.every(sheet => sheet.rowCount === 0) ? 'Empty file' : 'Unable to detect columns in file');
       }
 
-      // Better header detection using existing logic
-      let headerRowIndex = 0;
-      let columns: string[] = [];
+      if (sheets.length === 1) {
+        return {
+          columns: primary.columns,
+          sampleData: primary.sampleData,
+          suggestedMapping: primary.suggestedMapping
+        };
+      }
+
+      const withSheetNames = sheets.map(sheet => ({
+        ...sheet,
+        suggestedMapping: sheet.suggestedMapping && { ...sheet.suggestedMapping, sheetName: sheet.name }
+      }));
+      const primaryWithSheetName = withSheetNames[sheets.indexOf(primary)];
       
-      // First try to find a proper header row using validation
-      for (let i = 0; i < Math.min(rawData.length, 10); i++) {
+      console.log(`📑 Workbook has ${sheets.length} sheets, defaulting to "${primary.name}"`);
+
+      return {
+        columns: primaryWithSheetName.columns,
+        sampleData: primaryWithSheetName.sampleData,
+        suggestedMapping: primaryWithSheetName.suggestedMapping,
+        sheets: withSheetNames
+      };
+    } catch (error) {
+      console.error(`Failed to extract preview from ${this.formatLabel} file:`, error);
+      throw new Error(`Failed to extract preview: ${error instanceof Error ? error.message : 'Unknown error'}`);
+    }
+  }
+
+  private buildSheetPreview(name: string, rawData: any[][]): SheetPreview {
+    console.log(`🔍 Raw ${this.formatLabel} data for "${name}" (first 10 rows):`, rawData.slice(0, 10));
+    
+    if (rawData.length === 0) {
+      return { name, rowCount: 0, columns: [], sampleData: [] };
+    }
+
+    // Better header detection using existing logic
+    let headerRowIndex = 0;
+    let columns: string[] = [];
+    
+    // First try to find a proper header row using validation
+    for (let i = 0; i < Math.min(rawData.length, 10); i++) {
+      const row = rawData[i] as string[];
+      console.log(`🔍 Checking row ${i} for headers:`, row);
+      if (this.hasValidColumnStructure(row)) {
+        columns = this.extractColumnNames(row).filter(col => col.trim());
+        headerRowIndex = i;
+        console.log(`✅ Found valid header at row ${i}:`, columns);
+        break;
+      }
+    }
+
+    // Fallback to first non-empty row with meaningful content
+    if (columns.length === 0) {
+      console.log('⚠️ No valid header found, using fallback logic');
+      for (let i = 0; i < Math.min(rawData.length, 5); i++) {
         const row = rawData[i] as string[];
-        console.log(`🔍 Checking row ${i} for headers:`, row);
-        if (this.hasValidColumnStructure(row)) {
-          columns = this.extractColumnNames(row).filter(col => col.trim());
+        if (row.some(cell => String(cell).trim())) {
+          columns = row.map((cell, index) => 
+            String(cell).trim() || `Column ${index + 1}`
+          );
           headerRowIndex = i;
-          console.log(`✅ Found valid header at row ${i}:`, columns);
+          console.log(`🔄 Using fallback header at row ${i}:`, columns);
           break;
         }
       }
+    }
 
-      // Fallback to first non-empty row with meaningful content
-      if (columns.length === 0) {
-        console.log('⚠️ No valid header found, using fallback logic');
-        for (let i = 0; i < Math.min(rawData.length, 5); i++) {
-          const row = rawData[i] as string[];
-          if (row.some(cell => String(cell).trim())) {
-            columns = row.map((cell, index) => 
-              String(cell).trim() || `Column ${index + 1}`
-            );
-            headerRowIndex = i;
-            console.log(`🔄 Using fallback header at row ${i}:`, columns);
-            break;
-          }
-        }
-      }
+    if (columns.length === 0) {
+      return { name, rowCount: rawData.length, columns: [], sampleData: [] };
+    }
 
-      if (columns.length === 0) {
-        throw new Error('Unable to detect columns in file');
+    // Get sample data (excluding the detected header)
+    const sampleData: string[][] = [];
+    const startRow = headerRowIndex + 1;
+    const maxSamples = Math.min(5, rawData.length - startRow);
+    
+    console.log(`📋 Extracting sample data from row ${startRow}, ${maxSamples} samples`);
+    
+    for (let i = 0; i < maxSamples; i++) {
+      const row = rawData[startRow + i] as any[];
+      if (row && row.some(cell => String(cell).trim())) {
+        const mappedRow = columns.map((_, colIndex) => 
+          String(row[colIndex] || '').trim()
+        );
+        sampleData.push(mappedRow);
+        console.log(`📊 Sample row ${i}:`, mappedRow);
       }
+    }
 
-      // Get sample data (excluding the detected header)
-      const sampleData: string[][] = [];
-      const startRow = headerRowIndex + 1;
-      const maxSamples = Math.min(5, rawData.length - startRow);
-      
-      console.log(`📋 Extracting sample data from row ${startRow}, ${maxSamples} samples`);
-      
-      for (let i = 0; i < maxSamples; i++) {
-        const row = rawData[startRow + i] as any[];
-        if (row && row.some(cell => String(cell).trim())) {
-          const mappedRow = columns.map((_, colIndex) => 
-            String(row[colIndex] || '').trim()
-          );
-          sampleData.push(mappedRow);
-          console.log(`📊 Sample row ${i}:`, mappedRow);
-        }
-      }
+    // Generate smart suggested mapping based on column names
+    const suggestedMapping = this.detectColumnTypes(columns);
+    console.log('🎯 Suggested mapping:', suggestedMapping);
 
-      // Generate smart suggested mapping based on column names
-      const suggestedMapping = this.detectColumnTypes(columns);
-      console.log('🎯 Suggested mapping:', suggestedMapping);
+    const dateColumnIndex = suggestedMapping.dateColumn ? columns.indexOf(suggestedMapping.dateColumn) : -1;
+    const detectedDateFormat = dateColumnIndex >= 0
+      ? detectDateFormat(sampleData.map(row => row[dateColumnIndex]))
+      : null;
 
-      return {
-        columns,
-        sampleData,
-        suggestedMapping: {
-          dateColumn: suggestedMapping.dateColumn || undefined,
-          amountColumn: suggestedMapping.amountColumn || undefined,
-          descriptionColumn: suggestedMapping.descriptionColumn || undefined,
-          cardColumn: suggestedMapping.cardColumn || undefined,
-          categoryColumn: suggestedMapping.categoryColumn || undefined,
-          commentColumn: suggestedMapping.commentColumn,
-          dateFormat: 'DD.MM.YYYY' as any,
-          hasHeader: true,
-          headerRowIndex
-        }
-      };
-    } catch (error) {
-      console.error('Failed to extract preview from Excel file:', error);
-      throw new Error(`Failed to extract preview: ${error instanceof Error ? error.message : 'Unknown error'}`);
-    }
+    return {
+      name,
+      rowCount: Math.max(rawData.length - startRow, 0),
+      columns,
+      sampleData,
+      suggestedMapping: {
+        dateColumn: suggestedMapping.dateColumn || undefined,
+        amountColumn: suggestedMapping.amountColumn || undefined,
+        inflowColumn: suggestedMapping.inflowColumn || undefined,
+        outflowColumn: suggestedMapping.outflowColumn || undefined,
+        typeColumn: suggestedMapping.typeColumn || undefined,
+        currencyColumn: suggestedMapping.currencyColumn || undefined,
+        originalAmountColumn: suggestedMapping.originalAmountColumn || undefined,
+        originalCurrencyColumn: suggestedMapping.originalCurrencyColumn || undefined,
+        descriptionColumn: suggestedMapping.descriptionColumn || undefined,
+        cardColumn: suggestedMapping.cardColumn || undefined,
+        categoryColumn: suggestedMapping.categoryColumn || undefined,
+        commentColumn: suggestedMapping.commentColumn,
+        dateFormat: detectedDateFormat || 'DD.MM.YYYY',
+        hasHeader: true,
+        headerRowIndex
+      }
+    };
   }
 
   private async detectColumnMapping(data: any[][]): Promise<ImportMapping> {
@@ -246,8 +335,9 @@ export class XlsImportStrategy implements ImportStrategy {
         return '';
       }
       
-      // Clean up complex headers but preserve meaningful content
-      if (str.includes('період') || str.includes('операці')) {
+      // Clean up complex headers but preserve meaningful content.
+      // Currency-qualified headers stay whole so card and original amounts remain distinct.
+      if ((str.includes('період') || str.includes('операці')) && !/валют/i.test(str)) {
         const meaningfulWords = str.split(/\s+/).filter(word => 
           /^(дата|сума|опис|баланс|валюта|date|amount|description|balance|currency)$/i.test(word)
         );
@@ -266,7 +356,7 @@ export class XlsImportStrategy implements ImportStrategy {
     
     const headerText = headers.join(' ').toLowerCase();
     const hasDateColumn = /дата|date|time|час|posting|datum|fecha|data/i.test(headerText);
-    const hasAmountColumn = /сума|сумма|amount|value|баланс|betrag|montant|importe|kwota/i.test(headerText);
+    const hasAmountColumn = /сума|сумма|amount|value|баланс|betrag|montant|importe|kwota|debit|credit|дебет|кредит|витрати|надходження/i.test(headerText);
     const hasDescColumn = /опис|описание|description|details|narrative|memo|reference/i.test(headerText);
     
     // Require at least date + amount or all three main columns
@@ -277,6 +367,12 @@ export class XlsImportStrategy implements ImportStrategy {
   private detectColumnTypes(headers: string[]): {
     dateColumn: string | null;
     amountColumn: string | null;
+    inflowColumn: string | null;
+    outflowColumn: string | null;
+    typeColumn: string | null;
+    currencyColumn: string | null;
+    originalAmountColumn: string | null;
+    originalCurrencyColumn: string | null;
     descriptionColumn: string | null;
     cardColumn: string | null;
     categoryColumn: string | null;
@@ -290,6 +386,10 @@ export class XlsImportStrategy implements ImportStrategy {
         header: header,
         dateScore: this.calculateDateScore(h),
         amountScore: this.calculateAmountScore(h),
+        inflowScore: this.calculateInflowScore(h),
+        outflowScore: this.calculateOutflowScore(h),
+        typeScore: this.calculateTypeScore(h),
+        ...this.calculateCurrencyScores(h),
         descriptionScore: this.calculateDescriptionScore(h),
         cardScore: this.calculateCardScore(h),
         categoryScore: this.calculateCategoryScore(h),
@@ -299,7 +399,20 @@ export class XlsImportStrategy implements ImportStrategy {
     
     // Find best matches with improved thresholds
     const dateColumn = this.findBestMatch(analysis, 'dateScore', 0.4);
-    const amountColumn = this.findBestMatch(analysis, 'amountScore', 0.4);
+    
+    // Separate debit/credit columns replace a single signed amount only when both are present
+    const typeColumn = this.findBestMatch(analysis, 'typeScore', 0.6);
+    const originalAmountColumn = this.findBestMatch(analysis, 'originalAmountScore', 0.6);
+    const flowCandidates = analysis.filter(a => a.header !== typeColumn && a.header !== originalAmountColumn);
+    const inflowColumn = this.findBestMatch(flowCandidates, 'inflowScore', 0.6);
+    const outflowColumn = this.findBestMatch(flowCandidates.filter(a => a.header !== inflowColumn), 'outflowScore', 0.6);
+    const hasSplitAmounts = !!(inflowColumn && outflowColumn);
+    
+    // Next to an original amount, a lone "Currency" column describes that amount (the card currency is usually in the header)
+    const plainCurrencyColumn = this.findBestMatch(analysis, 'currencyScore', 0.6);
+    const originalCurrencyColumn = this.findBestMatch(analysis, 'originalCurrencyScore', 0.6);
+    const pairsPlainCurrency = !!(originalAmountColumn && plainCurrencyColumn && !originalCurrencyColumn);
+    const amountColumn = hasSplitAmounts ? null : this.findBestMatch(flowCandidates, 'amountScore', 0.4);
     const descriptionColumn = this.findBestMatch(analysis, 'descriptionScore', 0.3);
     const cardColumn = this.findBestMatch(analysis, 'cardScore', 0.4);
     const categoryColumn = this.findBestMatch(analysis, 'categoryScore', 0.4);
@@ -308,6 +421,12 @@ export class XlsImportStrategy implements ImportStrategy {
     return {
       dateColumn,
       amountColumn,
+      inflowColumn: hasSplitAmounts ? inflowColumn : null,
+      outflowColumn: hasSplitAmounts ? outflowColumn : null,
+      typeColumn: amountColumn ? typeColumn : null,
+      currencyColumn: pairsPlainCurrency ? null : plainCurrencyColumn,
+      originalAmountColumn,
+      originalCurrencyColumn: pairsPlainCurrency ? plainCurrencyColumn : originalCurrencyColumn,
       descriptionColumn,
       cardColumn,
       categoryColumn,
@@ -383,6 +502,96 @@ export class XlsImportStrategy implements ImportStrategy {
     return Math.min(score, 1.0);
   }
 
+  private calculateInflowScore(header: string): number {
+    const inflowKeywords = [
+      { word: 'надходження', score: 1.0 },
+      { word: 'зарахування', score: 1.0 },
+      { word: 'поступление', score: 1.0 },
+      { word: 'прихід', score: 1.0 },
+      { word: 'приход', score: 1.0 },
+      { word: 'поповнення', score: 0.9 },
+      { word: 'кредит', score: 0.9 },
+      { word: 'credit', score: 0.9 },
+      { word: 'inflow', score: 1.0 },
+      { word: 'paid in', score: 1.0 },
+      { word: 'money in', score: 1.0 },
+      { word: 'deposit', score: 0.9 },
+      { word: 'income', score: 0.8 },
+      { word: 'haben', score: 1.0 },
+      { word: 'gutschrift', score: 1.0 },
+      { word: 'crédit', score: 0.9 }
+    ];
+    
+    let score = 0;
+    for (const keyword of inflowKeywords) {
+      if (header.includes(keyword.word)) {
+        score = Math.max(score, keyword.score);
+      }
+    }
+    
+    return score;
+  }
+
+  private calculateOutflowScore(header: string): number {
+    const outflowKeywords = [
+      { word: 'витрати', score: 1.0 },
+      { word: 'списання', score: 1.0 },
+      { word: 'списание', score: 1.0 },
+      { word: 'видаток', score: 1.0 },
+      { word: 'расход', score: 1.0 },
+      { word: 'дебет', score: 0.9 },
+      { word: 'debit', score: 0.9 },
+      { word: 'outflow', score: 1.0 },
+      { word: 'paid out', score: 1.0 },
+      { word: 'money out', score: 1.0 },
+      { word: 'withdrawal', score: 0.9 },
+      { word: 'expense', score: 0.8 },
+      { word: 'soll', score: 1.0 },
+      { word: 'lastschrift', score: 1.0 },
+      { word: 'débit', score: 0.9 }
+    ];
+    
+    let score = 0;
+    for (const keyword of outflowKeywords) {
+      if (header.includes(keyword.word)) {
+        score = Math.max(score, keyword.score);
+      }
+    }
+    
+    return score;
+  }
+
+  // Indicator columns such as "DR/CR" hold a marker per row rather than an amount
+  private calculateTypeScore(header: string): number {
+    const compact = header.replace(/\s+/g, '');
+    
+    if (/^(dr\/cr|cr\/dr|d\/c|c\/d|debit\/credit|credit\/debit|дебет\/кредит|кредит\/дебет|cdtdbtind)$/.test(compact)) {
+      return 1.0;
+    }
+    if (/indicator|індикатор|признак/.test(header)) return 0.8;
+    if (/^(dr|cr)$/.test(compact)) return 0.7;
+    
+    return 0;
+  }
+
+  // Card statements pair the settled amount/currency with the original purchase amount/currency,
+  // e.g. "Сума в валюті операції" next to "Сума в валюті картки (UAH)"
+  private calculateCurrencyScores(header: string): {
+    currencyScore: number;
+    originalAmountScore: number;
+    originalCurrencyScore: number;
+  } {
+    const mentionsCurrency = /валют|currency|ccy|währung|devise|moneda/.test(header);
+    const mentionsAmount = /сума|сумма|amount|betrag|montant|importe|kwota|value/.test(header);
+    const mentionsOriginal = /original|оригінал|оригинал|операції|операции|transaction|foreign|instructed/.test(header);
+
+    return {
+      currencyScore: mentionsCurrency && !mentionsAmount && !mentionsOriginal ? 1.0 : 0,
+      originalAmountScore: mentionsAmount && mentionsOriginal && (mentionsCurrency || /original|оригінал|оригинал|foreign|instructed/.test(header)) ? 1.0 : 0,
+      originalCurrencyScore: mentionsCurrency && !mentionsAmount && mentionsOriginal ? 1.0 : 0
+    };
+  }
+
   private calculateCommentScore(header: string): number {
     const commentKeywords = [
       { word: 'опис', score: 1.0 },     // Ukrainian description/comment
@@ -542,9 +751,15 @@ export class XlsImportStrategy implements ImportStrategy {
     return Math.min(score, 1.0);
   }
 
-  private async parseTransactions(data: any[][], mapping: ImportMapping, fileName: string): Promise<ImportResult> {
+  private async parseTransactions(
+    data: any[][],
+    mapping: ImportMapping,
+    fileName: string,
+    options?: ParseOptions
+  ): Promise<ImportResult> {
     const transactions: Transaction[] = [];
     const errors: ImportError[] = [];
+    const warnings: ImportError[] = [];
     const duplicates: Transaction[] = [];
     
     console.log('🚀 Starting parseTransactions with mapping:', mapping);
@@ -562,12 +777,18 @@ export class XlsImportStrategy implements ImportStrategy {
     const headerRow = mapping.hasHeader ? data[mapping.headerRowIndex || 0] || [] : [];
     const dataStartRow = mapping.hasHeader ? (mapping.headerRowIndex || 0) + 1 : 0;
     const dataRows = data.slice(dataStartRow);
+    const fingerprint = new ImportFingerprint(
+      [this.formatLabel, mapping.sheetName, ImportFingerprint.forHeader(headerRow.map(cell => String(cell ?? '')))]
+        .filter(Boolean)
+        .join(':')
+    );
     
     console.log('📋 Header row:', headerRow);
     console.log('📋 Data starts at row:', dataStartRow);
     console.log('📋 User mapping:');
     console.log('  📅 Date column:', mapping.dateColumn);
-    console.log('  💰 Amount column:', mapping.amountColumn);
+    console.log('  💰 Amount column:', mapping.amountColumn || `${mapping.inflowColumn} (in) / ${mapping.outflowColumn} (out)`);
+    console.log('  ↕️ Type column:', mapping.typeColumn);
     console.log('  📝 Description column:', mapping.descriptionColumn);
     console.log('  💳 Card column:', mapping.cardColumn);
     console.log('  🏷️ Category column:', mapping.categoryColumn);
@@ -575,12 +796,19 @@ export class XlsImportStrategy implements ImportStrategy {
     
     // Improved currency detection with proper fallback
     const allText = data.flat().map(cell => String(cell || '')).join(' ');
-    const detectedCurrency = this.detectDocumentCurrency(allText, fileName);
+    const detectedCurrency = mapping.currency || this.detectDocumentCurrency(allText, fileName);
 
     for (let i = 0; i < dataRows.length; i++) {
       const row = dataRows[i];
       const rowNumber = dataStartRow + i + 1;
       
+      if (i % PARSE_PROGRESS_INTERVAL === 0) {
+        if (options?.signal?.aborted) {
+          throw new ImportCancelledError();
+        }
+        options?.onProgress?.(i, dataRows.length);
+      }
+      
       try {
         // Skip empty rows
         if (!row || !row.some(cell => String(cell || '').trim())) {
@@ -589,14 +817,16 @@ export class XlsImportStrategy implements ImportStrategy {
         
         // Extract values using user mapping
         const dateColumnIndex = this.getColumnIndex(headerRow, mapping.dateColumn);
-        const amountColumnIndex = this.getColumnIndex(headerRow, mapping.amountColumn);
         const descriptionColumnIndex = this.getColumnIndex(headerRow, mapping.descriptionColumn);
         const cardColumnIndex = mapping.cardColumn ? this.getColumnIndex(headerRow, mapping.cardColumn) : null;
         const categoryColumnIndex = mapping.categoryColumn ? this.getColumnIndex(headerRow, mapping.categoryColumn) : null;
+        const currencyColumnIndex = mapping.currencyColumn ? this.getColumnIndex(headerRow, mapping.currencyColumn) : null;
+        const originalAmountColumnIndex = mapping.originalAmountColumn ? this.getColumnIndex(headerRow, mapping.originalAmountColumn) : null;
+        const originalCurrencyColumnIndex = mapping.originalCurrencyColumn ? this.getColumnIndex(headerRow, mapping.originalCurrencyColumn) : null;
         const commentColumnIndex = mapping.commentColumn ? this.getColumnIndex(headerRow, mapping.commentColumn) : null;
         
         const rawDate = row[dateColumnIndex];
-        const rawAmount = row[amountColumnIndex];
+        const { rawAmount, amountColumn, parsedAmount, ambiguous: amountAmbiguous } = this.readAmount(row, headerRow, mapping);
         const rawDescription = row[descriptionColumnIndex];
         const rawCard = cardColumnIndex !== null ? row[cardColumnIndex] : null;
         const rawCategory = categoryColumnIndex !== null ? row[categoryColumnIndex] : null;
@@ -604,7 +834,7 @@ export class XlsImportStrategy implements ImportStrategy {
         
         console.log(`📊 Row ${rowNumber} data extraction:`, {
           dateIndex: dateColumnIndex, rawDate,
-          amountIndex: amountColumnIndex, rawAmount,
+          amountColumn, rawAmount,
           descriptionIndex: descriptionColumnIndex, rawDescription,
           cardIndex: cardColumnIndex, rawCard,
           categoryIndex: categoryColumnIndex, rawCategory,
@@ -614,40 +844,78 @@ export class XlsImportStrategy implements ImportStrategy {
         // Skip if essential fields are missing
         if (!rawDate && !rawAmount && !rawDescription) continue;
         
+        // Extract description and other fields
+        const description = this.extractDescription(rawDescription);
+        const comment = this.extractComment(rawComment, rawDescription, description);
+        
+        // Use mapped card/category or defaults
+        const card = mapping.cardOverride || this.cleanCardName(String(rawCard).trim()) || 'Imported';
+        const category = rawCategory ? String(rawCategory).trim() : 'Other';
+        
+        const rowCurrency = currencyColumnIndex !== null ? this.parseCurrencyCode(row[currencyColumnIndex]) : null;
+        const currency = rowCurrency || detectedCurrency;
+        
+        // Failed rows keep their values as text so they can be fixed in the preview
+        const toDraft = (): ImportRowDraft => ({
+          date: String(rawDate ?? '').trim(),
+          amount: String(rawAmount ?? '').trim(),
+          description,
+          card,
+          category,
+          currency,
+          comment: comment || undefined,
+          importFingerprint: fingerprint.next(row)
+        });
+        
         // Parse date
-        const parsedDate = this.parseDate(rawDate);
+        const { date: parsedDate, warning: dateWarning } = this.parseDate(rawDate, mapping);
         if (!parsedDate) {
           errors.push({
             row: rowNumber,
             column: mapping.dateColumn,
             error: `Invalid date format: ${rawDate}`,
-            rawData: row
+            rawData: row,
+            field: 'date',
+            draft: toDraft()
           });
           continue;
         }
         
-        // Parse amount
-        const parsedAmount = this.parseAmount(rawAmount);
         if (parsedAmount === null || isNaN(parsedAmount)) {
           errors.push({
             row: rowNumber,
-            column: mapping.amountColumn,
+            column: amountColumn,
             error: `Invalid amount format: ${rawAmount}`,
-            rawData: row
+            rawData: row,
+            field: 'amount',
+            draft: toDraft()
           });
           continue;
         }
         
-        // Extract description and other fields
-        const description = this.extractDescription(rawDescription);
-        const comment = this.extractComment(rawComment, rawDescription, description);
-        
-        // Use mapped card/category or defaults
-        const card = this.cleanCardName(String(rawCard).trim());
-        const category = rawCategory ? String(rawCategory).trim() : 'Other';
+        // Guessed values are imported but listed for review
+        if (dateWarning) {
+          warnings.push({ row: rowNumber, column: mapping.dateColumn, error: dateWarning, rawData: row });
+        }
+        if (amountAmbiguous) {
+          warnings.push({
+            row: rowNumber,
+            column: amountColumn,
+            error: `Ambiguous amount "${rawAmount}" read as ${parsedAmount}; set the decimal separator to confirm`,
+            rawData: row
+          });
+        }
         
         // Determine transaction type (income vs expense)
-        const isIncome = rawAmount > 0;
+        const isIncome = parsedAmount > 0;
+        
+        const original = this.readOriginalAmount(
+          originalAmountColumnIndex !== null ? row[originalAmountColumnIndex] : null,
+          originalCurrencyColumnIndex !== null ? row[originalCurrencyColumnIndex] : null,
+          parsedAmount,
+          currency,
+          mapping
+        );
         
         // Store the original amount with its sign - don't use Math.abs()
         const finalAmount = parsedAmount;
@@ -656,20 +924,22 @@ export class XlsImportStrategy implements ImportStrategy {
         const transaction: Transaction = {
           id: uuidv4(),
           date: parsedDate,
-          card: card || 'Imported',
-          amount: parseCurrency(finalAmount, detectedCurrency),
-          currency: detectedCurrency,
+          card,
+          amount: parseCurrency(finalAmount, currency),
+          currency,
+          originalAmount: original?.amount,
+          originalCurrency: original?.currency,
           description: description,
           category: category,
           comment: comment || undefined,
           isDuplicate: false,
           isIncome,
+          importFingerprint: fingerprint.next(row),
           createdAt: new Date().toISOString()
         };
         
         // Check for duplicates
-        const potentialDuplicates = await transactionRepository.findPotentialDuplicates(transaction);
-        if (potentialDuplicates.length > 0) {
+        if (await transactionRepository.isAlreadyImported(transaction)) {
           transaction.isDuplicate = true;
           duplicates.push(transaction);
         }
@@ -691,10 +961,13 @@ export class XlsImportStrategy implements ImportStrategy {
       }
     }
     
+    options?.onProgress?.(dataRows.length, dataRows.length);
+    
     return {
       transactions,
       duplicates,
       errors,
+      warnings,
       summary: {
         totalRows: dataRows.length,
         successfulImports: transactions.length,
@@ -741,11 +1014,85 @@ export class XlsImportStrategy implements ImportStrategy {
     return null;
   }
 
-  private determineTransactionType(rawAmount: any, parsedAmount: number, description?: string, category?: string): boolean {
-    // Default to amount-based logic: positive = income, negative = expense
-    const isIncome = rawAmount >= 0;
-    
-    return isIncome;
+  // Signed amount from one column, or inflow minus outflow for separate debit/credit columns
+  private readAmount(row: any[], headerRow: any[], mapping: ImportMapping): {
+    rawAmount: any;
+    amountColumn: string;
+    parsedAmount: number | null;
+    ambiguous: boolean;
+  } {
+    if (!mapping.amountColumn && (mapping.inflowColumn || mapping.outflowColumn)) {
+      const rawInflow = mapping.inflowColumn ? row[this.getColumnIndex(headerRow, mapping.inflowColumn)] : null;
+      const rawOutflow = mapping.outflowColumn ? row[this.getColumnIndex(headerRow, mapping.outflowColumn)] : null;
+      const inflow = this.parseAmount(rawInflow, mapping);
+      const outflow = this.parseAmount(rawOutflow, mapping);
+
+      return {
+        rawAmount: [rawInflow, rawOutflow].filter(value => value !== null && value !== undefined && value !== '').join(' / '),
+        amountColumn: [mapping.inflowColumn, mapping.outflowColumn].filter(Boolean).join(' / '),
+        parsedAmount: inflow.value === null && outflow.value === null
+          ? null
+          : Math.abs(inflow.value || 0) - Math.abs(outflow.value || 0),
+        ambiguous: inflow.ambiguous || outflow.ambiguous
+      };
+    }
+
+    const amountColumn = mapping.amountColumn || '';
+    const rawAmount = row[this.getColumnIndex(headerRow, amountColumn)];
+    const { value: parsedAmount, ambiguous } = this.parseAmount(rawAmount, mapping);
+
+    if (parsedAmount === null || !mapping.typeColumn) {
+      return { rawAmount, amountColumn, parsedAmount, ambiguous };
+    }
+
+    const rawType = row[this.getColumnIndex(headerRow, mapping.typeColumn)];
+    return { rawAmount, amountColumn, parsedAmount: this.applyTypeIndicator(parsedAmount, rawType, mapping), ambiguous };
+  }
+
+  // Only kept when the purchase currency differs from the settled one; takes the settled amount's sign
+  private readOriginalAmount(
+    rawOriginalAmount: any,
+    rawOriginalCurrency: any,
+    settledAmount: number,
+    settledCurrency: string,
+    mapping: ImportMapping
+  ): { amount: number; currency: string } | null {
+    const amount = this.parseAmount(rawOriginalAmount, mapping).value;
+    const currency = this.parseCurrencyCode(rawOriginalCurrency);
+
+    if (amount === null || isNaN(amount) || !currency || currency === settledCurrency) {
+      return null;
+    }
+
+    return {
+      amount: parseCurrency(settledAmount < 0 ? -Math.abs(amount) : Math.abs(amount), currency),
+      currency
+    };
+  }
+
+  private parseCurrencyCode(value: any): string | null {
+    const text = String(value ?? '').trim();
+    if (!text) return null;
+
+    const code = /^[A-Za-z]{3}$/.test(text) ? text.toUpperCase() : detectCurrencyFromText(text);
+    if (code && !isSupportedCurrency(code)) {
+      addCurrencySupport(code);
+    }
+
+    return code;
+  }
+
+  // Unrecognised indicator values keep the amount's own sign
+  private applyTypeIndicator(amount: number, rawType: any, mapping: ImportMapping): number {
+    const type = String(rawType ?? '').trim().toLowerCase();
+    if (!type) return amount;
+
+    const matches = (values: string[]) => values.some(value => value.trim().toLowerCase() === type);
+
+    if (matches(mapping.debitValues?.length ? mapping.debitValues : DEFAULT_DEBIT_VALUES)) return -Math.abs(amount);
+    if (matches(mapping.creditValues?.length ? mapping.creditValues : DEFAULT_CREDIT_VALUES)) return Math.abs(amount);
+
+    return amount;
   }
   
   private getColumnIndex(header: string[], columnName: string): number {
@@ -783,16 +1130,18 @@ export class XlsImportStrategy implements ImportStrategy {
     return 0;
   }
   
-  private parseDate(value: any): string | null {
-    if (!value) return null;
+  private parseDate(value: any, mapping: ImportMapping): { date: string | null; warning?: string } {
+    if (!value) return { date: null };
     
     // Skip obvious header values
     if (typeof value === 'string' && /^(дата|date|fecha|datum|data|time|час)$/i.test(value.trim())) {
-      return null;
+      return { date: null };
     }
     
     try {
       let date: Date;
+      let warning: string | undefined;
+      let matchesExplicitFormat = false;
       
       if (typeof value === 'number') {
         // Excel date serial number (handle both 1900 and 1904 date systems)
@@ -806,43 +1155,58 @@ export class XlsImportStrategy implements ImportStrategy {
       } else if (typeof value === 'string') {
         const dateStr = value.trim();
         if (!dateStr || /^(дата|date|fecha|datum|data|time|час)$/i.test(dateStr)) {
-          return null;
+          return { date: null };
+        }
+        
+        // The mapping's patterns win; the heuristics only fill in, and say so
+        const patterns = getDatePatterns(mapping);
+        const explicit = parseDateWithPatterns(dateStr, patterns);
+        matchesExplicitFormat = explicit.date !== null;
+        
+        if (explicit.ambiguousWith) {
+          warning = `Ambiguous date "${dateStr}" read as ${explicit.pattern}, but it also fits ${explicit.ambiguousWith}`;
+        } else if (patterns.length > 0 && !explicit.date) {
+          warning = `Date "${dateStr}" doesn't match ${patterns.join(' or ')} and was guessed`;
         }
         
-        date = this.parseStringDate(dateStr);
+        date = this.parseStringDate(dateStr, explicit.date);
         if (!date || isNaN(date.getTime())) {
-          return null;
+          return { date: null };
         }
       } else {
-        return null;
+        return { date: null };
       }
       
-      // Validate date is reasonable (not too far in past/future)
+      // Validate date is reasonable (not too far in past/future); dates matching
+      // an explicit format are trusted so long histories can be imported
       const now = new Date();
       const tenYearsAgo = new Date(now.getFullYear() - 10, 0, 1);
       const oneYearFromNow = new Date(now.getFullYear() + 1, 11, 31);
       
-      if (date < tenYearsAgo || date > oneYearFromNow) {
+      if (!matchesExplicitFormat && (date < tenYearsAgo || date > oneYearFromNow)) {
         console.warn(`Date ${date.toISOString()} seems unreasonable, skipping`);
-        return null;
+        return { date: null };
       }
       
-      if (isNaN(date.getTime())) return null;
+      if (isNaN(date.getTime())) return { date: null };
       
       // Return full ISO timestamp instead of just date
-      return date.toISOString();
+      return { date: date.toISOString(), warning };
     } catch (error) {
       console.warn(`Failed to parse date: ${value}`, error);
-      return null;
+      return { date: null };
     }
   }
   
-  private parseStringDate(dateStr: string): Date {
+  private parseStringDate(dateStr: string, explicitDate: Date | null): Date {
     // Extract date and time parts
     const parts = dateStr.trim().split(/\s+/);
     const datePart = parts[0];
     const timePart = parts[1] || '00:00:00'; // Default to midnight if no time
     
+    // A date read with the mapping's patterns wins over the heuristics below
+    let date: Date | null = explicitDate;
+    
     // Enhanced date format support
     const formats = [
       // DD.MM.YYYY (most common for Ukrainian banks)
@@ -859,9 +1223,9 @@ export class XlsImportStrategy implements ImportStrategy {
       { regex: /^(\d{4})\/(\d{1,2})\/(\d{1,2})$/, order: [0, 1, 2] }
     ];
     
-    let date: Date | null = null;
-    
     for (const format of formats) {
+      if (date) break;
+      
       const match = datePart.match(format.regex);
       if (match) {
         const [, part1, part2, part3] = match;
@@ -911,45 +1275,19 @@ export class XlsImportStrategy implements ImportStrategy {
     return date;
   }
   
-  private parseAmount(value: any): number | null {
-    if (value === null || value === undefined || value === '') return null;
+  private parseAmount(value: any, mapping: ImportMapping): ParsedAmount {
+    if (value === null || value === undefined || value === '') return { value: null, ambiguous: false };
     
-    if (typeof value === 'number') return value;
+    if (typeof value === 'number') return { value, ambiguous: false };
     
     if (typeof value === 'string') {
-      let cleaned = value.trim();
-      
-      // Handle different negative formats
-      const isNegative = cleaned.includes('-') || cleaned.startsWith('(') && cleaned.endsWith(')');
-      
-      // Remove currency symbols, spaces, parentheses, and formatting
-      cleaned = cleaned
-        .replace(/[£$€₴₽,\s()]/g, '')
-        .replace(/[+-]/g, '');
-      
-      // Handle different decimal separators
-      if (cleaned.includes(',') && cleaned.includes('.')) {
-        // Both comma and dot - assume European format (1.234,56)
-        cleaned = cleaned.replace(/\./g, '').replace(',', '.');
-      } else if (cleaned.includes(',')) {
-        // Check if comma is likely a thousands separator or decimal separator
-        const lastCommaIndex = cleaned.lastIndexOf(',');
-        if (lastCommaIndex === cleaned.length - 3) {
-          // Likely decimal separator (123,45)
-          cleaned = cleaned.replace(',', '.');
-        } else {
-          // Likely thousands separator (1,234)
-          cleaned = cleaned.replace(/,/g, '');
-        }
-      }
-      
-      const number = parseFloat(cleaned);
-      if (isNaN(number)) return null;
-      
-      return isNegative ? -Math.abs(number) : number;
+      return parseLocaleAmount(value, {
+        decimalSeparator: mapping.decimalSeparator,
+        thousandsSeparator: mapping.thousandsSeparator
+      });
     }
     
-    return null;
+    return { value: null, ambiguous: false };
   }
   
   private cleanDescription(description: string): string {
@@ -11,24 +11,46 @@ import {
   DataTable,
   Chip,
   Menu,
+  TextInput,
+  Checkbox,
   Provider as PaperProvider
 } from 'react-native-paper';
 import { View, ScrollView, StyleSheet, TouchableOpacity } from 'react-native';
-import { ImportMapping } from '../../strategies/ImportStrategy';
+import {
+  ImportMapping,
+  SheetPreview,
+  PdfLayout,
+  DEFAULT_DEBIT_VALUES,
+  DEFAULT_CREDIT_VALUES,
+  hasAmountMapping,
+  getDatePatterns
+} from '../../strategies/ImportStrategy';
+import { ImportProfile } from '../../model/ImportProfile';
+import { useImportProfiles } from '../hooks/useImportProfiles';
+import { SUPPORTED_CURRENCIES, DecimalSeparator, parseLocaleAmount } from '@/shared/utils/currencyUtils';
+import { SUPPORTED_DATE_FORMATS, parseDateWithPatterns, formatDate } from '@/shared/utils/dateUtils';
 import { theme } from '@/shared/ui/theme/theme';
 
 interface ColumnMappingModalProps {
   visible: boolean;
   onDismiss: () => void;
-  onConfirm: (mapping: ImportMapping) => void;
+  onConfirm: (mapping: ImportMapping | ImportMapping[]) => void;
   columns: string[];
   sampleData: string[][];
   fileName: string;
   suggestedMapping?: Partial<ImportMapping>;
+  headerFingerprint?: string;
+  matchedProfile?: ImportProfile;
+  sheets?: SheetPreview[];
+  pdfLayout?: PdfLayout; // Only for PDF statements
+  onPdfLayoutChange?: (layout: PdfLayout) => void;
+  queuePosition?: { current: number; total: number }; // Set while a multi-file import waits for this file
 }
 
+type ColumnField = Extract<keyof ImportMapping, `${string}Column`>;
+
 interface FieldMapping {
-  field: keyof ImportMapping;
+  field: ColumnField;
   label: string;
   required: boolean;
   description: string;
@@ -44,8 +66,44 @@ const FIELD_MAPPINGS: FieldMapping[] = [
   {
     field: 'amountColumn',
     label: 'Amount',
-    required: true,
-    description: 'Transaction amount (positive or negative)'
+    required: false,
+    description: 'Signed transaction amount, or map Money In / Money Out instead'
+  },
+  {
+    field: 'inflowColumn',
+    label: 'Money In',
+    required: false,
+    description: 'Credit column for statements with separate debit and credit amounts'
+  },
+  {
+    field: 'outflowColumn',
+    label: 'Money Out',
+    required: false,
+    description: 'Debit column for statements with separate debit and credit amounts'
+  },
+  {
+    field: 'typeColumn',
+    label: 'Debit/Credit Indicator',
+    required: false,
+    description: 'Column with values like DR/CR that decide the sign of Amount'
+  },
+  {
+    field: 'currencyColumn',
+    label: 'Currency',
+    required: false,
+    description: 'Currency of each row; the currency setting is used when empty'
+  },
+  {
+    field: 'originalAmountColumn',
+    label: 'Original Amount',
+    required: false,
+    description: 'Purchase amount before conversion to the card currency'
+  },
+  {
+    field: 'originalCurrencyColumn',
+    label: 'Original Currency',
+    required: false,
+    description: 'Currency of the original amount'
   },
   {
     field: 'cardColumn',
@@ -67,6 +125,33 @@ const FIELD_MAPPINGS: FieldMapping[] = [
   }
 ];
 
+const AMOUNT_FIELDS: (keyof ImportMapping)[] = ['amountColumn', 'inflowColumn', 'outflowColumn'];
+
+const parseIndicatorValues = (text: string): string[] | undefined =>
+  text.trim() ? text.split(',') : undefined;
+
+const DECIMAL_SEPARATOR_OPTIONS: { value?: DecimalSeparator; label: string }[] = [
+  { value: undefined, label: 'Auto' },
+  { value: '.', label: '1234.56' },
+  { value: ',', label: '1234,56' }
+];
+
+const THOUSANDS_SEPARATOR_OPTIONS: { value?: string; label: string }[] = [
+  { value: undefined, label: 'Auto' },
+  { value: '', label: 'None' },
+  { value: ',', label: '1,234' },
+  { value: '.', label: '1.234' },
+  { value: ' ', label: '1 234' },
+  { value: "'", label: "1'234" }
+];
+
+const formatBoundaries = (layout?: PdfLayout) => (layout?.columnBoundaries || []).join(', ');
+
+const parseBoundaries = (text: string): number[] => text
+  .split(/[,;\s]+/)
+  .map(value => parseFloat(value))
+  .filter(value => !isNaN(value));
+
 const DATE_FORMAT_OPTIONS = [
   { value: 'DD.MM.YYYY', label: 'DD.MM.YYYY (31.12.2024)' },
   { value: 'MM/DD/YYYY', label: 'MM/DD/YYYY (12/31/2024)' },
@@ -83,7 +168,13 @@ export const ColumnMappingModal: React.FC<ColumnMappingModalProps> = ({
   columns,
   sampleData,
   fileName,
-  suggestedMapping
+  suggestedMapping,
+  headerFingerprint,
+  matchedProfile,
+  sheets,
+  pdfLayout,
+  onPdfLayoutChange,
+  queuePosition
 }) => {
   const [mapping, setMapping] = useState<Partial<ImportMapping>>({
     dateFormat: 'DD.MM.YYYY',
@@ -94,6 +185,24 @@ export const ColumnMappingModal: React.FC<ColumnMappingModalProps> = ({
   
   const [activeMenu, setActiveMenu] = useState<string | null>(null);
   const [dateFormatMenuVisible, setDateFormatMenuVisible] = useState(false);
+  const [currencyMenuVisible, setCurrencyMenuVisible] = useState(false);
+  const [selectedProfileId, setSelectedProfileId] = useState<string | null>(null);
+  const [profileName, setProfileName] = useState('');
+  // Workbooks with several sheets keep one mapping per sheet; `mapping` is the active sheet's
+  const [activeSheetName, setActiveSheetName] = useState<string | undefined>(suggestedMapping?.sheetName);
+  const [selectedSheets, setSelectedSheets] = useState<string[]>([]);
+  const [sheetMappings, setSheetMappings] = useState<Record<string, Partial<ImportMapping>>>({});
+  const [layoutMode, setLayoutMode] = useState<'columns' | 'pattern'>('columns');
+  const [boundariesText, setBoundariesText] = useState('');
+  const [rowPatternText, setRowPatternText] = useState('');
+
+  const { profiles, saveProfile, markProfileUsed } = useImportProfiles(visible);
+
+  const activeSheet = sheets?.find(sheet => sheet.name === activeSheetName);
+  const activeColumns = activeSheet?.columns ?? columns;
+  const activeSampleData = activeSheet?.sampleData ?? sampleData;
+  const activeFingerprint = activeSheet ? activeSheet.headerFingerprint : headerFingerprint;
+  const activeMatchedProfile = activeSheet ? activeSheet.matchedProfile : matchedProfile;
 
   useEffect(() => {
     if (suggestedMapping) {
@@ -101,45 +210,222 @@ export const ColumnMappingModal: React.FC<ColumnMappingModalProps> = ({
         dateFormat: 'DD.MM.YYYY',
         hasHeader: true,
         headerRowIndex: 0,
-        ...suggestedMapping
+        ...suggestedMapping,
+        ...matchedProfile?.mapping,
+        sheetName: suggestedMapping.sheetName
       });
     }
-  }, [suggestedMapping]);
+    setSelectedProfileId(matchedProfile?.id || null);
+    setProfileName(matchedProfile?.name || '');
+    setActiveSheetName(suggestedMapping?.sheetName);
+    setSheetMappings({});
+    setSelectedSheets(
+      (sheets || [])
+        .filter(sheet => sheet.name === suggestedMapping?.sheetName || sheet.matchedProfile ||
+          (sheet.suggestedMapping?.dateColumn && hasAmountMapping(sheet.suggestedMapping)))
+        .map(sheet => sheet.name)
+    );
+  }, [suggestedMapping, matchedProfile, sheets]);
+
+  useEffect(() => {
+    setLayoutMode(pdfLayout?.rowPattern ? 'pattern' : 'columns');
+    setBoundariesText(formatBoundaries(pdfLayout));
+    setRowPatternText(pdfLayout?.rowPattern || '');
+  }, [pdfLayout]);
+
+  // Re-extracting the preview resets the mapping to suggestions for the new columns
+  const handleApplyLayout = () => {
+    onPdfLayoutChange?.(layoutMode === 'pattern'
+      ? { rowPattern: rowPatternText.trim() }
+      : { columnBoundaries: parseBoundaries(boundariesText) });
+  };
+
+  // One card per sheet reads naturally when the sheet has no card column of its own
+  const initialMappingFor = (sheet: SheetPreview): Partial<ImportMapping> => {
+    const initial: Partial<ImportMapping> = {
+      dateFormat: 'DD.MM.YYYY',
+      hasHeader: true,
+      headerRowIndex: 0,
+      ...sheet.suggestedMapping,
+      ...sheet.matchedProfile?.mapping,
+      sheetName: sheet.name
+    };
+
+    return initial.cardColumn || initial.cardOverride ? initial : { ...initial, cardOverride: sheet.name };
+  };
+
+  const handleSelectSheet = (sheet: SheetPreview) => {
+    if (!activeSheetName || sheet.name === activeSheetName || sheet.columns.length === 0) return;
+
+    setSheetMappings(prev => ({ ...prev, [activeSheetName]: mapping }));
+    setMapping(sheetMappings[sheet.name] || initialMappingFor(sheet));
+    setActiveSheetName(sheet.name);
+    setSelectedProfileId(sheet.matchedProfile?.id || null);
+    setProfileName(sheet.matchedProfile?.name || '');
+    setActiveMenu(null);
+  };
+
+  const handleToggleSheet = (sheet: SheetPreview) => {
+    setSelectedSheets(prev => prev.includes(sheet.name)
+      ? prev.filter(name => name !== sheet.name)
+      : [...prev, sheet.name]
+    );
+  };
+
+  const isMappingComplete = (candidate: Partial<ImportMapping>) => FIELD_MAPPINGS
+    .filter(f => f.required)
+    .every(field => candidate[field.field]) && hasAmountMapping(candidate);
+
+  // Selected sheets in workbook order, each with its latest mapping
+  const getSheetMappings = (activeMapping: Partial<ImportMapping>): Partial<ImportMapping>[] => (sheets || [])
+    .filter(sheet => selectedSheets.includes(sheet.name))
+    .map(sheet => sheet.name === activeSheetName
+      ? activeMapping
+      : sheetMappings[sheet.name] || initialMappingFor(sheet)
+    );
+
+  // Only offer profiles whose mapped columns all exist in this file (or sheet)
+  const compatibleProfiles = profiles.filter(profile => 
+    [
+      profile.mapping.dateColumn,
+      profile.mapping.amountColumn,
+      profile.mapping.inflowColumn,
+      profile.mapping.outflowColumn,
+      profile.mapping.typeColumn,
+      profile.mapping.currencyColumn,
+      profile.mapping.originalAmountColumn,
+      profile.mapping.originalCurrencyColumn,
+      profile.mapping.descriptionColumn,
+      profile.mapping.cardColumn,
+      profile.mapping.categoryColumn,
+      profile.mapping.commentColumn
+    ].every(column => !column || activeColumns.includes(column))
+  );
+
+  const selectedProfile = compatibleProfiles.find(profile => profile.id === selectedProfileId);
+
+  const handleApplyProfile = (profile: ImportProfile) => {
+    setMapping({
+      headerRowIndex: 0,
+      pdfLayout,
+      ...profile.mapping,
+      sheetName: activeSheetName
+    });
+    setSelectedProfileId(profile.id);
+    setProfileName(profile.name);
+  };
+
+  const handleUseProfile = async (profile: ImportProfile) => {
+    try {
+      await markProfileUsed(profile.id);
+    } catch (error) {
+      console.error('Failed to update import profile:', error);
+    }
+
+    const profileMapping = { pdfLayout, ...profile.mapping, sheetName: activeSheetName, profileId: profile.id };
+    if (sheets) {
+      const sheetMappingList = getSheetMappings(profileMapping);
+      if (sheetMappingList.every(isMappingComplete)) {
+        onConfirm(sheetMappingList as ImportMapping[]);
+      }
+      return;
+    }
+    onConfirm(profileMapping);
+  };
 
   const handleFieldMapping = (field: keyof ImportMapping, columnName: string | null) => {
+    // A signed amount and separate in/out columns are alternatives
+    const exclusive: Partial<ImportMapping> = !columnName ? {}
+      : field === 'amountColumn' ? { inflowColumn: undefined, outflowColumn: undefined }
+      : field === 'inflowColumn' || field === 'outflowColumn' ? { amountColumn: undefined, typeColumn: undefined }
+      : {};
+
     setMapping(prev => ({
       ...prev,
+      ...exclusive,
       [field]: columnName
     }));
     setActiveMenu(null);
   };
 
-  const handleConfirm = () => {
-    const requiredFields = FIELD_MAPPINGS.filter(f => f.required);
-    const isValid = requiredFields.every(field => mapping[field.field]);
-    
+  const handleConfirm = async () => {
     if (!isValid) {
       return; // Could show error message
     }
 
-    onConfirm(mapping as ImportMapping);
+    let profileId = selectedProfileId || undefined;
+
+    // A failed profile save must not block the import itself
+    if (profileName.trim() && activeFingerprint) {
+      try {
+        // Profiles are matched by header, so they don't remember which sheet they came from
+        const saved = await saveProfile(
+          profileName,
+          activeFingerprint,
+          activeColumns,
+          { ...mapping, sheetName: undefined } as ImportMapping
+        );
+        await markProfileUsed(saved.id);
+        profileId = saved.id;
+      } catch (error) {
+        console.error('Failed to save import profile:', error);
+      }
+    }
+
+    const activeMapping = { ...mapping, profileId } as ImportMapping;
+    onConfirm(sheets ? getSheetMappings(activeMapping) as ImportMapping[] : activeMapping);
+  };
+
+  const handleToggleDatePattern = (pattern: string) => {
+    setMapping(prev => {
+      const current = prev.datePatterns || [];
+      const next = current.includes(pattern)
+        ? current.filter(existing => existing !== pattern)
+        : [...current, pattern];
+      return { ...prev, datePatterns: next.length > 0 ? next : undefined };
+    });
+  };
+
+  // Sample values run through the same parsers as the import, so each setting shows its effect
+  const getParsedSamples = () => {
+    const dateIndex = mapping.dateColumn ? activeColumns.indexOf(mapping.dateColumn) : -1;
+    const amountColumn = mapping.amountColumn || mapping.inflowColumn || mapping.outflowColumn;
+    const amountIndex = amountColumn ? activeColumns.indexOf(amountColumn) : -1;
+    const patterns = getDatePatterns({ dateFormat: mapping.dateFormat || 'auto', datePatterns: mapping.datePatterns });
+
+    return activeSampleData.slice(0, 3).map(row => {
+      const rawDate = dateIndex >= 0 ? row[dateIndex] : '';
+      const rawAmount = amountIndex >= 0 ? row[amountIndex] : '';
+
+      return {
+        rawDate,
+        rawAmount,
+        date: rawDate ? parseDateWithPatterns(rawDate, patterns) : null,
+        amount: rawAmount
+          ? parseLocaleAmount(rawAmount, {
+              decimalSeparator: mapping.decimalSeparator,
+              thousandsSeparator: mapping.thousandsSeparator
+            })
+          : null
+      };
+    });
   };
 
   const getColumnOptions = () => [
     { label: 'None', value: null },
-    ...columns.map(col => ({ label: col, value: col }))
+    ...activeColumns.map(col => ({ label: col, value: col }))
   ];
 
   const getPreviewData = () => {
     const startRow = mapping.hasHeader && mapping.headerRowIndex !== undefined 
       ? mapping.headerRowIndex + 1 
       : 0;
-    return sampleData.slice(startRow, startRow + 3);
+    return activeSampleData.slice(startRow, startRow + 3);
   };
 
-  const isValid = FIELD_MAPPINGS
-    .filter(f => f.required)
-    .every(field => mapping[field.field]);
+  const isValid = sheets
+    ? selectedSheets.length > 0 && getSheetMappings(mapping).every(isMappingComplete)
+    : isMappingComplete(mapping);
 
   return (
     <Portal>
@@ -156,6 +442,11 @@ export const ColumnMappingModal: React.FC<ColumnMappingModalProps> = ({
               <Text variant="bodyMedium" style={styles.subtitle}>
                 {fileName}
               </Text>
+              {queuePosition && (
+                <Text variant="bodySmall" style={styles.subtitle}>
+                  File {queuePosition.current} of {queuePosition.total} · Cancel skips this file and continues with the rest
+                </Text>
+              )}
             </View>
 
             <Divider style={styles.divider} />
@@ -173,6 +464,141 @@ export const ColumnMappingModal: React.FC<ColumnMappingModalProps> = ({
               </Card.Content>
             </Card>
 
+            {/* Sheets */}
+            {sheets && (
+              <Card style={styles.settingsCard}>
+                <Card.Content>
+                  <Text variant="titleMedium" style={styles.sectionTitle}>
+                    Sheets
+                  </Text>
+                  <Text variant="bodySmall" style={styles.profileHint}>
+                    Tick the sheets to import and tap one to edit its mapping.
+                  </Text>
+
+                  {sheets.map((sheet) => (
+                    <List.Item
+                      key={sheet.name}
+                      title={sheet.name}
+                      description={sheet.columns.length > 0
+                        ? `${sheet.rowCount} rows · ${sheet.columns.length} columns${sheet.matchedProfile ? ` · ${sheet.matchedProfile.name}` : ''}`
+                        : 'No table detected'}
+                      disabled={sheet.columns.length === 0}
+                      onPress={() => handleSelectSheet(sheet)}
+                      style={sheet.name === activeSheetName ? styles.activeSheet : undefined}
+                      left={() => (
+                        <Checkbox.Android
+                          status={selectedSheets.includes(sheet.name) ? 'checked' : 'unchecked'}
+                          disabled={sheet.columns.length === 0}
+                          onPress={() => handleToggleSheet(sheet)}
+                        />
+                      )}
+                      right={(props) => sheet.name === activeSheetName
+                        ? <List.Icon {...props} icon="pencil" />
+                        : null}
+                    />
+                  ))}
+                </Card.Content>
+              </Card>
+            )}
+
+            {/* PDF Layout */}
+            {pdfLayout && onPdfLayoutChange && (
+              <Card style={styles.settingsCard}>
+                <Card.Content>
+                  <Text variant="titleMedium" style={styles.sectionTitle}>
+                    PDF Layout
+                  </Text>
+                  <Text variant="bodySmall" style={styles.profileHint}>
+                    {layoutMode === 'pattern'
+                      ? 'Lines matching the pattern become rows; named groups such as (?<date>...) become columns.'
+                      : 'Text is cut into columns at these x positions (in points from the left edge of the page).'}
+                  </Text>
+
+                  <View style={styles.profileChips}>
+                    <Chip compact selected={layoutMode === 'columns'} onPress={() => setLayoutMode('columns')}>
+                      Column Boundaries
+                    </Chip>
+                    <Chip compact selected={layoutMode === 'pattern'} onPress={() => setLayoutMode('pattern')}>
+                      Row Pattern
+                    </Chip>
+                  </View>
+
+                  {layoutMode === 'columns' ? (
+                    <TextInput
+                      mode="outlined"
+                      dense
+                      label="Column boundaries"
+                      placeholder="e.g. 95, 320, 410"
+                      value={boundariesText}
+                      onChangeText={setBoundariesText}
+                      style={styles.textInput}
+                    />
+                  ) : (
+                    <TextInput
+                      mode="outlined"
+                      dense
+                      label="Row pattern (regex)"
+                      placeholder="(?<date>\d{2}\.\d{2}\.\d{4}) (?<description>.+) (?<amount>-?[\d ]+,\d{2})$"
+                      value={rowPatternText}
+                      onChangeText={setRowPatternText}
+                      autoCapitalize="none"
+                      style={styles.textInput}
+                    />
+                  )}
+
+                  <Button
+                    mode="outlined"
+                    icon="table-refresh"
+                    onPress={handleApplyLayout}
+                    disabled={layoutMode === 'pattern' && !rowPatternText.trim()}
+                    style={styles.useProfileButton}
+                  >
+                    Apply Layout
+                  </Button>
+                </Card.Content>
+              </Card>
+            )}
+
+            {/* Saved Profiles */}
+            {compatibleProfiles.length > 0 && (
+              <Card style={styles.settingsCard}>
+                <Card.Content>
+                  <Text variant="titleMedium" style={styles.sectionTitle}>
+                    Saved Profiles
+                  </Text>
+                  {activeMatchedProfile && (
+                    <Text variant="bodySmall" style={styles.profileHint}>
+                      This {activeSheet ? 'sheet' : 'file'} matches the "{activeMatchedProfile.name}" profile.
+                    </Text>
+                  )}
+
+                  <View style={styles.profileChips}>
+                    {compatibleProfiles.map((profile) => (
+                      <Chip
+                        key={profile.id}
+                        mode={profile.id === selectedProfileId ? 'flat' : 'outlined'}
+                        selected={profile.id === selectedProfileId}
+                        onPress={() => handleApplyProfile(profile)}
+                      >
+                        {profile.name}
+                      </Chip>
+                    ))}
+                  </View>
+
+                  {selectedProfile && (
+                    <Button
+                      mode="contained"
+                      icon="lightning-bolt"
+                      onPress={() => handleUseProfile(selectedProfile)}
+                      style={styles.useProfileButton}
+                    >
+                      Import with "{selectedProfile.name}"
+                    </Button>
+                  )}
+                </Card.Content>
+              </Card>
+            )}
+
             {/* Header Settings */}
             <Card style={styles.settingsCard}>
               <Card.Content>
@@ -218,6 +644,132 @@ export const ColumnMappingModal: React.FC<ColumnMappingModalProps> = ({
                     ))}
                   </Menu>
                 </View>
+
+                <View style={styles.settingRow}>
+                  <Text variant="bodyMedium">Currency</Text>
+                  <Menu
+                    visible={currencyMenuVisible}
+                    onDismiss={() => setCurrencyMenuVisible(false)}
+                    anchor={
+                      <Button
+                        mode="outlined"
+                        compact
+                        onPress={() => setCurrencyMenuVisible(true)}
+                      >
+                        {mapping.currency || 'Auto-detect'}
+                      </Button>
+                    }
+                  >
+                    <Menu.Item
+                      title="Auto-detect"
+                      onPress={() => {
+                        setMapping(prev => ({ ...prev, currency: undefined }));
+                        setCurrencyMenuVisible(false);
+                      }}
+                    />
+                    {SUPPORTED_CURRENCIES.map((currency) => (
+                      <Menu.Item
+                        key={currency.code}
+                        title={`${currency.code} - ${currency.name}`}
+                        onPress={() => {
+                          setMapping(prev => ({ ...prev, currency: currency.code }));
+                          setCurrencyMenuVisible(false);
+                        }}
+                      />
+                    ))}
+                  </Menu>
+                </View>
+
+                <TextInput
+                  mode="outlined"
+                  dense
+                  label="Card override"
+                  placeholder="Use the card column"
+                  value={mapping.cardOverride || ''}
+                  onChangeText={(text) => setMapping(prev => ({ ...prev, cardOverride: text || undefined }))}
+                  style={styles.textInput}
+                />
+              </Card.Content>
+            </Card>
+
+            {/* Number & Date Format */}
+            <Card style={styles.settingsCard}>
+              <Card.Content>
+                <Text variant="titleMedium" style={styles.sectionTitle}>
+                  Number & Date Format
+                </Text>
+
+                <Text variant="bodyMedium">Decimal separator</Text>
+                <View style={styles.profileChips}>
+                  {DECIMAL_SEPARATOR_OPTIONS.map((option) => (
+                    <Chip
+                      key={option.label}
+                      compact
+                      selected={mapping.decimalSeparator === option.value}
+                      onPress={() => setMapping(prev => ({ ...prev, decimalSeparator: option.value }))}
+                    >
+                      {option.label}
+                    </Chip>
+                  ))}
+                </View>
+
+                <Text variant="bodyMedium" style={styles.formatLabel}>Thousands separator</Text>
+                <View style={styles.profileChips}>
+                  {THOUSANDS_SEPARATOR_OPTIONS.map((option) => (
+                    <Chip
+                      key={option.label}
+                      compact
+                      selected={mapping.thousandsSeparator === option.value}
+                      onPress={() => setMapping(prev => ({ ...prev, thousandsSeparator: option.value }))}
+                    >
+                      {option.label}
+                    </Chip>
+                  ))}
+                </View>
+
+                <Text variant="bodyMedium" style={styles.formatLabel}>Fallback date patterns (tried in order)</Text>
+                <View style={styles.profileChips}>
+                  {SUPPORTED_DATE_FORMATS.filter(pattern => pattern !== mapping.dateFormat).map((pattern) => {
+                    const position = (mapping.datePatterns || []).indexOf(pattern);
+                    return (
+                      <Chip
+                        key={pattern}
+                        compact
+                        selected={position >= 0}
+                        onPress={() => handleToggleDatePattern(pattern)}
+                      >
+                        {position >= 0 ? `${position + 1}. ${pattern}` : pattern}
+                      </Chip>
+                    );
+                  })}
+                </View>
+
+                <View style={styles.parsedSamples}>
+                  {getParsedSamples().map((sample, index) => (
+                    <View key={index} style={styles.parsedSampleRow}>
+                      <Text
+                        variant="bodySmall"
+                        style={[styles.parsedSample, sample.date?.ambiguousWith && styles.parsedSampleAmbiguous]}
+                        numberOfLines={1}
+                      >
+                        {sample.rawDate || '—'} → {sample.date?.date
+                          ? `${formatDate(sample.date.date, 'dd MMM yyyy')}${sample.date.ambiguousWith ? ` (or ${sample.date.ambiguousWith}?)` : ''}`
+                          : sample.rawDate ? 'not recognised' : '—'}
+                      </Text>
+                      <Text
+                        variant="bodySmall"
+                        style={[styles.parsedSample, sample.amount?.ambiguous && styles.parsedSampleAmbiguous]}
+                        numberOfLines={1}
+                      >
+                        {sample.rawAmount || '—'} → {sample.amount
+                          ? sample.amount.value !== null
+                            ? `${sample.amount.value}${sample.amount.ambiguous ? ' (ambiguous)' : ''}`
+                            : 'not recognised'
+                          : '—'}
+                      </Text>
+                    </View>
+                  ))}
+                </View>
               </Card.Content>
             </Card>
 
@@ -256,7 +808,8 @@ export const ColumnMappingModal: React.FC<ColumnMappingModalProps> = ({
                           onPress={() => setActiveMenu(fieldMapping.field)}
                           style={[
                             styles.columnButton,
-                            !mapping[fieldMapping.field] && fieldMapping.required && styles.columnButtonError
+                            !mapping[fieldMapping.field] && fieldMapping.required && styles.columnButtonError,
+                            AMOUNT_FIELDS.includes(fieldMapping.field) && !hasAmountMapping(mapping) && styles.columnButtonError
                           ]}
                         >
                           {mapping[fieldMapping.field] || 'Select Column'}
@@ -273,9 +826,54 @@ export const ColumnMappingModal: React.FC<ColumnMappingModalProps> = ({
                     </Menu>
                   </View>
                 ))}
+
+                {mapping.typeColumn && (
+                  <>
+                    <TextInput
+                      mode="outlined"
+                      dense
+                      label="Debit values (comma-separated)"
+                      placeholder={DEFAULT_DEBIT_VALUES.join(',')}
+                      value={mapping.debitValues?.join(',') || ''}
+                      onChangeText={(text) => setMapping(prev => ({ ...prev, debitValues: parseIndicatorValues(text) }))}
+                      style={styles.textInput}
+                    />
+                    <TextInput
+                      mode="outlined"
+                      dense
+                      label="Credit values (comma-separated)"
+                      placeholder={DEFAULT_CREDIT_VALUES.join(',')}
+                      value={mapping.creditValues?.join(',') || ''}
+                      onChangeText={(text) => setMapping(prev => ({ ...prev, creditValues: parseIndicatorValues(text) }))}
+                      style={styles.textInput}
+                    />
+                  </>
+                )}
               </Card.Content>
             </Card>
 
+            {/* Save Profile */}
+            {activeFingerprint && (
+              <Card style={styles.settingsCard}>
+                <Card.Content>
+                  <Text variant="titleMedium" style={styles.sectionTitle}>
+                    Save as Profile
+                  </Text>
+                  <TextInput
+                    mode="outlined"
+                    dense
+                    label="Profile name"
+                    placeholder="e.g. Monobank monthly statement"
+                    value={profileName}
+                    onChangeText={setProfileName}
+                  />
+                  <Text variant="bodySmall" style={styles.profileHint}>
+                    Leave empty to import without saving this mapping.
+                  </Text>
+                </Card.Content>
+              </Card>
+            )}
+
             {/* Preview */}
             <Card style={styles.previewCard}>
               <Card.Content>
@@ -287,7 +885,7 @@ export const ColumnMappingModal: React.FC<ColumnMappingModalProps> = ({
                   <DataTable>
                     {mapping.hasHeader && (
                       <DataTable.Header>
-                        {columns.map((column, index) => (
+                        {activeColumns.map((column, index) => (
                           <DataTable.Title key={index} style={styles.previewHeader}>
                             <Text variant="bodySmall" numberOfLines={1}>
                               {column}
@@ -393,6 +991,46 @@ const styles = StyleSheet.create({
     alignItems: 'center',
     marginBottom: theme.spacing.sm,
   },
+  textInput: {
+    marginTop: theme.spacing.sm,
+  },
+  profileHint: {
+    color: theme.colors.text.secondary,
+    marginVertical: theme.spacing.xs,
+  },
+  profileChips: {
+    flexDirection: 'row',
+    flexWrap: 'wrap',
+    gap: theme.spacing.sm,
+    marginTop: theme.spacing.sm,
+  },
+  useProfileButton: {
+    marginTop: theme.spacing.md,
+  },
+  formatLabel: {
+    marginTop: theme.spacing.md,
+  },
+  parsedSamples: {
+    marginTop: theme.spacing.md,
+    padding: theme.spacing.sm,
+    borderRadius: theme.borderRadius.md,
+    backgroundColor: theme.colors.backgroundSecondary,
+  },
+  parsedSampleRow: {
+    flexDirection: 'row',
+    gap: theme.spacing.md,
+    marginBottom: theme.spacing.xs,
+  },
+  parsedSample: {
+    flex: 1,
+  },
+  parsedSampleAmbiguous: {
+    color: '#E65100',
+  },
+  activeSheet: {
+    backgroundColor: theme.colors.backgroundSecondary,
+    borderRadius: theme.borderRadius.md,
+  },
   mappingRow: {
     marginBottom: theme.spacing.lg,
   },
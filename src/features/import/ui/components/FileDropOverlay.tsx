@@ -0,0 +1,51 @@
+import React from 'react';
+import { View, StyleSheet } from 'react-native';
+import { Text, Icon } from 'react-native-paper';
+import { theme } from '@/shared/ui/theme/theme';
+
+interface FileDropOverlayProps {
+  visible: boolean;
+}
+
+export const FileDropOverlay: React.FC<FileDropOverlayProps> = ({ visible }) => {
+  if (!visible) return null;
+
+  return (
+    <View style={styles.overlay} pointerEvents="none">
+      <View style={styles.target}>
+        <Icon source="tray-arrow-down" size={48} color={theme.colors.primary} />
+        <Text variant="titleMedium" style={styles.title}>Drop statements to import</Text>
+        <Text variant="bodySmall" style={styles.hint}>
+          Several files are imported together and previewed as one
+        </Text>
+      </View>
+    </View>
+  );
+};
+
+const styles = StyleSheet.create({
+  overlay: {
+    ...StyleSheet.absoluteFillObject,
+    backgroundColor: 'rgba(59, 130, 246, 0.12)',
+    justifyContent: 'center',
+    alignItems: 'center',
+    padding: theme.spacing.lg,
+  },
+  target: {
+    alignItems: 'center',
+    padding: theme.spacing.xl,
+    borderRadius: theme.borderRadius.lg,
+    borderWidth: 2,
+    borderStyle: 'dashed',
+    borderColor: theme.colors.primary,
+    backgroundColor: theme.colors.surface,
+  },
+  title: {
+    marginTop: theme.spacing.sm,
+    fontWeight: '600',
+  },
+  hint: {
+    marginTop: theme.spacing.xs,
+    color: theme.colors.text.secondary,
+  },
+});
@@ -2,8 +2,11 @@ import React, { useRef } from 'react';
 import { Button, FAB } from 'react-native-paper';
 import { Platform, ViewStyle, TextStyle } from 'react-native';
 
+const ACCEPTED_FILE_TYPES = '.xls,.xlsx,.csv,.ofx,.qfx,.qif,.xml,.sta,.mt940,.pdf';
+
 interface ImportButtonProps {
   onFileSelect: (file: File) => void;
+  onFilesSelect?: (files: File[]) => void; // Enables picking several files at once
   variant?: 'button' | 'fab';
   disabled?: boolean;
   loading?: boolean;
@@ -16,6 +19,7 @@ interface ImportButtonProps {
 
 export const ImportButton: React.FC<ImportButtonProps> = ({
   onFileSelect,
+  onFilesSelect,
   variant = 'button',
   disabled = false,
   loading = false,
@@ -34,9 +38,13 @@ export const ImportButton: React.FC<ImportButtonProps> = ({
   };
 
   const handleFileChange = (event: React.ChangeEvent<HTMLInputElement>) => {
-    const file = event.target.files?.[0];
-    if (file) {
-      onFileSelect(file);
+    const files = Array.from(event.target.files || []);
+    if (files.length > 0) {
+      if (onFilesSelect) {
+        onFilesSelect(files);
+      } else {
+        onFileSelect(files[0]);
+      }
       // Reset input value to allow selecting the same file again
       event.target.value = '';
     }
@@ -56,7 +64,8 @@ export const ImportButton: React.FC<ImportButtonProps> = ({
           <input
             ref={fileInputRef}
             type="file"
-            accept=".xls,.xlsx,.csv"
+            accept={ACCEPTED_FILE_TYPES}
+            multiple={!!onFilesSelect}
             onChange={handleFileChange}
             style={{ display: 'none' }}
           />
@@ -83,7 +92,8 @@ export const ImportButton: React.FC<ImportButtonProps> = ({
         <input
           ref={fileInputRef}
           type="file"
-          accept=".xls,.xlsx,.csv"
+          accept={ACCEPTED_FILE_TYPES}
+          multiple={!!onFilesSelect}
           onChange={handleFileChange}
           style={{ display: 'none' }}
         />
@@ -0,0 +1,127 @@
+import React from 'react';
+import { View, StyleSheet } from 'react-native';
+import { Text, TextInput, Button, HelperText } from 'react-native-paper';
+import { ImportError, ImportRowDraft } from '../../strategies/ImportStrategy';
+import { Transaction } from '@/features/transactions/model/Transaction';
+import { ValidationError } from '@/shared/services/ValidationService';
+import { formatCurrency } from '@/shared/utils/currencyUtils';
+import { formatDate } from '@/shared/utils/dateUtils';
+
+interface ImportErrorRowProps {
+  error: ImportError;
+  draft: ImportRowDraft;
+  fieldErrors: ValidationError[];
+  fixedTransaction?: Transaction;
+  onChange: (draft: ImportRowDraft) => void;
+  onApply: () => void;
+  onUndo: () => void;
+}
+
+const EDITABLE_FIELDS: { field: 'date' | 'amount' | 'description'; label: string }[] = [
+  { field: 'date', label: 'Date' },
+  { field: 'amount', label: 'Amount' },
+  { field: 'description', label: 'Description' }
+];
+
+export const ImportErrorRow: React.FC<ImportErrorRowProps> = ({
+  error,
+  draft,
+  fieldErrors,
+  fixedTransaction,
+  onChange,
+  onApply,
+  onUndo
+}) => {
+  const rowLabel = `${[error.fileName, error.sheetName].filter(Boolean).map(label => `${label}, `).join('')}Row ${error.row}`;
+
+  if (fixedTransaction) {
+    return (
+      <View style={styles.container}>
+        <View style={styles.fixedRow}>
+          <Text variant="bodySmall" style={styles.fixedText} numberOfLines={1}>
+            ✓ {rowLabel}: {formatDate(fixedTransaction.date)} · {fixedTransaction.description} · {formatCurrency(fixedTransaction.amount, fixedTransaction.currency)}
+          </Text>
+          <Button compact mode="text" onPress={onUndo}>
+            Edit
+          </Button>
+        </View>
+      </View>
+    );
+  }
+
+  // The field the import failed on stays highlighted until re-validation says otherwise
+  const isHighlighted = (field: keyof ImportRowDraft) =>
+    fieldErrors.length > 0
+      ? fieldErrors.some(fieldError => fieldError.field === field)
+      : error.field === field;
+
+  return (
+    <View style={styles.container}>
+      <Text variant="bodySmall" style={styles.errorText}>
+        {rowLabel}: {error.error}
+      </Text>
+
+      <View style={styles.fields}>
+        {EDITABLE_FIELDS.map(({ field, label }) => (
+          <TextInput
+            key={field}
+            mode="outlined"
+            dense
+            label={label}
+            value={draft[field]}
+            error={isHighlighted(field)}
+            onChangeText={(text) => onChange({ ...draft, [field]: text })}
+            style={field === 'description' ? styles.wideField : styles.field}
+          />
+        ))}
+      </View>
+
+      {fieldErrors.map((fieldError) => (
+        <HelperText key={fieldError.field} type="error" visible padding="none">
+          {fieldError.message}
+        </HelperText>
+      ))}
+
+      <Button compact mode="outlined" icon="check" onPress={onApply} style={styles.applyButton}>
+        Include Row
+      </Button>
+    </View>
+  );
+};
+
+const styles = StyleSheet.create({
+  container: {
+    paddingVertical: 8,
+    borderBottomWidth: 1,
+    borderBottomColor: '#eee',
+  },
+  errorText: {
+    color: '#C62828',
+    marginBottom: 4,
+  },
+  fields: {
+    flexDirection: 'row',
+    flexWrap: 'wrap',
+    gap: 8,
+  },
+  field: {
+    flex: 1,
+    minWidth: 110,
+  },
+  wideField: {
+    flexBasis: '100%',
+  },
+  applyButton: {
+    alignSelf: 'flex-end',
+    marginTop: 8,
+  },
+  fixedRow: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    justifyContent: 'space-between',
+  },
+  fixedText: {
+    flex: 1,
+    color: '#2e7d32',
+  },
+});
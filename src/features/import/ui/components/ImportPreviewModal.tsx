@@ -9,13 +9,18 @@ import {
   Card,
   Divider,
   List,
-  IconButton
+  IconButton,
+  ProgressBar
 } from 'react-native-paper';
 import { View, ScrollView, StyleSheet } from 'react-native';
 import { formatCurrency } from '@/shared/utils/currencyUtils';
 import { formatDate } from '@/shared/utils/dateUtils';
-import { ImportResult } from '../../strategies/ImportStrategy';
+import { ImportResult, ImportRowDraft, ImportError } from '../../strategies/ImportStrategy';
 import { Transaction } from '@/features/transactions/model/Transaction';
+import { ValidationError } from '@/shared/services/ValidationService';
+import { ImportRowFixer } from '../../service/ImportRowFixer';
+import { ImportProgress } from '../hooks/useImportFlow';
+import { ImportErrorRow } from './ImportErrorRow';
 
 interface ImportPreviewModalProps {
   visible: boolean;
@@ -24,28 +29,85 @@ interface ImportPreviewModalProps {
   result: ImportResult | null;
   fileName: string;
   isLoading?: boolean;
+  progress?: ImportProgress | null;
 }
 
+// Failed rows listed (and fixable) in the preview
+const EDITABLE_ERROR_LIMIT = 20;
+const SUGGESTION_LIST_LIMIT = 20;
+
 export const ImportPreviewModal: React.FC<ImportPreviewModalProps> = ({
   visible,
   onDismiss,
   onConfirm,
   result,
   fileName,
-  isLoading = false
+  isLoading = false,
+  progress
 }) => {
   const [ignoreDuplicates, setIgnoreDuplicates] = React.useState(true);
   const [showDetails, setShowDetails] = React.useState(false);
+  const [showWarnings, setShowWarnings] = React.useState(false);
+  // Hand-fixed failed rows, keyed by their index in result.errors
+  const [drafts, setDrafts] = React.useState<Record<number, ImportRowDraft>>({});
+  const [draftErrors, setDraftErrors] = React.useState<Record<number, ValidationError[]>>({});
+  const [fixedRows, setFixedRows] = React.useState<Record<number, Transaction>>({});
+  const [showSuggestions, setShowSuggestions] = React.useState(false);
+  const [acceptedSuggestions, setAcceptedSuggestions] = React.useState<Record<string, boolean>>({});
+
+  React.useEffect(() => {
+    setDrafts({});
+    setDraftErrors({});
+    setFixedRows({});
+    setAcceptedSuggestions({});
+  }, [result]);
 
   if (!result) return null;
 
   const { transactions, duplicates, errors, summary } = result;
-  const validTransactions = ignoreDuplicates 
-    ? transactions.filter(t => !t.isDuplicate)
-    : transactions;
+  const warnings = result.warnings || [];
+  const suggestions = result.categorySuggestions || {};
+  const suggestedTransactions = transactions.filter(t => suggestions[t.id]);
+  const acceptedCount = suggestedTransactions.filter(t => acceptedSuggestions[t.id]).length;
+  const withAcceptedCategories = (list: Transaction[]) => list.map(t =>
+    acceptedSuggestions[t.id] && suggestions[t.id] ? { ...t, category: suggestions[t.id].category } : t
+  );
+
+  const fixedTransactions = Object.values(fixedRows);
+  const validTransactions = [
+    ...withAcceptedCategories(ignoreDuplicates ? transactions.filter(t => !t.isDuplicate) : transactions),
+    ...fixedTransactions
+  ];
+  const editableErrorCount = errors.filter(error => error.draft).length;
+  const parts = result.parts || [];
+  const skippedFiles = result.skippedFiles || [];
+  const rowLabel = (error: ImportError) => [error.fileName, error.sheetName].filter(Boolean).map(label => `${label}, `).join('');
 
   const handleConfirm = () => {
-    onConfirm(transactions, ignoreDuplicates);
+    onConfirm([...withAcceptedCategories(transactions), ...fixedTransactions], ignoreDuplicates);
+  };
+
+  const handleAcceptAllSuggestions = () => {
+    const allAccepted = acceptedCount === suggestedTransactions.length;
+    setAcceptedSuggestions(Object.fromEntries(suggestedTransactions.map(t => [t.id, !allAccepted])));
+  };
+
+  const handleApplyFix = (index: number, draft: ImportRowDraft) => {
+    const { transaction, errors: fieldErrors } = ImportRowFixer.apply(draft);
+    setDraftErrors(prev => ({ ...prev, [index]: fieldErrors }));
+
+    if (transaction) {
+      // In a multi-file import the row is saved with the batch of the file it came from
+      const batchId = errors[index].batchId;
+      setFixedRows(prev => ({ ...prev, [index]: batchId ? { ...transaction, importBatchId: batchId } : transaction }));
+    }
+  };
+
+  const handleUndoFix = (index: number) => {
+    setFixedRows(prev => {
+      const { [index]: _removed, ...rest } = prev;
+      return rest;
+    });
   };
 
   return (
@@ -89,6 +151,14 @@ export const ImportPreviewModal: React.FC<ImportPreviewModalProps> = ({
                     </Chip>
                   </View>
                 )}
+                {!!summary.crossFileDuplicates && (
+                  <View style={styles.summaryRow}>
+                    <Text>Repeated Across Files:</Text>
+                    <Chip mode="outlined" textStyle={{ color: '#FF9800' }}>
+                      {summary.crossFileDuplicates}
+                    </Chip>
+                  </View>
+                )}
                 {summary.errorsCount > 0 && (
                   <View style={styles.summaryRow}>
                     <Text>Errors:</Text>
@@ -97,6 +167,20 @@ export const ImportPreviewModal: React.FC<ImportPreviewModalProps> = ({
                     </Chip>
                   </View>
                 )}
+                {!!summary.categorizedByRules && (
+                  <View style={styles.summaryRow}>
+                    <Text>Categorized by Rules:</Text>
+                    <Chip mode="outlined">{summary.categorizedByRules}</Chip>
+                  </View>
+                )}
+                {fixedTransactions.length > 0 && (
+                  <View style={styles.summaryRow}>
+                    <Text>Fixed Rows:</Text>
+                    <Chip mode="outlined" textStyle={{ color: '#2e7d32' }}>
+                      {fixedTransactions.length}
+                    </Chip>
+                  </View>
+                )}
                 {summary.timeRange.earliest && (
                   <View style={styles.summaryRow}>
                     <Text>Date Range:</Text>
@@ -108,6 +192,34 @@ export const ImportPreviewModal: React.FC<ImportPreviewModalProps> = ({
               </Card.Content>
             </Card>
 
+            {/* Per-file results */}
+            {(parts.length > 0 || skippedFiles.length > 0) && (
+              <Card style={styles.detailsCard}>
+                <Card.Content>
+                  <Text variant="titleMedium" style={styles.sectionTitle}>
+                    Files ({parts.length + skippedFiles.length})
+                  </Text>
+                  {parts.map((part, index) => (
+                    <View key={part.batchId || index} style={styles.detailItem}>
+                      <Text variant="bodyMedium" numberOfLines={1}>{part.source?.fileName}</Text>
+                      <Text variant="bodySmall" style={styles.moreDetails}>
+                        {part.summary.successfulImports} parsed
+                        {part.summary.duplicatesFound > 0 ? ` · ${part.summary.duplicatesFound} duplicates` : ''}
+                        {part.summary.crossFileDuplicates ? ` (${part.summary.crossFileDuplicates} in earlier files)` : ''}
+                        {part.summary.errorsCount > 0 ? ` · ${part.summary.errorsCount} errors` : ''}
+                      </Text>
+                    </View>
+                  ))}
+                  {skippedFiles.map((skipped, index) => (
+                    <View key={`skipped-${index}`} style={styles.detailItem}>
+                      <Text variant="bodyMedium" numberOfLines={1}>{skipped.fileName}</Text>
+                      <Text variant="bodySmall" style={styles.detailText}>Not imported: {skipped.reason}</Text>
+                    </View>
+                  ))}
+                </Card.Content>
+              </Card>
+            )}
+
             {/* Duplicate handling */}
             {duplicates.length > 0 && (
               <Card style={styles.duplicatesCard}>
@@ -145,18 +257,123 @@ export const ImportPreviewModal: React.FC<ImportPreviewModalProps> = ({
                       {showDetails ? 'Hide' : 'Show'} Details
                     </Button>
                   </View>
+                  {editableErrorCount > 0 && (
+                    <Text variant="bodySmall" style={styles.moreDetails}>
+                      Fix the highlighted values and tap "Include Row" to import a row anyway.
+                    </Text>
+                  )}
                   {showDetails && (
                     <View style={styles.detailsList}>
-                      {errors.slice(0, 5).map((error, index) => (
+                      {errors.slice(0, EDITABLE_ERROR_LIMIT).map((error, index) => error.draft ? (
+                        <ImportErrorRow
+                          key={index}
+                          error={error}
+                          draft={drafts[index] || error.draft}
+                          fieldErrors={draftErrors[index] || []}
+                          fixedTransaction={fixedRows[index]}
+                          onChange={(draft) => setDrafts(prev => ({ ...prev, [index]: draft }))}
+                          onApply={() => handleApplyFix(index, drafts[index] || error.draft!)}
+                          onUndo={() => handleUndoFix(index)}
+                        />
+                      ) : (
                         <View key={index} style={styles.detailItem}>
                           <Text variant="bodySmall" style={styles.detailText}>
-                            Row {error.row}, Column "{error.column}": {error.error}
+                            {rowLabel(error)}Row {error.row}, Column "{error.column}": {error.error}
                           </Text>
                         </View>
                       ))}
-                      {errors.length > 5 && (
+                      {errors.length > EDITABLE_ERROR_LIMIT && (
                         <Text variant="bodySmall" style={styles.moreDetails}>
-                          ...and {errors.length - 5} more details
+                          ...and {errors.length - EDITABLE_ERROR_LIMIT} more details
+                        </Text>
+                      )}
+                    </View>
+                  )}
+                </Card.Content>
+              </Card>
+            )}
+
+            {/* Guessed values */}
+            {warnings.length > 0 && (
+              <Card style={styles.detailsCard}>
+                <Card.Content>
+                  <View style={styles.detailsHeader}>
+                    <Text variant="titleMedium" style={styles.sectionTitle}>
+                      Needs Review ({warnings.length})
+                    </Text>
+                    <Button
+                      mode="outlined"
+                      compact
+                      onPress={() => setShowWarnings(!showWarnings)}
+                    >
+                      {showWarnings ? 'Hide' : 'Show'} Rows
+                    </Button>
+                  </View>
+                  <Text variant="bodySmall" style={styles.moreDetails}>
+                    These rows were imported with a guessed date or amount. Set the number and date format in the column mapping to resolve them.
+                  </Text>
+                  {showWarnings && (
+                    <View style={styles.detailsList}>
+                      {warnings.slice(0, 5).map((warning, index) => (
+                        <View key={index} style={styles.detailItem}>
+                          <Text variant="bodySmall" style={styles.warningText}>
+                            {rowLabel(warning)}Row {warning.row}: {warning.error}
+                          </Text>
+                        </View>
+                      ))}
+                      {warnings.length > 5 && (
+                        <Text variant="bodySmall" style={styles.moreDetails}>
+                          ...and {warnings.length - 5} more rows
+                        </Text>
+                      )}
+                    </View>
+                  )}
+                </Card.Content>
+              </Card>
+            )}
+
+            {/* Learned categories */}
+            {suggestedTransactions.length > 0 && (
+              <Card style={styles.detailsCard}>
+                <Card.Content>
+                  <View style={styles.detailsHeader}>
+                    <Text variant="titleMedium" style={styles.sectionTitle}>
+                      Suggested Categories ({acceptedCount}/{suggestedTransactions.length})
+                    </Text>
+                    <Button
+                      mode="outlined"
+                      compact
+                      onPress={() => setShowSuggestions(!showSuggestions)}
+                    >
+                      {showSuggestions ? 'Hide' : 'Show'} Rows
+                    </Button>
+                  </View>
+                  <Text variant="bodySmall" style={styles.moreDetails}>
+                    Learned from the categories you picked for similar transactions before.
+                  </Text>
+                  <Button mode="text" compact onPress={handleAcceptAllSuggestions}>
+                    {acceptedCount === suggestedTransactions.length ? 'Clear All' : 'Accept All'}
+                  </Button>
+                  {showSuggestions && (
+                    <View style={styles.detailsList}>
+                      {suggestedTransactions.slice(0, SUGGESTION_LIST_LIMIT).map(transaction => (
+                        <List.Item
+                          key={transaction.id}
+                          title={transaction.payee || transaction.description}
+                          description={`${suggestions[transaction.id].category} · ${Math.round(suggestions[transaction.id].confidence * 100)}%`}
+                          titleNumberOfLines={1}
+                          left={() => (
+                            <IconButton
+                              icon={acceptedSuggestions[transaction.id] ? 'checkbox-marked' : 'checkbox-blank-outline'}
+                              onPress={() => setAcceptedSuggestions(prev => ({ ...prev, [transaction.id]: !prev[transaction.id] }))}
+                            />
+                          )}
+                          style={styles.suggestionItem}
+                        />
+                      ))}
+                      {suggestedTransactions.length > SUGGESTION_LIST_LIMIT && (
+                        <Text variant="bodySmall" style={styles.moreDetails}>
+                          ...and {suggestedTransactions.length - SUGGESTION_LIST_LIMIT} more rows
                         </Text>
                       )}
                     </View>
@@ -181,7 +398,7 @@ export const ImportPreviewModal: React.FC<ImportPreviewModalProps> = ({
                           numberOfLines={2}
                           ellipsizeMode="tail"
                         >
-                        {transaction.description}
+                        {transaction.payee || transaction.description}
                       </Text>
                         <View style={styles.transactionMeta}>
                           <Text variant="bodySmall" style={styles.metaText} numberOfLines={1} ellipsizeMode="tail">
@@ -206,6 +423,11 @@ export const ImportPreviewModal: React.FC<ImportPreviewModalProps> = ({
                       >
                         {formatCurrency(transaction.amount, transaction.currency)}
                       </Text>
+                      {transaction.originalCurrency && transaction.originalAmount !== undefined && (
+                        <Text variant="bodySmall" style={styles.originalAmountText} numberOfLines={1}>
+                          {formatCurrency(transaction.originalAmount, transaction.originalCurrency)}
+                        </Text>
+                      )}
                     </View>
                     </View>
                     {index < validTransactions.slice(0, 10).length - 1 && (
@@ -222,6 +444,16 @@ export const ImportPreviewModal: React.FC<ImportPreviewModalProps> = ({
             </Card>
           </ScrollView>
 
+          {/* Save progress */}
+          {isLoading && progress && progress.total > 0 && (
+            <View style={styles.progressContainer}>
+              <ProgressBar progress={progress.completed / progress.total} />
+              <Text variant="bodySmall" style={styles.progressText}>
+                Saving {progress.completed} of {progress.total} transactions...
+              </Text>
+            </View>
+          )}
+
           {/* Actions */}
           <View style={styles.actions}>
             <Button mode="outlined" onPress={onDismiss} style={styles.actionButton}>
@@ -307,6 +539,13 @@ const styles = StyleSheet.create({
   detailText: {
     color: '#C62828',
   },
+  suggestionItem: {
+    paddingHorizontal: 0,
+    paddingVertical: 0,
+  },
+  warningText: {
+    color: '#E65100',
+  },
   moreDetails: {
     color: '#666',
     fontStyle: 'italic',
@@ -347,6 +586,10 @@ const styles = StyleSheet.create({
     color: '#666',
     flex: 1,
   },
+  originalAmountText: {
+    color: '#666',
+    textAlign: 'right',
+  },
   transactionDivider: {
     marginTop: 8,
   },
@@ -356,6 +599,16 @@ const styles = StyleSheet.create({
     textAlign: 'center',
     marginTop: 8,
   },
+  progressContainer: {
+    paddingHorizontal: 16,
+    paddingTop: 12,
+    backgroundColor: '#f5f5f5',
+  },
+  progressText: {
+    color: '#666',
+    marginTop: 6,
+    textAlign: 'center',
+  },
   actions: {
     flexDirection: 'row',
     justifyContent: 'space-between',
@@ -0,0 +1,314 @@
+import React, { useState } from 'react';
+import { View, ScrollView, StyleSheet } from 'react-native';
+import {
+  Modal,
+  Portal,
+  Surface,
+  Text,
+  Button,
+  List,
+  Menu,
+  TextInput,
+  Divider
+} from 'react-native-paper';
+import { ImportMapping, hasAmountMapping } from '../../strategies/ImportStrategy';
+import { ImportProfile } from '../../model/ImportProfile';
+import { useImportProfiles } from '../hooks/useImportProfiles';
+import { SUPPORTED_CURRENCIES } from '@/shared/utils/currencyUtils';
+import { SUPPORTED_DATE_FORMATS } from '@/shared/utils/dateUtils';
+import { theme } from '@/shared/ui/theme/theme';
+
+interface ImportProfilesModalProps {
+  visible: boolean;
+  onDismiss: () => void;
+}
+
+type ColumnField =
+  | 'dateColumn'
+  | 'amountColumn'
+  | 'inflowColumn'
+  | 'outflowColumn'
+  | 'typeColumn'
+  | 'currencyColumn'
+  | 'originalAmountColumn'
+  | 'originalCurrencyColumn'
+  | 'descriptionColumn'
+  | 'cardColumn'
+  | 'categoryColumn'
+  | 'commentColumn';
+
+const COLUMN_FIELDS: { field: ColumnField; label: string; required: boolean }[] = [
+  { field: 'dateColumn', label: 'Date', required: true },
+  { field: 'amountColumn', label: 'Amount', required: false },
+  { field: 'inflowColumn', label: 'Money In', required: false },
+  { field: 'outflowColumn', label: 'Money Out', required: false },
+  { field: 'typeColumn', label: 'Debit/Credit', required: false },
+  { field: 'currencyColumn', label: 'Currency', required: false },
+  { field: 'originalAmountColumn', label: 'Original Amount', required: false },
+  { field: 'originalCurrencyColumn', label: 'Original Currency', required: false },
+  { field: 'descriptionColumn', label: 'Description', required: false },
+  { field: 'cardColumn', label: 'Card/Account', required: false },
+  { field: 'categoryColumn', label: 'Category', required: false },
+  { field: 'commentColumn', label: 'Comment', required: false }
+];
+
+export const ImportProfilesModal: React.FC<ImportProfilesModalProps> = ({
+  visible,
+  onDismiss
+}) => {
+  const { profiles, updateProfile, deleteProfile } = useImportProfiles(visible);
+
+  const [editingProfile, setEditingProfile] = useState<ImportProfile | null>(null);
+  const [name, setName] = useState('');
+  const [mapping, setMapping] = useState<ImportMapping | null>(null);
+  const [activeMenu, setActiveMenu] = useState<string | null>(null);
+
+  const handleEdit = (profile: ImportProfile) => {
+    setEditingProfile(profile);
+    setName(profile.name);
+    setMapping({ ...profile.mapping });
+  };
+
+  const handleBack = () => {
+    setEditingProfile(null);
+    setMapping(null);
+    setActiveMenu(null);
+  };
+
+  const handleDismiss = () => {
+    handleBack();
+    onDismiss();
+  };
+
+  const handleSave = async () => {
+    if (!editingProfile || !mapping) return;
+
+    try {
+      await updateProfile(editingProfile.id, { name, mapping });
+      handleBack();
+    } catch (error) {
+      console.error('Failed to update import profile:', error);
+    }
+  };
+
+  const handleDelete = async () => {
+    if (!editingProfile) return;
+
+    try {
+      await deleteProfile(editingProfile.id);
+      handleBack();
+    } catch (error) {
+      console.error('Failed to delete import profile:', error);
+    }
+  };
+
+  const updateMapping = (updates: Partial<ImportMapping>) => {
+    setMapping(prev => prev ? { ...prev, ...updates } : prev);
+    setActiveMenu(null);
+  };
+
+  const isValid = !!name.trim() && !!mapping?.dateColumn && !!mapping && hasAmountMapping(mapping);
+
+  const renderEditor = (profile: ImportProfile, current: ImportMapping) => (
+    <>
+      <ScrollView style={styles.content}>
+        <TextInput
+          mode="outlined"
+          dense
+          label="Profile name"
+          value={name}
+          onChangeText={setName}
+          style={styles.input}
+        />
+
+        <Text variant="titleSmall" style={styles.groupTitle}>Columns</Text>
+        {COLUMN_FIELDS.map(({ field, label, required }) => (
+          <View key={field} style={styles.row}>
+            <Text variant="bodyMedium">{label}</Text>
+            <Menu
+              visible={activeMenu === field}
+              onDismiss={() => setActiveMenu(null)}
+              anchor={
+                <Button mode="outlined" compact onPress={() => setActiveMenu(field)}>
+                  {current[field] || 'None'}
+                </Button>
+              }
+            >
+              {!required && (
+                <Menu.Item title="None" onPress={() => updateMapping({ [field]: undefined })} />
+              )}
+              {profile.columns.map(column => (
+                <Menu.Item key={column} title={column} onPress={() => updateMapping({ [field]: column })} />
+              ))}
+            </Menu>
+          </View>
+        ))}
+
+        <Text variant="titleSmall" style={styles.groupTitle}>File Settings</Text>
+        <View style={styles.row}>
+          <Text variant="bodyMedium">Date Format</Text>
+          <Menu
+            visible={activeMenu === 'dateFormat'}
+            onDismiss={() => setActiveMenu(null)}
+            anchor={
+              <Button mode="outlined" compact onPress={() => setActiveMenu('dateFormat')}>
+                {current.dateFormat}
+              </Button>
+            }
+          >
+            {SUPPORTED_DATE_FORMATS.map(format => (
+              <Menu.Item key={format} title={format} onPress={() => updateMapping({ dateFormat: format })} />
+            ))}
+          </Menu>
+        </View>
+
+        <View style={styles.row}>
+          <Text variant="bodyMedium">Currency</Text>
+          <Menu
+            visible={activeMenu === 'currency'}
+            onDismiss={() => setActiveMenu(null)}
+            anchor={
+              <Button mode="outlined" compact onPress={() => setActiveMenu('currency')}>
+                {current.currency || 'Auto-detect'}
+              </Button>
+            }
+          >
+            <Menu.Item title="Auto-detect" onPress={() => updateMapping({ currency: undefined })} />
+            {SUPPORTED_CURRENCIES.map(currency => (
+              <Menu.Item
+                key={currency.code}
+                title={`${currency.code} - ${currency.name}`}
+                onPress={() => updateMapping({ currency: currency.code })}
+              />
+            ))}
+          </Menu>
+        </View>
+
+        <TextInput
+          mode="outlined"
+          dense
+          label="Header row (1-based)"
+          keyboardType="number-pad"
+          value={String((current.headerRowIndex ?? 0) + 1)}
+          onChangeText={(text) => {
+            const row = parseInt(text, 10);
+            updateMapping({ headerRowIndex: isNaN(row) || row < 1 ? 0 : row - 1 });
+          }}
+          style={styles.input}
+        />
+
+        <TextInput
+          mode="outlined"
+          dense
+          label="Card override"
+          placeholder="Use the card column"
+          value={current.cardOverride || ''}
+          onChangeText={(text) => updateMapping({ cardOverride: text || undefined })}
+          style={styles.input}
+        />
+      </ScrollView>
+
+      <View style={styles.actions}>
+        <Button mode="text" textColor={theme.colors.error} onPress={handleDelete}>
+          Delete
+        </Button>
+        <View style={styles.actionGroup}>
+          <Button mode="outlined" onPress={handleBack}>
+            Back
+          </Button>
+          <Button mode="contained" onPress={handleSave} disabled={!isValid}>
+            Save
+          </Button>
+        </View>
+      </View>
+    </>
+  );
+
+  return (
+    <Portal>
+      <Modal
+        visible={visible}
+        onDismiss={handleDismiss}
+        contentContainerStyle={styles.modalContainer}
+      >
+        <Surface style={styles.modalSurface}>
+          <Text variant="titleMedium" style={styles.modalTitle}>
+            {editingProfile ? 'Edit Import Profile' : 'Import Profiles'}
+          </Text>
+
+          {editingProfile && mapping ? renderEditor(editingProfile, mapping) : (
+            <ScrollView style={styles.content}>
+              {profiles.length === 0 ? (
+                <Text variant="bodyMedium" style={styles.emptyText}>
+                  No saved profiles yet. Name a column mapping during import to save it here.
+                </Text>
+              ) : (
+                profiles.map((profile, index) => (
+                  <View key={profile.id}>
+                    {index > 0 && <Divider />}
+                    <List.Item
+                      title={profile.name}
+                      description={`${profile.mapping.dateColumn} · ${profile.mapping.amountColumn || `${profile.mapping.inflowColumn || '—'} / ${profile.mapping.outflowColumn || '—'}`} · ${profile.mapping.dateFormat}`}
+                      left={(props) => <List.Icon {...props} icon="file-table-outline" />}
+                      right={(props) => <List.Icon {...props} icon="pencil" />}
+                      onPress={() => handleEdit(profile)}
+                    />
+                  </View>
+                ))
+              )}
+            </ScrollView>
+          )}
+        </Surface>
+      </Modal>
+    </Portal>
+  );
+};
+
+const styles = StyleSheet.create({
+  modalContainer: {
+    margin: theme.spacing.lg,
+    maxHeight: '80%',
+  },
+  modalSurface: {
+    backgroundColor: theme.colors.surface,
+    borderRadius: theme.borderRadius.lg,
+    padding: theme.spacing.md,
+  },
+  modalTitle: {
+    marginBottom: theme.spacing.md,
+    textAlign: 'center',
+    fontWeight: '600',
+  },
+  content: {
+    maxHeight: 420,
+  },
+  emptyText: {
+    textAlign: 'center',
+    color: theme.colors.text.secondary,
+    padding: theme.spacing.lg,
+  },
+  groupTitle: {
+    marginTop: theme.spacing.md,
+    marginBottom: theme.spacing.sm,
+    fontWeight: '600',
+  },
+  row: {
+    flexDirection: 'row',
+    justifyContent: 'space-between',
+    alignItems: 'center',
+    marginBottom: theme.spacing.sm,
+  },
+  input: {
+    marginTop: theme.spacing.sm,
+  },
+  actions: {
+    flexDirection: 'row',
+    justifyContent: 'space-between',
+    alignItems: 'center',
+    marginTop: theme.spacing.md,
+  },
+  actionGroup: {
+    flexDirection: 'row',
+    gap: theme.spacing.sm,
+  },
+});
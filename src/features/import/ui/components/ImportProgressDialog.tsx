@@ -0,0 +1,60 @@
+import React from 'react';
+import { StyleSheet } from 'react-native';
+import { Portal, Dialog, Paragraph, Button, ProgressBar } from 'react-native-paper';
+import { ImportProgress } from '../hooks/useImportFlow';
+import { theme } from '@/shared/ui/theme/theme';
+
+interface ImportProgressDialogProps {
+  fileName: string;
+  progress: ImportProgress | null;
+  queuePosition?: { current: number; total: number }; // File n of m in a multi-file import
+  onCancel: () => void;
+}
+
+export const ImportProgressDialog: React.FC<ImportProgressDialogProps> = ({
+  fileName,
+  progress,
+  queuePosition,
+  onCancel
+}) => {
+  const hasTotal = !!progress && progress.total > 0;
+
+  return (
+    <Portal>
+      <Dialog visible={!!progress} dismissable={false}>
+        <Dialog.Title>Reading Statement</Dialog.Title>
+        <Dialog.Content>
+          <Paragraph numberOfLines={1}>{fileName}</Paragraph>
+          {queuePosition && (
+            <Paragraph style={styles.progressText}>
+              File {queuePosition.current} of {queuePosition.total}
+            </Paragraph>
+          )}
+          <ProgressBar
+            progress={hasTotal ? progress!.completed / progress!.total : 0}
+            indeterminate={!hasTotal}
+            style={styles.progressBar}
+          />
+          <Paragraph style={styles.progressText}>
+            {hasTotal
+              ? `Processed ${progress!.completed} of ${progress!.total} rows`
+              : 'Reading file...'}
+          </Paragraph>
+        </Dialog.Content>
+        <Dialog.Actions>
+          <Button onPress={onCancel}>Cancel</Button>
+        </Dialog.Actions>
+      </Dialog>
+    </Portal>
+  );
+};
+
+const styles = StyleSheet.create({
+  progressBar: {
+    marginTop: theme.spacing.md,
+  },
+  progressText: {
+    marginTop: theme.spacing.sm,
+    color: theme.colors.text.secondary,
+  },
+});
@@ -0,0 +1,119 @@
+import React, { useState } from 'react';
+import { StyleSheet, ViewStyle, TextStyle } from 'react-native';
+import { Button, Portal, Dialog, Paragraph, TextInput } from 'react-native-paper';
+import { importService } from '../../service/ImportService';
+import { theme } from '@/shared/ui/theme/theme';
+
+interface PasteTransactionsButtonProps {
+  onFileSelect: (file: File) => void;
+  disabled?: boolean;
+  label?: string;
+  style?: ViewStyle;
+  contentStyle?: ViewStyle;
+  labelStyle?: TextStyle;
+}
+
+const canReadClipboard = () =>
+  typeof navigator !== 'undefined' && typeof navigator.clipboard?.readText === 'function';
+
+export const PasteTransactionsButton: React.FC<PasteTransactionsButtonProps> = ({
+  onFileSelect,
+  disabled = false,
+  label = 'Paste',
+  style,
+  contentStyle,
+  labelStyle
+}) => {
+  const [visible, setVisible] = useState(false);
+  const [text, setText] = useState('');
+  const [clipboardError, setClipboardError] = useState<string | null>(null);
+
+  const rowCount = text.split(/\r\n|\r|\n/).filter(line => line.trim()).length;
+
+  const handleClose = () => {
+    setVisible(false);
+    setText('');
+    setClipboardError(null);
+  };
+
+  // Browsers may refuse clipboard access; typing or pasting into the field still works
+  const handleReadClipboard = async () => {
+    try {
+      setText(await navigator.clipboard.readText());
+      setClipboardError(null);
+    } catch (error) {
+      console.error('Failed to read clipboard:', error);
+      setClipboardError('Clipboard access was blocked. Paste into the field instead.');
+    }
+  };
+
+  const handleContinue = () => {
+    onFileSelect(importService.createFileFromPastedText(text));
+    handleClose();
+  };
+
+  return (
+    <>
+      <Button
+        mode="outlined"
+        icon="content-paste"
+        onPress={() => setVisible(true)}
+        disabled={disabled}
+        style={style}
+        contentStyle={contentStyle}
+        labelStyle={labelStyle}
+      >
+        {label}
+      </Button>
+
+      <Portal>
+        <Dialog visible={visible} onDismiss={handleClose}>
+          <Dialog.Title>Paste Transactions</Dialog.Title>
+          <Dialog.Content>
+            <Paragraph style={styles.hint}>
+              Copy rows from online banking or a spreadsheet. Tab, comma or semicolon separated; a header row is optional.
+            </Paragraph>
+            <TextInput
+              mode="outlined"
+              multiline
+              numberOfLines={8}
+              placeholder={'31.12.2024\tCoffee shop\t-4.50'}
+              value={text}
+              onChangeText={setText}
+              style={styles.input}
+            />
+            {clipboardError && (
+              <Paragraph style={styles.error}>{clipboardError}</Paragraph>
+            )}
+            {rowCount > 0 && (
+              <Paragraph style={styles.hint}>{rowCount} {rowCount === 1 ? 'row' : 'rows'}</Paragraph>
+            )}
+          </Dialog.Content>
+          <Dialog.Actions>
+            {canReadClipboard() && (
+              <Button icon="clipboard-arrow-down" onPress={handleReadClipboard}>From Clipboard</Button>
+            )}
+            <Button onPress={handleClose}>Cancel</Button>
+            <Button mode="contained" onPress={handleContinue} disabled={rowCount === 0}>
+              Continue
+            </Button>
+          </Dialog.Actions>
+        </Dialog>
+      </Portal>
+    </>
+  );
+};
+
+const styles = StyleSheet.create({
+  hint: {
+    color: theme.colors.text.secondary,
+    marginBottom: theme.spacing.sm,
+  },
+  input: {
+    maxHeight: 240,
+    marginBottom: theme.spacing.sm,
+  },
+  error: {
+    color: theme.colors.error,
+  },
+});
@@ -0,0 +1,63 @@
+import { useState, useEffect, useRef } from 'react';
+import { Platform } from 'react-native';
+
+const hasFiles = (event: DragEvent) => !!event.dataTransfer && Array.from(event.dataTransfer.types).includes('Files');
+
+// Statements dropped anywhere on the page (web only); isDragging drives the drop overlay
+export const useFileDrop = (onFilesDrop: (files: File[]) => void, enabled = true) => {
+  const [isDragging, setIsDragging] = useState(false);
+  const onFilesDropRef = useRef(onFilesDrop);
+  onFilesDropRef.current = onFilesDrop;
+
+  useEffect(() => {
+    if (Platform.OS !== 'web' || !enabled || typeof window === 'undefined') {
+      return;
+    }
+
+    // dragenter/dragleave fire for every child element, so nesting is counted
+    let depth = 0;
+
+    const handleDragEnter = (event: DragEvent) => {
+      if (!hasFiles(event)) return;
+      event.preventDefault();
+      depth++;
+      setIsDragging(true);
+    };
+
+    const handleDragOver = (event: DragEvent) => {
+      if (hasFiles(event)) event.preventDefault();
+    };
+
+    const handleDragLeave = (event: DragEvent) => {
+      if (!hasFiles(event)) return;
+      depth = Math.max(0, depth - 1);
+      if (depth === 0) setIsDragging(false);
+    };
+
+    const handleDrop = (event: DragEvent) => {
+      if (!hasFiles(event)) return;
+      event.preventDefault();
+      depth = 0;
+      setIsDragging(false);
+
+      const files = Array.from(event.dataTransfer?.files || []);
+      if (files.length > 0) {
+        onFilesDropRef.current(files);
+      }
+    };
+
+    window.addEventListener('dragenter', handleDragEnter);
+    window.addEventListener('dragover', handleDragOver);
+    window.addEventListener('dragleave', handleDragLeave);
+    window.addEventListener('drop', handleDrop);
+
+    return () => {
+      window.removeEventListener('dragenter', handleDragEnter);
+      window.removeEventListener('dragover', handleDragOver);
+      window.removeEventListener('dragleave', handleDragLeave);
+      window.removeEventListener('drop', handleDrop);
+    };
+  }, [enabled]);
+
+  return { isDragging };
+};
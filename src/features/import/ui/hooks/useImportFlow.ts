@@ -1,8 +1,27 @@
-import { useState, useCallback } from 'react';
+import { useState, useCallback, useRef } from 'react';
 import { ImportResult, ImportMapping } from '../../strategies/ImportStrategy';
-import { FilePreview } from '../../service/ImportService';
+import { FilePreview, AutoMappingSource } from '../../service/ImportService';
 
-interface ImportState {
+export interface ImportProgress {
+  completed: number;
+  total: number;
+}
+
+export type QueuedFileStatus = 'waiting' | 'processing' | 'needsMapping' | 'parsed' | 'failed' | 'skipped';
+
+// One file of a multi-file import; files are parsed in order and previewed together
+export interface QueuedFile {
+  id: string;
+  file: File;
+  status: QueuedFileStatus;
+  result?: ImportResult;
+  mapping?: ImportMapping | ImportMapping[];
+  mappedBy?: AutoMappingSource | 'user';
+  headerFingerprint?: string;
+  error?: string;
+}
+
+export interface ImportState {
   showModal: boolean;
   showColumnMapping: boolean;
   isLoading: boolean;
@@ -10,6 +29,9 @@ interface ImportState {
   selectedFile: File | null;
   result: ImportResult | null;
   preview: FilePreview | null;
+  parseProgress: ImportProgress | null; // Non-null while a file is being parsed
+  saveProgress: ImportProgress | null;
+  queue: QueuedFile[]; // Empty unless several files were selected at once
 }
 
 const initialImportState: ImportState = {
@@ -20,10 +42,14 @@ const initialImportState: ImportState = {
   selectedFile: null,
   result: null,
   preview: null,
+  parseProgress: null,
+  saveProgress: null,
+  queue: [],
 };
 
 export const useImportFlow = () => {
   const [importState, setImportState] = useState<ImportState>(initialImportState);
+  const parseControllerRef = useRef<AbortController | null>(null);
   
   const openModal = useCallback(() => {
     setImportState(prev => ({ ...prev, showModal: true }));
@@ -34,7 +60,9 @@ export const useImportFlow = () => {
       ...prev,
       showModal: false,
       result: null,
-      isLoading: false
+      isLoading: false,
+      saveProgress: null,
+      queue: []
     }));
   }, []);
   
@@ -42,6 +70,35 @@ export const useImportFlow = () => {
     setImportState(prev => ({ ...prev, isLoading: loading }));
   }, []);
   
+  const setSaveProgress = useCallback((saveProgress: ImportProgress | null) => {
+    setImportState(prev => ({ ...prev, saveProgress }));
+  }, []);
+  
+  // Returns the signal the parser checks; starting a new parse cancels any previous one
+  const startParsing = useCallback((): AbortSignal => {
+    parseControllerRef.current?.abort();
+    const controller = new AbortController();
+    parseControllerRef.current = controller;
+    
+    setImportState(prev => ({ ...prev, parseProgress: { completed: 0, total: 0 } }));
+    return controller.signal;
+  }, []);
+  
+  const setParseProgress = useCallback((completed: number, total: number) => {
+    setImportState(prev => prev.parseProgress ? { ...prev, parseProgress: { completed, total } } : prev);
+  }, []);
+  
+  const finishParsing = useCallback(() => {
+    parseControllerRef.current = null;
+    setImportState(prev => ({ ...prev, parseProgress: null }));
+  }, []);
+  
+  const cancelParsing = useCallback(() => {
+    parseControllerRef.current?.abort();
+    parseControllerRef.current = null;
+    setImportState(prev => ({ ...prev, parseProgress: null, isLoading: false }));
+  }, []);
+  
   const setFileData = useCallback((file: File, fileName: string, preview: FilePreview) => {
     setImportState(prev => ({
       ...prev,
@@ -52,6 +109,15 @@ export const useImportFlow = () => {
     }));
   }, []);
   
+  const setSelectedFile = useCallback((file: File, fileName: string) => {
+    setImportState(prev => ({
+      ...prev,
+      selectedFile: file,
+      fileName,
+      preview: null
+    }));
+  }, []);
+  
   const setImportResult = useCallback((result: ImportResult) => {
     setImportState(prev => ({ 
       ...prev, 
@@ -71,6 +137,10 @@ export const useImportFlow = () => {
     }));
   }, []);
   
+  const setQueue = useCallback((queue: QueuedFile[]) => {
+    setImportState(prev => ({ ...prev, queue }));
+  }, []);
+  
   const reset = useCallback(() => {
     setImportState(initialImportState);
   }, []);
@@ -80,10 +150,17 @@ export const useImportFlow = () => {
     openModal,
     closeModal,
     setLoading,
+    setSaveProgress,
+    startParsing,
+    setParseProgress,
+    finishParsing,
+    cancelParsing,
     setFileData,
+    setSelectedFile,
     setImportResult,
     openColumnMapping,
     closeColumnMapping,
+    setQueue,
     reset,
     updateImportState: setImportState
   };
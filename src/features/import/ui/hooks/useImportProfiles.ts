@@ -0,0 +1,67 @@
+import { useState, useEffect, useCallback } from 'react';
+import { ImportProfile, UpdateImportProfileRequest } from '../../model/ImportProfile';
+import { ImportMapping } from '../../strategies/ImportStrategy';
+import { importProfileRepository } from '../../storage/ImportProfileRepository';
+
+export const useImportProfiles = (enabled = true) => {
+  const [profiles, setProfiles] = useState<ImportProfile[]>([]);
+  const [isLoading, setIsLoading] = useState(false);
+
+  const loadProfiles = useCallback(async () => {
+    setIsLoading(true);
+    try {
+      setProfiles(await importProfileRepository.findAll());
+    } catch (error) {
+      console.error('Failed to load import profiles:', error);
+    } finally {
+      setIsLoading(false);
+    }
+  }, []);
+
+  useEffect(() => {
+    if (enabled) {
+      loadProfiles();
+    }
+  }, [enabled, loadProfiles]);
+
+  // Saving under an existing name overwrites that profile instead of creating a twin
+  const saveProfile = useCallback(async (
+    name: string,
+    headerFingerprint: string,
+    columns: string[],
+    mapping: ImportMapping
+  ): Promise<ImportProfile> => {
+    const existing = profiles.find(profile => profile.name.toLowerCase() === name.trim().toLowerCase());
+
+    const saved = existing
+      ? await importProfileRepository.update(existing.id, { headerFingerprint, columns, mapping })
+      : await importProfileRepository.create({ name, headerFingerprint, columns, mapping });
+
+    await loadProfiles();
+    return saved;
+  }, [profiles, loadProfiles]);
+
+  const updateProfile = useCallback(async (id: string, updates: UpdateImportProfileRequest) => {
+    await importProfileRepository.update(id, updates);
+    await loadProfiles();
+  }, [loadProfiles]);
+
+  const deleteProfile = useCallback(async (id: string) => {
+    await importProfileRepository.delete(id);
+    await loadProfiles();
+  }, [loadProfiles]);
+
+  const markProfileUsed = useCallback(async (id: string) => {
+    await importProfileRepository.markUsed(id);
+  }, []);
+
+  return {
+    profiles,
+    isLoading,
+    loadProfiles,
+    saveProfile,
+    updateProfile,
+    deleteProfile,
+    markProfileUsed
+  };
+};
@@ -0,0 +1,301 @@
+import React, { useState, useEffect, useCallback } from 'react';
+import { View, ScrollView, StyleSheet } from 'react-native';
+import { Card, Text, List, Button, Chip, Divider, ActivityIndicator } from 'react-native-paper';
+import { SafeAreaView } from 'react-native-safe-area-context';
+import { ImportBatch } from '../../model/ImportBatch';
+import { importBatchRepository } from '../../storage/ImportBatchRepository';
+import { Transaction } from '@/features/transactions/model/Transaction';
+import { useTransactionStore } from '@/features/transactions/store/transactionStore';
+import { ModalHeader } from '@/shared/ui/components/ModalHeader';
+import { ConfirmationDialog } from '@/shared/ui/components/ConfirmationDialog';
+import { formatCurrency } from '@/shared/utils/currencyUtils';
+import { formatDate, formatDateTime } from '@/shared/utils/dateUtils';
+import { theme } from '@/shared/ui/theme/theme';
+
+interface ImportHistoryScreenProps {
+  onClose: () => void;
+}
+
+const TRANSACTION_PREVIEW_LIMIT = 20;
+
+function formatFileSize(bytes: number): string {
+  if (bytes < 1024) return `${bytes} B`;
+  if (bytes < 1024 * 1024) return `${(bytes / 1024).toFixed(1)} KB`;
+  return `${(bytes / (1024 * 1024)).toFixed(1)} MB`;
+}
+
+export const ImportHistoryScreen: React.FC<ImportHistoryScreenProps> = ({ onClose }) => {
+  const loadTransactions = useTransactionStore(state => state.loadTransactions);
+
+  const [batches, setBatches] = useState<ImportBatch[]>([]);
+  const [isLoading, setIsLoading] = useState(true);
+  const [expandedBatchId, setExpandedBatchId] = useState<string | null>(null);
+  const [batchTransactions, setBatchTransactions] = useState<Record<string, Transaction[]>>({});
+  const [batchToRollback, setBatchToRollback] = useState<ImportBatch | null>(null);
+  const [isRollingBack, setIsRollingBack] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  const loadBatches = useCallback(async () => {
+    setIsLoading(true);
+    try {
+      setBatches(await importBatchRepository.findAll());
+    } catch (loadError) {
+      console.error('Failed to load import history:', loadError);
+      setError('Failed to load import history');
+    } finally {
+      setIsLoading(false);
+    }
+  }, []);
+
+  useEffect(() => {
+    loadBatches();
+  }, [loadBatches]);
+
+  const handleToggleBatch = async (batch: ImportBatch) => {
+    if (expandedBatchId === batch.id) {
+      setExpandedBatchId(null);
+      return;
+    }
+
+    setExpandedBatchId(batch.id);
+
+    if (!batchTransactions[batch.id] && !batch.rolledBackAt) {
+      try {
+        const transactions = await importBatchRepository.findTransactions(batch);
+        setBatchTransactions(prev => ({ ...prev, [batch.id]: transactions }));
+      } catch (loadError) {
+        console.error('Failed to load batch transactions:', loadError);
+      }
+    }
+  };
+
+  const handleConfirmRollback = async () => {
+    if (!batchToRollback) return;
+
+    setIsRollingBack(true);
+    setError(null);
+    try {
+      await importBatchRepository.rollback(batchToRollback.id);
+      setBatchTransactions(prev => ({ ...prev, [batchToRollback.id]: [] }));
+      await Promise.all([loadBatches(), loadTransactions()]);
+    } catch (rollbackError) {
+      console.error('❌ Rollback failed:', rollbackError);
+      setError(`Rollback failed: ${rollbackError instanceof Error ? rollbackError.message : 'Unknown error'}`);
+    } finally {
+      setIsRollingBack(false);
+      setBatchToRollback(null);
+    }
+  };
+
+  const renderBatchDetails = (batch: ImportBatch) => {
+    const transactions = batchTransactions[batch.id] || [];
+    const { summary } = batch;
+
+    return (
+      <View style={styles.details}>
+        <Divider style={styles.divider} />
+
+        <View style={styles.detailRow}>
+          <Text variant="bodySmall" style={styles.detailLabel}>File</Text>
+          <Text variant="bodySmall">{batch.fileType.toUpperCase()} · {formatFileSize(batch.fileSize)} · #{batch.fileHash}</Text>
+        </View>
+        {batch.profileName && (
+          <View style={styles.detailRow}>
+            <Text variant="bodySmall" style={styles.detailLabel}>Profile</Text>
+            <Text variant="bodySmall">{batch.profileName}</Text>
+          </View>
+        )}
+        <View style={styles.detailRow}>
+          <Text variant="bodySmall" style={styles.detailLabel}>Rows in file</Text>
+          <Text variant="bodySmall">{summary.totalRows}</Text>
+        </View>
+        <View style={styles.detailRow}>
+          <Text variant="bodySmall" style={styles.detailLabel}>Duplicates skipped</Text>
+          <Text variant="bodySmall">{batch.duplicatesSkipped}</Text>
+        </View>
+        <View style={styles.detailRow}>
+          <Text variant="bodySmall" style={styles.detailLabel}>Errors</Text>
+          <Text variant="bodySmall">{summary.errorsCount}</Text>
+        </View>
+        {summary.timeRange.earliest && (
+          <View style={styles.detailRow}>
+            <Text variant="bodySmall" style={styles.detailLabel}>Period</Text>
+            <Text variant="bodySmall">
+              {formatDate(summary.timeRange.earliest)} – {formatDate(summary.timeRange.latest)}
+            </Text>
+          </View>
+        )}
+
+        {batch.rolledBackAt ? (
+          <Text variant="bodySmall" style={styles.rolledBackText}>
+            Rolled back on {formatDateTime(batch.rolledBackAt)}
+          </Text>
+        ) : (
+          <>
+            {transactions.slice(0, TRANSACTION_PREVIEW_LIMIT).map(transaction => (
+              <List.Item
+                key={transaction.id}
+                title={transaction.description}
+                description={`${formatDate(transaction.date)} · ${transaction.card}`}
+                right={() => (
+                  <Text
+                    variant="bodyMedium"
+                    style={{ color: transaction.isIncome ? theme.colors.income : theme.colors.expense, alignSelf: 'center' }}
+                  >
+                    {formatCurrency(transaction.amount, transaction.currency)}
+                  </Text>
+                )}
+                style={styles.transactionItem}
+              />
+            ))}
+            {transactions.length > TRANSACTION_PREVIEW_LIMIT && (
+              <Text variant="bodySmall" style={styles.moreText}>
+                ...and {transactions.length - TRANSACTION_PREVIEW_LIMIT} more
+              </Text>
+            )}
+
+            <Button
+              mode="outlined"
+              icon="undo"
+              textColor={theme.colors.error}
+              style={styles.rollbackButton}
+              disabled={isRollingBack}
+              onPress={() => setBatchToRollback(batch)}
+            >
+              Roll Back Import
+            </Button>
+          </>
+        )}
+      </View>
+    );
+  };
+
+  return (
+    <SafeAreaView style={styles.container}>
+      <ModalHeader
+        title="Import History"
+        variant="screen"
+        leftAction={{
+          label: "Back",
+          onPress: onClose
+        }}
+      />
+
+      <ScrollView style={styles.content}>
+        {error && (
+          <Text variant="bodyMedium" style={styles.errorText}>{error}</Text>
+        )}
+
+        {isLoading && batches.length === 0 ? (
+          <ActivityIndicator style={styles.loader} />
+        ) : batches.length === 0 ? (
+          <Text variant="bodyMedium" style={styles.emptyText}>
+            No imports yet. Imported statements will appear here.
+          </Text>
+        ) : (
+          batches.map(batch => (
+            <Card key={batch.id} style={styles.batchCard} onPress={() => handleToggleBatch(batch)}>
+              <Card.Content>
+                <View style={styles.batchHeader}>
+                  <View style={styles.batchTitle}>
+                    <Text variant="titleSmall" numberOfLines={1}>{batch.fileName}</Text>
+                    <Text variant="bodySmall" style={styles.batchMeta}>
+                      {formatDateTime(batch.importedAt)} · {batch.importedCount} transactions
+                    </Text>
+                  </View>
+                  {batch.rolledBackAt && (
+                    <Chip compact style={styles.rolledBackChip}>Rolled back</Chip>
+                  )}
+                </View>
+
+                {expandedBatchId === batch.id && renderBatchDetails(batch)}
+              </Card.Content>
+            </Card>
+          ))
+        )}
+      </ScrollView>
+
+      <ConfirmationDialog
+        visible={!!batchToRollback}
+        title="Roll Back Import"
+        message={`This will permanently delete the ${batchToRollback?.importedCount || 0} transactions imported from "${batchToRollback?.fileName}". This action cannot be undone.`}
+        confirmText="Roll Back"
+        cancelText="Cancel"
+        onConfirm={handleConfirmRollback}
+        onCancel={() => setBatchToRollback(null)}
+      />
+    </SafeAreaView>
+  );
+};
+
+const styles = StyleSheet.create({
+  container: {
+    flex: 1,
+    backgroundColor: theme.colors.backgroundSecondary,
+  },
+  content: {
+    flex: 1,
+    padding: theme.spacing.md,
+  },
+  loader: {
+    marginTop: theme.spacing.xl,
+  },
+  emptyText: {
+    textAlign: 'center',
+    color: theme.colors.text.secondary,
+    marginTop: theme.spacing.xl,
+  },
+  errorText: {
+    color: theme.colors.error,
+    marginBottom: theme.spacing.md,
+  },
+  batchCard: {
+    marginBottom: theme.spacing.md,
+  },
+  batchHeader: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    gap: theme.spacing.sm,
+  },
+  batchTitle: {
+    flex: 1,
+  },
+  batchMeta: {
+    color: theme.colors.text.secondary,
+    marginTop: theme.spacing.xs,
+  },
+  rolledBackChip: {
+    backgroundColor: theme.colors.backgroundSecondary,
+  },
+  details: {
+    marginTop: theme.spacing.sm,
+  },
+  divider: {
+    marginBottom: theme.spacing.sm,
+  },
+  detailRow: {
+    flexDirection: 'row',
+    justifyContent: 'space-between',
+    marginBottom: theme.spacing.xs,
+  },
+  detailLabel: {
+    color: theme.colors.text.secondary,
+  },
+  transactionItem: {
+    paddingHorizontal: 0,
+  },
+  moreText: {
+    color: theme.colors.text.secondary,
+    textAlign: 'center',
+    marginVertical: theme.spacing.sm,
+  },
+  rolledBackText: {
+    color: theme.colors.text.secondary,
+    fontStyle: 'italic',
+    marginTop: theme.spacing.sm,
+  },
+  rollbackButton: {
+    marginTop: theme.spacing.md,
+    borderColor: theme.colors.error,
+  },
+});
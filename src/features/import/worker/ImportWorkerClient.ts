@@ -0,0 +1,143 @@
+import { Platform } from 'react-native';
+import { v4 as uuidv4 } from 'uuid';
+import {
+  ImportFile,
+  ImportMapping,
+  ImportResult,
+  ParseOptions,
+  ImportCancelledError
+} from '../strategies/ImportStrategy';
+import { importService } from '../service/ImportService';
+import { ImportWorkerRequest, ImportWorkerResponse } from './ImportWorkerProtocol';
+
+// Built from importWorker.ts by `npm run build:worker` and served from public/, next to index.html
+const WORKER_SCRIPT = 'import-worker.js';
+
+interface PendingRequest {
+  file: ImportFile;
+  mapping?: ImportMapping | ImportMapping[];
+  options: ParseOptions;
+  resolve: (result: ImportResult) => void;
+  reject: (error: Error) => void;
+  cleanup: () => void;
+}
+
+/**
+ * Runs import parsing in a Web Worker so large statements don't freeze the UI.
+ * Falls back to parsing on the main thread on native, in browsers without
+ * workers, and when the worker fails to load.
+ */
+export class ImportWorkerClient {
+  private worker: Worker | null = null;
+  private workerFailed = false;
+  private pending: Map<string, PendingRequest> = new Map();
+
+  isWorkerAvailable(): boolean {
+    return Platform.OS === 'web' && typeof Worker !== 'undefined' && !this.workerFailed;
+  }
+
+  async parse(file: ImportFile, mapping?: ImportMapping | ImportMapping[], options: ParseOptions = {}): Promise<ImportResult> {
+    if (options.signal?.aborted) {
+      throw new ImportCancelledError();
+    }
+
+    const worker = this.getWorker();
+    if (!worker) {
+      return await importService.previewImport(file, mapping, options);
+    }
+
+    const requestId = uuidv4();
+
+    return await new Promise<ImportResult>((resolve, reject) => {
+      const handleAbort = () => {
+        this.pending.delete(requestId);
+        this.post({ type: 'cancel', requestId });
+        reject(new ImportCancelledError());
+      };
+
+      options.signal?.addEventListener('abort', handleAbort);
+
+      this.pending.set(requestId, {
+        file,
+        mapping,
+        options,
+        resolve,
+        reject,
+        cleanup: () => options.signal?.removeEventListener('abort', handleAbort)
+      });
+
+      this.post({ type: 'parse', requestId, file, mapping });
+    });
+  }
+
+  private getWorker(): Worker | null {
+    if (!this.isWorkerAvailable()) {
+      return null;
+    }
+
+    if (!this.worker) {
+      try {
+        this.worker = new Worker(new URL(WORKER_SCRIPT, document.baseURI));
+        this.worker.onmessage = (event: MessageEvent<ImportWorkerResponse>) => this.handleMessage(event.data);
+        this.worker.onerror = (event: ErrorEvent) => this.handleWorkerFailure(event);
+      } catch (error) {
+        console.warn('⚠️ Import worker unavailable, parsing on the main thread:', error);
+        this.workerFailed = true;
+        return null;
+      }
+    }
+
+    return this.worker;
+  }
+
+  private post(request: ImportWorkerRequest): void {
+    this.worker?.postMessage(request);
+  }
+
+  private handleMessage(message: ImportWorkerResponse): void {
+    const request = this.pending.get(message.requestId);
+    if (!request) {
+      return; // Cancelled on this side already
+    }
+
+    switch (message.type) {
+      case 'progress':
+        request.options.onProgress?.(message.completed, message.total);
+        break;
+      case 'result':
+        this.settle(message.requestId);
+        request.resolve(message.result);
+        break;
+      case 'error':
+        this.settle(message.requestId);
+        request.reject(message.cancelled ? new ImportCancelledError() : new Error(message.message));
+        break;
+    }
+  }
+
+  private settle(requestId: string): void {
+    this.pending.get(requestId)?.cleanup();
+    this.pending.delete(requestId);
+  }
+
+  // A worker that fails to load or crashes hands its pending requests to the main thread
+  private handleWorkerFailure(event: ErrorEvent): void {
+    event.preventDefault();
+    console.warn('⚠️ Import worker failed, parsing on the main thread:', event.message);
+
+    this.worker?.terminate();
+    this.worker = null;
+    this.workerFailed = true;
+
+    const requests = Array.from(this.pending.values());
+    this.pending.clear();
+
+    requests.forEach(request => {
+      request.cleanup();
+      importService.previewImport(request.file, request.mapping, request.options)
+        .then(request.resolve, request.reject);
+    });
+  }
+}
+
+export const importWorkerClient = new ImportWorkerClient();
@@ -0,0 +1,12 @@
+import { ImportFile, ImportMapping, ImportResult } from '../strategies/ImportStrategy';
+
+// Main thread -> worker
+export type ImportWorkerRequest =
+  | { type: 'parse'; requestId: string; file: ImportFile; mapping?: ImportMapping | ImportMapping[] }
+  | { type: 'cancel'; requestId: string };
+
+// Worker -> main thread
+export type ImportWorkerResponse =
+  | { type: 'progress'; requestId: string; completed: number; total: number }
+  | { type: 'result'; requestId: string; result: ImportResult }
+  | { type: 'error'; requestId: string; message: string; cancelled: boolean };
@@ -0,0 +1,52 @@
+/**
+ * Web Worker entry: parses statements and runs duplicate detection off the
+ * main thread. Bundled on its own into public/import-worker.js by
+ * `npm run build:worker` and loaded by ImportWorkerClient; Dexie works inside
+ * workers, so duplicate lookups hit the same IndexedDB database as the app.
+ */
+import { importService } from '../service/ImportService';
+import { ImportCancelledError } from '../strategies/ImportStrategy';
+import { ImportWorkerRequest, ImportWorkerResponse } from './ImportWorkerProtocol';
+
+const scope = self as unknown as {
+  onmessage: ((event: MessageEvent<ImportWorkerRequest>) => void) | null;
+  postMessage: (message: ImportWorkerResponse) => void;
+};
+
+const activeRequests = new Map<string, AbortController>();
+
+async function handleParse(request: Extract<ImportWorkerRequest, { type: 'parse' }>): Promise<void> {
+  const { requestId, file, mapping } = request;
+  const controller = new AbortController();
+  activeRequests.set(requestId, controller);
+
+  try {
+    const result = await importService.previewImport(file, mapping, {
+      signal: controller.signal,
+      onProgress: (completed, total) => scope.postMessage({ type: 'progress', requestId, completed, total })
+    });
+    scope.postMessage({ type: 'result', requestId, result });
+  } catch (error) {
+    scope.postMessage({
+      type: 'error',
+      requestId,
+      message: error instanceof Error ? error.message : 'Unknown parsing error',
+      cancelled: error instanceof ImportCancelledError
+    });
+  } finally {
+    activeRequests.delete(requestId);
+  }
+}
+
+scope.onmessage = (event) => {
+  const request = event.data;
+
+  switch (request.type) {
+    case 'parse':
+      handleParse(request);
+      break;
+    case 'cancel':
+      activeRequests.get(request.requestId)?.abort();
+      break;
+  }
+};
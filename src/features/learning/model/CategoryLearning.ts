@@ -0,0 +1,18 @@
+// How often a description token was seen on a transaction the user filed under a category
+export interface CategoryTokenCount {
+  token: string;
+  category: string;
+  count: number;
+}
+
+export interface CategoryStats {
+  category: string;
+  examples: number; // Corrections recorded for the category
+  tokenTotal: number; // Sum of the category's token counts
+  updatedAt: string;
+}
+
+export interface CategorySuggestion {
+  category: string;
+  confidence: number; // 0..1, share of the probability among all learned categories
+}
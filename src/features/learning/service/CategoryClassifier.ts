@@ -0,0 +1,81 @@
+import { CategoryStats, CategorySuggestion, CategoryTokenCount } from '../model/CategoryLearning';
+
+// Bank noise that says nothing about the merchant
+const STOP_WORDS = new Set([
+  'pos', 'card', 'payment', 'purchase', 'transaction', 'debit', 'credit', 'the', 'and', 'for',
+  'оплата', 'покупка', 'платіж', 'картка', 'карта', 'платеж'
+]);
+
+const MIN_TOKEN_LENGTH = 3;
+
+/**
+ * Multinomial naive Bayes over description tokens, trained on the user's own
+ * category corrections. Runs entirely on the loaded counts, without storage access.
+ */
+export class CategoryClassifier {
+  private readonly counts = new Map<string, Map<string, number>>(); // token -> category -> count
+  private readonly stats: CategoryStats[];
+  private readonly totalExamples: number;
+
+  constructor(tokens: CategoryTokenCount[], stats: CategoryStats[]) {
+    tokens.forEach(({ token, category, count }) => {
+      const byCategory = this.counts.get(token) || new Map<string, number>();
+      byCategory.set(category, count);
+      this.counts.set(token, byCategory);
+    });
+
+    this.stats = stats.filter(entry => entry.examples > 0);
+    this.totalExamples = this.stats.reduce((sum, entry) => sum + entry.examples, 0);
+  }
+
+  // Lowercased merchant words without digits, card masks or punctuation
+  static tokenize(text: string): string[] {
+    const words = text
+      .toLowerCase()
+      .replace(/[^a-zа-яёіїєґ\u0590-\u05ff]+/g, ' ')
+      .split(' ')
+      .filter(word => word.length >= MIN_TOKEN_LENGTH && !STOP_WORDS.has(word));
+
+    return Array.from(new Set(words));
+  }
+
+  get isEmpty(): boolean {
+    return this.totalExamples === 0;
+  }
+
+  suggest(text: string, limit = 3): CategorySuggestion[] {
+    const tokens = CategoryClassifier.tokenize(text).filter(token => this.counts.has(token));
+    if (tokens.length === 0 || this.isEmpty) {
+      return [];
+    }
+
+    const vocabularySize = this.counts.size;
+    const scores = this.stats.map(entry => {
+      let score = Math.log(entry.examples / this.totalExamples);
+      tokens.forEach(token => {
+        const count = this.counts.get(token)?.get(entry.category) || 0;
+        score += Math.log((count + 1) / (entry.tokenTotal + vocabularySize)); // Laplace smoothing
+      });
+      return { category: entry.category, score };
+    });
+
+    // Softmax over log scores, shifted by the maximum to stay in floating point range
+    const maxScore = Math.max(...scores.map(entry => entry.score));
+    const weights = scores.map(entry => ({ category: entry.category, weight: Math.exp(entry.score - maxScore) }));
+    const totalWeight = weights.reduce((sum, entry) => sum + entry.weight, 0);
+
+    // A category that has never seen some of the words is less certain, even when it's the only one learned
+    const allTokens = CategoryClassifier.tokenize(text);
+    const coverage = (category: string) =>
+      allTokens.filter(token => this.counts.get(token)?.has(category)).length / allTokens.length;
+
+    return weights
+      .map(entry => ({
+        category: entry.category,
+        confidence: (entry.weight / totalWeight) * coverage(entry.category)
+      }))
+      .filter(entry => entry.confidence > 0)
+      .sort((a, b) => b.confidence - a.confidence)
+      .slice(0, limit);
+  }
+}
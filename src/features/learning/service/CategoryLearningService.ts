@@ -0,0 +1,52 @@
+import { Transaction } from '@/features/transactions/model/Transaction';
+import { CategorySuggestion } from '../model/CategoryLearning';
+import { categoryLearningRepository } from '../storage/CategoryLearningRepository';
+import { CategoryClassifier } from './CategoryClassifier';
+
+// Category given to imported rows that had none
+export const UNCATEGORIZED = 'Other';
+
+// Import suggestions below this confidence aren't shown
+const MIN_IMPORT_CONFIDENCE = 0.3;
+
+export class CategoryLearningService {
+
+  // Remembers which category the user chose for a description
+  async learn(description: string, category: string): Promise<void> {
+    const tokens = CategoryClassifier.tokenize(description);
+    if (tokens.length === 0 || !category.trim() || category === UNCATEGORIZED) {
+      return;
+    }
+
+    await categoryLearningRepository.recordExample(tokens, category.trim());
+    console.log(`🧠 Learned "${category}" from ${tokens.length} tokens`);
+  }
+
+  async loadClassifier(): Promise<CategoryClassifier> {
+    const { tokens, stats } = await categoryLearningRepository.findAll();
+    return new CategoryClassifier(tokens, stats);
+  }
+
+  // Best guess per uncategorized row, keyed by transaction ID
+  async suggestForImport(transactions: Transaction[]): Promise<Record<string, CategorySuggestion>> {
+    const classifier = await this.loadClassifier();
+    const suggestions: Record<string, CategorySuggestion> = {};
+
+    if (classifier.isEmpty) {
+      return suggestions;
+    }
+
+    transactions
+      .filter(transaction => !transaction.category || transaction.category === UNCATEGORIZED)
+      .forEach(transaction => {
+        const [best] = classifier.suggest(`${transaction.description} ${transaction.payee || ''}`, 1);
+        if (best && best.confidence >= MIN_IMPORT_CONFIDENCE) {
+          suggestions[transaction.id] = best;
+        }
+      });
+
+    return suggestions;
+  }
+}
+
+export const categoryLearningService = new CategoryLearningService();
@@ -0,0 +1,66 @@
+import { db } from '@/features/transactions/storage/TransactionDatabase';
+import { CategoryStats, CategoryTokenCount } from '../model/CategoryLearning';
+
+export class CategoryLearningRepository {
+
+  // Counts one example of the category for the given tokens, all or nothing
+  async recordExample(tokens: string[], category: string): Promise<void> {
+    await db.transaction('rw', db.categoryTokens, db.categoryStats, async () => {
+      for (const token of tokens) {
+        const existing = await db.categoryTokens.get([token, category]);
+        await db.categoryTokens.put({ token, category, count: (existing?.count || 0) + 1 });
+      }
+
+      const stats = await db.categoryStats.get(category);
+      await db.categoryStats.put({
+        category,
+        examples: (stats?.examples || 0) + 1,
+        tokenTotal: (stats?.tokenTotal || 0) + tokens.length,
+        updatedAt: new Date().toISOString()
+      });
+    });
+  }
+
+  // Adds what was learned for one category to another, for renamed and merged categories
+  async moveCategory(from: string, to: string): Promise<void> {
+    if (from === to) return;
+
+    await db.transaction('rw', db.categoryTokens, db.categoryStats, async () => {
+      const tokens = await db.categoryTokens.where('category').equals(from).toArray();
+      for (const { token, count } of tokens) {
+        const existing = await db.categoryTokens.get([token, to]);
+        await db.categoryTokens.put({ token, category: to, count: (existing?.count || 0) + count });
+      }
+      await db.categoryTokens.where('category').equals(from).delete();
+
+      const [source, target] = await Promise.all([db.categoryStats.get(from), db.categoryStats.get(to)]);
+      if (source) {
+        await db.categoryStats.put({
+          category: to,
+          examples: (target?.examples || 0) + source.examples,
+          tokenTotal: (target?.tokenTotal || 0) + source.tokenTotal,
+          updatedAt: new Date().toISOString()
+        });
+        await db.categoryStats.delete(from);
+      }
+    });
+  }
+
+  async findAll(): Promise<{ tokens: CategoryTokenCount[]; stats: CategoryStats[] }> {
+    const [tokens, stats] = await Promise.all([
+      db.categoryTokens.toArray(),
+      db.categoryStats.toArray()
+    ]);
+    return { tokens, stats };
+  }
+
+  async clear(): Promise<void> {
+    await db.transaction('rw', db.categoryTokens, db.categoryStats, async () => {
+      await db.categoryTokens.clear();
+      await db.categoryStats.clear();
+    });
+    console.log('✅ Learned categories cleared');
+  }
+}
+
+export const categoryLearningRepository = new CategoryLearningRepository();
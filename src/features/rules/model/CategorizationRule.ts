@@ -0,0 +1,47 @@
+export type RuleTextField = 'description' | 'comment' | 'any';
+export type RuleMatchType = 'contains' | 'regex';
+export type RuleDirection = 'income' | 'expense';
+
+// Every condition that is set must hold for the rule to match
+export interface RuleConditions {
+  text?: string; // Substring or regular expression, matched case-insensitively
+  textField: RuleTextField;
+  matchType: RuleMatchType;
+  accountId?: string; // Account of the transaction, so renamed and merged accounts keep matching
+  card?: string; // Card name from before accounts; kept only on rules whose card no account answers to
+  minAmount?: number; // Compared against the absolute amount
+  maxAmount?: number;
+  direction?: RuleDirection;
+}
+
+export interface RuleActions {
+  category?: string;
+  tags?: string[]; // Added to the transaction's existing tags
+  payee?: string; // Clean merchant name shown instead of the raw bank description
+}
+
+export interface CategorizationRule {
+  id: string;
+  name: string;
+  enabled: boolean;
+  priority: number; // Lower runs first; later rules can't overwrite a field an earlier rule set
+  conditions: RuleConditions;
+  actions: RuleActions;
+  createdAt: string;
+  updatedAt: string;
+}
+
+export interface CreateRuleRequest {
+  name: string;
+  enabled?: boolean;
+  conditions: RuleConditions;
+  actions: RuleActions;
+}
+
+export interface UpdateRuleRequest {
+  name?: string;
+  enabled?: boolean;
+  priority?: number;
+  conditions?: RuleConditions;
+  actions?: RuleActions;
+}
@@ -0,0 +1,151 @@
+import { Transaction } from '@/features/transactions/model/Transaction';
+import { isSplit } from '@/features/transactions/model/Split';
+import { addTags, hasTag } from '@/features/transactions/model/Tag';
+import { cardKey } from '@/features/accounts/service/AccountMatcher';
+import { CategorizationRule, RuleConditions } from '../model/CategorizationRule';
+
+export interface RuleRunResult {
+  transactions: Transaction[]; // Same order as the input; unchanged rows keep their identity
+  changedCount: number;
+  changesByRule: Record<string, number>; // Rows each rule actually changed
+}
+
+type RuleMatcher = (transaction: Transaction) => boolean;
+
+/**
+ * Applies categorization rules to transactions without touching storage.
+ * Rules run in priority order; the first rule to set a category or payee wins,
+ * tags from every matching rule are combined.
+ */
+export class RuleEngine {
+  static isValidPattern(pattern: string): boolean {
+    try {
+      new RegExp(pattern, 'i');
+      return true;
+    } catch {
+      return false;
+    }
+  }
+
+  static matches(rule: CategorizationRule, transaction: Transaction): boolean {
+    return this.compile(rule.conditions)(transaction);
+  }
+
+  static run(rules: CategorizationRule[], transactions: Transaction[]): RuleRunResult {
+    const active = rules
+      .filter(rule => rule.enabled)
+      .sort((a, b) => a.priority - b.priority)
+      .map(rule => ({ rule, matches: this.compile(rule.conditions) }));
+
+    const changesByRule: Record<string, number> = {};
+    active.forEach(({ rule }) => { changesByRule[rule.id] = 0; });
+
+    let changedCount = 0;
+
+    const result = transactions.map(transaction => {
+      let updated = transaction;
+      let categorySet = false;
+      let payeeSet = false;
+
+      active.forEach(({ rule, matches }) => {
+        if (!matches(transaction)) {
+          return;
+        }
+
+        const { category, tags, payee } = rule.actions;
+        const changes: Partial<Transaction> = {};
+
+        if (category && !categorySet) {
+          categorySet = true;
+          // Split transactions keep the categories of their lines
+          if (updated.category !== category && !isSplit(updated)) {
+            changes.category = category;
+          }
+        }
+
+        if (payee && !payeeSet) {
+          payeeSet = true;
+          if (updated.payee !== payee) {
+            changes.payee = payee;
+          }
+        }
+
+        const newTags = (tags || []).filter(tag => !hasTag(updated.tags, tag));
+        if (newTags.length > 0) {
+          changes.tags = addTags(updated.tags, newTags);
+        }
+
+        if (Object.keys(changes).length > 0) {
+          updated = { ...updated, ...changes };
+          changesByRule[rule.id]++;
+        }
+      });
+
+      if (updated !== transaction) {
+        changedCount++;
+      }
+      return updated;
+    });
+
+    return { transactions: result, changedCount, changesByRule };
+  }
+
+  // Builds the matcher once per run so regular expressions aren't recompiled per row
+  private static compile(conditions: RuleConditions): RuleMatcher {
+    const textMatches = this.compileText(conditions);
+    const card = conditions.card?.trim() ? cardKey(conditions.card) : undefined;
+
+    return (transaction) => {
+      if (conditions.direction && transaction.isIncome !== (conditions.direction === 'income')) {
+        return false;
+      }
+
+      if (conditions.accountId && transaction.accountId !== conditions.accountId) {
+        return false;
+      }
+
+      if (card && cardKey(transaction.card || '') !== card) {
+        return false;
+      }
+
+      const amount = Math.abs(transaction.amount);
+      if (conditions.minAmount !== undefined && amount < conditions.minAmount) {
+        return false;
+      }
+      if (conditions.maxAmount !== undefined && amount > conditions.maxAmount) {
+        return false;
+      }
+
+      if (!textMatches) {
+        return true;
+      }
+
+      const values = conditions.textField === 'description'
+        ? [transaction.description]
+        : conditions.textField === 'comment'
+          ? [transaction.comment]
+          : [transaction.description, transaction.comment];
+
+      return values.some(value => !!value && textMatches(value));
+    };
+  }
+
+  private static compileText(conditions: RuleConditions): ((value: string) => boolean) | null {
+    const text = conditions.text?.trim();
+    if (!text) {
+      return null;
+    }
+
+    if (conditions.matchType === 'regex') {
+      // An invalid pattern never matches rather than failing the whole run
+      if (!this.isValidPattern(text)) {
+        return () => false;
+      }
+      const pattern = new RegExp(text, 'i');
+      return (value) => pattern.test(value);
+    }
+
+    const needle = text.toLowerCase();
+    return (value) => value.toLowerCase().includes(needle);
+  }
+}
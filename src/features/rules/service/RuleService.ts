@@ -0,0 +1,39 @@
+import { db } from '@/features/transactions/storage/TransactionDatabase';
+import { transactionRepository } from '@/features/transactions/storage/TransactionRepository';
+import { Transaction } from '@/features/transactions/model/Transaction';
+import { categoryRepository } from '@/features/categories/storage/CategoryRepository';
+import { CategorizationRule } from '../model/CategorizationRule';
+import { ruleRepository } from '../storage/RuleRepository';
+import { RuleEngine, RuleRunResult } from './RuleEngine';
+
+export class RuleService {
+
+  // Used by import: enabled rules run against freshly parsed rows
+  async applyToImported(transactions: Transaction[]): Promise<RuleRunResult> {
+    const rules = await ruleRepository.findEnabled();
+    return RuleEngine.run(rules, transactions);
+  }
+
+  // Dry run against the saved, non-archived transactions
+  async previewExisting(rules: CategorizationRule[]): Promise<RuleRunResult> {
+    const transactions = await transactionRepository.findAll();
+    return RuleEngine.run(rules, transactions);
+  }
+
+  // Writes every change in one database transaction and returns how many rows changed
+  async applyToExisting(rules: CategorizationRule[]): Promise<number> {
+    return await db.transaction('rw', db.transactions, db.categories, async () => {
+      const transactions = await transactionRepository.findAll();
+      const result = RuleEngine.run(rules, transactions);
+
+      const changed = result.transactions.filter((transaction, index) => transaction !== transactions[index]);
+      await categoryRepository.ensureNames(changed.map(transaction => transaction.category));
+      await db.transactions.bulkPut(changed);
+
+      console.log(`✅ Rules updated ${changed.length} transactions`);
+      return changed.length;
+    });
+  }
+}
+
+export const ruleService = new RuleService();
@@ -0,0 +1,89 @@
+import { v4 as uuidv4 } from 'uuid';
+import { db } from '@/features/transactions/storage/TransactionDatabase';
+import {
+  CategorizationRule,
+  CreateRuleRequest,
+  UpdateRuleRequest
+} from '../model/CategorizationRule';
+
+export class RuleRepository {
+
+  // New rules go to the end of the list
+  async create(request: CreateRuleRequest): Promise<CategorizationRule> {
+    const now = new Date().toISOString();
+    const last = await db.rules.orderBy('priority').last();
+
+    const rule: CategorizationRule = {
+      id: uuidv4(),
+      name: request.name.trim(),
+      enabled: request.enabled ?? true,
+      priority: last ? last.priority + 1 : 0,
+      conditions: request.conditions,
+      actions: request.actions,
+      createdAt: now,
+      updatedAt: now
+    };
+
+    await db.rules.add(rule);
+
+    console.log('✅ Rule created:', rule.name);
+    return rule;
+  }
+
+  async findAll(): Promise<CategorizationRule[]> {
+    return await db.rules.orderBy('priority').toArray();
+  }
+
+  async findEnabled(): Promise<CategorizationRule[]> {
+    const rules = await this.findAll();
+    return rules.filter(rule => rule.enabled);
+  }
+
+  async findById(id: string): Promise<CategorizationRule | null> {
+    const rule = await db.rules.get(id);
+    return rule || null;
+  }
+
+  async update(id: string, updates: UpdateRuleRequest): Promise<CategorizationRule> {
+    const existing = await this.findById(id);
+    if (!existing) {
+      throw new Error(`Rule with id ${id} not found`);
+    }
+
+    const updated: CategorizationRule = {
+      ...existing,
+      ...updates,
+      name: updates.name !== undefined ? updates.name.trim() : existing.name,
+      updatedAt: new Date().toISOString()
+    };
+
+    await db.rules.put(updated);
+
+    console.log('✅ Rule updated:', updated.name);
+    return updated;
+  }
+
+  // Swaps priorities with the neighbouring rule
+  async move(id: string, direction: 'up' | 'down'): Promise<void> {
+    await db.transaction('rw', db.rules, async () => {
+      const rules = await this.findAll();
+      const index = rules.findIndex(rule => rule.id === id);
+      const neighbour = rules[direction === 'up' ? index - 1 : index + 1];
+
+      if (index < 0 || !neighbour) {
+        return;
+      }
+
+      const rule = rules[index];
+      await db.rules.update(rule.id, { priority: neighbour.priority });
+      await db.rules.update(neighbour.id, { priority: rule.priority });
+    });
+  }
+
+  async delete(id: string): Promise<void> {
+    await db.rules.delete(id);
+    console.log('✅ Rule deleted:', id);
+  }
+}
+
+export const ruleRepository = new RuleRepository();
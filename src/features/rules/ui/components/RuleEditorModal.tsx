@@ -0,0 +1,420 @@
+import React, { useState, useEffect, useMemo } from 'react';
+import { View, ScrollView, StyleSheet } from 'react-native';
+import {
+  Modal,
+  Portal,
+  Surface,
+  Text,
+  Button,
+  Menu,
+  TextInput,
+  Chip,
+  HelperText
+} from 'react-native-paper';
+import {
+  CategorizationRule,
+  CreateRuleRequest,
+  RuleActions,
+  RuleConditions,
+  RuleDirection,
+  RuleMatchType,
+  RuleTextField
+} from '../../model/CategorizationRule';
+import { RuleEngine } from '../../service/RuleEngine';
+import { Transaction } from '@/features/transactions/model/Transaction';
+import { transactionRepository } from '@/features/transactions/storage/TransactionRepository';
+import { useAccounts } from '@/features/accounts/ui/hooks/useAccounts';
+import { parseLocaleAmount } from '@/shared/utils/currencyUtils';
+import { theme } from '@/shared/ui/theme/theme';
+
+interface RuleEditorModalProps {
+  visible: boolean;
+  rule: CategorizationRule | null; // Null creates a new rule
+  onSave: (request: CreateRuleRequest) => Promise<void>;
+  onDelete?: () => Promise<void>;
+  onDismiss: () => void;
+}
+
+const TEXT_FIELD_OPTIONS: { value: RuleTextField; label: string }[] = [
+  { value: 'description', label: 'Description' },
+  { value: 'comment', label: 'Comment' },
+  { value: 'any', label: 'Either' }
+];
+
+const MATCH_TYPE_OPTIONS: { value: RuleMatchType; label: string }[] = [
+  { value: 'contains', label: 'Contains' },
+  { value: 'regex', label: 'Regex' }
+];
+
+const DIRECTION_OPTIONS: { value?: RuleDirection; label: string }[] = [
+  { value: undefined, label: 'Any' },
+  { value: 'expense', label: 'Expense' },
+  { value: 'income', label: 'Income' }
+];
+
+const EMPTY_CONDITIONS: RuleConditions = { textField: 'description', matchType: 'contains' };
+
+const parseOptionalAmount = (text: string): number | undefined => {
+  const value = parseLocaleAmount(text).value;
+  return value === null ? undefined : Math.abs(value);
+};
+
+const parseTags = (text: string): string[] | undefined => {
+  const tags = text.split(',').map(tag => tag.trim()).filter(Boolean);
+  return tags.length > 0 ? tags : undefined;
+};
+
+export const RuleEditorModal: React.FC<RuleEditorModalProps> = ({
+  visible,
+  rule,
+  onSave,
+  onDelete,
+  onDismiss
+}) => {
+  const [name, setName] = useState('');
+  const [conditions, setConditions] = useState<RuleConditions>(EMPTY_CONDITIONS);
+  const [actions, setActions] = useState<RuleActions>({});
+  const [minAmountText, setMinAmountText] = useState('');
+  const [maxAmountText, setMaxAmountText] = useState('');
+  const [tagsText, setTagsText] = useState('');
+  const [showAccountMenu, setShowAccountMenu] = useState(false);
+  const [transactions, setTransactions] = useState<Transaction[]>([]);
+  const { accounts } = useAccounts(visible);
+
+  useEffect(() => {
+    if (!visible) return;
+
+    setName(rule?.name || '');
+    setConditions(rule?.conditions || EMPTY_CONDITIONS);
+    setActions(rule?.actions || {});
+    setMinAmountText(rule?.conditions.minAmount !== undefined ? String(rule.conditions.minAmount) : '');
+    setMaxAmountText(rule?.conditions.maxAmount !== undefined ? String(rule.conditions.maxAmount) : '');
+    setTagsText(rule?.actions.tags?.join(', ') || '');
+
+    transactionRepository.findAll()
+      .then(setTransactions)
+      .catch(error => console.error('Failed to load transactions for rule preview:', error));
+  }, [visible, rule]);
+
+  // Archived accounts stay listed only while the rule is scoped to one
+  const accountOptions = useMemo(
+    () => accounts.filter(account => !account.isArchived || account.id === conditions.accountId),
+    [accounts, conditions.accountId]
+  );
+  const selectedAccount = accounts.find(account => account.id === conditions.accountId);
+
+  const draft: CategorizationRule = {
+    id: rule?.id || 'draft',
+    name,
+    enabled: true,
+    priority: 0,
+    conditions: {
+      ...conditions,
+      minAmount: parseOptionalAmount(minAmountText),
+      maxAmount: parseOptionalAmount(maxAmountText)
+    },
+    actions: { ...actions, tags: parseTags(tagsText) },
+    createdAt: rule?.createdAt || '',
+    updatedAt: rule?.updatedAt || ''
+  };
+
+  const isPatternValid = draft.conditions.matchType !== 'regex'
+    || !draft.conditions.text
+    || RuleEngine.isValidPattern(draft.conditions.text);
+  const hasCondition = !!(draft.conditions.text?.trim() || draft.conditions.accountId || draft.conditions.card
+    || draft.conditions.minAmount !== undefined || draft.conditions.maxAmount !== undefined
+    || draft.conditions.direction);
+  const hasAction = !!(draft.actions.category?.trim() || draft.actions.payee?.trim() || draft.actions.tags);
+  const isValid = !!name.trim() && isPatternValid && hasCondition && hasAction;
+
+  // Preview of the rule on its own, ignoring other rules
+  const matched = isPatternValid && hasCondition
+    ? transactions.filter(transaction => RuleEngine.matches(draft, transaction))
+    : null;
+  const preview = matched && {
+    matched: matched.length,
+    changed: RuleEngine.run([draft], matched).changedCount,
+    examples: matched.slice(0, 3)
+  };
+
+  const handleSave = async () => {
+    try {
+      await onSave({
+        name,
+        enabled: rule?.enabled ?? true,
+        conditions: draft.conditions,
+        actions: {
+          category: draft.actions.category?.trim() || undefined,
+          tags: draft.actions.tags,
+          payee: draft.actions.payee?.trim() || undefined
+        }
+      });
+      onDismiss();
+    } catch (error) {
+      console.error('Failed to save rule:', error);
+    }
+  };
+
+  const handleDelete = async () => {
+    try {
+      await onDelete?.();
+      onDismiss();
+    } catch (error) {
+      console.error('Failed to delete rule:', error);
+    }
+  };
+
+  return (
+    <Portal>
+      <Modal
+        visible={visible}
+        onDismiss={onDismiss}
+        contentContainerStyle={styles.modalContainer}
+      >
+        <Surface style={styles.modalSurface}>
+          <Text variant="titleMedium" style={styles.modalTitle}>
+            {rule ? 'Edit Rule' : 'New Rule'}
+          </Text>
+
+          <ScrollView style={styles.content}>
+            <TextInput
+              mode="outlined"
+              dense
+              label="Rule name"
+              value={name}
+              onChangeText={setName}
+              style={styles.input}
+            />
+
+            <Text variant="titleSmall" style={styles.groupTitle}>When</Text>
+            <View style={styles.chips}>
+              {TEXT_FIELD_OPTIONS.map(option => (
+                <Chip
+                  key={option.value}
+                  compact
+                  selected={conditions.textField === option.value}
+                  onPress={() => setConditions(prev => ({ ...prev, textField: option.value }))}
+                >
+                  {option.label}
+                </Chip>
+              ))}
+            </View>
+            <View style={styles.chips}>
+              {MATCH_TYPE_OPTIONS.map(option => (
+                <Chip
+                  key={option.value}
+                  compact
+                  selected={conditions.matchType === option.value}
+                  onPress={() => setConditions(prev => ({ ...prev, matchType: option.value }))}
+                >
+                  {option.label}
+                </Chip>
+              ))}
+            </View>
+            <TextInput
+              mode="outlined"
+              dense
+              label={conditions.matchType === 'regex' ? 'Pattern' : 'Text'}
+              placeholder={conditions.matchType === 'regex' ? '^(SILPO|ATB)' : 'silpo'}
+              value={conditions.text || ''}
+              error={!isPatternValid}
+              onChangeText={(text) => setConditions(prev => ({ ...prev, text: text || undefined }))}
+              style={styles.input}
+            />
+            <HelperText type="error" visible={!isPatternValid} padding="none">
+              Not a valid regular expression
+            </HelperText>
+
+            <View style={styles.row}>
+              <Text variant="bodyMedium">Account</Text>
+              <Menu
+                visible={showAccountMenu}
+                onDismiss={() => setShowAccountMenu(false)}
+                anchor={
+                  <Button mode="outlined" compact onPress={() => setShowAccountMenu(true)}>
+                    {selectedAccount?.name || conditions.card || 'Any account'}
+                  </Button>
+                }
+              >
+                <Menu.Item
+                  title="Any account"
+                  onPress={() => {
+                    setConditions(prev => ({ ...prev, accountId: undefined, card: undefined }));
+                    setShowAccountMenu(false);
+                  }}
+                />
+                {accountOptions.map(account => (
+                  <Menu.Item
+                    key={account.id}
+                    title={account.name}
+                    onPress={() => {
+                      setConditions(prev => ({ ...prev, accountId: account.id, card: undefined }));
+                      setShowAccountMenu(false);
+                    }}
+                  />
+                ))}
+              </Menu>
+            </View>
+
+            <View style={styles.amountRow}>
+              <TextInput
+                mode="outlined"
+                dense
+                label="Min amount"
+                keyboardType="decimal-pad"
+                value={minAmountText}
+                onChangeText={setMinAmountText}
+                style={styles.amountInput}
+              />
+              <TextInput
+                mode="outlined"
+                dense
+                label="Max amount"
+                keyboardType="decimal-pad"
+                value={maxAmountText}
+                onChangeText={setMaxAmountText}
+                style={styles.amountInput}
+              />
+            </View>
+
+            <View style={styles.chips}>
+              {DIRECTION_OPTIONS.map(option => (
+                <Chip
+                  key={option.label}
+                  compact
+                  selected={conditions.direction === option.value}
+                  onPress={() => setConditions(prev => ({ ...prev, direction: option.value }))}
+                >
+                  {option.label}
+                </Chip>
+              ))}
+            </View>
+
+            <Text variant="titleSmall" style={styles.groupTitle}>Then</Text>
+            <TextInput
+              mode="outlined"
+              dense
+              label="Set category"
+              value={actions.category || ''}
+              onChangeText={(text) => setActions(prev => ({ ...prev, category: text || undefined }))}
+              style={styles.input}
+            />
+            <TextInput
+              mode="outlined"
+              dense
+              label="Add tags (comma-separated)"
+              value={tagsText}
+              onChangeText={setTagsText}
+              style={styles.input}
+            />
+            <TextInput
+              mode="outlined"
+              dense
+              label="Set payee"
+              placeholder="Shown instead of the bank description"
+              value={actions.payee || ''}
+              onChangeText={(text) => setActions(prev => ({ ...prev, payee: text || undefined }))}
+              style={styles.input}
+            />
+
+            {preview && (
+              <View style={styles.preview}>
+                <Text variant="bodySmall" style={styles.previewText}>
+                  Matches {preview.matched} saved transactions, changes {preview.changed}
+                </Text>
+                {preview.examples.map(transaction => (
+                  <Text key={transaction.id} variant="bodySmall" style={styles.previewText} numberOfLines={1}>
+                    • {transaction.description}
+                  </Text>
+                ))}
+              </View>
+            )}
+          </ScrollView>
+
+          <View style={styles.actions}>
+            {onDelete ? (
+              <Button mode="text" textColor={theme.colors.error} onPress={handleDelete}>
+                Delete
+              </Button>
+            ) : <View />}
+            <View style={styles.actionGroup}>
+              <Button mode="outlined" onPress={onDismiss}>
+                Cancel
+              </Button>
+              <Button mode="contained" onPress={handleSave} disabled={!isValid}>
+                Save
+              </Button>
+            </View>
+          </View>
+        </Surface>
+      </Modal>
+    </Portal>
+  );
+};
+
+const styles = StyleSheet.create({
+  modalContainer: {
+    margin: theme.spacing.lg,
+    maxHeight: '85%',
+  },
+  modalSurface: {
+    backgroundColor: theme.colors.surface,
+    borderRadius: theme.borderRadius.lg,
+    padding: theme.spacing.md,
+  },
+  modalTitle: {
+    marginBottom: theme.spacing.md,
+    textAlign: 'center',
+    fontWeight: '600',
+  },
+  content: {
+    maxHeight: 480,
+  },
+  groupTitle: {
+    marginTop: theme.spacing.md,
+    marginBottom: theme.spacing.sm,
+    fontWeight: '600',
+  },
+  chips: {
+    flexDirection: 'row',
+    flexWrap: 'wrap',
+    gap: theme.spacing.sm,
+    marginBottom: theme.spacing.sm,
+  },
+  row: {
+    flexDirection: 'row',
+    justifyContent: 'space-between',
+    alignItems: 'center',
+    marginBottom: theme.spacing.sm,
+  },
+  input: {
+    marginTop: theme.spacing.sm,
+  },
+  amountRow: {
+    flexDirection: 'row',
+    gap: theme.spacing.sm,
+    marginBottom: theme.spacing.sm,
+  },
+  amountInput: {
+    flex: 1,
+  },
+  preview: {
+    marginTop: theme.spacing.md,
+    padding: theme.spacing.sm,
+    borderRadius: theme.borderRadius.md,
+    backgroundColor: theme.colors.backgroundSecondary,
+  },
+  previewText: {
+    color: theme.colors.text.secondary,
+  },
+  actions: {
+    flexDirection: 'row',
+    justifyContent: 'space-between',
+    alignItems: 'center',
+    marginTop: theme.spacing.md,
+  },
+  actionGroup: {
+    flexDirection: 'row',
+    gap: theme.spacing.sm,
+  },
+});
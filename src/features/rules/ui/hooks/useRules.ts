@@ -0,0 +1,73 @@
+import { useState, useEffect, useCallback } from 'react';
+import { CategorizationRule, CreateRuleRequest, UpdateRuleRequest } from '../../model/CategorizationRule';
+import { ruleRepository } from '../../storage/RuleRepository';
+import { ruleService } from '../../service/RuleService';
+
+export const useRules = (enabled = true) => {
+  const [rules, setRules] = useState<CategorizationRule[]>([]);
+  const [changesByRule, setChangesByRule] = useState<Record<string, number>>({});
+  const [pendingChanges, setPendingChanges] = useState(0);
+  const [isLoading, setIsLoading] = useState(false);
+
+  // Reloads the rules together with how many saved transactions each would change
+  const loadRules = useCallback(async () => {
+    setIsLoading(true);
+    try {
+      const loaded = await ruleRepository.findAll();
+      const preview = await ruleService.previewExisting(loaded);
+
+      setRules(loaded);
+      setChangesByRule(preview.changesByRule);
+      setPendingChanges(preview.changedCount);
+    } catch (error) {
+      console.error('Failed to load rules:', error);
+    } finally {
+      setIsLoading(false);
+    }
+  }, []);
+
+  useEffect(() => {
+    if (enabled) {
+      loadRules();
+    }
+  }, [enabled, loadRules]);
+
+  const createRule = useCallback(async (request: CreateRuleRequest) => {
+    await ruleRepository.create(request);
+    await loadRules();
+  }, [loadRules]);
+
+  const updateRule = useCallback(async (id: string, updates: UpdateRuleRequest) => {
+    await ruleRepository.update(id, updates);
+    await loadRules();
+  }, [loadRules]);
+
+  const moveRule = useCallback(async (id: string, direction: 'up' | 'down') => {
+    await ruleRepository.move(id, direction);
+    await loadRules();
+  }, [loadRules]);
+
+  const deleteRule = useCallback(async (id: string) => {
+    await ruleRepository.delete(id);
+    await loadRules();
+  }, [loadRules]);
+
+  const applyRules = useCallback(async (): Promise<number> => {
+    const changed = await ruleService.applyToExisting(rules);
+    await loadRules();
+    return changed;
+  }, [rules, loadRules]);
+
+  return {
+    rules,
+    changesByRule,
+    pendingChanges,
+    isLoading,
+    loadRules,
+    createRule,
+    updateRule,
+    moveRule,
+    deleteRule,
+    applyRules
+  };
+};
@@ -0,0 +1,253 @@
+import React, { useState } from 'react';
+import { View, ScrollView, StyleSheet, Switch } from 'react-native';
+import { Card, Text, Button, Chip, IconButton, ActivityIndicator } from 'react-native-paper';
+import { SafeAreaView } from 'react-native-safe-area-context';
+import { CategorizationRule, CreateRuleRequest } from '../../model/CategorizationRule';
+import { useRules } from '../hooks/useRules';
+import { RuleEditorModal } from '../components/RuleEditorModal';
+import { Account } from '@/features/accounts/model/Account';
+import { useAccounts } from '@/features/accounts/ui/hooks/useAccounts';
+import { useTransactionStore } from '@/features/transactions/store/transactionStore';
+import { ModalHeader } from '@/shared/ui/components/ModalHeader';
+import { ConfirmationDialog } from '@/shared/ui/components/ConfirmationDialog';
+import { theme } from '@/shared/ui/theme/theme';
+
+interface RulesScreenProps {
+  onClose: () => void;
+}
+
+function describeConditions(rule: CategorizationRule, accounts: Account[]): string {
+  const { text, textField, matchType, accountId, card, minAmount, maxAmount, direction } = rule.conditions;
+  const parts: string[] = [];
+
+  if (text) {
+    const field = textField === 'any' ? 'description or comment' : textField;
+    parts.push(matchType === 'regex' ? `${field} matches /${text}/` : `${field} contains "${text}"`);
+  }
+  if (accountId) parts.push(`account is ${accounts.find(account => account.id === accountId)?.name || 'a removed account'}`);
+  else if (card) parts.push(`card is ${card}`);
+  if (minAmount !== undefined && maxAmount !== undefined) parts.push(`amount ${minAmount}–${maxAmount}`);
+  else if (minAmount !== undefined) parts.push(`amount ≥ ${minAmount}`);
+  else if (maxAmount !== undefined) parts.push(`amount ≤ ${maxAmount}`);
+  if (direction) parts.push(direction);
+
+  return parts.join(', ');
+}
+
+function describeActions(rule: CategorizationRule): string {
+  const { category, tags, payee } = rule.actions;
+  return [
+    category && `category → ${category}`,
+    payee && `payee → ${payee}`,
+    tags?.length && `tags + ${tags.join(', ')}`
+  ].filter(Boolean).join(' · ');
+}
+
+export const RulesScreen: React.FC<RulesScreenProps> = ({ onClose }) => {
+  const loadTransactions = useTransactionStore(state => state.loadTransactions);
+  const {
+    rules,
+    changesByRule,
+    pendingChanges,
+    isLoading,
+    createRule,
+    updateRule,
+    moveRule,
+    deleteRule,
+    applyRules
+  } = useRules();
+  const { accounts } = useAccounts();
+
+  const [editingRule, setEditingRule] = useState<CategorizationRule | null>(null);
+  const [showEditor, setShowEditor] = useState(false);
+  const [showApplyDialog, setShowApplyDialog] = useState(false);
+  const [isApplying, setIsApplying] = useState(false);
+  const [message, setMessage] = useState<string | null>(null);
+
+  const openEditor = (rule: CategorizationRule | null) => {
+    setEditingRule(rule);
+    setShowEditor(true);
+  };
+
+  const handleSave = async (request: CreateRuleRequest) => {
+    if (editingRule) {
+      await updateRule(editingRule.id, request);
+    } else {
+      await createRule(request);
+    }
+  };
+
+  const handleApply = async () => {
+    setShowApplyDialog(false);
+    setIsApplying(true);
+    setMessage(null);
+    try {
+      const changed = await applyRules();
+      await loadTransactions();
+      setMessage(`Rules updated ${changed} transactions`);
+    } catch (applyError) {
+      console.error('❌ Applying rules failed:', applyError);
+      setMessage(`Applying rules failed: ${applyError instanceof Error ? applyError.message : 'Unknown error'}`);
+    } finally {
+      setIsApplying(false);
+    }
+  };
+
+  return (
+    <SafeAreaView style={styles.container}>
+      <ModalHeader
+        title="Categorization Rules"
+        variant="screen"
+        leftAction={{
+          label: "Back",
+          onPress: onClose
+        }}
+        rightAction={{
+          label: "Add",
+          onPress: () => openEditor(null)
+        }}
+      />
+
+      <ScrollView style={styles.content}>
+        <Text variant="bodySmall" style={styles.hintText}>
+          Rules run top to bottom on every import. The first rule to set a category or payee wins; tags from all matching rules are added.
+        </Text>
+
+        {message && (
+          <Text variant="bodyMedium" style={styles.messageText}>{message}</Text>
+        )}
+
+        {isLoading && rules.length === 0 ? (
+          <ActivityIndicator style={styles.loader} />
+        ) : rules.length === 0 ? (
+          <Text variant="bodyMedium" style={styles.emptyText}>
+            No rules yet. Add one to categorize recurring merchants automatically.
+          </Text>
+        ) : (
+          rules.map((rule, index) => (
+            <Card key={rule.id} style={[styles.ruleCard, !rule.enabled && styles.disabledCard]} onPress={() => openEditor(rule)}>
+              <Card.Content>
+                <View style={styles.ruleHeader}>
+                  <View style={styles.ruleTitle}>
+                    <Text variant="titleSmall" numberOfLines={1}>{rule.name}</Text>
+                    <Text variant="bodySmall" style={styles.ruleMeta}>If {describeConditions(rule, accounts)}</Text>
+                    <Text variant="bodySmall" style={styles.ruleMeta}>Then {describeActions(rule)}</Text>
+                  </View>
+                  <Switch
+                    value={rule.enabled}
+                    onValueChange={(enabled) => updateRule(rule.id, { enabled })}
+                  />
+                </View>
+
+                <View style={styles.ruleFooter}>
+                  {rule.enabled && (
+                    <Chip compact style={styles.countChip}>
+                      {changesByRule[rule.id] || 0} rows to change
+                    </Chip>
+                  )}
+                  <View style={styles.moveButtons}>
+                    <IconButton icon="arrow-up" size={18} disabled={index === 0} onPress={() => moveRule(rule.id, 'up')} />
+                    <IconButton icon="arrow-down" size={18} disabled={index === rules.length - 1} onPress={() => moveRule(rule.id, 'down')} />
+                  </View>
+                </View>
+              </Card.Content>
+            </Card>
+          ))
+        )}
+
+        {rules.length > 0 && (
+          <Button
+            mode="contained"
+            icon="playlist-check"
+            style={styles.applyButton}
+            disabled={pendingChanges === 0 || isApplying}
+            loading={isApplying}
+            onPress={() => setShowApplyDialog(true)}
+          >
+            {pendingChanges > 0 ? `Apply to ${pendingChanges} Existing Transactions` : 'Existing Transactions Up to Date'}
+          </Button>
+        )}
+      </ScrollView>
+
+      <RuleEditorModal
+        visible={showEditor}
+        rule={editingRule}
+        onSave={handleSave}
+        onDelete={editingRule ? () => deleteRule(editingRule.id) : undefined}
+        onDismiss={() => setShowEditor(false)}
+      />
+
+      <ConfirmationDialog
+        visible={showApplyDialog}
+        title="Apply Rules"
+        message={`This will update the category, tags or payee of ${pendingChanges} saved transactions.`}
+        confirmText="Apply"
+        cancelText="Cancel"
+        confirmButtonColor={theme.colors.primary}
+        onConfirm={handleApply}
+        onCancel={() => setShowApplyDialog(false)}
+      />
+    </SafeAreaView>
+  );
+};
+
+const styles = StyleSheet.create({
+  container: {
+    flex: 1,
+    backgroundColor: theme.colors.backgroundSecondary,
+  },
+  content: {
+    flex: 1,
+    padding: theme.spacing.md,
+  },
+  loader: {
+    marginTop: theme.spacing.xl,
+  },
+  hintText: {
+    color: theme.colors.text.secondary,
+    marginBottom: theme.spacing.md,
+  },
+  emptyText: {
+    textAlign: 'center',
+    color: theme.colors.text.secondary,
+    marginTop: theme.spacing.xl,
+  },
+  messageText: {
+    color: theme.colors.text.primary,
+    marginBottom: theme.spacing.md,
+  },
+  ruleCard: {
+    marginBottom: theme.spacing.md,
+  },
+  disabledCard: {
+    opacity: 0.6,
+  },
+  ruleHeader: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    gap: theme.spacing.sm,
+  },
+  ruleTitle: {
+    flex: 1,
+  },
+  ruleMeta: {
+    color: theme.colors.text.secondary,
+    marginTop: theme.spacing.xs,
+  },
+  ruleFooter: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    justifyContent: 'space-between',
+    marginTop: theme.spacing.sm,
+  },
+  countChip: {
+    backgroundColor: theme.colors.backgroundSecondary,
+  },
+  moveButtons: {
+    flexDirection: 'row',
+    marginLeft: 'auto',
+  },
+  applyButton: {
+    marginVertical: theme.spacing.md,
+  },
+});
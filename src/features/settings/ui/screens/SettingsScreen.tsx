@@ -26,6 +26,16 @@ import { theme } from '@/shared/ui/theme/theme';
 import { ModalHeader } from '@/shared/ui/components/ModalHeader';
 import { useTransactionStore } from '@/features/transactions/store/transactionStore';
 import { categoryService } from '@/features/transactions/service/CategoryService';
+import { transactionRepository } from '@/features/transactions/storage/TransactionRepository';
+import { QifExportService } from '@/features/export/service/QifExportService';
+import { ImportProfilesModal } from '@/features/import/ui/components/ImportProfilesModal';
+import { ImportHistoryScreen } from '@/features/import/ui/screens/ImportHistoryScreen';
+import { RulesScreen } from '@/features/rules/ui/screens/RulesScreen';
+import { TransfersScreen } from '@/features/transfers/ui/screens/TransfersScreen';
+import { AccountsScreen } from '@/features/accounts/ui/screens/AccountsScreen';
+import { CategoriesScreen } from '@/features/categories/ui/screens/CategoriesScreen';
+import { categoryLearningRepository } from '@/features/learning/storage/CategoryLearningRepository';
+import { downloadTextFile } from '@/shared/utils/fileDownload';
 import { useSettingsStore } from '@/shared/store/settingsStore';
 
 interface SettingsScreenProps {
@@ -55,6 +65,12 @@ export const SettingsScreen: React.FC<SettingsScreenProps> = ({ onClose }) => {
 
   const [showCurrencyModal, setShowCurrencyModal] = useState(false);
   const [showCategoryModal, setShowCategoryModal] = useState(false);
+  const [showImportProfilesModal, setShowImportProfilesModal] = useState(false);
+  const [showImportHistory, setShowImportHistory] = useState(false);
+  const [showRules, setShowRules] = useState(false);
+  const [showTransfers, setShowTransfers] = useState(false);
+  const [showAccounts, setShowAccounts] = useState(false);
+  const [showCategories, setShowCategories] = useState(false);
 
   const confirmDeleteTransactions = useSettingsStore(state => state.confirmDeleteTransactions);
   const setConfirmDeleteTransactions = useSettingsStore(state => state.setConfirmDeleteTransactions);
@@ -137,6 +153,45 @@ export const SettingsScreen: React.FC<SettingsScreenProps> = ({ onClose }) => {
     );
   };
 
+  const handleExportQif = async () => {
+    try {
+      const allTransactions = await transactionRepository.findAll();
+      if (allTransactions.length === 0) {
+        showAlert('No Data', 'There are no transactions to export.');
+        return;
+      }
+
+      const qif = QifExportService.export(allTransactions);
+      const downloaded = downloadTextFile(qif, QifExportService.getFileName(), 'application/qif');
+
+      if (!downloaded) {
+        showAlert('Export Unavailable', 'QIF export is currently available in the web version only.');
+      }
+    } catch (error) {
+      showAlert('Export Failed', 'Failed to export data. Please try again.');
+      console.error('QIF export error:', error);
+    }
+  };
+
+  const handleResetLearning = () => {
+    showAlert(
+      'Reset Learned Categories',
+      'Category suggestions learned from your corrections will be forgotten. Transactions and rules are not changed.',
+      [
+        { text: 'Cancel', style: 'cancel' },
+        { text: 'Reset', style: 'destructive', onPress: async () => {
+          try {
+            await categoryLearningRepository.clear();
+            showAlert('Success', 'Learned categories have been reset.');
+          } catch (error) {
+            console.error('❌ Reset learning error:', error);
+            showAlert('Error', 'Failed to reset learned categories. Please try again.');
+          }
+        }}
+      ]
+    );
+  };
+
   const handleClearData = () => {
     if (transactions.length === 0) {
       showAlert('No Data', 'There are no transactions to clear.');
@@ -145,7 +200,7 @@ export const SettingsScreen: React.FC<SettingsScreenProps> = ({ onClose }) => {
 
     showAlert(
       'Clear All Data',
-      `This will permanently delete all ${transactions.length} transactions. This action cannot be undone.`,
+      `This will permanently delete all ${transactions.length} transactions, including reconciled ones, along with reconciliations, transfers and import history. This action cannot be undone.`,
       [
         { text: 'Cancel', style: 'cancel' },
         { text: 'Delete All', style: 'destructive', onPress: async () => {
@@ -268,6 +323,62 @@ export const SettingsScreen: React.FC<SettingsScreenProps> = ({ onClose }) => {
               Data Management
             </Text>
             
+            <List.Item
+              title="Accounts"
+              description="Cards and accounts, their other names and opening balances"
+              left={(props) => <List.Icon {...props} icon="credit-card-multiple-outline" />}
+              right={(props) => <List.Icon {...props} icon="chevron-right" />}
+              onPress={() => setShowAccounts(true)}
+            />
+            
+            <List.Item
+              title="Categories"
+              description="Subcategories, icons and colors; rename, merge or delete"
+              left={(props) => <List.Icon {...props} icon="shape-outline" />}
+              right={(props) => <List.Icon {...props} icon="chevron-right" />}
+              onPress={() => setShowCategories(true)}
+            />
+            
+            <List.Item
+              title="Import Profiles"
+              description="Saved column mappings for recurring bank statements"
+              left={(props) => <List.Icon {...props} icon="file-table-outline" />}
+              right={(props) => <List.Icon {...props} icon="chevron-right" />}
+              onPress={() => setShowImportProfilesModal(true)}
+            />
+            
+            <List.Item
+              title="Import History"
+              description="Review past imports and roll back a whole batch"
+              left={(props) => <List.Icon {...props} icon="history" />}
+              right={(props) => <List.Icon {...props} icon="chevron-right" />}
+              onPress={() => setShowImportHistory(true)}
+            />
+            
+            <List.Item
+              title="Categorization Rules"
+              description="Set categories, tags and payees automatically by merchant, card or amount"
+              left={(props) => <List.Icon {...props} icon="playlist-edit" />}
+              right={(props) => <List.Icon {...props} icon="chevron-right" />}
+              onPress={() => setShowRules(true)}
+            />
+            
+            <List.Item
+              title="Transfers Between Cards"
+              description="Match and confirm money moved between your own cards"
+              left={(props) => <List.Icon {...props} icon="bank-transfer" />}
+              right={(props) => <List.Icon {...props} icon="chevron-right" />}
+              onPress={() => setShowTransfers(true)}
+            />
+            
+            <List.Item
+              title="Reset Learned Categories"
+              description="Forget category suggestions learned from your edits"
+              left={(props) => <List.Icon {...props} icon="brain" />}
+              right={(props) => <List.Icon {...props} icon="chevron-right" />}
+              onPress={handleResetLearning}
+            />
+            
             <List.Item
               title="Export Data"
               description="Export all transactions to CSV file"
@@ -276,6 +387,14 @@ export const SettingsScreen: React.FC<SettingsScreenProps> = ({ onClose }) => {
               onPress={handleExportData}
             />
             
+            <List.Item
+              title="Export QIF"
+              description="Export all transactions for Quicken, GnuCash and other desktop tools"
+              left={(props) => <List.Icon {...props} icon="file-export" />}
+              right={(props) => <List.Icon {...props} icon="chevron-right" />}
+              onPress={handleExportQif}
+            />
+            
             <List.Item
               title="Clear All Data"
               description="Permanently delete all transactions"
@@ -348,6 +467,66 @@ export const SettingsScreen: React.FC<SettingsScreenProps> = ({ onClose }) => {
         </Modal>
       </Portal>
 
+      {/* Import History */}
+      <Portal>
+        <Modal
+          visible={showImportHistory}
+          onDismiss={() => setShowImportHistory(false)}
+          contentContainerStyle={styles.fullScreenModal}
+        >
+          <ImportHistoryScreen onClose={() => setShowImportHistory(false)} />
+        </Modal>
+      </Portal>
+
+      {/* Categorization Rules */}
+      <Portal>
+        <Modal
+          visible={showRules}
+          onDismiss={() => setShowRules(false)}
+          contentContainerStyle={styles.fullScreenModal}
+        >
+          <RulesScreen onClose={() => setShowRules(false)} />
+        </Modal>
+      </Portal>
+
+      {/* Accounts */}
+      <Portal>
+        <Modal
+          visible={showAccounts}
+          onDismiss={() => setShowAccounts(false)}
+          contentContainerStyle={styles.fullScreenModal}
+        >
+          <AccountsScreen onClose={() => setShowAccounts(false)} />
+        </Modal>
+      </Portal>
+
+      {/* Categories */}
+      <Portal>
+        <Modal
+          visible={showCategories}
+          onDismiss={() => setShowCategories(false)}
+          contentContainerStyle={styles.fullScreenModal}
+        >
+          <CategoriesScreen onClose={() => setShowCategories(false)} />
+        </Modal>
+      </Portal>
+
+      {/* Transfers */}
+      <Portal>
+        <Modal
+          visible={showTransfers}
+          onDismiss={() => setShowTransfers(false)}
+          contentContainerStyle={styles.fullScreenModal}
+        >
+          <TransfersScreen onClose={() => setShowTransfers(false)} />
+        </Modal>
+      </Portal>
+
+      <ImportProfilesModal
+        visible={showImportProfilesModal}
+        onDismiss={() => setShowImportProfilesModal(false)}
+      />
+
       {/* Category Selection Modal */}
       <Portal>
         <Modal
@@ -417,4 +596,8 @@ const styles = StyleSheet.create({
   modalContent: {
     maxHeight: 400,
   },
+  fullScreenModal: {
+    flex: 1,
+    backgroundColor: theme.colors.backgroundSecondary,
+  },
 }); 
\ No newline at end of file
@@ -0,0 +1,45 @@
+import { Transaction } from './Transaction';
+
+// One part of a split transaction; amounts carry the parent's sign and add up to its amount
+export interface SplitLine {
+  id: string;
+  amount: number;
+  category: string;
+  comment?: string;
+}
+
+const roundCents = (value: number) => Math.round(value * 100) / 100;
+
+export const isSplit = (transaction: Pick<Transaction, 'splits'>): boolean =>
+  !!transaction.splits && transaction.splits.length > 0;
+
+// The lines category totals are built from: the split lines, or the transaction itself as a single line
+export const categoryLines = (transaction: Transaction): SplitLine[] =>
+  isSplit(transaction)
+    ? transaction.splits!
+    : [{ id: transaction.id, amount: transaction.amount, category: transaction.category, comment: transaction.comment }];
+
+// What is left of the parent amount once the lines are taken off; zero when the split is complete
+export const splitRemainder = (amount: number, splits: SplitLine[]): number =>
+  roundCents(splits.reduce((rest, line) => rest - line.amount, amount));
+
+// A split transaction shows the category of its largest line wherever only one category fits
+export const primaryCategory = (splits: SplitLine[]): string =>
+  [...splits].sort((a, b) => Math.abs(b.amount) - Math.abs(a.amount))[0].category;
+
+export const validateSplits = (amount: number, splits: SplitLine[]): string | null => {
+  if (splits.length < 2) {
+    return 'A split needs at least two lines';
+  }
+  if (splits.some(line => !line.category.trim())) {
+    return 'Every split line needs a category';
+  }
+  if (splits.some(line => line.amount === 0 || Math.sign(line.amount) !== Math.sign(amount))) {
+    return 'Split lines must be non-zero and share the sign of the transaction';
+  }
+  const remainder = splitRemainder(amount, splits);
+  if (remainder !== 0) {
+    return `Split lines must add up to the transaction amount (${remainder * Math.sign(amount) > 0 ? 'missing' : 'over by'} ${Math.abs(remainder).toFixed(2)})`;
+  }
+  return null;
+};
@@ -0,0 +1,22 @@
+// Tags compare case-insensitively; the first spelling seen is kept
+const tagKey = (tag: string) => tag.trim().toLowerCase();
+
+export const normalizeTag = (tag: string): string => tag.trim().replace(/^#+/, '').replace(/\s+/g, ' ');
+
+export const hasTag = (tags: string[] | undefined, tag: string): boolean =>
+  (tags || []).some(existing => tagKey(existing) === tagKey(tag));
+
+export const addTags = (tags: string[] | undefined, added: string[]): string[] =>
+  added.map(normalizeTag).reduce<string[]>(
+    (result, tag) => tag && !hasTag(result, tag) ? [...result, tag] : result,
+    (tags || []).map(normalizeTag).filter(Boolean)
+  );
+
+// Removed tags are normalized like added ones, so "#vacation" removes "vacation"
+export const removeTags = (tags: string[] | undefined, removed: string[]): string[] => {
+  const removedTags = removed.map(normalizeTag);
+  return (tags || []).filter(tag => !hasTag(removedTags, tag));
+};
+
+// "vacation 2025, reimbursable" -> ['vacation 2025', 'reimbursable']
+export const parseTags = (text: string): string[] => addTags([], text.split(','));
@@ -1,15 +1,29 @@
+import { SplitLine } from './Split';
+
 export interface Transaction {
   id: string;
   date: string; // ISO 8601 (YYYY-MM-DDTHH:mm:ss) - now supports timestamps
-  card: string;
+  card: string; // Name of the account, kept in sync when the account is renamed
+  accountId?: string; // Missing only on rows saved before accounts existed and not yet migrated
   amount: number; // Amount in smallest currency unit (cents)
   currency: string; // ISO 4217 currency code
+  originalAmount?: number; // Amount in the purchase currency when the card settled it in another one
+  originalCurrency?: string; // ISO 4217 code of originalAmount
   description: string; // Single description field - simplified for POC
-  category: string;
+  payee?: string; // Cleaned merchant name set by a categorization rule; shown instead of description
+  category: string; // For split transactions, the category of the largest line
+  splits?: SplitLine[]; // Category lines summing to amount; analytics count these instead of category
+  tags?: string[]; // Free-form labels across categories ("vacation 2025", "reimbursable"); compared case-insensitively
   comment?: string;
   isDuplicate: boolean;
   isIncome: boolean;
   isArchived?: boolean; // Soft delete flag - archived transactions are hidden but not deleted
+  externalId?: string; // Stable identifier from the source statement (e.g. OFX FITID)
+  importFingerprint?: string; // Deterministic hash of the source row, used for idempotent re-import
+  importBatchId?: string; // Shared by all transactions saved from one import
+  transferId?: string; // Set on both legs of a confirmed transfer between own cards
+  isCleared?: boolean; // Ticked off against a bank statement during reconciliation
+  reconciliationId?: string; // Set once reconciled; date, amount and account are then locked
   createdAt: string; // Simplified metadata - only keep creation timestamp
 }
 
@@ -20,7 +34,9 @@ export interface TransactionFilters {
   };
   categories?: string[];
   categoriesMode?: 'include' | 'exclude'; // Whether to include or exclude selected categories
-  cards?: string[];
+  accountIds?: string[];
+  tags?: string[];
+  tagsMode?: 'include' | 'exclude'; // Include: any selected tag; exclude: none of them
   amountRange?: {
     min: number;
     max: number;
@@ -33,19 +49,32 @@ export interface TransactionFilters {
 export interface CreateTransactionRequest {
   date: string;
   card: string;
+  accountId?: string; // Resolved from card when missing
   amount: number;
   currency: string;
+  originalAmount?: number;
+  originalCurrency?: string;
   description: string;
+  payee?: string;
   category: string;
+  splits?: SplitLine[];
+  tags?: string[];
   comment?: string;
   isIncome: boolean;
+  externalId?: string;
+  importFingerprint?: string;
+  importBatchId?: string;
 }
 
 export interface UpdateTransactionRequest {
   description?: string;
   amount?: number;
   card?: string;
+  accountId?: string;
+  payee?: string;
   category?: string;
+  splits?: SplitLine[]; // An empty list removes the split
+  tags?: string[];
   comment?: string;
   isIncome?: boolean;
   date?: string;
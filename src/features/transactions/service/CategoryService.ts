@@ -1,4 +1,5 @@
 import { Transaction } from '../model/Transaction';
+import { categoryLines } from '../model/Split';
 import { db } from '../storage/TransactionDatabase';
 
 class CategoryService {
@@ -43,25 +44,29 @@ class CategoryService {
         );
       
       transactionCategories = Array.from(new Set(
-        filteredTransactions.map(t => t.category).filter(Boolean)
+        filteredTransactions.flatMap(categoryLines).map(line => line.category).filter(Boolean)
       ));
       
       console.log(`📋 Found ${transactionCategories.length} categories in date range:`, transactionCategories);
     } else {
-      // Get categories from ALL transactions in database
-      transactionCategories = await this.getTransactionCategories();
+      // Get categories from ALL transactions in database, plus managed categories not used yet
+      const managed = await db.categories.toArray();
+      transactionCategories = Array.from(new Set([
+        ...await this.getTransactionCategories(),
+        ...managed.map(category => category.name)
+      ]));
     }
 
     return transactionCategories.sort();
   }
 
   /**
-   * Get distinct categories from transactions in database
+   * Get distinct categories from transactions in database, including the lines of split transactions
    */
   async getTransactionCategories(): Promise<string[]> {
     const transactions = await db.transactions.toArray();
     const categories = Array.from(new Set(
-      transactions.map((t: Transaction) => t.category).filter(Boolean)
+      transactions.flatMap((t: Transaction) => categoryLines(t)).map(line => line.category).filter(Boolean)
     ));
     
     return categories.sort();
@@ -0,0 +1,15 @@
+import { addTags } from '../model/Tag';
+import { db } from '../storage/TransactionDatabase';
+
+class TagService {
+
+  /**
+   * Get distinct tags, read from the multi-entry tags index; spellings differing only in case are listed once
+   */
+  async getAllTags(): Promise<string[]> {
+    const keys = await db.transactions.orderBy('tags').uniqueKeys();
+    return addTags([], keys.map(String)).sort((a, b) => a.localeCompare(b));
+  }
+}
+
+export const tagService = new TagService();
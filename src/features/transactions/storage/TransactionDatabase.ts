@@ -1,8 +1,27 @@
 import Dexie, { Table } from 'dexie';
 import { Transaction } from '../model/Transaction';
+import { ImportProfile } from '@/features/import/model/ImportProfile';
+import { ImportBatch } from '@/features/import/model/ImportBatch';
+import { CategorizationRule } from '@/features/rules/model/CategorizationRule';
+import { CategoryStats, CategoryTokenCount } from '@/features/learning/model/CategoryLearning';
+import { Transfer } from '@/features/transfers/model/Transfer';
+import { Account } from '@/features/accounts/model/Account';
+import { AccountMatcher } from '@/features/accounts/service/AccountMatcher';
+import { Reconciliation } from '@/features/accounts/model/Reconciliation';
+import { Category } from '@/features/categories/model/Category';
+import { CategoryTree } from '@/features/categories/service/CategoryTree';
 
 export class LedgerVaultDatabase extends Dexie {
   transactions!: Table<Transaction>;
+  importProfiles!: Table<ImportProfile>;
+  importBatches!: Table<ImportBatch>;
+  rules!: Table<CategorizationRule>;
+  categoryTokens!: Table<CategoryTokenCount, [string, string]>;
+  categoryStats!: Table<CategoryStats, string>;
+  transfers!: Table<Transfer>;
+  accounts!: Table<Account>;
+  reconciliations!: Table<Reconciliation>;
+  categories!: Table<Category>;
 
   constructor() {
     super('LedgerVaultDB');
@@ -14,6 +33,89 @@ export class LedgerVaultDatabase extends Dexie {
     this.version(2).stores({
       transactions: '++id, date, card, category, amount, isIncome, [date+card], [date+category], createdAt'
     });
+
+    this.version(3).stores({
+      transactions: '++id, date, card, category, amount, isIncome, [date+card], [date+category], externalId, createdAt'
+    });
+
+    this.version(4).stores({
+      importProfiles: 'id, name, headerFingerprint, updatedAt'
+    });
+
+    this.version(5).stores({
+      transactions: '++id, date, card, category, amount, isIncome, [date+card], [date+category], externalId, importFingerprint, importBatchId, createdAt'
+    });
+
+    this.version(6).stores({
+      importBatches: 'id, importedAt, fileHash'
+    });
+
+    this.version(7).stores({
+      rules: 'id, priority, updatedAt'
+    });
+
+    this.version(8).stores({
+      categoryTokens: '[token+category], token, category',
+      categoryStats: 'category'
+    });
+
+    this.version(9).stores({
+      transactions: '++id, date, card, category, amount, isIncome, [date+card], [date+category], externalId, importFingerprint, importBatchId, transferId, createdAt',
+      transfers: 'id, status, outflowId, inflowId, createdAt'
+    });
+
+    // Card strings become accounts; spellings of one masked number ("Card *1234", "1234") are merged
+    this.version(10).stores({
+      transactions: '++id, date, card, category, amount, isIncome, [date+card], [date+category], externalId, importFingerprint, importBatchId, transferId, accountId, [date+accountId], createdAt',
+      accounts: 'id, name, updatedAt'
+    }).upgrade(async tx => {
+      const transactions = await tx.table<Transaction>('transactions').toArray();
+      const { accounts, accountByCard } = AccountMatcher.buildAccounts(transactions);
+
+      await tx.table<Account>('accounts').bulkAdd(accounts);
+      await tx.table<Transaction>('transactions').toCollection().modify(transaction => {
+        const account = accountByCard.get(transaction.card || '');
+        if (account) {
+          transaction.accountId = account.id;
+          transaction.card = account.name;
+        }
+      });
+
+      console.log(`✅ Migrated ${transactions.length} transactions to ${accounts.length} accounts`);
+    });
+
+    this.version(11).stores({
+      reconciliations: 'id, accountId, statementDate, createdAt'
+    });
+
+    // Multi-entry index: one entry per tag, so a transaction is found under each of its tags
+    this.version(12).stores({
+      transactions: '++id, date, card, category, amount, isIncome, [date+card], [date+category], externalId, importFingerprint, importBatchId, transferId, accountId, [date+accountId], *tags, createdAt'
+    });
+
+    // Category names used by transactions and rules become top-level categories
+    this.version(13).stores({
+      categories: 'id, name, parentId, updatedAt'
+    }).upgrade(async tx => {
+      const transactions = await tx.table<Transaction>('transactions').toArray();
+      const rules = await tx.table<CategorizationRule>('rules').toArray();
+      const categories = CategoryTree.buildCategories(transactions, rules.flatMap(rule => rule.actions.category ? [rule.actions.category] : []));
+
+      await tx.table<Category>('categories').bulkAdd(categories);
+      console.log(`✅ Migrated ${categories.length} categories`);
+    });
+
+    // Card conditions of rules point at the account behind the card; cards no account answers to are kept
+    this.version(14).stores({}).upgrade(async tx => {
+      const accounts = await tx.table<Account>('accounts').toArray();
+      await tx.table<CategorizationRule>('rules').toCollection().modify(rule => {
+        const { card, ...conditions } = rule.conditions;
+        const account = card ? AccountMatcher.findForCard(accounts, card) : undefined;
+        if (account) {
+          rule.conditions = { ...conditions, accountId: account.id };
+        }
+      });
+    });
   }
 }
 
@@ -5,30 +5,121 @@ import {
   CreateTransactionRequest, 
   TransactionFilters 
 } from '../model/Transaction';
+import { categoryLines, isSplit, primaryCategory, validateSplits } from '../model/Split';
+import { addTags, hasTag, removeTags } from '../model/Tag';
+import { accountRepository } from '@/features/accounts/storage/AccountRepository';
+import { countedLines } from '@/features/transfers/model/Transfer';
+import { transferRepository } from '@/features/transfers/storage/TransferRepository';
+import { categoryRepository } from '@/features/categories/storage/CategoryRepository';
+import { CategoryTree, categoryKey } from '@/features/categories/service/CategoryTree';
+
+const BULK_CHUNK_SIZE = 500;
+
+// Fields a bank statement vouches for; fixed once the transaction is reconciled
+const LOCKED_FIELDS: (keyof Transaction)[] = ['date', 'amount', 'currency', 'card', 'accountId', 'isIncome', 'isArchived'];
+
+const assertUnlocked = (transaction: Transaction, updates?: Partial<Transaction>) => {
+  if (!transaction.reconciliationId) return;
+
+  const changed = updates
+    ? LOCKED_FIELDS.filter(field => field in updates && updates[field] !== transaction[field])
+    : LOCKED_FIELDS;
+  if (changed.length > 0) {
+    throw new Error('Transaction is reconciled; undo the reconciliation to change its date, amount or account');
+  }
+};
+
+// Split lines must add up to the amount; the category follows the largest line
+const withSplits = <T extends Pick<Transaction, 'amount' | 'category' | 'splits'>>(transaction: T): T => {
+  if (!isSplit(transaction)) {
+    return { ...transaction, splits: undefined };
+  }
+
+  const error = validateSplits(transaction.amount, transaction.splits!);
+  if (error) {
+    throw new Error(error);
+  }
+  return { ...transaction, category: primaryCategory(transaction.splits!) };
+};
+
+export type BulkProgressCallback = (completed: number, total: number) => void;
 
 export class TransactionRepository {
   
   async create(request: CreateTransactionRequest): Promise<Transaction> {
-    const now = new Date().toISOString();
+    const transaction = await db.transaction('rw', db.transactions, db.accounts, db.categories, async () => {
+      const [linked] = await this.withAccounts([request]);
+      const built = this.buildTransaction(linked, new Date().toISOString());
+      await categoryRepository.ensureNames(categoryLines(built).map(line => line.category));
+      await db.transactions.add(built);
+      return built;
+    });
     
-    const transaction: Transaction = {
+    console.log('✅ Transaction created:', transaction.id);
+    return transaction;
+  }
+
+  // Inserts all rows in one rw transaction: either every row is committed or none is.
+  // Progress is reported after each chunk so large imports can show a progress bar.
+  async bulkCreate(requests: CreateTransactionRequest[], onProgress?: BulkProgressCallback): Promise<Transaction[]> {
+    const now = new Date().toISOString();
+    let transactions: Transaction[] = [];
+
+    await db.transaction('rw', db.transactions, db.accounts, db.categories, async () => {
+      transactions = (await this.withAccounts(requests)).map(request => this.buildTransaction(request, now));
+      await categoryRepository.ensureNames(transactions.flatMap(categoryLines).map(line => line.category));
+      onProgress?.(0, transactions.length);
+
+      for (let start = 0; start < transactions.length; start += BULK_CHUNK_SIZE) {
+        const chunk = transactions.slice(start, start + BULK_CHUNK_SIZE);
+        await db.transactions.bulkAdd(chunk);
+        onProgress?.(start + chunk.length, transactions.length);
+      }
+    });
+
+    console.log(`✅ ${transactions.length} transactions created`);
+    return transactions;
+  }
+
+  // Links each request to its account by accountId or else by card name (creating accounts for new
+  // names); card is set to the account's name
+  private async withAccounts(requests: CreateTransactionRequest[]): Promise<CreateTransactionRequest[]> {
+    const accountsById = new Map((await accountRepository.findAll()).map(account => [account.id, account]));
+    const byCard = await accountRepository.resolveCards(
+      requests
+        .filter(request => !request.accountId || !accountsById.has(request.accountId))
+        .map(request => ({ card: request.card, currency: request.currency }))
+    );
+
+    return requests.map(request => {
+      const account = (request.accountId && accountsById.get(request.accountId)) || byCard.get(request.card);
+      return account ? { ...request, accountId: account.id, card: account.name } : request;
+    });
+  }
+
+  private buildTransaction(request: CreateTransactionRequest, now: string): Transaction {
+    return withSplits({
       id: uuidv4(),
       date: request.date,
       card: request.card,
+      accountId: request.accountId,
       amount: request.amount,
       currency: request.currency,
+      originalAmount: request.originalAmount,
+      originalCurrency: request.originalCurrency,
       description: request.description,
+      payee: request.payee,
       category: request.category,
+      splits: request.splits,
+      tags: request.tags ? addTags([], request.tags) : undefined,
       comment: request.comment,
       isDuplicate: false,
       isIncome: request.isIncome,
+      externalId: request.externalId,
+      importFingerprint: request.importFingerprint,
+      importBatchId: request.importBatchId,
       createdAt: now
-    };
-
-    await db.transactions.add(transaction);
-    
-    console.log('✅ Transaction created:', transaction.id);
-    return transaction;
+    });
   }
 
   async findById(id: string): Promise<Transaction | null> {
@@ -61,6 +152,20 @@ export class TransactionRepository {
     }
   }
 
+  // Selecting a category selects its subcategories too; names are compared case-insensitively
+  private async expandCategories(names: string[]): Promise<Set<string>> {
+    const categories = await categoryRepository.findAll();
+    const keys = new Set(names.map(categoryKey));
+
+    names.forEach(name => {
+      const category = CategoryTree.findByName(categories, name);
+      if (category) {
+        CategoryTree.descendants(categories, category.id).forEach(child => keys.add(categoryKey(child.name)));
+      }
+    });
+    return keys;
+  }
+
   async findAll(filters?: TransactionFilters): Promise<Transaction[]> {
     let query = db.transactions.orderBy('date').reverse();
 
@@ -80,8 +185,10 @@ export class TransactionRepository {
       // Apply category filter
       if (filters.categories && filters.categories.length > 0) {
         const categoriesMode = filters.categoriesMode || 'include'; // Default to include mode
+        const categoryKeys = await this.expandCategories(filters.categories);
         query = query.filter(t => {
-          const isInCategory = filters.categories!.includes(t.category);
+          // A split transaction is in every category of its lines
+          const isInCategory = categoryLines(t).some(line => categoryKeys.has(categoryKey(line.category || '')));
           
           if (categoriesMode === 'include') {
             return isInCategory;
@@ -91,9 +198,18 @@ export class TransactionRepository {
         });
       }
 
-      // Apply card filter
-      if (filters.cards && filters.cards.length > 0) {
-        query = query.filter(t => filters.cards!.includes(t.card));
+      // Apply tag filter
+      if (filters.tags && filters.tags.length > 0) {
+        const tagsMode = filters.tagsMode || 'include';
+        query = query.filter(t => {
+          const isTagged = filters.tags!.some(tag => hasTag(t.tags, tag));
+          return tagsMode === 'include' ? isTagged : !isTagged;
+        });
+      }
+
+      // Apply account filter
+      if (filters.accountIds && filters.accountIds.length > 0) {
+        query = query.filter(t => !!t.accountId && filters.accountIds!.includes(t.accountId));
       }
 
       // Apply income/expense filter
@@ -114,9 +230,10 @@ export class TransactionRepository {
         const searchTerm = filters.searchQuery.toLowerCase();
         query = query.filter(t => {
           const descriptionMatch = t.description.toLowerCase().includes(searchTerm);
+          const payeeMatch = t.payee ? t.payee.toLowerCase().includes(searchTerm) : false;
           const commentMatch = t.comment ? t.comment.toLowerCase().includes(searchTerm) : false;
           
-          return descriptionMatch || commentMatch;
+          return descriptionMatch || payeeMatch || commentMatch;
         });
       }
     }
@@ -124,28 +241,62 @@ export class TransactionRepository {
     return await query.toArray();
   }
 
+  // A changed card or accountId moves the transaction to that account
   async update(id: string, updates: Partial<Transaction>): Promise<Transaction> {
-    const existing = await this.findById(id);
-    if (!existing) {
-      throw new Error(`Transaction with id ${id} not found`);
-    }
+    const updatedTransaction = await db.transaction('rw', db.transactions, db.accounts, db.categories, async () => {
+      const existing = await this.findById(id);
+      if (!existing) {
+        throw new Error(`Transaction with id ${id} not found`);
+      }
+      assertUnlocked(existing, updates);
 
-    const updatedTransaction: Transaction = {
-      ...existing,
-      ...updates
-    };
+      let merged: Transaction = withSplits({
+        ...existing,
+        ...updates,
+        ...(updates.tags && { tags: addTags([], updates.tags) })
+      });
+
+      const accountChanged = (updates.accountId !== undefined && updates.accountId !== existing.accountId)
+        || (updates.card !== undefined && updates.card !== existing.card);
+      if (accountChanged) {
+        const [linked] = await this.withAccounts([{ ...merged, accountId: updates.accountId }]);
+        merged = { ...merged, accountId: linked.accountId, card: linked.card };
+      }
+      await categoryRepository.ensureNames(categoryLines(merged).map(line => line.category));
+
+      await db.transactions.update(id, merged);
+      return merged;
+    });
 
-    await db.transactions.update(id, updatedTransaction);
     console.log('✅ Transaction updated:', id);
     return updatedTransaction;
   }
 
+  // Adds and removes tags on many transactions at once; returns how many changed
+  async updateTags(ids: string[], added: string[], removed: string[] = []): Promise<number> {
+    const changed = await db.transaction('rw', db.transactions, async () => {
+      const transactions = (await db.transactions.bulkGet(ids)).filter((t): t is Transaction => !!t);
+      const changes = transactions
+        .map(t => ({ key: t.id, before: t.tags || [], tags: removeTags(addTags(t.tags, added), removed) }))
+        .filter(({ before, tags }) => before.join('\n') !== tags.join('\n'))
+        .map(({ key, tags }) => ({ key, changes: { tags } }));
+
+      await db.transactions.bulkUpdate(changes);
+      return changes.length;
+    });
+
+    console.log(`✅ Tags updated on ${changed} transactions`);
+    return changed;
+  }
+
   async archive(id: string): Promise<Transaction> {
     const existing = await this.findById(id);
     if (!existing) {
       throw new Error(`Transaction with id ${id} not found`);
     }
 
+    assertUnlocked(existing);
+
     const archivedTransaction: Transaction = {
       ...existing,
       isArchived: true
@@ -172,8 +323,18 @@ export class TransactionRepository {
     return unarchivedTransaction;
   }
 
+  // A transfer the transaction was part of goes with it, and the other leg counts again
   async delete(id: string): Promise<void> {
-    const deleted = await db.transactions.delete(id);
+    await db.transaction('rw', db.transactions, db.transfers, async () => {
+      const transaction = await this.findById(id);
+      if (transaction) {
+        assertUnlocked(transaction);
+      }
+
+      await db.transactions.delete(id);
+      await transferRepository.removeForTransactions([id]);
+    });
+
     const existing = await this.findById(id);
     if (existing !== null) {
       throw new Error(`Transaction with id ${id} could not be deleted`);
@@ -181,11 +342,16 @@ export class TransactionRepository {
     console.log('✅ Transaction deleted:', id);
   }
 
+  // Reconciliations, import history and transfers only describe transactions, so they go too;
+  // accounts, rules and categories stay
   async clearAll(): Promise<void> {
     try {
-      const countBefore = await db.transactions.count();
-      
-      await db.transactions.clear();
+      await db.transaction('rw', [db.transactions, db.transfers, db.reconciliations, db.importBatches], async () => {
+        await db.transactions.clear();
+        await db.transfers.clear();
+        await db.reconciliations.clear();
+        await db.importBatches.clear();
+      });
       
       const countAfter = await db.transactions.count();
       
@@ -205,18 +371,21 @@ export class TransactionRepository {
   }
 
   async getBalance(): Promise<{ income: number; expenses: number; total: number }> {
-    const transactions = await db.transactions.toArray();
+    const [transactions, categories] = await Promise.all([db.transactions.toArray(), categoryRepository.findAll()]);
     
-    // Filter out archived transactions
-    const activeTransactions = transactions.filter(t => t.isArchived !== true);
+    // Filter out archived transactions, transfers between own cards and transfer categories
+    const transferCategories = CategoryTree.transferKeys(categories);
+    const lines = transactions
+      .filter(t => t.isArchived !== true)
+      .flatMap(t => countedLines(t, transferCategories));
     
-    const income = activeTransactions
-      .filter(t => t.isIncome)
-      .reduce((sum, t) => sum + t.amount, 0);
+    const income = lines
+      .filter(line => line.amount > 0)
+      .reduce((sum, line) => sum + line.amount, 0);
     
-    const expenses = activeTransactions
-      .filter(t => !t.isIncome)
-      .reduce((sum, t) => sum + t.amount, 0);
+    const expenses = lines
+      .filter(line => line.amount < 0)
+      .reduce((sum, line) => sum + line.amount, 0);
 
     return {
       income,
@@ -233,10 +402,10 @@ export class TransactionRepository {
     
     const categoryMap = new Map<string, { total: number; count: number }>();
 
-    activeTransactions.forEach(t => {
-      const existing = categoryMap.get(t.category) || { total: 0, count: 0 };
-      categoryMap.set(t.category, {
-        total: existing.total + t.amount,
+    activeTransactions.flatMap(categoryLines).forEach(line => {
+      const existing = categoryMap.get(line.category) || { total: 0, count: 0 };
+      categoryMap.set(line.category, {
+        total: existing.total + line.amount,
         count: existing.count + 1
       });
     });
@@ -248,7 +417,7 @@ export class TransactionRepository {
     }));
   }
 
-  async getAllCardsForDateRange(dateRange?: { start: string; end: string }): Promise<string[]> {
+  async getAccountIdsForDateRange(dateRange?: { start: string; end: string }): Promise<string[]> {
     let query = db.transactions.orderBy('date');
 
     // Apply date range filter only (ignore other filters)
@@ -262,26 +431,52 @@ export class TransactionRepository {
 
     const transactions = await query.toArray();
     
-    // Extract unique cards
-    const uniqueCards = Array.from(new Set(transactions.map(t => t.card)));
+    // Extract unique accounts
+    const uniqueAccountIds = Array.from(new Set(transactions.map(t => t.accountId).filter((id): id is string => !!id)));
     
-    return uniqueCards;
+    return uniqueAccountIds;
   }
 
-  // Helper method to detect potential duplicates
+  async findByExternalId(externalId: string): Promise<Transaction | null> {
+    const transaction = await db.transactions.where('externalId').equals(externalId).first();
+    return transaction || null;
+  }
+
+  async findByImportFingerprint(importFingerprint: string): Promise<Transaction | null> {
+    const transaction = await db.transactions.where('importFingerprint').equals(importFingerprint).first();
+    return transaction || null;
+  }
+
+  // Helper method to detect potential duplicates among rows without a fingerprint
+  // (saved before fingerprints existed or entered manually). Imported rows are matched by
+  // fingerprint only, so same-day twin purchases on separate statement rows are both kept.
+  // Statement card names are looked up by account, so any spelling of the account's number matches.
   async findPotentialDuplicates(transaction: Partial<Transaction>): Promise<Transaction[]> {
     if (!transaction.date || !transaction.amount || !transaction.card) {
       return [];
     }
 
-    return await db.transactions
-      .where('[date+card]')
-      .equals([transaction.date, transaction.card])
+    const account = transaction.accountId ? null : await accountRepository.findByCard(transaction.card);
+    const accountId = transaction.accountId || account?.id;
+    const candidates = accountId
+      ? db.transactions.where('[date+accountId]').equals([transaction.date, accountId])
+      : db.transactions.where('[date+card]').equals([transaction.date, transaction.card]);
+
+    return await candidates
+      .and(t => !t.importFingerprint)
       .and(t => Math.abs(t.amount - transaction.amount!) < 1) // Allow for small rounding differences
       .toArray();
   }
 
+  // Exact fingerprint match first; a miss means the row is new unless it matches a legacy or manual row
+  async isAlreadyImported(transaction: Partial<Transaction>): Promise<boolean> {
+    if (transaction.importFingerprint && await this.findByImportFingerprint(transaction.importFingerprint)) {
+      return true;
+    }
 
+    const potentialDuplicates = await this.findPotentialDuplicates(transaction);
+    return potentialDuplicates.length > 0;
+  }
 }
 
 // Export singleton instance
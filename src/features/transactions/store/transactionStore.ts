@@ -7,6 +7,13 @@ import {
 } from '../model/Transaction';
 import { getDateRangeForPeriod, TimePeriod, DateRange } from '@/shared/utils/dateUtils';
 import { updateUrlWithFilters, loadFiltersFromUrl } from '@/shared/utils/filterPersistence';
+import { countedLines } from '@/features/transfers/model/Transfer';
+import { Category } from '@/features/categories/model/Category';
+import { CategoryTree } from '@/features/categories/service/CategoryTree';
+import { categoryRepository } from '@/features/categories/storage/CategoryRepository';
+import { Account } from '@/features/accounts/model/Account';
+import { accountRepository } from '@/features/accounts/storage/AccountRepository';
+import { accountService } from '@/features/accounts/service/AccountService';
 
 // Export the type for use in other files
 export type { TransactionFilters };
@@ -56,6 +63,8 @@ const getInitialState = () => {
 interface TransactionStore {
   // State
   transactions: Transaction[];
+  runningBalances: Record<string, number>; // Account balance after each transaction, by transaction ID
+  categories: Category[]; // Reloaded with the transactions, since category edits rewrite them
   loading: boolean;
   error: string | null;
   filters: TransactionFilters;
@@ -68,13 +77,14 @@ interface TransactionStore {
   archiveTransaction: (id: string) => Promise<void>;
   unarchiveTransaction: (id: string) => Promise<void>;
   deleteTransaction: (id: string) => Promise<void>;
+  tagTransactions: (ids: string[], added: string[], removed?: string[]) => Promise<number>;
   clearAllTransactions: () => Promise<void>;
   setFilters: (newFilters: Partial<TransactionFilters>) => void;
   setTimePeriod: (period: TimePeriod, dateRange: DateRange) => void;
   toggleCategoryFilter: (category: string) => void;
   clearFilters: () => void;
   refreshTransactions: () => Promise<void>;
-  getAvailableCards: () => Promise<string[]>;
+  getAvailableAccounts: () => Promise<Account[]>;
   
   // Computed values
   getBalance: () => { income: number; expenses: number; total: number };
@@ -86,6 +96,8 @@ export const useTransactionStore = create<TransactionStore>()((set, get) => {
   return {
     // Initial state with safe defaults
     transactions: [],
+    runningBalances: {},
+    categories: [],
     loading: false,
     error: null,
     filters: initialState.filters,
@@ -97,8 +109,12 @@ export const useTransactionStore = create<TransactionStore>()((set, get) => {
       
       try {
         const currentState = get();
-        const transactions = await transactionRepository.findAll(currentState.filters);
-        set({ transactions, loading: false });
+        const [transactions, runningBalances, categories] = await Promise.all([
+          transactionRepository.findAll(currentState.filters),
+          accountService.getRunningBalances(),
+          categoryRepository.findAll()
+        ]);
+        set({ transactions, runningBalances, categories, loading: false });
         console.log(`✅ Loaded ${transactions.length} transactions`);
       } catch (error) {
         const errorMessage = error instanceof Error ? error.message : 'Failed to load transactions';
@@ -207,6 +223,20 @@ export const useTransactionStore = create<TransactionStore>()((set, get) => {
       }
     },
 
+    // Reloads afterwards: with a tag filter active, tagged rows may enter or leave the list
+    tagTransactions: async (ids: string[], added: string[], removed: string[] = []) => {
+      try {
+        const changed = await transactionRepository.updateTags(ids, added, removed);
+        await get().loadTransactions();
+        return changed;
+      } catch (error) {
+        const errorMessage = error instanceof Error ? error.message : 'Failed to update tags';
+        set({ error: errorMessage });
+        console.error('❌ Failed to update tags:', error);
+        throw error;
+      }
+    },
+
     clearAllTransactions: async () => {
       set({ loading: true, error: null });
       
@@ -330,16 +360,20 @@ export const useTransactionStore = create<TransactionStore>()((set, get) => {
       await get().loadTransactions();
     },
 
-    getAvailableCards: async () => {
+    getAvailableAccounts: async () => {
       const currentState = get();
       const { dateRange } = currentState.filters || {};
       
       try {
-        // Get cards for the current date range only (ignoring other filters)
-        const cards = await transactionRepository.getAllCardsForDateRange(dateRange);
-        return cards;
+        // Get accounts with transactions in the current date range only (ignoring other filters)
+        const [accountIds, accounts] = await Promise.all([
+          transactionRepository.getAccountIdsForDateRange(dateRange),
+          accountRepository.findAll()
+        ]);
+        const used = new Set(accountIds);
+        return accounts.filter(account => used.has(account.id));
       } catch (error) {
-        console.error('❌ Failed to get available cards:', error);
+        console.error('❌ Failed to get available accounts:', error);
         // Fallback to empty array
         return [];
       }
@@ -350,16 +384,19 @@ export const useTransactionStore = create<TransactionStore>()((set, get) => {
       const currentState = get();
       const transactions = currentState.transactions || [];
       
-      // Filter out archived transactions
-      const activeTransactions = transactions.filter(t => t.isArchived !== true);
+      // Filter out archived transactions; transfers are left out the same way Analytics leaves them out
+      const transferCategories = CategoryTree.transferKeys(currentState.categories);
+      const lines = transactions
+        .filter(t => t.isArchived !== true)
+        .flatMap(t => countedLines(t, transferCategories));
       
-      const income = activeTransactions
-        .filter(t => t.isIncome)
-        .reduce((sum, t) => sum + t.amount, 0);
+      const income = lines
+        .filter(line => line.amount > 0)
+        .reduce((sum, line) => sum + line.amount, 0);
       
-      const expenses = activeTransactions
-        .filter(t => !t.isIncome)
-        .reduce((sum, t) => sum + t.amount, 0);
+      const expenses = lines
+        .filter(line => line.amount < 0)
+        .reduce((sum, line) => sum + line.amount, 0);
 
       return {
         income,
@@ -10,13 +10,21 @@ import {
   ScrollView,
   Switch
 } from 'react-native';
+import { v4 as uuidv4 } from 'uuid';
 import { CreateTransactionRequest, Transaction, UpdateTransactionRequest } from '../../model/Transaction';
+import { SplitLine, primaryCategory, splitRemainder, validateSplits } from '../../model/Split';
 import { validateTransactionForm, ValidationErrors, TransactionFormData } from '../../model/validation';
 import { getCurrentDateISO } from '@/shared/utils/dateUtils';
 import { parseCurrency, formatAmount, SUPPORTED_CURRENCIES, getCurrencySymbol, parseAmountString } from '@/shared/utils/currencyUtils';
 import { theme } from '@/shared/ui/theme/theme';
 import { ModalHeader } from '@/shared/ui/components/ModalHeader';
 import { categoryService } from '../../service/CategoryService';
+import { tagService } from '../../service/TagService';
+import { TagEditor } from './TagEditor';
+import { categoryLearningService } from '@/features/learning/service/CategoryLearningService';
+import { CategoryClassifier } from '@/features/learning/service/CategoryClassifier';
+import { Account } from '@/features/accounts/model/Account';
+import { accountRepository } from '@/features/accounts/storage/AccountRepository';
 
 interface AddTransactionModalProps {
   visible: boolean;
@@ -27,6 +35,16 @@ interface AddTransactionModalProps {
   onUpdate?: (id: string, updates: UpdateTransactionRequest) => Promise<void>;
 }
 
+// A split line as typed: the amount is unsigned text, like the main amount field
+interface SplitDraft {
+  id: string;
+  amount: string;
+  category: string;
+  comment: string;
+}
+
+const emptySplitDraft = (amount = '', category = ''): SplitDraft => ({ id: uuidv4(), amount, category, comment: '' });
+
 export const AddTransactionModal: React.FC<AddTransactionModalProps> = ({
   visible,
   onClose,
@@ -50,6 +68,13 @@ export const AddTransactionModal: React.FC<AddTransactionModalProps> = ({
   const [isSubmitting, setIsSubmitting] = useState(false);
   const [isResettingForm, setIsResettingForm] = useState(false);
   const [availableCategories, setAvailableCategories] = useState<string[]>([]);
+  const [classifier, setClassifier] = useState<CategoryClassifier | null>(null);
+  const [accounts, setAccounts] = useState<Account[]>([]);
+  const [splitDrafts, setSplitDrafts] = useState<SplitDraft[]>([]);
+  const [activeSplitIndex, setActiveSplitIndex] = useState(0);
+  const [splitError, setSplitError] = useState<string | null>(null);
+  const [tags, setTags] = useState<string[]>([]);
+  const [availableTags, setAvailableTags] = useState<string[]>([]);
 
   // Reset form when modal is opened
   useEffect(() => {
@@ -70,6 +95,13 @@ export const AddTransactionModal: React.FC<AddTransactionModalProps> = ({
           date: transactionToEdit.date,
           currency: transactionToEdit.currency as 'UAH' | 'USD' | 'EUR' | 'GBP' | 'ILS'
         });
+        setSplitDrafts((transactionToEdit.splits || []).map(line => ({
+          id: line.id,
+          amount: formatAmount(Math.abs(line.amount), transactionToEdit.currency),
+          category: line.category,
+          comment: line.comment || ''
+        })));
+        setTags(transactionToEdit.tags || []);
       } else {
         // Reset form for new transaction
         setFormData({
@@ -82,10 +114,17 @@ export const AddTransactionModal: React.FC<AddTransactionModalProps> = ({
           date: getCurrentDateISO(),
           currency: 'UAH'
         });
+        setSplitDrafts([]);
+        setTags([]);
       }
       
+      setActiveSplitIndex(0);
+      setSplitError(null);
       setErrors({});
       loadCategories();
+      loadTags();
+      loadClassifier();
+      loadAccounts();
       setIsResettingForm(false);
     }
   }, [visible, editMode, transactionToEdit]);
@@ -100,11 +139,125 @@ export const AddTransactionModal: React.FC<AddTransactionModalProps> = ({
     }
   };
 
+  const loadTags = async () => {
+    try {
+      setAvailableTags(await tagService.getAllTags());
+    } catch (error) {
+      console.error('Failed to load tags:', error);
+    }
+  };
+
+  const loadAccounts = async () => {
+    try {
+      setAccounts(await accountRepository.findAll(false));
+    } catch (error) {
+      console.error('Failed to load accounts:', error);
+    }
+  };
+
+  const loadClassifier = async () => {
+    try {
+      setClassifier(await categoryLearningService.loadClassifier());
+    } catch (error) {
+      console.error('Failed to load learned categories:', error);
+    }
+  };
+
+  // Only the user's own choices are learned: new entries and changed categories.
+  // Split transactions are skipped since their description stands for several categories.
+  const learnCategory = async (description: string, category: string) => {
+    if (isSplitMode || (editMode && transactionToEdit?.category === category)) {
+      return;
+    }
+
+    try {
+      await categoryLearningService.learn(description, category);
+    } catch (error) {
+      console.error('Failed to learn category:', error);
+    }
+  };
+
+  // Reconciled transactions keep the values the bank statement confirmed
+  const isLocked = !!editMode && !!transactionToEdit?.reconciliationId;
+
+  const isSplitMode = splitDrafts.length > 0;
+
+  // Category chips fill the selected split line while splitting
+  const selectedCategory = isSplitMode ? splitDrafts[activeSplitIndex]?.category : formData.category;
+
+  const categorySuggestions = classifier && formData.description
+    ? classifier.suggest(formData.description).filter(suggestion => suggestion.category !== selectedCategory)
+    : [];
+
+  const pickCategory = (category: string) => {
+    if (isSplitMode) {
+      updateSplitDraft(activeSplitIndex, 'category', category);
+    } else {
+      handleFieldChange('category', category);
+    }
+  };
+
+  const toSplitLines = (total: number): SplitLine[] => splitDrafts.map(draft => ({
+    id: draft.id,
+    amount: Math.sign(total) * Math.abs(parseCurrency(parseAmountString(draft.amount), formData.currency)),
+    category: draft.category.trim(),
+    comment: draft.comment.trim() || undefined
+  }));
+
+  // Remainder of the typed amount, both sides unsigned while editing
+  const splitLeft = isSplitMode
+    ? splitRemainder(Math.abs(parseCurrency(parseAmountString(formData.amount), formData.currency)), toSplitLines(1))
+    : 0;
+
+  const startSplit = () => {
+    setSplitDrafts([emptySplitDraft(formData.amount, formData.category), emptySplitDraft()]);
+    setActiveSplitIndex(1);
+    setSplitError(null);
+  };
+
+  const addSplitLine = () => {
+    setSplitDrafts(prev => [...prev, emptySplitDraft(splitLeft > 0 ? formatAmount(splitLeft, formData.currency) : '')]);
+    setActiveSplitIndex(splitDrafts.length);
+  };
+
+  // Dropping to a single line ends the split and keeps that line's category
+  const removeSplitLine = (index: number) => {
+    const remaining = splitDrafts.filter((_, i) => i !== index);
+    if (remaining.length < 2) {
+      handleFieldChange('category', remaining[0]?.category || formData.category);
+      setSplitDrafts([]);
+    } else {
+      setSplitDrafts(remaining);
+    }
+    setActiveSplitIndex(0);
+    setSplitError(null);
+  };
+
+  const updateSplitDraft = (index: number, field: keyof Omit<SplitDraft, 'id'>, value: string) => {
+    setSplitDrafts(prev => prev.map((draft, i) => i === index ? { ...draft, [field]: value } : draft));
+    setSplitError(null);
+  };
+
   const handleSubmit = async () => {
     setIsSubmitting(true);
     setErrors({});
+    setSplitError(null);
+
+    const total = isLocked && transactionToEdit
+      ? transactionToEdit.amount
+      : (formData.isIncome ? 1 : -1) * Math.abs(parseCurrency(parseAmountString(formData.amount), formData.currency));
+    const splits = isSplitMode ? toSplitLines(total) : [];
+
+    if (isSplitMode) {
+      const error = validateSplits(total, splits);
+      if (error) {
+        setSplitError(error);
+        setIsSubmitting(false);
+        return;
+      }
+    }
 
-    const validation = validateTransactionForm(formData);
+    const validation = validateTransactionForm(isSplitMode ? { ...formData, category: primaryCategory(splits) } : formData);
     
     if (!validation.success) {
       setErrors(validation.errors || {});
@@ -129,17 +282,30 @@ export const AddTransactionModal: React.FC<AddTransactionModalProps> = ({
         amount: signedAmount,
         card: data.card,
         category: data.category,
+        splits,
+        tags,
         comment: data.comment || undefined,
         isIncome: data.isIncome,
         date: data.date,
         currency: data.currency
       };
 
+      if (isLocked && transactionToEdit) {
+        Object.assign(transactionRequest, {
+          amount: transactionToEdit.amount,
+          card: transactionToEdit.card,
+          isIncome: transactionToEdit.isIncome,
+          date: transactionToEdit.date,
+          currency: transactionToEdit.currency
+        });
+      }
+
       if (editMode) {
         await onUpdate?.(transactionToEdit?.id || '', transactionRequest);
       } else {
         await onSubmit(transactionRequest);
       }
+      await learnCategory(data.description, data.category);
       onClose();
     } catch (error) {
       console.error('Error creating transaction:', error);
@@ -186,6 +352,12 @@ export const AddTransactionModal: React.FC<AddTransactionModalProps> = ({
         />
 
         <ScrollView style={styles.form} showsVerticalScrollIndicator={false}>
+          {isLocked && (
+            <Text style={styles.lockedNotice}>
+              🔒 Reconciled with a bank statement. Type, amount and account are locked; undo the reconciliation under Settings → Accounts to change them.
+            </Text>
+          )}
+
           {/* Transaction Type Toggle */}
           <View style={styles.toggleContainer}>
             <Text style={styles.toggleLabel}>Transaction Type</Text>
@@ -195,6 +367,7 @@ export const AddTransactionModal: React.FC<AddTransactionModalProps> = ({
               </Text>
               <Switch
                 value={formData.isIncome}
+                disabled={isLocked}
                 onValueChange={(value) => handleFieldChange('isIncome', value)}
                 trackColor={{ false: theme.colors.backgroundSecondary, true: theme.colors.income }}
                 thumbColor={formData.isIncome ? theme.colors.surface : theme.colors.surface}
@@ -226,6 +399,7 @@ export const AddTransactionModal: React.FC<AddTransactionModalProps> = ({
               <TextInput
                 style={[styles.input, styles.amountInput, errors.amount && styles.inputError]}
                 value={formData.amount}
+                editable={!isLocked}
                 onChangeText={(text) => handleFieldChange('amount', text)}
                 placeholder="0.00"
                 placeholderTextColor={theme.colors.text.disabled}
@@ -244,26 +418,125 @@ export const AddTransactionModal: React.FC<AddTransactionModalProps> = ({
             <TextInput
               style={[styles.input, errors.card && styles.inputError]}
               value={formData.card}
+              editable={!isLocked}
               onChangeText={(text) => handleFieldChange('card', text)}
               placeholder="Enter card or account name"
               placeholderTextColor={theme.colors.text.disabled}
               autoCapitalize="words"
             />
             {renderError('card')}
+
+            {/* A new name creates an account on save */}
+            {accounts.length > 0 && !isLocked && (
+              <ScrollView horizontal style={styles.categoryScroll} showsHorizontalScrollIndicator={false}>
+                {accounts.map((account) => (
+                  <TouchableOpacity
+                    key={account.id}
+                    style={[
+                      styles.categoryChip,
+                      formData.card === account.name && styles.selectedCategoryChip
+                    ]}
+                    onPress={() => handleFieldChange('card', account.name)}
+                  >
+                    <Text style={[
+                      styles.categoryChipText,
+                      formData.card === account.name && styles.selectedCategoryChipText
+                    ]}>
+                      {account.name}
+                    </Text>
+                  </TouchableOpacity>
+                ))}
+              </ScrollView>
+            )}
           </View>
 
           {/* Category */}
           <View style={styles.inputGroup}>
-            <Text style={styles.label}>Category *</Text>
-            <TextInput
-              style={[styles.input, errors.category && styles.inputError]}
-              value={formData.category}
-              onChangeText={(text) => handleFieldChange('category', text)}
-              placeholder="Enter or select category"
-              placeholderTextColor={theme.colors.text.disabled}
-              autoCapitalize="words"
-            />
-            {renderError('category')}
+            <View style={styles.labelRow}>
+              <Text style={styles.label}>{isSplitMode ? 'Split *' : 'Category *'}</Text>
+              <TouchableOpacity onPress={isSplitMode ? addSplitLine : startSplit}>
+                <Text style={styles.linkText}>{isSplitMode ? '+ Add line' : '✂ Split'}</Text>
+              </TouchableOpacity>
+            </View>
+
+            {isSplitMode ? (
+              <>
+                {splitDrafts.map((draft, index) => (
+                  <View
+                    key={draft.id}
+                    style={[styles.splitLine, index === activeSplitIndex && styles.activeSplitLine]}
+                  >
+                    <View style={styles.splitRow}>
+                      <TextInput
+                        style={[styles.input, styles.splitCategoryInput]}
+                        value={draft.category}
+                        onFocus={() => setActiveSplitIndex(index)}
+                        onChangeText={(text) => updateSplitDraft(index, 'category', text)}
+                        placeholder="Category"
+                        placeholderTextColor={theme.colors.text.disabled}
+                        autoCapitalize="words"
+                      />
+                      <TextInput
+                        style={[styles.input, styles.splitAmountInput]}
+                        value={draft.amount}
+                        onFocus={() => setActiveSplitIndex(index)}
+                        onChangeText={(text) => updateSplitDraft(index, 'amount', text)}
+                        placeholder="0.00"
+                        placeholderTextColor={theme.colors.text.disabled}
+                        keyboardType="decimal-pad"
+                      />
+                      <TouchableOpacity onPress={() => removeSplitLine(index)} style={styles.splitRemove}>
+                        <Text style={styles.splitRemoveText}>✕</Text>
+                      </TouchableOpacity>
+                    </View>
+                    <TextInput
+                      style={[styles.input, styles.splitCommentInput]}
+                      value={draft.comment}
+                      onFocus={() => setActiveSplitIndex(index)}
+                      onChangeText={(text) => updateSplitDraft(index, 'comment', text)}
+                      placeholder="Line comment (optional)"
+                      placeholderTextColor={theme.colors.text.disabled}
+                    />
+                  </View>
+                ))}
+                <Text style={[styles.splitLeftText, splitLeft !== 0 && styles.splitLeftOpen]}>
+                  {splitLeft === 0
+                    ? 'Lines add up to the amount'
+                    : `${splitLeft > 0 ? 'Left to assign' : 'Over by'}: ${formatAmount(Math.abs(splitLeft), formData.currency)} ${getCurrencySymbol(formData.currency)}`}
+                </Text>
+                {splitError && <Text style={styles.errorText}>{splitError}</Text>}
+              </>
+            ) : (
+              <>
+                <TextInput
+                  style={[styles.input, errors.category && styles.inputError]}
+                  value={formData.category}
+                  onChangeText={(text) => handleFieldChange('category', text)}
+                  placeholder="Enter or select category"
+                  placeholderTextColor={theme.colors.text.disabled}
+                  autoCapitalize="words"
+                />
+                {renderError('category')}
+              </>
+            )}
+
+            {/* Categories learned from earlier corrections */}
+            {categorySuggestions.length > 0 && (
+              <View style={styles.suggestionRow}>
+                <Text style={styles.suggestionLabel}>Suggested</Text>
+                {categorySuggestions.map((suggestion) => (
+                  <TouchableOpacity
+                    key={suggestion.category}
+                    style={[styles.categoryChip, styles.suggestionChip]}
+                    onPress={() => pickCategory(suggestion.category)}
+                  >
+                    <Text style={styles.suggestionChipText}>
+                      {suggestion.category} · {Math.round(suggestion.confidence * 100)}%
+                    </Text>
+                  </TouchableOpacity>
+                ))}
+              </View>
+            )}
             
             {/* Show available categories as chips if any exist */}
             {availableCategories.length > 0 && (
@@ -273,13 +546,13 @@ export const AddTransactionModal: React.FC<AddTransactionModalProps> = ({
                     key={category}
                     style={[
                       styles.categoryChip,
-                      formData.category === category && styles.selectedCategoryChip
+                      selectedCategory === category && styles.selectedCategoryChip
                     ]}
-                    onPress={() => handleFieldChange('category', category)}
+                    onPress={() => pickCategory(category)}
                   >
                     <Text style={[
                       styles.categoryChipText,
-                      formData.category === category && styles.selectedCategoryChipText
+                      selectedCategory === category && styles.selectedCategoryChipText
                     ]}>
                       {category}
                     </Text>
@@ -289,6 +562,12 @@ export const AddTransactionModal: React.FC<AddTransactionModalProps> = ({
             )}
           </View>
 
+          {/* Tags */}
+          <View style={styles.inputGroup}>
+            <Text style={styles.label}>Tags</Text>
+            <TagEditor tags={tags} onChange={setTags} suggestions={availableTags} />
+          </View>
+
           {/* Comment */}
           <View style={styles.inputGroup}>
             <Text style={styles.label}>Comment</Text>
@@ -355,6 +634,56 @@ const styles = StyleSheet.create({
     marginBottom: theme.spacing.sm,
     fontWeight: '600',
   },
+  labelRow: {
+    flexDirection: 'row',
+    justifyContent: 'space-between',
+    alignItems: 'baseline',
+  },
+  linkText: {
+    ...theme.typography.caption,
+    color: theme.colors.primary,
+    fontWeight: '600',
+  },
+  splitLine: {
+    borderWidth: 1,
+    borderColor: theme.colors.border,
+    borderRadius: theme.borderRadius.md,
+    padding: theme.spacing.sm,
+    marginBottom: theme.spacing.sm,
+  },
+  activeSplitLine: {
+    borderColor: theme.colors.primary,
+  },
+  splitRow: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    gap: theme.spacing.sm,
+  },
+  splitCategoryInput: {
+    flex: 2,
+  },
+  splitAmountInput: {
+    flex: 1,
+  },
+  splitCommentInput: {
+    ...theme.typography.body,
+    marginTop: theme.spacing.sm,
+    padding: theme.spacing.sm,
+  },
+  splitRemove: {
+    padding: theme.spacing.sm,
+  },
+  splitRemoveText: {
+    ...theme.typography.body,
+    color: theme.colors.text.secondary,
+  },
+  splitLeftText: {
+    ...theme.typography.caption,
+    color: theme.colors.income,
+  },
+  splitLeftOpen: {
+    color: theme.colors.error,
+  },
   input: {
     ...theme.typography.bodyLarge,
     borderWidth: 1,
@@ -392,6 +721,27 @@ const styles = StyleSheet.create({
   selectedCategoryChipText: {
     color: theme.colors.text.inverse,
   },
+  suggestionRow: {
+    flexDirection: 'row',
+    flexWrap: 'wrap',
+    alignItems: 'center',
+    marginTop: theme.spacing.sm,
+    gap: theme.spacing.xs,
+  },
+  suggestionLabel: {
+    ...theme.typography.caption,
+    color: theme.colors.text.secondary,
+    marginRight: theme.spacing.xs,
+  },
+  suggestionChip: {
+    borderColor: theme.colors.primary,
+    borderStyle: 'dashed',
+  },
+  suggestionChipText: {
+    ...theme.typography.caption,
+    color: theme.colors.primary,
+    fontWeight: '600',
+  },
   amountContainer: {
     flexDirection: 'row',
     alignItems: 'center',
@@ -407,6 +757,11 @@ const styles = StyleSheet.create({
   inputError: {
     borderColor: theme.colors.error,
   },
+  lockedNotice: {
+    ...theme.typography.caption,
+    color: theme.colors.text.secondary,
+    marginBottom: theme.spacing.md,
+  },
   errorText: {
     ...theme.typography.caption,
     color: theme.colors.error,
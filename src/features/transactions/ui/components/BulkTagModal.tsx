@@ -0,0 +1,165 @@
+import React, { useState, useEffect } from 'react';
+import { View, Text, TouchableOpacity, Modal, StyleSheet, ScrollView, Alert } from 'react-native';
+import { Transaction } from '../../model/Transaction';
+import { addTags, hasTag } from '../../model/Tag';
+import { tagService } from '../../service/TagService';
+import { TagEditor } from './TagEditor';
+import { theme } from '@/shared/ui/theme/theme';
+import { ModalHeader } from '@/shared/ui/components/ModalHeader';
+
+interface BulkTagModalProps {
+  visible: boolean;
+  transactions: Transaction[];
+  onClose: () => void;
+  onApply: (added: string[], removed: string[]) => Promise<void>;
+}
+
+export const BulkTagModal: React.FC<BulkTagModalProps> = ({
+  visible,
+  transactions,
+  onClose,
+  onApply
+}) => {
+  const [added, setAdded] = useState<string[]>([]);
+  const [removed, setRemoved] = useState<string[]>([]);
+  const [availableTags, setAvailableTags] = useState<string[]>([]);
+  const [isSubmitting, setIsSubmitting] = useState(false);
+
+  useEffect(() => {
+    if (visible) {
+      setAdded([]);
+      setRemoved([]);
+      tagService.getAllTags()
+        .then(setAvailableTags)
+        .catch(error => console.error('Failed to load tags:', error));
+    }
+  }, [visible]);
+
+  // Tags already on the selection, with how many of the selected transactions carry each
+  const presentTags = addTags([], transactions.flatMap(t => t.tags || []))
+    .map(tag => ({ tag, count: transactions.filter(t => hasTag(t.tags, tag)).length }));
+
+  const toggleRemoved = (tag: string) => {
+    setRemoved(prev => hasTag(prev, tag) ? prev.filter(existing => existing !== tag) : [...prev, tag]);
+  };
+
+  const handleApply = async () => {
+    setIsSubmitting(true);
+    try {
+      await onApply(added, removed);
+      onClose();
+    } catch (error) {
+      console.error('Error updating tags:', error);
+      Alert.alert('Error', 'Failed to update tags. Please try again.');
+    } finally {
+      setIsSubmitting(false);
+    }
+  };
+
+  const hasChanges = added.length > 0 || removed.length > 0;
+
+  return (
+    <Modal
+      visible={visible}
+      animationType="slide"
+      presentationStyle="pageSheet"
+      onRequestClose={onClose}
+    >
+      <View style={styles.container}>
+        <ModalHeader
+          title={`Tag ${transactions.length} ${transactions.length === 1 ? 'Transaction' : 'Transactions'}`}
+          leftAction={{
+            label: "Cancel",
+            onPress: onClose
+          }}
+          rightAction={{
+            label: isSubmitting ? "Applying..." : "Apply",
+            onPress: handleApply,
+            disabled: isSubmitting || !hasChanges
+          }}
+        />
+
+        <ScrollView style={styles.content} showsVerticalScrollIndicator={false}>
+          <View style={styles.section}>
+            <Text style={styles.label}>Add Tags</Text>
+            <TagEditor tags={added} onChange={setAdded} suggestions={availableTags} />
+          </View>
+
+          {presentTags.length > 0 && (
+            <View style={styles.section}>
+              <Text style={styles.label}>Remove Tags</Text>
+              <Text style={styles.hint}>Tap a tag to remove it from every selected transaction.</Text>
+              <View style={styles.chipContainer}>
+                {presentTags.map(({ tag, count }) => {
+                  const isRemoved = hasTag(removed, tag);
+                  return (
+                    <TouchableOpacity
+                      key={tag}
+                      style={[styles.chip, isRemoved && styles.removedChip]}
+                      onPress={() => toggleRemoved(tag)}
+                    >
+                      <Text style={[styles.chipText, isRemoved && styles.removedChipText]}>
+                        #{tag} · {count}
+                      </Text>
+                    </TouchableOpacity>
+                  );
+                })}
+              </View>
+            </View>
+          )}
+        </ScrollView>
+      </View>
+    </Modal>
+  );
+};
+
+const styles = StyleSheet.create({
+  container: {
+    flex: 1,
+    backgroundColor: theme.colors.background,
+  },
+  content: {
+    flex: 1,
+    padding: theme.spacing.lg,
+  },
+  section: {
+    marginBottom: theme.spacing.xl,
+  },
+  label: {
+    ...theme.typography.body,
+    color: theme.colors.text.primary,
+    marginBottom: theme.spacing.sm,
+    fontWeight: '600',
+  },
+  hint: {
+    ...theme.typography.caption,
+    color: theme.colors.text.secondary,
+    marginBottom: theme.spacing.sm,
+  },
+  chipContainer: {
+    flexDirection: 'row',
+    flexWrap: 'wrap',
+    gap: theme.spacing.sm,
+  },
+  chip: {
+    backgroundColor: theme.colors.backgroundSecondary,
+    borderRadius: theme.borderRadius.round,
+    paddingHorizontal: theme.spacing.md,
+    paddingVertical: theme.spacing.sm,
+    borderWidth: 1,
+    borderColor: theme.colors.border,
+  },
+  removedChip: {
+    backgroundColor: theme.colors.error,
+    borderColor: theme.colors.error,
+  },
+  chipText: {
+    ...theme.typography.caption,
+    color: theme.colors.text.secondary,
+    fontWeight: '600',
+  },
+  removedChipText: {
+    color: theme.colors.text.inverse,
+    textDecorationLine: 'line-through',
+  },
+});
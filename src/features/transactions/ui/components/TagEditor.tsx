@@ -0,0 +1,136 @@
+import React, { useState } from 'react';
+import { View, Text, TextInput, TouchableOpacity, ScrollView, StyleSheet } from 'react-native';
+import { addTags, hasTag, parseTags, removeTags } from '../../model/Tag';
+import { theme } from '@/shared/ui/theme/theme';
+
+interface TagEditorProps {
+  tags: string[];
+  onChange: (tags: string[]) => void;
+  suggestions: string[]; // Tags already in use, offered as chips
+  placeholder?: string;
+}
+
+const MAX_SUGGESTIONS = 12;
+
+/**
+ * Tag chips with a text field: typing a comma or submitting adds the typed tags.
+ */
+export const TagEditor: React.FC<TagEditorProps> = ({
+  tags,
+  onChange,
+  suggestions,
+  placeholder = 'Add tags, separated by commas'
+}) => {
+  const [text, setText] = useState('');
+
+  const commit = (value: string) => {
+    const typed = parseTags(value);
+    if (typed.length > 0) {
+      onChange(addTags(tags, typed));
+    }
+    setText('');
+  };
+
+  const handleChangeText = (value: string) => {
+    if (value.includes(',')) {
+      commit(value);
+    } else {
+      setText(value);
+    }
+  };
+
+  const query = text.trim().toLowerCase();
+  const offered = suggestions
+    .filter(tag => !hasTag(tags, tag) && (!query || tag.toLowerCase().includes(query)))
+    .slice(0, MAX_SUGGESTIONS);
+
+  return (
+    <View>
+      {tags.length > 0 && (
+        <View style={styles.tagRow}>
+          {tags.map(tag => (
+            <TouchableOpacity
+              key={tag}
+              style={[styles.chip, styles.selectedChip]}
+              onPress={() => onChange(removeTags(tags, [tag]))}
+            >
+              <Text style={[styles.chipText, styles.selectedChipText]}>#{tag} ✕</Text>
+            </TouchableOpacity>
+          ))}
+        </View>
+      )}
+
+      <TextInput
+        style={styles.input}
+        value={text}
+        onChangeText={handleChangeText}
+        onSubmitEditing={() => commit(text)}
+        onBlur={() => commit(text)}
+        placeholder={placeholder}
+        placeholderTextColor={theme.colors.text.disabled}
+        autoCapitalize="none"
+        returnKeyType="done"
+      />
+
+      {offered.length > 0 && (
+        <ScrollView horizontal style={styles.suggestionScroll} showsHorizontalScrollIndicator={false}>
+          {offered.map(tag => (
+            <TouchableOpacity
+              key={tag}
+              style={styles.chip}
+              onPress={() => {
+                onChange(addTags(tags, [tag]));
+                setText('');
+              }}
+            >
+              <Text style={styles.chipText}>#{tag}</Text>
+            </TouchableOpacity>
+          ))}
+        </ScrollView>
+      )}
+    </View>
+  );
+};
+
+const styles = StyleSheet.create({
+  tagRow: {
+    flexDirection: 'row',
+    flexWrap: 'wrap',
+    gap: theme.spacing.xs,
+    marginBottom: theme.spacing.sm,
+  },
+  input: {
+    ...theme.typography.bodyLarge,
+    borderWidth: 1,
+    borderColor: theme.colors.border,
+    borderRadius: theme.borderRadius.md,
+    padding: theme.spacing.md,
+    backgroundColor: theme.colors.surface,
+    color: theme.colors.text.primary,
+  },
+  suggestionScroll: {
+    marginTop: theme.spacing.sm,
+  },
+  chip: {
+    backgroundColor: theme.colors.backgroundSecondary,
+    borderRadius: theme.borderRadius.round,
+    paddingHorizontal: theme.spacing.md,
+    paddingVertical: theme.spacing.sm,
+    marginRight: theme.spacing.sm,
+    borderWidth: 1,
+    borderColor: theme.colors.border,
+  },
+  selectedChip: {
+    backgroundColor: theme.colors.primary,
+    borderColor: theme.colors.primary,
+    marginRight: 0,
+  },
+  chipText: {
+    ...theme.typography.caption,
+    color: theme.colors.text.secondary,
+    fontWeight: '600',
+  },
+  selectedChipText: {
+    color: theme.colors.text.inverse,
+  },
+});
@@ -1,6 +1,7 @@
 import React, { useState, useRef, useCallback } from 'react';
 import { View, Text, TouchableOpacity, StyleSheet, Animated, PanResponder, Dimensions } from 'react-native';
 import { Transaction } from '../../model/Transaction';
+import { isSplit } from '../../model/Split';
 import { formatCurrency } from '@/shared/utils/currencyUtils';
 import { formatDateTime } from '@/shared/utils/dateUtils';
 import { theme } from '@/shared/ui/theme/theme';
@@ -15,12 +16,14 @@ type SwipeState = 'center' | 'edit-revealed' | 'archive-revealed';
 
 interface TransactionCardProps {
   transaction: Transaction;
+  runningBalance?: number; // Account balance after this transaction
   onPress?: () => void;
   onLongPress?: () => void;
   onCategoryPress?: (category: string) => void;
   onEdit?: (transaction: Transaction) => void;
   onArchive?: (transaction: Transaction) => void;
   isBeingRemoved?: boolean;
+  isSelected?: boolean; // Picked for a bulk action
   onSwipeStart?: () => void;
   onSwipeEnd?: () => void;
 }
@@ -194,12 +197,14 @@ const useSwipeGesture = (
 
 export const TransactionCard: React.FC<TransactionCardProps> = React.memo(({
   transaction,
+  runningBalance,
   onPress,
   onLongPress,
   onCategoryPress,
   onEdit,
   onArchive,
   isBeingRemoved = false,
+  isSelected = false,
   onSwipeStart,
   onSwipeEnd
 }) => {
@@ -226,8 +231,8 @@ export const TransactionCard: React.FC<TransactionCardProps> = React.memo(({
   };
 
   const amountColor = transaction.isIncome ? theme.colors.income : theme.colors.expense;
-  const cardBackgroundColor = transaction.isIncome ? '#F0FDF4' : '#F8FAFC';
-  const leftBorderColor = transaction.isIncome ? theme.colors.income : '#94A3B8';
+  const cardBackgroundColor = isSelected ? '#EFF6FF' : transaction.isIncome ? '#F0FDF4' : '#F8FAFC';
+  const leftBorderColor = isSelected ? theme.colors.primary : transaction.isIncome ? theme.colors.income : '#94A3B8';
 
   const leftActionOpacity = translateX.interpolate({
     inputRange: [0, REVEAL_THRESHOLD],
@@ -301,7 +306,7 @@ export const TransactionCard: React.FC<TransactionCardProps> = React.memo(({
           <View style={styles.mainContent}>
             <View style={styles.leftSection}>
               <Text style={styles.description} numberOfLines={1} ellipsizeMode="tail">
-                {transaction.description || 'No description'}
+                {transaction.payee || transaction.description || 'No description'}
               </Text>
 
               <View style={styles.metaRow}>
@@ -319,9 +324,18 @@ export const TransactionCard: React.FC<TransactionCardProps> = React.memo(({
                   activeOpacity={0.7}
                 >
                   <Text style={styles.categoryText} numberOfLines={1} ellipsizeMode="tail">
-                    {transaction.category || 'Uncategorized'}
+                    {transaction.transferId
+                      ? '⇄ Transfer'
+                      : isSplit(transaction)
+                        ? `✂ ${transaction.category} +${transaction.splits!.length - 1}`
+                        : transaction.category || 'Uncategorized'}
                   </Text>
                 </TouchableOpacity>
+                {transaction.tags && transaction.tags.length > 0 && (
+                  <Text style={styles.tagText} numberOfLines={1} ellipsizeMode="tail">
+                    #{transaction.tags[0]}{transaction.tags.length > 1 ? ` +${transaction.tags.length - 1}` : ''}
+                  </Text>
+                )}
               </View>
             </View>
             
@@ -329,6 +343,17 @@ export const TransactionCard: React.FC<TransactionCardProps> = React.memo(({
               <Text style={[styles.amount, { color: amountColor }]} numberOfLines={1}>
                 {formatCurrency(transaction.amount || 0, transaction.currency || 'USD')}
               </Text>
+              {transaction.originalCurrency && transaction.originalAmount !== undefined && (
+                <Text style={styles.originalAmount} numberOfLines={1}>
+                  {formatCurrency(transaction.originalAmount, transaction.originalCurrency)}
+                </Text>
+              )}
+              {runningBalance !== undefined && (
+                <Text style={styles.runningBalance} numberOfLines={1}>
+                  {transaction.reconciliationId ? '🔒 ' : transaction.isCleared ? '✓ ' : ''}
+                  Bal. {formatCurrency(runningBalance, transaction.currency || 'USD')}
+                </Text>
+              )}
               <View style={[styles.incomeIndicator, { backgroundColor: amountColor }]}>
                 <Text style={styles.incomeText}>
                   {transaction.isIncome ? 'Income' : 'Expense'}
@@ -493,6 +518,13 @@ const styles = StyleSheet.create({
     fontWeight: '500',
     fontSize: 10,
   },
+  tagText: {
+    ...theme.typography.caption,
+    color: theme.colors.text.secondary,
+    fontSize: 10,
+    marginLeft: theme.spacing.xs,
+    flexShrink: 1,
+  },
   amount: {
     ...theme.typography.h3,
     fontWeight: '700',
@@ -501,6 +533,19 @@ const styles = StyleSheet.create({
     marginBottom: theme.spacing.xs,
     letterSpacing: 0.3,
   },
+  runningBalance: {
+    ...theme.typography.caption,
+    color: theme.colors.text.secondary,
+    textAlign: 'right',
+    marginBottom: theme.spacing.xs,
+  },
+  originalAmount: {
+    ...theme.typography.caption,
+    color: theme.colors.text.secondary,
+    textAlign: 'right',
+    marginTop: -theme.spacing.xs,
+    marginBottom: theme.spacing.xs,
+  },
   incomeIndicator: {
     paddingHorizontal: 6,
     paddingVertical: 2,
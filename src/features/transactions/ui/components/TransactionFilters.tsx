@@ -12,7 +12,9 @@ import { TransactionFilters } from '../../model/Transaction';
 import { theme } from '@/shared/ui/theme/theme';
 import { ModalHeader } from '@/shared/ui/components/ModalHeader';
 import { categoryService } from '../../service/CategoryService';
+import { tagService } from '../../service/TagService';
 import { Transaction } from '../../model/Transaction';
+import { Account } from '@/features/accounts/model/Account';
 
 interface TransactionFiltersProps {
   visible: boolean;
@@ -20,7 +22,7 @@ interface TransactionFiltersProps {
   currentFilters: TransactionFilters;
   onApplyFilters: (filters: TransactionFilters) => void;
   onClearFilters: () => void;
-  availableCards: string[];
+  availableAccounts: Account[];
   transactions: Transaction[];
 }
 
@@ -30,12 +32,13 @@ export const TransactionFiltersModal: React.FC<TransactionFiltersProps> = ({
   currentFilters,
   onApplyFilters,
   onClearFilters,
-  availableCards,
+  availableAccounts,
   transactions
 }) => {
   const [filters, setFilters] = useState<TransactionFilters>(currentFilters);
   const [availableCategories, setAvailableCategories] = useState<string[]>([]);
   const [categoriesLoading, setCategoriesLoading] = useState(false);
+  const [availableTags, setAvailableTags] = useState<string[]>([]);
 
   // Sync local filters state with currentFilters prop changes (e.g., from TimePeriodSelector)
   useEffect(() => {
@@ -49,6 +52,14 @@ export const TransactionFiltersModal: React.FC<TransactionFiltersProps> = ({
     }
   }, [visible, filters.dateRange]);
 
+  useEffect(() => {
+    if (visible) {
+      tagService.getAllTags()
+        .then(setAvailableTags)
+        .catch(error => console.error('❌ Failed to load tags:', error));
+    }
+  }, [visible]);
+
   const loadCategories = async () => {
     try {
       setCategoriesLoading(true);
@@ -88,15 +99,27 @@ export const TransactionFiltersModal: React.FC<TransactionFiltersProps> = ({
     });
   };
 
-  const toggleCard = (card: string) => {
-    const currentCards = filters.cards || [];
-    const newCards = currentCards.includes(card)
-      ? currentCards.filter(c => c !== card)
-      : [...currentCards, card];
+  const toggleTag = (tag: string) => {
+    const currentTags = filters.tags || [];
+    const newTags = currentTags.includes(tag)
+      ? currentTags.filter(t => t !== tag)
+      : [...currentTags, tag];
+
+    setFilters({
+      ...filters,
+      tags: newTags.length > 0 ? newTags : undefined
+    });
+  };
+
+  const toggleAccount = (accountId: string) => {
+    const currentAccounts = filters.accountIds || [];
+    const newAccounts = currentAccounts.includes(accountId)
+      ? currentAccounts.filter(id => id !== accountId)
+      : [...currentAccounts, accountId];
     
     setFilters({
       ...filters,
-      cards: newCards.length > 0 ? newCards : undefined
+      accountIds: newAccounts.length > 0 ? newAccounts : undefined
     });
   };
 
@@ -234,24 +257,76 @@ export const TransactionFiltersModal: React.FC<TransactionFiltersProps> = ({
             </View>
           )}
 
-          {/* Cards Filter */}
-          {availableCards.length > 0 && (
+          {/* Tags Filter */}
+          {availableTags.length > 0 && (
+            <View style={styles.section}>
+              <View style={styles.sectionHeader}>
+                <Text style={styles.sectionTitle}>Tags</Text>
+
+                {(filters.tags && filters.tags.length > 0) && (
+                  <View style={styles.switchContainer}>
+                    <Text style={styles.switchLabel}>
+                      {filters.tagsMode === 'exclude' ? 'Exclude' : 'Include'}
+                    </Text>
+                    <TouchableOpacity
+                      style={[
+                        styles.switch,
+                        filters.tagsMode === 'exclude' && styles.switchActive
+                      ]}
+                      onPress={() => setFilters({
+                        ...filters,
+                        tagsMode: filters.tagsMode === 'exclude' ? 'include' : 'exclude'
+                      })}
+                    >
+                      <View style={[
+                        styles.switchThumb,
+                        filters.tagsMode === 'exclude' && styles.switchThumbActive
+                      ]} />
+                    </TouchableOpacity>
+                  </View>
+                )}
+              </View>
+
+              <View style={styles.chipContainer}>
+                {availableTags.map((tag) => {
+                  const isSelected = filters.tags?.includes(tag) || false;
+                  return (
+                    <TouchableOpacity
+                      key={tag}
+                      style={[styles.chip, isSelected && styles.selectedChip]}
+                      onPress={() => toggleTag(tag)}
+                    >
+                      <Text style={[
+                        styles.chipText,
+                        isSelected && styles.selectedChipText
+                      ]}>
+                        #{tag}
+                      </Text>
+                    </TouchableOpacity>
+                  );
+                })}
+              </View>
+            </View>
+          )}
+
+          {/* Accounts Filter */}
+          {availableAccounts.length > 0 && (
             <View style={styles.section}>
               <Text style={styles.sectionTitle}>Cards/Accounts</Text>
               <View style={styles.chipContainer}>
-                {availableCards.map((card) => {
-                  const isSelected = filters.cards?.includes(card) || false;
+                {availableAccounts.map((account) => {
+                  const isSelected = filters.accountIds?.includes(account.id) || false;
                   return (
                     <TouchableOpacity
-                      key={card}
+                      key={account.id}
                       style={[styles.chip, isSelected && styles.selectedChip]}
-                      onPress={() => toggleCard(card)}
+                      onPress={() => toggleAccount(account.id)}
                     >
                       <Text style={[
                         styles.chipText,
                         isSelected && styles.selectedChipText
                       ]}>
-                        {card}
+                        {account.name}
                       </Text>
                     </TouchableOpacity>
                   );
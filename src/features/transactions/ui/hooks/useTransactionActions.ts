@@ -1,11 +1,13 @@
 import { useState } from 'react';
 import { Alert } from 'react-native';
 import { useTransactionStore } from '../../store/transactionStore';
-import { Transaction, CreateTransactionRequest, UpdateTransactionRequest } from '../../model/Transaction';
+import { Transaction, UpdateTransactionRequest } from '../../model/Transaction';
 import { ImportResult } from '@/features/import/strategies/ImportStrategy';
+import { importService } from '@/features/import/service/ImportService';
+import { BulkProgressCallback } from '../../storage/TransactionRepository';
 
 export const useTransactionActions = (onEditTransaction?: (transaction: Transaction) => void) => {
-  const { updateTransaction, loadTransactions, addTransaction, archiveTransaction, unarchiveTransaction } = useTransactionStore();
+  const { updateTransaction, loadTransactions, archiveTransaction, unarchiveTransaction } = useTransactionStore();
   const [snackbarMessage, setSnackbarMessage] = useState('');
   const [showSnackbar, setShowSnackbar] = useState(false);
 
@@ -51,29 +53,24 @@ export const useTransactionActions = (onEditTransaction?: (transaction: Transact
     }
   };
 
-  const handleImportConfirm = async (transactions: Transaction[], ignoreDuplicates: boolean = false): Promise<boolean> => {
+  const handleImportConfirm = async (
+    result: ImportResult,
+    transactions: Transaction[],
+    ignoreDuplicates: boolean = false,
+    onProgress?: BulkProgressCallback
+  ): Promise<boolean> => {
     try {
-      let successCount = 0;
-      let errorCount = 0;
+      const batches = await importService.saveFiles(result, transactions, ignoreDuplicates, onProgress);
+      await loadTransactions();
       
-      for (const transaction of transactions) {
-        try {
-          const { id, createdAt, isDuplicate, isArchived, ...createRequest } = transaction;
-          await addTransaction(createRequest as CreateTransactionRequest);
-          successCount++;
-        } catch (error) {
-          console.error('Failed to import transaction:', error);
-          errorCount++;
-          if (!ignoreDuplicates) {
-            throw error;
-          }
-        }
-      }
+      const importedCount = batches.reduce((sum, batch) => sum + batch.importedCount, 0);
+      const duplicatesSkipped = batches.reduce((sum, batch) => sum + batch.duplicatesSkipped, 0);
+      const fromFiles = batches.length > 1 ? ` from ${batches.length} files` : '';
       
-      if (errorCount > 0 && ignoreDuplicates) {
-        showMessage(`Import completed: ${successCount} transactions imported, ${errorCount} duplicates ignored`);
+      if (duplicatesSkipped > 0) {
+        showMessage(`Import completed: ${importedCount} transactions imported${fromFiles}, ${duplicatesSkipped} duplicates ignored`);
       } else {
-        showMessage(`Successfully imported ${successCount} transactions`);
+        showMessage(`Successfully imported ${importedCount} transactions${fromFiles}`);
       }
       
       return true;
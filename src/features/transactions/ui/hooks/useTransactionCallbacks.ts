@@ -1,7 +1,12 @@
 import { useCallback } from 'react';
+import { v4 as uuidv4 } from 'uuid';
 import { Transaction } from '../../model/Transaction';
-import { ImportMapping } from '../../../import/strategies/ImportStrategy';
+import { ImportFile, ImportMapping, ImportResult, ImportRowDraft, ImportCancelledError, PdfLayout } from '../../../import/strategies/ImportStrategy';
+import { ImportRowFixer } from '../../../import/service/ImportRowFixer';
 import { importService } from '../../../import/service/ImportService';
+import { importWorkerClient } from '../../../import/worker/ImportWorkerClient';
+import { ImportState, QueuedFile } from '../../../import/ui/hooks/useImportFlow';
+import { BulkProgressCallback } from '../../storage/TransactionRepository';
 import { TransformationService } from '../../../../shared/services/TransformationService';
 import { ValidationService } from '../../../../shared/services/ValidationService';
 import { ErrorHandlingService } from '../../../../shared/services/ErrorHandlingService';
@@ -9,7 +14,12 @@ import { UI_CONSTANTS } from '../../../../shared/constants/ui';
 
 interface CallbackDependencies {
   transactionManagement: any;
-  handleImportConfirm: (transactions: Transaction[], ignoreDuplicates: boolean) => Promise<boolean>;
+  handleImportConfirm: (
+    result: ImportResult,
+    transactions: Transaction[],
+    ignoreDuplicates: boolean,
+    onProgress?: BulkProgressCallback
+  ) => Promise<boolean>;
   handleArchiveTransaction: (id: string) => Promise<void>;
   handleUnarchiveTransaction: (id: string) => Promise<void>;
   showMessage: (message: string) => void;
@@ -17,6 +27,13 @@ interface CallbackDependencies {
   confirmDeleteTransactions: boolean;
 }
 
+// Mappings chosen earlier in a queue, reused for later files with the same header
+const queueMappings = (queue: QueuedFile[]): Record<string, ImportMapping> => Object.fromEntries(
+  queue
+    .filter(entry => entry.status === 'parsed' && entry.headerFingerprint && entry.mapping && !Array.isArray(entry.mapping))
+    .map(entry => [entry.headerFingerprint, entry.mapping])
+);
+
 export const useTransactionCallbacks = (deps: CallbackDependencies) => {
   const {
     transactionManagement,
@@ -28,11 +45,66 @@ export const useTransactionCallbacks = (deps: CallbackDependencies) => {
     confirmDeleteTransactions
   } = deps;
 
+  const showValidatedResult = useCallback((result: ImportResult) => {
+    const normalizedData = TransformationService.normalizeTransactionData(result.transactions);
+    const validationResult = ValidationService.validateImportData(normalizedData);
+    
+    transactionManagement.importFlow.setImportResult({
+      ...result,
+      transactions: validationResult.validRows as Transaction[],
+      // Parse failures stay listed next to validation failures so both can be fixed in the preview
+      errors: [
+        ...result.errors,
+        ...validationResult.invalidRows.map(row => ({
+          row: row.index,
+          column: 'validation',
+          error: row.errors.map(e => e.message).join(', '),
+          rawData: row.row,
+          batchId: result.parts ? row.row.importBatchId : undefined,
+          fileName: result.parts?.find(part => part.batchId === row.row.importBatchId)?.source?.fileName,
+          field: row.errors[0]?.field as keyof ImportRowDraft | undefined,
+          draft: ImportRowFixer.draftFromTransaction(row.row)
+        }))
+      ]
+    });
+  }, [transactionManagement.importFlow]);
+
+  // Parses off the main thread where possible; resolves to null when the user cancels
+  const parseFile = useCallback(async (importFile: ImportFile, mapping?: ImportMapping | ImportMapping[]): Promise<ImportResult | null> => {
+    const signal = transactionManagement.importFlow.startParsing();
+    
+    try {
+      return await importWorkerClient.parse(importFile, mapping, {
+        signal,
+        onProgress: transactionManagement.importFlow.setParseProgress
+      });
+    } catch (error) {
+      if (error instanceof ImportCancelledError) {
+        return null;
+      }
+      throw error;
+    } finally {
+      if (!signal.aborted) {
+        transactionManagement.importFlow.finishParsing();
+      }
+    }
+  }, [transactionManagement.importFlow]);
+
   const handleFileSelect = useCallback(async (file: File) => {
     transactionManagement.importFlow.setLoading(true);
     
     await ErrorHandlingService.handleAsyncError(async () => {
       const importFile = await importService.createImportFileFromBrowser(file);
+      
+      if (!importService.requiresColumnMapping(importFile)) {
+        transactionManagement.importFlow.setSelectedFile(file, file.name);
+        const result = await parseFile(importFile);
+        if (!result) return;
+        
+        showValidatedResult(result);
+        return;
+      }
+      
       const preview = await importService.extractFilePreview(importFile);
       transactionManagement.importFlow.setFileData(file, file.name, preview);
     }, {
@@ -41,19 +113,155 @@ export const useTransactionCallbacks = (deps: CallbackDependencies) => {
     });
     
     transactionManagement.importFlow.setLoading(false);
-  }, [transactionManagement.importFlow]);
+  }, [transactionManagement.importFlow, showValidatedResult, parseFile]);
+
+  // Several files become one combined preview; failed and skipped files are listed in it
+  const finishQueue = useCallback((queue: QueuedFile[]) => {
+    const parsed = queue.filter(entry => entry.status === 'parsed' && entry.result);
+    const skippedFiles = queue
+      .filter(entry => entry.status === 'failed' || entry.status === 'skipped')
+      .map(entry => ({ fileName: entry.file.name, reason: entry.error || 'Skipped' }));
+
+    transactionManagement.importFlow.setLoading(false);
+
+    if (parsed.length === 0) {
+      transactionManagement.importFlow.setQueue([]);
+      showMessage(`No files imported${skippedFiles.length > 0 ? `: ${skippedFiles.map(file => `${file.fileName} (${file.reason})`).join(', ')}` : ''}`);
+      return;
+    }
+
+    transactionManagement.importFlow.updateImportState((prev: ImportState) => ({
+      ...prev,
+      fileName: parsed.length === 1 ? parsed[0].file.name : `${parsed.length} files`
+    }));
+    showValidatedResult(importService.combineResults(parsed.map(entry => entry.result!), skippedFiles));
+  }, [transactionManagement.importFlow, showValidatedResult, showMessage]);
+
+  // Parses waiting files in order. Files with a profile, an earlier queue mapping or a complete
+  // detected mapping go straight through; the first ambiguous one opens the column mapping and
+  // the run stops until resumeQueue picks it up again.
+  const runQueue = useCallback(async (initial: QueuedFile[]) => {
+    let queue = initial;
+    const update = (id: string, changes: Partial<QueuedFile>) => {
+      queue = queue.map(entry => entry.id === id ? { ...entry, ...changes } : entry);
+      transactionManagement.importFlow.setQueue(queue);
+    };
+
+    transactionManagement.importFlow.setLoading(true);
+
+    for (const entry of initial.filter(queued => queued.status === 'waiting')) {
+      update(entry.id, { status: 'processing' });
+      transactionManagement.importFlow.setSelectedFile(entry.file, entry.file.name);
+
+      try {
+        const importFile = await importService.createImportFileFromBrowser(entry.file);
+        let mapping: ImportMapping | undefined;
+        let mappedBy: QueuedFile['mappedBy'];
+        let headerFingerprint: string | undefined;
+
+        if (importService.requiresColumnMapping(importFile)) {
+          const preview = await importService.extractFilePreview(importFile);
+          const auto = importService.findAutoMapping(preview, queueMappings(queue));
+          headerFingerprint = preview.headerFingerprint;
+
+          if (!auto) {
+            update(entry.id, { status: 'needsMapping', headerFingerprint });
+            transactionManagement.importFlow.setLoading(false);
+            transactionManagement.importFlow.setFileData(entry.file, entry.file.name, preview);
+            return;
+          }
+          mapping = auto.mapping;
+          mappedBy = auto.source;
+        }
+
+        const result = await parseFile(importFile, mapping);
+        if (!result) {
+          transactionManagement.importFlow.setQueue([]);
+          return;
+        }
+        update(entry.id, { status: 'parsed', result, mapping, mappedBy, headerFingerprint });
+      } catch (error) {
+        console.error(`Failed to import ${entry.file.name}:`, error);
+        update(entry.id, { status: 'failed', error: error instanceof Error ? error.message : 'Unknown error' });
+      }
+    }
+
+    finishQueue(queue);
+  }, [transactionManagement.importFlow, parseFile, finishQueue]);
+
+  // Continues a paused queue with the user's mapping, or skips the file when there is none
+  const resumeQueue = useCallback(async (mapping: ImportMapping | ImportMapping[] | null) => {
+    const queue: QueuedFile[] = transactionManagement.importFlow.importState.queue;
+    const pending = queue.find(entry => entry.status === 'needsMapping');
+    if (!pending) {
+      return;
+    }
+
+    transactionManagement.importFlow.closeColumnMapping();
+    let changes: Partial<QueuedFile> = { status: 'skipped', error: 'Column mapping was skipped' };
+
+    if (mapping) {
+      try {
+        const importFile = await importService.createImportFileFromBrowser(pending.file);
+        const result = await parseFile(importFile, mapping);
+        if (!result) {
+          transactionManagement.importFlow.setQueue([]);
+          return;
+        }
+        changes = { status: 'parsed', result, mapping, mappedBy: 'user' };
+      } catch (error) {
+        console.error(`Failed to import ${pending.file.name}:`, error);
+        changes = { status: 'failed', error: error instanceof Error ? error.message : 'Unknown error' };
+      }
+    }
+
+    const next = queue.map(entry => entry.id === pending.id ? { ...entry, ...changes } : entry);
+    transactionManagement.importFlow.setQueue(next);
+    await runQueue(next);
+  }, [transactionManagement.importFlow, parseFile, runQueue]);
+
+  const handleFilesSelect = useCallback(async (files: File[]) => {
+    if (files.length <= 1) {
+      if (files[0]) {
+        await handleFileSelect(files[0]);
+      }
+      return;
+    }
+
+    const queue: QueuedFile[] = files.map(file => ({ id: uuidv4(), file, status: 'waiting' }));
+    transactionManagement.importFlow.setQueue(queue);
+    await runQueue(queue);
+  }, [transactionManagement.importFlow, handleFileSelect, runQueue]);
 
   const handleImportConfirmLocal = useCallback(async (transactions: Transaction[], ignoreDuplicates: boolean) => {
     await ErrorHandlingService.handleAsyncError(async () => {
-      await handleImportConfirm(transactions, ignoreDuplicates);
-      transactionManagement.importFlow.closeModal();
+      const result = transactionManagement.importFlow.importState.result;
+      if (!result) {
+        return;
+      }
+
+      transactionManagement.importFlow.setLoading(true);
+      const imported = await handleImportConfirm(result, transactions, ignoreDuplicates, (completed, total) => {
+        transactionManagement.importFlow.setSaveProgress({ completed, total });
+      });
+      if (imported) {
+        transactionManagement.importFlow.closeModal();
+      }
     }, {
       operation: 'Import',
       userMessage: 'Failed to import transactions'
     });
+    
+    transactionManagement.importFlow.setLoading(false);
+    transactionManagement.importFlow.setSaveProgress(null);
   }, [handleImportConfirm, transactionManagement.importFlow]);
 
-  const handleColumnMappingConfirm = useCallback(async (mapping: ImportMapping) => {
+  const handleColumnMappingConfirm = useCallback(async (mapping: ImportMapping | ImportMapping[]) => {
+    if (transactionManagement.importFlow.importState.queue.some((entry: QueuedFile) => entry.status === 'needsMapping')) {
+      await resumeQueue(mapping);
+      return;
+    }
+
     if (!transactionManagement.importFlow.importState.selectedFile || !transactionManagement.importFlow.importState.preview) {
       return;
     }
@@ -62,21 +270,10 @@ export const useTransactionCallbacks = (deps: CallbackDependencies) => {
     
     await ErrorHandlingService.handleAsyncError(async () => {
       const importFile = await importService.createImportFileFromBrowser(transactionManagement.importFlow.importState.selectedFile);
-      const result = await importService.previewImport(importFile, mapping);
+      const result = await parseFile(importFile, mapping);
+      if (!result) return;
       
-      const normalizedData = TransformationService.normalizeTransactionData(result.transactions);
-      const validationResult = ValidationService.validateImportData(normalizedData);
-      
-      transactionManagement.importFlow.setImportResult({
-        ...result,
-        transactions: validationResult.validRows as Transaction[],
-        errors: validationResult.invalidRows.map(row => ({
-          row: row.index,
-          column: 'validation',
-          error: row.errors.map(e => e.message).join(', '),
-          rawData: row.row
-        }))
-      });
+      showValidatedResult(result);
       
       transactionManagement.importFlow.closeColumnMapping();
     }, {
@@ -84,6 +281,37 @@ export const useTransactionCallbacks = (deps: CallbackDependencies) => {
       userMessage: 'Failed to process the file with your mapping'
     });
     
+    transactionManagement.importFlow.setLoading(false);
+  }, [transactionManagement.importFlow, showValidatedResult, parseFile, resumeQueue]);
+
+  // Dismissing the mapping of a queued file skips that file and carries on with the rest
+  const handleColumnMappingDismiss = useCallback(async () => {
+    if (transactionManagement.importFlow.importState.queue.some((entry: QueuedFile) => entry.status === 'needsMapping')) {
+      await resumeQueue(null);
+      return;
+    }
+
+    transactionManagement.importFlow.closeColumnMapping();
+  }, [transactionManagement.importFlow, resumeQueue]);
+
+  // PDF statements are re-split with the new layout and the mapping starts over on the new columns
+  const handlePdfLayoutChange = useCallback(async (pdfLayout: PdfLayout) => {
+    const { selectedFile, fileName } = transactionManagement.importFlow.importState;
+    if (!selectedFile) {
+      return;
+    }
+
+    transactionManagement.importFlow.setLoading(true);
+
+    await ErrorHandlingService.handleAsyncError(async () => {
+      const importFile = await importService.createImportFileFromBrowser(selectedFile);
+      const preview = await importService.extractFilePreview(importFile, { pdfLayout });
+      transactionManagement.importFlow.setFileData(selectedFile, fileName, preview);
+    }, {
+      operation: 'PDF Layout',
+      userMessage: 'Failed to read the PDF with this layout'
+    });
+
     transactionManagement.importFlow.setLoading(false);
   }, [transactionManagement.importFlow]);
 
@@ -140,8 +368,11 @@ export const useTransactionCallbacks = (deps: CallbackDependencies) => {
 
   return {
     handleFileSelect,
+    handleFilesSelect,
     handleImportConfirmLocal,
     handleColumnMappingConfirm,
+    handleColumnMappingDismiss,
+    handlePdfLayoutChange,
     handleUndo,
     handleArchiveTransactionLocal,
     handleConfirmArchive
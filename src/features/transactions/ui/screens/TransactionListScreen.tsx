@@ -1,21 +1,57 @@
-import React, { useCallback, useMemo } from 'react';
+import React, { useCallback, useMemo, useState } from 'react';
 import { View, StyleSheet } from 'react-native';
+import { Button, Surface, Text } from 'react-native-paper';
 import { useBaseScreen } from '@/shared/hooks';
 import { BaseScreenLayout, MetricsSummaryHeader } from '@/shared/ui/components';
 import { TransactionCard } from '../components/TransactionCard';
+import { BulkTagModal } from '../components/BulkTagModal';
 import { Transaction } from '../../model/Transaction';
+import { useTransactionStore } from '../../store/transactionStore';
+import { theme } from '@/shared/ui/theme/theme';
 
 export const TransactionListScreen: React.FC = () => {
   const baseScreen = useBaseScreen({
     screenName: 'Transactions',
-    loadAvailableCards: true,
+    loadAvailableAccounts: true,
     enableScrollToTop: true,
     enableSwipeHandling: true
   });
 
+  const runningBalances = useTransactionStore(state => state.runningBalances);
+  const tagTransactions = useTransactionStore(state => state.tagTransactions);
+
+  // Tapping a card selects it for bulk tagging; long press still opens the editor
+  const [selectedIds, setSelectedIds] = useState<Set<string>>(new Set());
+  const [showBulkTag, setShowBulkTag] = useState(false);
+
+  const toggleSelected = useCallback((id: string) => {
+    setSelectedIds(prev => {
+      const next = new Set(prev);
+      if (next.has(id)) {
+        next.delete(id);
+      } else {
+        next.add(id);
+      }
+      return next;
+    });
+  }, []);
+
+  const selectedTransactions = useMemo(
+    () => baseScreen.filteredTransactions.filter(transaction => selectedIds.has(transaction.id)),
+    [baseScreen.filteredTransactions, selectedIds]
+  );
+
+  const handleApplyTags = useCallback(async (added: string[], removed: string[]) => {
+    await tagTransactions(selectedTransactions.map(transaction => transaction.id), added, removed);
+    setSelectedIds(new Set());
+  }, [tagTransactions, selectedTransactions]);
+
   const renderSectionItem = useCallback(({ item: transaction }: { item: Transaction }) => (
     <TransactionCard
       transaction={transaction}
+      runningBalance={runningBalances[transaction.id]}
+      isSelected={selectedIds.has(transaction.id)}
+      onPress={() => toggleSelected(transaction.id)}
       onLongPress={() => baseScreen.handleTransactionPress(transaction)}
       onCategoryPress={baseScreen.toggleCategoryFilter}
       onEdit={baseScreen.transactionManagement.editModal.open}
@@ -25,6 +61,9 @@ export const TransactionListScreen: React.FC = () => {
       onSwipeEnd={baseScreen.handleSwipeEnd}
     />
   ), [
+    runningBalances,
+    selectedIds,
+    toggleSelected,
     baseScreen.handleTransactionPress,
     baseScreen.toggleCategoryFilter,
     baseScreen.transactionManagement.editModal.open,
@@ -46,7 +85,7 @@ export const TransactionListScreen: React.FC = () => {
     filters: baseScreen.filters,
     setFilters: baseScreen.setFilters,
     clearFilters: baseScreen.clearFilters,
-    availableCards: baseScreen.availableCards,
+    availableAccounts: baseScreen.availableAccounts,
     transactions: baseScreen.transactions,
     screenTitle: 'Transactions'
   }), [
@@ -55,7 +94,7 @@ export const TransactionListScreen: React.FC = () => {
     baseScreen.filters, 
     baseScreen.setFilters, 
     baseScreen.clearFilters, 
-    baseScreen.availableCards, 
+    baseScreen.availableAccounts, 
     baseScreen.transactions
   ]);
 
@@ -94,6 +133,48 @@ export const TransactionListScreen: React.FC = () => {
         }}
       />
 
+      {selectedTransactions.length > 0 && (
+        <Surface style={styles.selectionBar} elevation={3}>
+          <Text variant="titleSmall" style={styles.selectionText}>
+            {selectedTransactions.length} selected
+          </Text>
+          <Button compact onPress={() => setSelectedIds(new Set(baseScreen.filteredTransactions.map(transaction => transaction.id)))}>
+            Select All
+          </Button>
+          <Button compact onPress={() => setSelectedIds(new Set())}>
+            Clear
+          </Button>
+          <Button compact mode="contained" icon="tag-multiple" onPress={() => setShowBulkTag(true)}>
+            Tag
+          </Button>
+        </Surface>
+      )}
+
+      <BulkTagModal
+        visible={showBulkTag}
+        transactions={selectedTransactions}
+        onClose={() => setShowBulkTag(false)}
+        onApply={handleApplyTags}
+      />
     </>
   );
-}; 
\ No newline at end of file
+};
+
+const styles = StyleSheet.create({
+  selectionBar: {
+    position: 'absolute',
+    left: theme.spacing.md,
+    right: theme.spacing.md,
+    bottom: theme.spacing.md,
+    flexDirection: 'row',
+    alignItems: 'center',
+    gap: theme.spacing.xs,
+    padding: theme.spacing.sm,
+    borderRadius: theme.borderRadius.lg,
+    backgroundColor: theme.colors.surface,
+  },
+  selectionText: {
+    flex: 1,
+    marginLeft: theme.spacing.sm,
+  },
+}); 
\ No newline at end of file
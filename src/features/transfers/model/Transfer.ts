@@ -0,0 +1,32 @@
+import { Transaction } from '@/features/transactions/model/Transaction';
+import { SplitLine, categoryLines } from '@/features/transactions/model/Split';
+import { categoryKey } from '@/features/categories/service/CategoryTree';
+
+export type TransferStatus = 'confirmed' | 'rejected';
+
+// A decided pair of transactions; rejected pairs are kept so they aren't suggested again
+export interface Transfer {
+  id: string; // Stored as transferId on both transactions when confirmed
+  outflowId: string;
+  inflowId: string;
+  amount: number; // Absolute amount moved
+  status: TransferStatus;
+  createdAt: string;
+}
+
+// Transfers move money between own cards and are neither income nor expense
+export const isTransfer = (transaction: Transaction): boolean => !!transaction.transferId;
+
+// The lines counted as income or expense: none for a confirmed transfer, and none in a transfer-type
+// category (keys from CategoryTree.transferKeys). The balance card and analytics both total these.
+export const countedLines = (transaction: Transaction, transferCategories: Set<string>): SplitLine[] =>
+  isTransfer(transaction)
+    ? []
+    : categoryLines(transaction).filter(line => !transferCategories.has(categoryKey(line.category || '')));
+
+// An opposite-signed pair the matcher thinks is one movement between own cards
+export interface TransferCandidate {
+  outflow: Transaction;
+  inflow: Transaction;
+  daysApart: number;
+}
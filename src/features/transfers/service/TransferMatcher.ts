@@ -0,0 +1,63 @@
+import { Transaction } from '@/features/transactions/model/Transaction';
+import { TransferCandidate } from '../model/Transfer';
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+export const DEFAULT_TRANSFER_WINDOW_DAYS = 3;
+
+export const pairKey = (outflowId: string, inflowId: string) => `${outflowId}:${inflowId}`;
+
+const accountKey = (transaction: Transaction) => transaction.accountId || transaction.card;
+
+const amountKey = (transaction: Transaction) =>
+  `${transaction.currency}:${Math.round(Math.abs(transaction.amount) * 100)}`;
+
+/**
+ * Pairs an outflow on one card with an inflow of the same amount and currency
+ * on another card within the time window. Each transaction joins at most one
+ * pair; closer dates are paired first.
+ */
+export class TransferMatcher {
+  static findCandidates(
+    transactions: Transaction[],
+    windowDays = DEFAULT_TRANSFER_WINDOW_DAYS,
+    rejectedPairs: Set<string> = new Set()
+  ): TransferCandidate[] {
+    const open = transactions.filter(t => !t.transferId && t.isArchived !== true);
+
+    // Inflows bucketed by currency and amount in cents, so each outflow only meets equal amounts
+    const inflowsByAmount = new Map<string, Transaction[]>();
+    open.filter(t => t.amount > 0).forEach(inflow => {
+      const key = amountKey(inflow);
+      const bucket = inflowsByAmount.get(key) || [];
+      bucket.push(inflow);
+      inflowsByAmount.set(key, bucket);
+    });
+
+    const possible: TransferCandidate[] = [];
+    open.filter(t => t.amount < 0).forEach(outflow => {
+      const outflowTime = new Date(outflow.date).getTime();
+
+      (inflowsByAmount.get(amountKey(outflow)) || []).forEach(inflow => {
+        if (accountKey(inflow) === accountKey(outflow) || rejectedPairs.has(pairKey(outflow.id, inflow.id))) return;
+
+        const daysApart = Math.abs(new Date(inflow.date).getTime() - outflowTime) / DAY_MS;
+        if (daysApart <= windowDays) {
+          possible.push({ outflow, inflow, daysApart });
+        }
+      });
+    });
+
+    const used = new Set<string>();
+    return possible
+      .sort((a, b) => a.daysApart - b.daysApart)
+      .filter(candidate => {
+        if (used.has(candidate.outflow.id) || used.has(candidate.inflow.id)) {
+          return false;
+        }
+        used.add(candidate.outflow.id);
+        used.add(candidate.inflow.id);
+        return true;
+      });
+  }
+}
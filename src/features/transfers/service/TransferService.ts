@@ -0,0 +1,40 @@
+import { transactionRepository } from '@/features/transactions/storage/TransactionRepository';
+import { Transaction } from '@/features/transactions/model/Transaction';
+import { Transfer, TransferCandidate } from '../model/Transfer';
+import { transferRepository } from '../storage/TransferRepository';
+import { TransferMatcher, pairKey } from './TransferMatcher';
+
+export interface LinkedTransfer {
+  transfer: Transfer;
+  outflow?: Transaction; // Missing when a leg was deleted since
+  inflow?: Transaction;
+}
+
+export class TransferService {
+
+  async detect(windowDays: number): Promise<TransferCandidate[]> {
+    const [transactions, rejected] = await Promise.all([
+      transactionRepository.findAll(),
+      transferRepository.findAll('rejected')
+    ]);
+
+    const rejectedPairs = new Set(rejected.map(transfer => pairKey(transfer.outflowId, transfer.inflowId)));
+    return TransferMatcher.findCandidates(transactions, windowDays, rejectedPairs);
+  }
+
+  async findLinked(): Promise<LinkedTransfer[]> {
+    const [transfers, transactions] = await Promise.all([
+      transferRepository.findAll('confirmed'),
+      transactionRepository.findAll({ includeArchived: true })
+    ]);
+
+    const byId = new Map(transactions.map(transaction => [transaction.id, transaction]));
+    return transfers.map(transfer => ({
+      transfer,
+      outflow: byId.get(transfer.outflowId),
+      inflow: byId.get(transfer.inflowId)
+    }));
+  }
+}
+
+export const transferService = new TransferService();
@@ -0,0 +1,88 @@
+import { v4 as uuidv4 } from 'uuid';
+import { db } from '@/features/transactions/storage/TransactionDatabase';
+import { Transaction } from '@/features/transactions/model/Transaction';
+import { Transfer, TransferStatus } from '../model/Transfer';
+
+export class TransferRepository {
+
+  async findAll(status?: TransferStatus): Promise<Transfer[]> {
+    const transfers = status
+      ? await db.transfers.where('status').equals(status).toArray()
+      : await db.transfers.toArray();
+    return transfers.sort((a, b) => b.createdAt.localeCompare(a.createdAt));
+  }
+
+  // Links both legs through transferId, all or nothing
+  async confirm(outflow: Transaction, inflow: Transaction): Promise<Transfer> {
+    const transfer = this.build(outflow, inflow, 'confirmed');
+
+    await db.transaction('rw', db.transfers, db.transactions, async () => {
+      await db.transfers.add(transfer);
+      await db.transactions.bulkUpdate([
+        { key: outflow.id, changes: { transferId: transfer.id } },
+        { key: inflow.id, changes: { transferId: transfer.id } }
+      ]);
+    });
+
+    console.log('✅ Transfer confirmed:', transfer.id);
+    return transfer;
+  }
+
+  async reject(outflow: Transaction, inflow: Transaction): Promise<Transfer> {
+    const transfer = this.build(outflow, inflow, 'rejected');
+    await db.transfers.add(transfer);
+    return transfer;
+  }
+
+  // Removes the link; the two transactions count as income and expense again
+  async unlink(id: string): Promise<void> {
+    await db.transaction('rw', db.transfers, db.transactions, async () => {
+      const transfer = await db.transfers.get(id);
+      if (!transfer) {
+        throw new Error(`Transfer with id ${id} not found`);
+      }
+
+      await db.transactions.bulkUpdate([
+        { key: transfer.outflowId, changes: { transferId: undefined } },
+        { key: transfer.inflowId, changes: { transferId: undefined } }
+      ]);
+      await db.transfers.delete(id);
+    });
+
+    console.log('✅ Transfer unlinked:', id);
+  }
+
+  // Drops the transfers of deleted transactions and unlinks the legs that remain.
+  // Run inside a transaction that includes db.transfers and db.transactions.
+  async removeForTransactions(transactionIds: string[]): Promise<void> {
+    const [outgoing, incoming] = await Promise.all([
+      db.transfers.where('outflowId').anyOf(transactionIds).toArray(),
+      db.transfers.where('inflowId').anyOf(transactionIds).toArray()
+    ]);
+    const transfers = Array.from(new Map([...outgoing, ...incoming].map(transfer => [transfer.id, transfer])).values());
+    if (transfers.length === 0) return;
+
+    const deletedIds = new Set(transactionIds);
+    const remainingLegs = transfers
+      .filter(transfer => transfer.status === 'confirmed')
+      .flatMap(transfer => [transfer.outflowId, transfer.inflowId])
+      .filter(id => !deletedIds.has(id));
+
+    await db.transactions.bulkUpdate(remainingLegs.map(key => ({ key, changes: { transferId: undefined } })));
+    await db.transfers.bulkDelete(transfers.map(transfer => transfer.id));
+    console.log(`✅ ${transfers.length} transfers removed with their transactions`);
+  }
+
+  private build(outflow: Transaction, inflow: Transaction, status: TransferStatus): Transfer {
+    return {
+      id: uuidv4(),
+      outflowId: outflow.id,
+      inflowId: inflow.id,
+      amount: Math.abs(outflow.amount),
+      status,
+      createdAt: new Date().toISOString()
+    };
+  }
+}
+
+export const transferRepository = new TransferRepository();
@@ -0,0 +1,247 @@
+import React, { useState, useEffect, useCallback } from 'react';
+import { View, ScrollView, StyleSheet } from 'react-native';
+import { Card, Text, Button, Chip, Divider, ActivityIndicator } from 'react-native-paper';
+import { SafeAreaView } from 'react-native-safe-area-context';
+import { Transaction } from '@/features/transactions/model/Transaction';
+import { useTransactionStore } from '@/features/transactions/store/transactionStore';
+import { TransferCandidate } from '../../model/Transfer';
+import { transferRepository } from '../../storage/TransferRepository';
+import { transferService, LinkedTransfer } from '../../service/TransferService';
+import { ModalHeader } from '@/shared/ui/components/ModalHeader';
+import { useSettingsStore } from '@/shared/store/settingsStore';
+import { formatCurrency } from '@/shared/utils/currencyUtils';
+import { formatDate } from '@/shared/utils/dateUtils';
+import { theme } from '@/shared/ui/theme/theme';
+
+interface TransfersScreenProps {
+  onClose: () => void;
+}
+
+const WINDOW_OPTIONS = [1, 3, 7, 14];
+
+const describeLeg = (transaction?: Transaction) =>
+  transaction
+    ? `${formatDate(transaction.date)} · ${transaction.card} · ${transaction.payee || transaction.description}`
+    : 'Deleted transaction';
+
+export const TransfersScreen: React.FC<TransfersScreenProps> = ({ onClose }) => {
+  const loadTransactions = useTransactionStore(state => state.loadTransactions);
+  const transferWindowDays = useSettingsStore(state => state.transferWindowDays);
+  const setTransferWindowDays = useSettingsStore(state => state.setTransferWindowDays);
+
+  const [candidates, setCandidates] = useState<TransferCandidate[]>([]);
+  const [linked, setLinked] = useState<LinkedTransfer[]>([]);
+  const [isLoading, setIsLoading] = useState(true);
+  const [busyId, setBusyId] = useState<string | null>(null);
+  const [error, setError] = useState<string | null>(null);
+
+  const loadTransfers = useCallback(async () => {
+    setIsLoading(true);
+    try {
+      const [detected, confirmed] = await Promise.all([
+        transferService.detect(transferWindowDays),
+        transferService.findLinked()
+      ]);
+      setCandidates(detected);
+      setLinked(confirmed);
+    } catch (loadError) {
+      console.error('Failed to load transfers:', loadError);
+      setError('Failed to load transfers');
+    } finally {
+      setIsLoading(false);
+    }
+  }, [transferWindowDays]);
+
+  useEffect(() => {
+    loadTransfers();
+  }, [loadTransfers]);
+
+  // Every decision reloads both lists and the transaction store, whose balance excludes transfers
+  const runAction = async (id: string, action: () => Promise<unknown>) => {
+    setBusyId(id);
+    setError(null);
+    try {
+      await action();
+      await Promise.all([loadTransfers(), loadTransactions()]);
+    } catch (actionError) {
+      console.error('❌ Transfer update failed:', actionError);
+      setError(`Transfer update failed: ${actionError instanceof Error ? actionError.message : 'Unknown error'}`);
+    } finally {
+      setBusyId(null);
+    }
+  };
+
+  const renderPair = (outflow: Transaction | undefined, inflow: Transaction | undefined, amount: number, currency: string) => (
+    <>
+      <View style={styles.pairHeader}>
+        <Text variant="titleSmall">
+          {outflow?.card || '—'} → {inflow?.card || '—'}
+        </Text>
+        <Text variant="titleSmall">{formatCurrency(amount, currency)}</Text>
+      </View>
+      <Text variant="bodySmall" style={styles.legText} numberOfLines={1}>Out: {describeLeg(outflow)}</Text>
+      <Text variant="bodySmall" style={styles.legText} numberOfLines={1}>In: {describeLeg(inflow)}</Text>
+    </>
+  );
+
+  return (
+    <SafeAreaView style={styles.container}>
+      <ModalHeader
+        title="Transfers"
+        variant="screen"
+        leftAction={{
+          label: "Back",
+          onPress: onClose
+        }}
+      />
+
+      <ScrollView style={styles.content}>
+        <Text variant="bodySmall" style={styles.hintText}>
+          Confirmed transfers between your own cards are left out of income, expenses and analytics.
+        </Text>
+
+        <Text variant="bodyMedium">Match legs up to</Text>
+        <View style={styles.chips}>
+          {WINDOW_OPTIONS.map(days => (
+            <Chip
+              key={days}
+              compact
+              selected={transferWindowDays === days}
+              onPress={() => setTransferWindowDays(days)}
+            >
+              {days === 1 ? '1 day' : `${days} days`} apart
+            </Chip>
+          ))}
+        </View>
+
+        {error && (
+          <Text variant="bodyMedium" style={styles.errorText}>{error}</Text>
+        )}
+
+        <Text variant="titleMedium" style={styles.sectionTitle}>
+          Suggested ({candidates.length})
+        </Text>
+        {isLoading && candidates.length === 0 ? (
+          <ActivityIndicator style={styles.loader} />
+        ) : candidates.length === 0 ? (
+          <Text variant="bodyMedium" style={styles.emptyText}>
+            No unmatched transfers found.
+          </Text>
+        ) : (
+          candidates.map(({ outflow, inflow }) => (
+            <Card key={outflow.id} style={styles.pairCard}>
+              <Card.Content>
+                {renderPair(outflow, inflow, Math.abs(outflow.amount), outflow.currency)}
+                <View style={styles.actions}>
+                  <Button
+                    mode="text"
+                    compact
+                    disabled={busyId === outflow.id}
+                    onPress={() => runAction(outflow.id, () => transferRepository.reject(outflow, inflow))}
+                  >
+                    Not a Transfer
+                  </Button>
+                  <Button
+                    mode="contained"
+                    compact
+                    disabled={busyId === outflow.id}
+                    onPress={() => runAction(outflow.id, () => transferRepository.confirm(outflow, inflow))}
+                  >
+                    Confirm
+                  </Button>
+                </View>
+              </Card.Content>
+            </Card>
+          ))
+        )}
+
+        <Divider style={styles.divider} />
+
+        <Text variant="titleMedium" style={styles.sectionTitle}>
+          Linked ({linked.length})
+        </Text>
+        {linked.length === 0 ? (
+          <Text variant="bodyMedium" style={styles.emptyText}>
+            No confirmed transfers yet.
+          </Text>
+        ) : (
+          linked.map(({ transfer, outflow, inflow }) => (
+            <Card key={transfer.id} style={styles.pairCard}>
+              <Card.Content>
+                {renderPair(outflow, inflow, transfer.amount, outflow?.currency || inflow?.currency || 'USD')}
+                <View style={styles.actions}>
+                  <Button
+                    mode="text"
+                    compact
+                    textColor={theme.colors.error}
+                    disabled={busyId === transfer.id}
+                    onPress={() => runAction(transfer.id, () => transferRepository.unlink(transfer.id))}
+                  >
+                    Unlink
+                  </Button>
+                </View>
+              </Card.Content>
+            </Card>
+          ))
+        )}
+      </ScrollView>
+    </SafeAreaView>
+  );
+};
+
+const styles = StyleSheet.create({
+  container: {
+    flex: 1,
+    backgroundColor: theme.colors.backgroundSecondary,
+  },
+  content: {
+    flex: 1,
+    padding: theme.spacing.md,
+  },
+  hintText: {
+    color: theme.colors.text.secondary,
+    marginBottom: theme.spacing.md,
+  },
+  chips: {
+    flexDirection: 'row',
+    flexWrap: 'wrap',
+    gap: theme.spacing.sm,
+    marginVertical: theme.spacing.sm,
+  },
+  sectionTitle: {
+    marginTop: theme.spacing.md,
+    marginBottom: theme.spacing.sm,
+    fontWeight: '600',
+  },
+  loader: {
+    marginTop: theme.spacing.lg,
+  },
+  emptyText: {
+    color: theme.colors.text.secondary,
+    marginBottom: theme.spacing.md,
+  },
+  errorText: {
+    color: theme.colors.error,
+    marginVertical: theme.spacing.sm,
+  },
+  pairCard: {
+    marginBottom: theme.spacing.md,
+  },
+  pairHeader: {
+    flexDirection: 'row',
+    justifyContent: 'space-between',
+    marginBottom: theme.spacing.xs,
+  },
+  legText: {
+    color: theme.colors.text.secondary,
+  },
+  actions: {
+    flexDirection: 'row',
+    justifyContent: 'flex-end',
+    gap: theme.spacing.sm,
+    marginTop: theme.spacing.sm,
+  },
+  divider: {
+    marginVertical: theme.spacing.md,
+  },
+});
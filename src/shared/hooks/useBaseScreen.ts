@@ -7,10 +7,11 @@ import { useTransactionCallbacks } from '@/features/transactions/ui/hooks/useTra
 import { initializeDatabase } from '@/features/transactions/storage/TransactionDatabase';
 import { useSettingsStore } from '@/shared/store/settingsStore';
 import { UI_CONSTANTS } from '@/shared/constants/ui';
+import { Account } from '@/features/accounts/model/Account';
 
 export interface BaseScreenConfig {
   screenName: string;
-  loadAvailableCards?: boolean;
+  loadAvailableAccounts?: boolean;
   enableScrollToTop?: boolean;
   enableSwipeHandling?: boolean;
 }
@@ -27,12 +28,12 @@ export const useBaseScreen = (config: BaseScreenConfig) => {
     toggleCategoryFilter,
     clearFilters,
     getBalance,
-    getAvailableCards
+    getAvailableAccounts
   } = useTransactionStore();
 
   const transactionManagement = useTransactionManagementContext();
   const [isInitialized, setIsInitialized] = useState(false);
-  const [availableCards, setAvailableCards] = useState<string[]>([]);
+  const [availableAccounts, setAvailableAccounts] = useState<Account[]>([]);
   const [showScrollToTop, setShowScrollToTop] = useState(false);
   const [isAnyCardSwiping, setIsAnyCardSwiping] = useState(false);
   
@@ -77,6 +78,7 @@ export const useBaseScreen = (config: BaseScreenConfig) => {
 
   const {
     handleFileSelect,
+    handleFilesSelect,
     handleImportConfirmLocal,
     handleColumnMappingConfirm,
     handleUndo,
@@ -99,22 +101,22 @@ export const useBaseScreen = (config: BaseScreenConfig) => {
     initApp();
   }, [loadTransactions, config.screenName]);
 
-  // Load available cards effect (conditional)
+  // Load available accounts effect (conditional)
   useEffect(() => {
-    if (!config.loadAvailableCards) return;
+    if (!config.loadAvailableAccounts) return;
 
-    const loadAvailableCardsAsync = async () => {
+    const loadAvailableAccountsAsync = async () => {
       try {
-        const cards = await getAvailableCards();
-        setAvailableCards(cards);
+        const accounts = await getAvailableAccounts();
+        setAvailableAccounts(accounts);
       } catch (error) {
-        console.error('Failed to load available cards:', error);
-        setAvailableCards([]);
+        console.error('Failed to load available accounts:', error);
+        setAvailableAccounts([]);
       }
     };
 
-    loadAvailableCardsAsync();
-  }, [filters.dateRange, getAvailableCards, config.loadAvailableCards]);
+    loadAvailableAccountsAsync();
+  }, [filters.dateRange, getAvailableAccounts, config.loadAvailableAccounts]);
 
   // Swipe handling (conditional)
   const handleSwipeStart = useCallback(() => {
@@ -189,7 +191,8 @@ export const useBaseScreen = (config: BaseScreenConfig) => {
     currentFilters: filters,
     error,
     onAddTransaction: transactionManagement.addModal.open,
-    onFileSelect: handleFileSelect
+    onFileSelect: handleFileSelect,
+    onFilesSelect: handleFilesSelect
   }), [
     balanceData,
     filteredTransactions.length,
@@ -197,7 +200,8 @@ export const useBaseScreen = (config: BaseScreenConfig) => {
     filters,
     error,
     transactionManagement.addModal.open,
-    handleFileSelect
+    handleFileSelect,
+    handleFilesSelect
   ]);
 
   // Common SectionList props
@@ -223,7 +227,7 @@ export const useBaseScreen = (config: BaseScreenConfig) => {
     transactions,
     filteredTransactions,
     filters,
-    availableCards,
+    availableAccounts,
     showScrollToTop,
     isAnyCardSwiping,
     balanceData,
@@ -244,6 +248,7 @@ export const useBaseScreen = (config: BaseScreenConfig) => {
     handleTransactionPress,
     handleUpdateTransaction,
     handleFileSelect,
+    handleFilesSelect,
     handleImportConfirmLocal,
     handleColumnMappingConfirm,
     handleUndo,
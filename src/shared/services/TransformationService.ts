@@ -3,6 +3,7 @@ import { Transaction } from '../../features/transactions/model/Transaction';
 export class TransformationService {
   static normalizeTransactionData(rawData: any[]): Transaction[] {
     return rawData.map(item => ({
+      ...item,
       id: item.id || this.generateId(),
       amount: parseFloat(item.amount) || 0,
       description: String(item.description || '').trim(),
@@ -11,7 +12,7 @@ export class TransformationService {
       date: this.parseDate(item.date),
       currency: item.currency || 'USD',
       card: item.card || 'Default',
-      isDuplicate: false,
+      isDuplicate: Boolean(item.isDuplicate),
       comment: item.comment || '',
       createdAt: new Date().toISOString(),
       isArchived: false
@@ -1,11 +1,16 @@
 import { create } from 'zustand';
+import { DEFAULT_TRANSFER_WINDOW_DAYS } from '@/features/transfers/service/TransferMatcher';
 
 interface SettingsState {
   confirmDeleteTransactions: boolean;
+  transferWindowDays: number; // How far apart the two legs of a transfer may be dated
   setConfirmDeleteTransactions: (value: boolean) => void;
+  setTransferWindowDays: (value: number) => void;
 }
 
 export const useSettingsStore = create<SettingsState>((set) => ({
   confirmDeleteTransactions: true,
+  transferWindowDays: DEFAULT_TRANSFER_WINDOW_DAYS,
   setConfirmDeleteTransactions: (value) => set({ confirmDeleteTransactions: value }),
+  setTransferWindowDays: (value) => set({ transferWindowDays: value }),
 })); 
\ No newline at end of file
@@ -2,18 +2,21 @@ import React from 'react';
 import { View, StyleSheet, ViewStyle } from 'react-native';
 import { Button } from 'react-native-paper';
 import { ImportButton } from '@/features/import/ui/components/ImportButton';
+import { PasteTransactionsButton } from '@/features/import/ui/components/PasteTransactionsButton';
 import { theme } from '@/shared/ui/theme/theme';
 import { UI_CONSTANTS } from '@/shared/constants/ui';
 
 interface ActionButtonRowProps {
   onAddTransaction?: () => void;
   onFileSelect?: (file: File) => void;
+  onFilesSelect?: (files: File[]) => void;
   style?: ViewStyle;
 }
 
 export const ActionButtonRow: React.FC<ActionButtonRowProps> = ({
   onAddTransaction,
   onFileSelect,
+  onFilesSelect,
   style,
 }) => {
   if (!onAddTransaction && !onFileSelect) {
@@ -38,11 +41,21 @@ export const ActionButtonRow: React.FC<ActionButtonRowProps> = ({
       {onFileSelect && (
         <ImportButton 
           onFileSelect={onFileSelect} 
+          onFilesSelect={onFilesSelect}
           style={styles.actionButton}
           contentStyle={styles.actionButtonContent}
           labelStyle={styles.actionButtonLabel}
         />
       )}
+
+      {onFileSelect && (
+        <PasteTransactionsButton
+          onFileSelect={onFileSelect}
+          style={styles.pasteButton}
+          contentStyle={styles.actionButtonContent}
+          labelStyle={styles.actionButtonLabel}
+        />
+      )}
     </View>
   );
 };
@@ -61,6 +74,10 @@ const styles = StyleSheet.create({
     borderRadius: theme.borderRadius.md,
     ...theme.shadows.sm,
   },
+  pasteButton: {
+    minHeight: UI_CONSTANTS.BUTTON_HEIGHT.MEDIUM,
+    borderRadius: theme.borderRadius.md,
+  },
   actionButtonLabel: {
     fontSize: 14,
     fontWeight: UI_CONSTANTS.FONT_WEIGHTS.SEMIBOLD,
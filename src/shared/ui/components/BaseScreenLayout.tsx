@@ -5,6 +5,7 @@ import { EmptyState } from '@/shared/ui/components/EmptyState';
 import { MetricsSummaryHeader } from '@/shared/ui/components';
 import { TransactionFilterContainer } from '@/shared/ui/components/TransactionFilter/TransactionFilterContainer';
 import { TransactionFilters, Transaction } from '@/features/transactions/model/Transaction';
+import { Account } from '@/features/accounts/model/Account';
 import { theme } from '@/shared/ui/theme/theme';
 
 export interface BaseScreenLayoutProps {
@@ -29,6 +30,7 @@ export interface BaseScreenLayoutProps {
     error: string | null;
     onAddTransaction: () => void;
     onFileSelect: (file: File) => void;
+    onFilesSelect: (files: File[]) => void;
   };
   
   // Sticky header props (TransactionFilterContainer)
@@ -38,7 +40,7 @@ export interface BaseScreenLayoutProps {
     filters: TransactionFilters;
     setFilters: (filters: Partial<TransactionFilters>) => void;
     clearFilters: () => void;
-    availableCards: string[];
+    availableAccounts: Account[];
     transactions: Transaction[];
     screenTitle?: string;
   };
@@ -17,6 +17,7 @@ export interface MetricsSummaryHeaderProps {
   error?: string | null;
   onAddTransaction?: () => void;
   onFileSelect?: (file: File) => void;
+  onFilesSelect?: (files: File[]) => void;
   style?: ViewStyle;
 }
 
@@ -28,6 +29,7 @@ export const MetricsSummaryHeader: React.FC<MetricsSummaryHeaderProps> = ({
   error,
   onAddTransaction,
   onFileSelect,
+  onFilesSelect,
   style,
 }) => {
   const { filters, setFilters } = useTransactionStore();
@@ -63,6 +65,7 @@ export const MetricsSummaryHeader: React.FC<MetricsSummaryHeaderProps> = ({
       <ActionButtonRow
         onAddTransaction={onAddTransaction}
         onFileSelect={onFileSelect}
+        onFilesSelect={onFilesSelect}
       />
 
       <ErrorDisplay error={error} />
@@ -21,7 +21,8 @@ export const TransactionFilter: React.FC<TransactionFilterProps> = ({
   const activeFiltersCount = React.useMemo(() => {
     let count = 0;
     if (filters.categories && filters.categories.length > 0) count += filters.categories.length;
-    if (filters.cards && filters.cards.length > 0) count += filters.cards.length;
+    if (filters.accountIds && filters.accountIds.length > 0) count += filters.accountIds.length;
+    if (filters.tags && filters.tags.length > 0) count += filters.tags.length;
     if (filters.isIncome !== undefined) count++;
     if (filters.searchQuery) count++;
     return count;
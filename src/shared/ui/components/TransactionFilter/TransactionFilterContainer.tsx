@@ -3,6 +3,7 @@ import { TransactionFilter } from './TransactionFilter';
 import { useTransactionFilter } from './useTransactionFilter';
 import { TransactionFiltersModal } from '../../../../features/transactions/ui/components/TransactionFilters';
 import { TransactionFilters, Transaction } from '../../../../features/transactions/model/Transaction';
+import { Account } from '../../../../features/accounts/model/Account';
 
 interface TransactionFilterContainerProps {
   transactionCount: number;
@@ -10,7 +11,7 @@ interface TransactionFilterContainerProps {
   filters: TransactionFilters;
   setFilters: (filters: Partial<TransactionFilters>) => void;
   clearFilters: () => void;
-  availableCards: string[];
+  availableAccounts: Account[];
   transactions: Transaction[];
   screenTitle?: string;
 }
@@ -21,7 +22,7 @@ export const TransactionFilterContainer: React.FC<TransactionFilterContainerProp
   filters,
   setFilters,
   clearFilters,
-  availableCards,
+  availableAccounts,
   transactions,
   screenTitle
 }) => {
@@ -32,7 +33,7 @@ export const TransactionFilterContainer: React.FC<TransactionFilterContainerProp
     filters,
     setFilters,
     clearFilters,
-    availableCards,
+    availableAccounts,
     transactions
   });
 
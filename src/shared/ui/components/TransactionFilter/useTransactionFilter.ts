@@ -1,11 +1,12 @@
 import { useState, useCallback } from 'react';
 import { TransactionFilters } from '../../../../features/transactions/model/Transaction';
+import { Account } from '../../../../features/accounts/model/Account';
 
 interface UseTransactionFilterProps {
   filters: TransactionFilters;
   setFilters: (filters: Partial<TransactionFilters>) => void;
   clearFilters: () => void;
-  availableCards: string[];
+  availableAccounts: Account[];
   transactions: any[];
 }
 
@@ -13,7 +14,7 @@ export const useTransactionFilter = ({
   filters,
   setFilters,
   clearFilters,
-  availableCards,
+  availableAccounts,
   transactions
 }: UseTransactionFilterProps) => {
   const [showFiltersModal, setShowFiltersModal] = useState(false);
@@ -48,7 +49,7 @@ export const useTransactionFilter = ({
       currentFilters: filters,
       onApplyFilters: handleApplyFilters,
       onClearFilters: handleClearFilters,
-      availableCards,
+      availableAccounts,
       transactions
     }
   };
@@ -3,6 +3,9 @@ import { Portal, Snackbar } from 'react-native-paper';
 import { AddTransactionModal } from '@/features/transactions/ui/components/AddTransactionModal';
 import { ImportPreviewModal } from '@/features/import/ui/components/ImportPreviewModal';
 import { ColumnMappingModal } from '@/features/import/ui/components/ColumnMappingModal';
+import { ImportProgressDialog } from '@/features/import/ui/components/ImportProgressDialog';
+import { FileDropOverlay } from '@/features/import/ui/components/FileDropOverlay';
+import { useFileDrop } from '@/features/import/ui/hooks/useFileDrop';
 import { ConfirmationDialog } from '@/shared/ui/components';
 import { UI_CONSTANTS } from '@/shared/constants/ui';
 import { useTransactionStore } from '@/features/transactions/store/transactionStore';
@@ -54,15 +57,28 @@ export const TransactionModalsContainer: React.FC<TransactionModalsContainerProp
 
   const {
     handleFileSelect,
+    handleFilesSelect,
     handleImportConfirmLocal,
     handleColumnMappingConfirm,
+    handleColumnMappingDismiss,
+    handlePdfLayoutChange,
     handleUndo,
     handleArchiveTransactionLocal,
     handleConfirmArchive
   } = useTransactionCallbacks(callbackDependencies);
 
+  const { importState } = transactionManagement.importFlow;
+  const isImportBusy = importState.isLoading || importState.showModal || importState.showColumnMapping;
+  const { isDragging } = useFileDrop(handleFilesSelect, !isImportBusy);
+
+  // 1-based position of the file being parsed or mapped in a multi-file import
+  const queueIndex = importState.queue.findIndex(entry => entry.status === 'processing' || entry.status === 'needsMapping');
+  const queuePosition = queueIndex >= 0 ? { current: queueIndex + 1, total: importState.queue.length } : undefined;
+
   return (
     <Portal>
+      <FileDropOverlay visible={isDragging} />
+
       <AddTransactionModal
         visible={transactionManagement.addModal.isOpen}
         onClose={transactionManagement.addModal.close}
@@ -81,20 +97,34 @@ export const TransactionModalsContainer: React.FC<TransactionModalsContainerProp
       <ImportPreviewModal
         visible={transactionManagement.importFlow.importState.showModal}
         onDismiss={transactionManagement.importFlow.closeModal}
-        onConfirm={(data) => handleImportConfirmLocal(data, false)}
+        onConfirm={handleImportConfirmLocal}
         fileName={transactionManagement.importFlow.importState.fileName}
         result={transactionManagement.importFlow.importState.result}
         isLoading={transactionManagement.importFlow.importState.isLoading}
+        progress={transactionManagement.importFlow.importState.saveProgress}
       />
 
       <ColumnMappingModal
         visible={transactionManagement.importFlow.importState.showColumnMapping}
-        onDismiss={transactionManagement.importFlow.closeColumnMapping}
+        onDismiss={handleColumnMappingDismiss}
         onConfirm={handleColumnMappingConfirm}
         columns={transactionManagement.importFlow.importState.preview?.columns || []}
         sampleData={transactionManagement.importFlow.importState.preview?.sampleData || []}
         fileName={transactionManagement.importFlow.importState.fileName}
         suggestedMapping={transactionManagement.importFlow.importState.preview?.suggestedMapping}
+        headerFingerprint={transactionManagement.importFlow.importState.preview?.headerFingerprint}
+        matchedProfile={transactionManagement.importFlow.importState.preview?.matchedProfile}
+        sheets={transactionManagement.importFlow.importState.preview?.sheets}
+        pdfLayout={transactionManagement.importFlow.importState.preview?.pdfLayout}
+        onPdfLayoutChange={handlePdfLayoutChange}
+        queuePosition={queuePosition}
+      />
+
+      <ImportProgressDialog
+        fileName={transactionManagement.importFlow.importState.fileName || 'Statement'}
+        progress={transactionManagement.importFlow.importState.parseProgress}
+        queuePosition={queuePosition}
+        onCancel={transactionManagement.importFlow.cancelParsing}
       />
 
       {transactionManagement.archiveConfirmDialog.isOpen && (
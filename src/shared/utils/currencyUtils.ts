@@ -41,23 +41,82 @@ export function formatCurrency(amount: number, currency: string = 'USD', digits?
 export function parseAmountString(amount: string): number {
   if (!amount || typeof amount !== 'string') return 0;
   
-  const cleanAmount = amount.replace(/[^0-9.,-]/g, '');
-  const hasComma = cleanAmount.includes(',');
-  const hasDot = cleanAmount.includes('.');
-  
-  let normalized = cleanAmount;
-  
-  if (hasComma && hasDot) {
-    // Determine decimal separator by position: 1.234,56 vs 1,234.56
-    normalized = cleanAmount.lastIndexOf(',') > cleanAmount.lastIndexOf('.')
-      ? cleanAmount.replace(/\./g, '').replace(',', '.')  // European: 1.234,56
-      : cleanAmount.replace(/,/g, '');                    // US: 1,234.56
-  } else if (hasComma && !hasDot) {
-    normalized = cleanAmount.replace(',', '.');           // Simple: 123,45
+  return parseLocaleAmount(amount).value ?? 0;
+}
+
+export type DecimalSeparator = '.' | ',';
+
+export interface NumberLocale {
+  decimalSeparator?: DecimalSeparator; // Guessed per value when omitted
+  thousandsSeparator?: string; // '' for none; the other of "." and "," when omitted
+}
+
+export interface ParsedAmount {
+  value: number | null;
+  ambiguous: boolean; // The separator could be read either way and was guessed
+}
+
+/**
+ * Parse a formatted number such as "1.234,56", "(1,234.56)" or "-12 345,6 ₴".
+ * Without an explicit decimal separator, a single separator followed by exactly
+ * three digits ("1,234") fits both readings, so the guess is reported as ambiguous.
+ */
+export function parseLocaleAmount(input: string, locale: NumberLocale = {}): ParsedAmount {
+  const text = input.trim();
+  const isNegative = /[-−]/.test(text) || /^\(.*\)$/.test(text);
+  // Spaces, apostrophes, signs and currency symbols carry no digits
+  let body = text.replace(/[^\d.,]/g, '');
+
+  if (!/\d/.test(body)) {
+    return { value: null, ambiguous: false };
   }
-  
-  const result = parseFloat(normalized);
-  return isNaN(result) ? 0 : result;
+
+  const guess = locale.decimalSeparator ? null : guessDecimalSeparator(body);
+  const decimal = locale.decimalSeparator || guess!.separator;
+  const grouping = locale.thousandsSeparator ?? (decimal === '.' ? ',' : '.');
+
+  if (grouping === '.' || grouping === ',') {
+    body = body.split(grouping).join('');
+  }
+
+  // Whatever separators remain must be a single decimal separator
+  const other = decimal === '.' ? ',' : '.';
+  if (body.includes(other) || body.split(decimal).length > 2) {
+    return { value: null, ambiguous: false };
+  }
+
+  const value = parseFloat(body.replace(decimal, '.'));
+  return {
+    value: isNaN(value) ? null : isNegative ? -Math.abs(value) : value,
+    ambiguous: guess?.ambiguous ?? false
+  };
+}
+
+function guessDecimalSeparator(body: string): { separator: DecimalSeparator; ambiguous: boolean } {
+  const lastDot = body.lastIndexOf('.');
+  const lastComma = body.lastIndexOf(',');
+
+  if (lastDot >= 0 && lastComma >= 0) {
+    return { separator: lastDot > lastComma ? '.' : ',', ambiguous: false };
+  }
+  if (lastDot < 0 && lastComma < 0) {
+    return { separator: '.', ambiguous: false };
+  }
+
+  const separator: DecimalSeparator = lastDot >= 0 ? '.' : ',';
+  const opposite: DecimalSeparator = separator === '.' ? ',' : '.';
+  const [integerPart, ...rest] = body.split(separator);
+
+  // Repeated separators only group thousands: 1.234.567
+  if (rest.length > 1) {
+    return { separator: opposite, ambiguous: false };
+  }
+  if (rest[0].length !== 3 || /^0*$/.test(integerPart)) {
+    return { separator, ambiguous: false };
+  }
+
+  // "1,234" reads as a thousand and "1.234" as a decimal, but both could be either
+  return { separator: '.', ambiguous: true };
 }
 
 export function parseCurrency(amount: string | number, currency: string = 'USD'): number {
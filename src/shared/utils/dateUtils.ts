@@ -249,4 +249,85 @@ export function getTimePeriodDisplayText(filters?: { dateRange?: DateRange }): s
     default:
       return 'in total';
   }
-}
\ No newline at end of file
+}
+export const SUPPORTED_DATE_FORMATS = [
+  'DD.MM.YYYY',
+  'MM/DD/YYYY',
+  'YYYY-MM-DD',
+  'DD/MM/YYYY',
+  'MM-DD-YYYY',
+  'DD-MM-YYYY'
+] as const;
+
+/**
+ * Parse the date part of a string using a DD/MM/YY(YY) token pattern, e.g. "MM/DD/YYYY".
+ * Anything after the first whitespace (a time component) is ignored.
+ */
+export function parseDateWithFormat(value: string, pattern: string): Date | null {
+  const datePart = value.trim().split(/\s+/)[0];
+  const tokens: string[] = [];
+
+  const regexSource = pattern
+    .replace(/[.*+?^${}()|[\]\\/-]/g, '\\$&')
+    .replace(/YYYY|YY|MM|DD/g, token => {
+      tokens.push(token);
+      return token === 'YYYY' ? '(\\d{4})' : token === 'YY' ? '(\\d{2})' : '(\\d{1,2})';
+    });
+
+  const match = datePart.match(new RegExp(`^${regexSource}$`));
+  if (!match) return null;
+
+  let year = 0;
+  let month = 0;
+  let day = 0;
+
+  tokens.forEach((token, index) => {
+    const part = parseInt(match[index + 1], 10);
+    if (token === 'YYYY') year = part;
+    else if (token === 'YY') year = part < 50 ? 2000 + part : 1900 + part;
+    else if (token === 'MM') month = part - 1;
+    else day = part;
+  });
+
+  const date = new Date(year, month, day);
+  if (date.getFullYear() !== year || date.getMonth() !== month || date.getDate() !== day) {
+    return null;
+  }
+
+  return date;
+}
+
+export interface ParsedDate {
+  date: Date | null;
+  pattern: string | null; // The pattern that produced date
+  ambiguousWith?: string; // A later pattern that also fits but reads a different date
+}
+
+/**
+ * Parse with the first pattern that fits, e.g. ["DD/MM/YYYY", "MM/DD/YYYY"].
+ * "03/04/2024" fits both with different dates and is reported as ambiguous.
+ */
+export function parseDateWithPatterns(value: string, patterns: readonly string[]): ParsedDate {
+  const matches = patterns
+    .map(pattern => ({ pattern, date: parseDateWithFormat(value, pattern) }))
+    .filter((match): match is { pattern: string; date: Date } => match.date !== null);
+
+  if (matches.length === 0) {
+    return { date: null, pattern: null };
+  }
+
+  const [first] = matches;
+  const conflicting = matches.find(match => match.date.getTime() !== first.date.getTime());
+
+  return { date: first.date, pattern: first.pattern, ambiguousWith: conflicting?.pattern };
+}
+
+/**
+ * Pick the first supported format that parses every sample; null when none fits
+ */
+export function detectDateFormat(samples: string[], candidates: readonly string[] = SUPPORTED_DATE_FORMATS): string | null {
+  const values = samples.map(sample => String(sample || '').trim()).filter(Boolean);
+  if (values.length === 0) return null;
+
+  return candidates.find(pattern => values.every(value => parseDateWithFormat(value, pattern) !== null)) || null;
+}
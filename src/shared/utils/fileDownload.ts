@@ -0,0 +1,24 @@
+import { Platform } from 'react-native';
+
+/**
+ * Trigger a browser download for generated text content.
+ * Returns false on platforms without a DOM, where nothing is downloaded.
+ */
+export function downloadTextFile(content: string, fileName: string, mimeType: string = 'text/plain'): boolean {
+  if (Platform.OS !== 'web' || typeof document === 'undefined') {
+    return false;
+  }
+
+  const blob = new Blob([content], { type: `${mimeType};charset=utf-8` });
+  const url = URL.createObjectURL(blob);
+
+  const link = document.createElement('a');
+  link.href = url;
+  link.download = fileName;
+  document.body.appendChild(link);
+  link.click();
+  document.body.removeChild(link);
+
+  URL.revokeObjectURL(url);
+  return true;
+}
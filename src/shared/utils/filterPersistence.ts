@@ -28,9 +28,19 @@ export const filtersToQueryParams = (filters: TransactionFilters, selectedTimePe
     params.set('categoriesMode', filters.categoriesMode);
   }
   
-  // Cards
-  if (filters.cards && filters.cards.length > 0) {
-    params.set('cards', filters.cards.join(','));
+  // Tags (may contain spaces but not commas, see parseTags)
+  if (filters.tags && filters.tags.length > 0) {
+    params.set('tags', filters.tags.join(','));
+  }
+  
+  // Tags mode
+  if (filters.tagsMode) {
+    params.set('tagsMode', filters.tagsMode);
+  }
+  
+  // Accounts
+  if (filters.accountIds && filters.accountIds.length > 0) {
+    params.set('accounts', filters.accountIds.join(','));
   }
   
   // Income/Expense filter
@@ -80,10 +90,22 @@ export const queryParamsToFilters = (searchParams: URLSearchParams): PersistedFi
     filters.categoriesMode = categoriesMode;
   }
   
-  // Cards
-  const cardsParam = searchParams.get('cards');
-  if (cardsParam) {
-    filters.cards = cardsParam.split(',').filter(Boolean);
+  // Tags
+  const tagsParam = searchParams.get('tags');
+  if (tagsParam) {
+    filters.tags = tagsParam.split(',').filter(Boolean);
+  }
+  
+  // Tags mode
+  const tagsMode = searchParams.get('tagsMode');
+  if (tagsMode === 'include' || tagsMode === 'exclude') {
+    filters.tagsMode = tagsMode;
+  }
+  
+  // Accounts (the older 'cards' parameter held card names and is dropped)
+  const accountsParam = searchParams.get('accounts');
+  if (accountsParam) {
+    filters.accountIds = accountsParam.split(',').filter(Boolean);
   }
   
   // Income/Expense filter
@@ -125,7 +147,7 @@ export const updateUrlWithFilters = (filters: TransactionFilters, selectedTimePe
     const url = new URL(window.location.href);
     
     // Clear existing filter params (removed 'period' from the list)
-    const filterKeys = ['start', 'end', 'categories', 'categoriesMode', 'cards', 'type', 'search', 'minAmount', 'maxAmount'];
+    const filterKeys = ['start', 'end', 'categories', 'categoriesMode', 'tags', 'tagsMode', 'accounts', 'cards', 'type', 'search', 'minAmount', 'maxAmount'];
     filterKeys.forEach(key => url.searchParams.delete(key));
     
     // Add new filter params
@@ -149,7 +171,7 @@ export const loadFiltersFromUrl = (): PersistedFilters | null => {
     const params = new URLSearchParams(window.location.search);
     
     // Check if there are any filter-related params (removed 'period' from the list)
-    const hasFilterParams = ['start', 'end', 'categories', 'cards', 'type', 'search'].some(key => params.has(key));
+    const hasFilterParams = ['start', 'end', 'categories', 'tags', 'accounts', 'type', 'search'].some(key => params.has(key));
     
     if (!hasFilterParams) {
       console.log('📂 No filter parameters found in URL');
@@ -0,0 +1,29 @@
+/**
+ * Fast non-cryptographic 53-bit hash (cyrb53), returned as hex.
+ * Used for stable fingerprints, not for anything security related.
+ */
+function cyrb53(length: number, codeAt: (index: number) => number, seed: number): string {
+  let h1 = 0xdeadbeef ^ seed;
+  let h2 = 0x41c6ce57 ^ seed;
+
+  for (let i = 0; i < length; i++) {
+    const code = codeAt(i);
+    h1 = Math.imul(h1 ^ code, 2654435761);
+    h2 = Math.imul(h2 ^ code, 1597334677);
+  }
+
+  h1 = Math.imul(h1 ^ (h1 >>> 16), 2246822507) ^ Math.imul(h2 ^ (h2 >>> 13), 3266489909);
+  h2 = Math.imul(h2 ^ (h2 >>> 16), 2246822507) ^ Math.imul(h1 ^ (h1 >>> 13), 3266489909);
+
+  const hash = 4294967296 * (2097151 & h2) + (h1 >>> 0);
+  return hash.toString(16).padStart(14, '0');
+}
+
+export function hashString(value: string, seed: number = 0): string {
+  return cyrb53(value.length, index => value.charCodeAt(index), seed);
+}
+
+export function hashBytes(content: ArrayBuffer, seed: number = 0): string {
+  const bytes = new Uint8Array(content);
+  return cyrb53(bytes.length, index => bytes[index], seed);
+}